@@ -0,0 +1,285 @@
+import React from 'react';
+import { StyleSheet, Text, View, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
+import { Clock, Coins, AlertCircle, Edit, Mail, MapPin, CalendarClock, Trash2, ChevronRight } from 'lucide-react-native';
+import { useClientsStore } from '@/store/clientsStore';
+import { useJobsStore } from '@/store/jobsStore';
+import { useBusinessStore } from '@/store/businessStore';
+import { useTheme } from '@/contexts/ThemeContext';
+import EmptyState from '@/components/EmptyState';
+import { getClientCurrency, getClientSummary } from '@/utils/clients';
+import { formatCurrency } from '@/utils/helpers';
+import { formatDateFull, formatDuration } from '@/utils/time';
+
+export default function ClientDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { colors } = useTheme();
+  const { getClient, deleteClient } = useClientsStore();
+  const { jobs, timeEntries, payPeriods, payments, updateJobsForClient } = useJobsStore();
+  const { taxSettings } = useBusinessStore();
+
+  const client = id && typeof id === 'string' ? getClient(id) : undefined;
+
+  const summary = React.useMemo(() => {
+    return client ? getClientSummary(client, jobs, timeEntries, payPeriods, payments) : null;
+  }, [client, jobs, timeEntries, payPeriods, payments]);
+
+  const { currency, currencySymbol } = getClientCurrency(client, taxSettings);
+  const money = (amount: number) => formatCurrency(amount, currency, currencySymbol);
+
+  const handleDelete = React.useCallback(() => {
+    if (!client) return;
+
+    Alert.alert(
+      "Delete Client",
+      "Jobs for this client are kept and will show the client's name without its billing details.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => {
+            router.replace('/client');
+            updateJobsForClient(client.id, null);
+            deleteClient(client.id);
+          }
+        }
+      ]
+    );
+  }, [client, deleteClient, updateJobsForClient, router]);
+
+  const styles = createStyles(colors);
+
+  if (!client || !summary) {
+    return (
+      <EmptyState
+        title="Client not found"
+        message="The client you're looking for doesn't exist"
+        actionLabel="Go Back"
+        onAction={() => router.back()}
+      />
+    );
+  }
+
+  const paymentTerms = client.paymentTermsDays === undefined
+    ? null
+    : client.paymentTermsDays === 0 ? 'Due on receipt' : `Net ${client.paymentTermsDays}`;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: client.name,
+          headerRight: () => (
+            <TouchableOpacity onPress={() => router.push(`/client/edit/${client.id}`)} style={styles.headerButton}>
+              <Edit size={20} color={colors.primary} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <View style={styles.section}>
+          {client.email ? (
+            <View style={styles.detailRow}>
+              <Mail size={18} color={colors.subtext} />
+              <Text style={styles.detailText}>{client.email}</Text>
+            </View>
+          ) : null}
+          {client.address ? (
+            <View style={styles.detailRow}>
+              <MapPin size={18} color={colors.subtext} />
+              <Text style={styles.detailText}>{client.address}</Text>
+            </View>
+          ) : null}
+          <View style={styles.detailRow}>
+            <CalendarClock size={18} color={colors.subtext} />
+            <Text style={styles.detailText}>
+              {[paymentTerms, client.defaultRate ? `${money(client.defaultRate)}/hr` : null, currency]
+                .filter(Boolean)
+                .join(' · ')}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.statsContainer}>
+          <View style={styles.statCard}>
+            <Clock size={20} color={colors.primary} />
+            <Text style={styles.statValue}>{formatDuration(summary.totalDuration)}</Text>
+            <Text style={styles.statLabel}>Total Time</Text>
+          </View>
+          <View style={styles.statCard}>
+            <Coins size={20} color={colors.primary} />
+            <Text style={styles.statValue}>{money(summary.totalEarnings)}</Text>
+            <Text style={styles.statLabel}>Total Earnings</Text>
+          </View>
+          <View style={styles.statCard}>
+            <AlertCircle size={20} color={summary.unpaidBalance > 0 ? colors.warning : colors.success} />
+            <Text style={styles.statValue}>{money(summary.unpaidBalance)}</Text>
+            <Text style={styles.statLabel}>Unpaid</Text>
+          </View>
+        </View>
+
+        {summary.lastWorkedAt !== null && (
+          <Text style={styles.lastWorked}>Last worked {formatDateFull(summary.lastWorkedAt)}</Text>
+        )}
+
+        <Text style={styles.sectionTitle}>Jobs</Text>
+        {summary.jobs.length === 0 ? (
+          <Text style={styles.emptyText}>No jobs for this client yet.</Text>
+        ) : (
+          summary.jobs.map(item => (
+            <TouchableOpacity
+              key={item.job.id}
+              style={styles.jobRow}
+              onPress={() => router.push(`/job/${item.job.id}`)}
+            >
+              <View style={[styles.colorIndicator, { backgroundColor: item.job.color }]} />
+              <View style={styles.jobContent}>
+                <Text style={styles.jobName}>{item.job.name}</Text>
+                <Text style={styles.jobMeta}>
+                  {formatDuration(item.totalDuration)} · {money(item.totalEarnings)}
+                </Text>
+              </View>
+              {item.unpaidEarnings > 0 && (
+                <Text style={styles.jobUnpaid}>{money(item.unpaidEarnings)} due</Text>
+              )}
+              <ChevronRight size={18} color={colors.subtext} />
+            </TouchableOpacity>
+          ))
+        )}
+
+        <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+          <Trash2 size={18} color={colors.danger} />
+          <Text style={styles.deleteButtonText}>Delete Client</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.surface,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  headerButton: {
+    padding: 8,
+  },
+  section: {
+    backgroundColor: colors.background,
+    borderRadius: 20,
+    padding: 20,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: 12,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  detailText: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.text,
+    lineHeight: 21,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 12,
+  },
+  statCard: {
+    flex: 1,
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 14,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: 6,
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: colors.subtext,
+    fontWeight: '500',
+  },
+  lastWorked: {
+    fontSize: 13,
+    color: colors.subtext,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginTop: 8,
+    marginBottom: 12,
+    letterSpacing: -0.3,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: colors.subtext,
+    marginBottom: 16,
+  },
+  jobRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: 12,
+  },
+  colorIndicator: {
+    width: 6,
+    alignSelf: 'stretch',
+    borderRadius: 3,
+  },
+  jobContent: {
+    flex: 1,
+  },
+  jobName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 2,
+  },
+  jobMeta: {
+    fontSize: 14,
+    color: colors.subtext,
+  },
+  jobUnpaid: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.warning,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 24,
+    paddingVertical: 14,
+  },
+  deleteButtonText: {
+    color: colors.danger,
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,61 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
+import { useClientsStore } from '@/store/clientsStore';
+import { useJobsStore } from '@/store/jobsStore';
+import ClientForm, { ClientFormValues } from '@/components/ClientForm';
+import EmptyState from '@/components/EmptyState';
+import { useTheme } from '@/contexts/ThemeContext';
+
+export default function EditClientScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { colors } = useTheme();
+  const { getClient, updateClient } = useClientsStore();
+  const { updateJobsForClient } = useJobsStore();
+  
+  const client = id && typeof id === 'string' ? getClient(id) : undefined;
+  
+  const handleSubmit = React.useCallback((values: ClientFormValues) => {
+    if (!client) return;
+    
+    try {
+      updateClient(client.id, values);
+      updateJobsForClient(client.id, values.name);
+      router.back();
+    } catch (error) {
+      console.error('Error updating client:', error);
+    }
+  }, [client, updateClient, updateJobsForClient, router]);
+  
+  if (!client) {
+    return (
+      <EmptyState
+        title="Client not found"
+        message="The client you are trying to edit does not exist"
+        actionLabel="Go Back"
+        onAction={() => router.back()}
+      />
+    );
+  }
+  
+  return (
+    <>
+      <Stack.Screen options={{ title: "Edit Client" }} />
+      
+      <View style={[styles.container, { backgroundColor: colors.surface }]}>
+        <ClientForm
+          initialValues={client}
+          onSubmit={handleSubmit}
+          submitButtonText="Save Changes"
+        />
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
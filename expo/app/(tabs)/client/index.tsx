@@ -0,0 +1,132 @@
+import React from 'react';
+import { StyleSheet, Text, View, FlatList, TouchableOpacity } from 'react-native';
+import { useRouter, Stack } from 'expo-router';
+import { Plus, Users, ChevronRight } from 'lucide-react-native';
+import { useClientsStore } from '@/store/clientsStore';
+import { useJobsStore } from '@/store/jobsStore';
+import { useBusinessStore } from '@/store/businessStore';
+import { useTheme } from '@/contexts/ThemeContext';
+import EmptyState from '@/components/EmptyState';
+import { getClientCurrency, getClientSummary } from '@/utils/clients';
+import { formatCurrency } from '@/utils/helpers';
+import { formatDuration } from '@/utils/time';
+
+export default function ClientsScreen() {
+  const router = useRouter();
+  const { colors } = useTheme();
+  const { clients } = useClientsStore();
+  const { jobs, timeEntries, payPeriods, payments } = useJobsStore();
+  const { taxSettings } = useBusinessStore();
+
+  const rows = React.useMemo(() => {
+    return [...clients]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(client => ({ client, summary: getClientSummary(client, jobs, timeEntries, payPeriods, payments) }));
+  }, [clients, jobs, timeEntries, payPeriods, payments]);
+
+  const styles = createStyles(colors);
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Clients',
+          headerRight: () => (
+            <TouchableOpacity onPress={() => router.push('/client/new')} style={styles.headerButton}>
+              <Plus size={22} color={colors.primary} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      {rows.length === 0 ? (
+        <EmptyState
+          title="No clients yet"
+          message="Add a client to keep their billing details and see totals across their jobs"
+          actionLabel="Add Client"
+          onAction={() => router.push('/client/new')}
+          icon={<Users size={48} color={colors.subtext} />}
+        />
+      ) : (
+        <FlatList
+          style={styles.container}
+          contentContainerStyle={styles.listContent}
+          data={rows}
+          keyExtractor={item => item.client.id}
+          renderItem={({ item }) => {
+            const { currency, currencySymbol } = getClientCurrency(item.client, taxSettings);
+            return (
+              <TouchableOpacity style={styles.card} onPress={() => router.push(`/client/${item.client.id}`)}>
+                <View style={styles.cardContent}>
+                  <Text style={styles.name}>{item.client.name}</Text>
+                  <Text style={styles.meta}>
+                    {item.summary.jobs.length} {item.summary.jobs.length === 1 ? 'job' : 'jobs'} · {formatDuration(item.summary.totalDuration)}
+                  </Text>
+                </View>
+                <View style={styles.balance}>
+                  <Text style={[styles.balanceValue, item.summary.unpaidBalance > 0 && styles.balanceDue]}>
+                    {formatCurrency(item.summary.unpaidBalance, currency, currencySymbol)}
+                  </Text>
+                  <Text style={styles.balanceLabel}>unpaid</Text>
+                </View>
+                <ChevronRight size={20} color={colors.subtext} />
+              </TouchableOpacity>
+            );
+          }}
+        />
+      )}
+    </>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.surface,
+  },
+  listContent: {
+    padding: 20,
+    gap: 12,
+  },
+  headerButton: {
+    padding: 8,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    gap: 12,
+  },
+  cardContent: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 17,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  meta: {
+    fontSize: 14,
+    color: colors.subtext,
+  },
+  balance: {
+    alignItems: 'flex-end',
+  },
+  balanceValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  balanceDue: {
+    color: colors.warning,
+  },
+  balanceLabel: {
+    fontSize: 12,
+    color: colors.subtext,
+  },
+});
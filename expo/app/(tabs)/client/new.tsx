@@ -0,0 +1,37 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { useRouter, Stack } from 'expo-router';
+import { useClientsStore } from '@/store/clientsStore';
+import ClientForm, { ClientFormValues } from '@/components/ClientForm';
+import { useTheme } from '@/contexts/ThemeContext';
+
+export default function NewClientScreen() {
+  const router = useRouter();
+  const { colors } = useTheme();
+  const { addClient } = useClientsStore();
+  
+  const handleSubmit = React.useCallback((values: ClientFormValues) => {
+    try {
+      const clientId = addClient(values);
+      router.replace(`/client/${clientId}`);
+    } catch (error) {
+      console.error('Error creating client:', error);
+    }
+  }, [addClient, router]);
+  
+  return (
+    <>
+      <Stack.Screen options={{ title: "New Client" }} />
+      
+      <View style={[styles.container, { backgroundColor: colors.surface }]}>
+        <ClientForm onSubmit={handleSubmit} submitButtonText="Create Client" />
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Stack } from 'expo-router';
+import { useTheme } from '@/contexts/ThemeContext';
+
+export default function ExpenseLayout() {
+  const { colors } = useTheme();
+  
+  return (
+    <Stack
+      screenOptions={{
+        headerShown: true,
+        headerStyle: {
+          backgroundColor: colors.background,
+        },
+        headerTintColor: colors.primary,
+        headerTitleStyle: {
+          color: colors.text,
+          fontWeight: '600',
+        },
+        headerShadowVisible: true,
+      }}
+    >
+      <Stack.Screen
+        name="new/[jobId]"
+        options={{
+          title: 'Add Expense',
+          presentation: 'modal',
+          gestureEnabled: true,
+        }}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Alert, StyleSheet, View } from 'react-native';
+import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
+import { useJobsStore } from '@/store/jobsStore';
+import ExpenseForm, { ExpenseFormValues } from '@/components/ExpenseForm';
+import EmptyState from '@/components/EmptyState';
+import { useTheme } from '@/contexts/ThemeContext';
+import { resolveTimeZone } from '@/utils/timezone';
+import { uploadReceipt } from '@/lib/receipts';
+
+export default function NewExpenseScreen() {
+  const { jobId } = useLocalSearchParams<{ jobId: string }>();
+  const router = useRouter();
+  const { colors } = useTheme();
+  const { getJobById, addExpense, updateExpense } = useJobsStore();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const job = jobId ? getJobById(jobId) : undefined;
+
+  const handleSubmit = React.useCallback(async (values: ExpenseFormValues, receiptUri: string | null) => {
+    if (!job) return;
+
+    let expenseId: string;
+    try {
+      expenseId = addExpense({ ...values, jobId: job.id });
+    } catch (error: any) {
+      console.error('Error adding expense:', error);
+      Alert.alert('Error', error?.message || 'Failed to add expense.');
+      return;
+    }
+
+    // The expense is kept even if the receipt can't be uploaded
+    if (receiptUri) {
+      setIsSubmitting(true);
+      try {
+        const receiptPath = await uploadReceipt(expenseId, receiptUri);
+        updateExpense(expenseId, { receiptPath });
+      } catch (error: any) {
+        console.error('Error uploading receipt:', error);
+        Alert.alert('Receipt Not Uploaded', 'The expense was saved, but its receipt could not be uploaded.');
+      } finally {
+        setIsSubmitting(false);
+      }
+    }
+
+    router.navigate(`/(tabs)/job/${job.id}`);
+  }, [job, addExpense, updateExpense, router]);
+
+  if (!job) {
+    return (
+      <EmptyState
+        title="Job not found"
+        message="The job you are trying to add an expense to does not exist"
+        actionLabel="Go Back"
+        onAction={() => router.replace('/(tabs)/jobs')}
+      />
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen options={{ title: "Add Expense" }} />
+
+      <View style={[styles.container, { backgroundColor: colors.surface }]}>
+        <ExpenseForm
+          job={job}
+          timeZone={resolveTimeZone(job.settings?.billingTimeZone)}
+          isSubmitting={isSubmitting}
+          onSubmit={handleSubmit}
+          onCancel={() => router.back()}
+        />
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
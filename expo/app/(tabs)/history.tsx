@@ -2,11 +2,12 @@ import React, { useState } from 'react';
 import { StyleSheet, Text, View, FlatList, TouchableOpacity, Alert } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
-import { Clock, CheckCircle, AlertCircle } from 'lucide-react-native';
+import { Clock, CheckCircle, AlertCircle, Download } from 'lucide-react-native';
 import { useJobsStore } from '@/store/jobsStore';
 import { useAuth } from '@/contexts/AuthContext';
 import TimeEntryCard from '@/components/TimeEntryCard';
 import EmptyState from '@/components/EmptyState';
+import ExportModal from '@/components/ExportModal';
 import { useTheme } from '@/contexts/ThemeContext';
 
 export default function HistoryScreen() {
@@ -14,6 +15,7 @@ export default function HistoryScreen() {
   const store = useJobsStore();
   const insets = useSafeAreaInsets();
   const [filterPaid, setFilterPaid] = useState<boolean | null>(null); // null = all, true = paid, false = unpaid
+  const [showExportModal, setShowExportModal] = useState(false);
   const { colors } = useTheme();
   const { user } = useAuth();
   const refreshing = store.isLoading;
@@ -54,8 +56,9 @@ export default function HistoryScreen() {
               if (entryId) {
                 store.deleteTimeEntry(entryId);
               }
-            } catch (error) {
+            } catch (error: any) {
               console.error('Error deleting time entry:', error);
+              Alert.alert('Cannot Delete', error?.message || 'Failed to delete time entry.');
             }
           },
           style: "destructive"
@@ -104,7 +107,12 @@ export default function HistoryScreen() {
   return (
     <View style={styles.container}>
       <View style={[styles.header, { paddingTop: insets.top + 20 }]}>
-        <Text style={styles.title}>Time History</Text>
+        <View style={styles.titleRow}>
+          <Text style={styles.title}>Time History</Text>
+          <TouchableOpacity style={styles.exportButton} onPress={() => setShowExportModal(true)}>
+            <Download size={20} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
         
         <View style={styles.filterContainer}>
           <TouchableOpacity
@@ -174,6 +182,11 @@ export default function HistoryScreen() {
           icon={<Clock size={40} color={colors.inactive} />}
         />
       )}
+      
+      <ExportModal
+        visible={showExportModal}
+        onClose={() => setShowExportModal(false)}
+      />
     </View>
   );
 }
@@ -195,13 +208,23 @@ const createStyles = (colors: any) => StyleSheet.create({
     shadowRadius: 8,
     elevation: 2,
   },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
   title: {
     fontSize: 28,
     fontWeight: '800',
     color: colors.text,
-    marginBottom: 16,
     letterSpacing: -0.5,
   },
+  exportButton: {
+    padding: 10,
+    borderRadius: 14,
+    backgroundColor: colors.primaryLight,
+  },
   filterContainer: {
     flexDirection: 'row',
     gap: 8,
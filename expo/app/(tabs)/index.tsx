@@ -2,12 +2,16 @@ import React from 'react';
 import { StyleSheet, Text, View, ScrollView, TouchableOpacity, RefreshControl } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
-import { Clock, Coins, Briefcase, Plus, Timer, CheckCircle, AlertCircle, TrendingUp } from 'lucide-react-native';
+import { Clock, Coins, Briefcase, Plus, Timer, CheckCircle, AlertCircle, TrendingUp, ChevronRight } from 'lucide-react-native';
 import { useJobsStore } from '@/store/jobsStore';
 import { useBusinessStore } from '@/store/businessStore';
 import { useAuth } from '@/contexts/AuthContext';
 import { formatDuration } from '@/utils/time';
 import { formatCurrency } from '@/utils/helpers';
+import { getPaidAmount } from '@/utils/payments';
+import { getJobMilestones, getMilestoneEarnings, isMilestoneOverdue } from '@/utils/billing';
+import { getTaxQuarterStarts, getTaxReceipts, getTaxYear, getTaxYearRange, summarizeTaxReceipts } from '@/utils/tax';
+import { resolveTimeZone } from '@/utils/timezone';
 import StatCard from '@/components/StatCard';
 import JobCard from '@/components/JobCard';
 import EmptyState from '@/components/EmptyState';
@@ -76,19 +80,39 @@ export default function DashboardScreen() {
   // Calculate total paid and unpaid earnings
   const totalPaidEarnings = React.useMemo(() => {
     try {
-      return Array.isArray(store.payPeriods) ? store.payPeriods
-        .filter(period => period && period.isPaid)
-        .reduce((total, period) => total + (period?.totalEarnings || 0), 0) : 0;
+      return Array.isArray(store.payPeriods) ? getPaidAmount(store.payPeriods.filter(Boolean), store.payments) : 0;
     } catch (error) {
       console.error('Error calculating paid earnings:', error);
       return 0;
     }
-  }, [store.payPeriods]);
+  }, [store.payPeriods, store.payments]);
   
   const totalUnpaidEarnings = React.useMemo(() => {
     return Math.max(0, totalEarnings - totalPaidEarnings);
   }, [totalEarnings, totalPaidEarnings]);
   
+  // Fixed-price and milestone work that hasn't been earned yet
+  const pendingMilestones = React.useMemo(() => {
+    let amount = 0;
+    let overdue = 0;
+    store.jobs.forEach(job => {
+      const milestones = getJobMilestones(job);
+      amount += milestones.reduce((total, milestone) => total + milestone.amount, 0) - getMilestoneEarnings(job);
+      overdue += milestones.filter(milestone => isMilestoneOverdue(milestone)).length;
+    });
+    return { amount, overdue };
+  }, [store.jobs]);
+  
+  // What's been received this tax year, split into what to keep and what to put aside
+  const taxYearSummary = React.useMemo(() => {
+    const starts = getTaxQuarterStarts(taxSettings);
+    const timeZone = resolveTimeZone();
+    const { start, end } = getTaxYearRange(getTaxYear(Date.now(), starts, timeZone), starts, timeZone);
+    const receipts = getTaxReceipts(store.jobs, store.payPeriods, store.payments, taxSettings)
+      .filter(receipt => receipt.date >= start && receipt.date <= end);
+    return summarizeTaxReceipts(receipts);
+  }, [store.jobs, store.payPeriods, store.payments, taxSettings]);
+  
   // Pre-calculate paid earnings for all jobs to avoid state updates during render
   const jobPaidEarnings = React.useMemo(() => {
     const earnings: Record<string, number> = {};
@@ -246,6 +270,37 @@ export default function DashboardScreen() {
               </View>
             </View>
           </View>
+          {pendingMilestones.amount > 0 && (
+            <Text style={styles.pendingMilestones}>
+              {formatCurrency(pendingMilestones.amount, taxSettings.currency, taxSettings.currencySymbol)} still to earn from fixed-price and milestone work
+              {pendingMilestones.overdue > 0 && (
+                <Text style={styles.pendingMilestonesOverdue}> · {pendingMilestones.overdue} overdue</Text>
+              )}
+            </Text>
+          )}
+          
+          <TouchableOpacity style={styles.taxPlanning} onPress={() => router.push('/settings/tax-report')}>
+            <View style={styles.taxPlanningHeader}>
+              <Text style={styles.taxPlanningTitle}>Take-home vs set-aside this tax year</Text>
+              <ChevronRight size={18} color={colors.subtext} />
+            </View>
+            <View style={styles.taxSplitBar}>
+              {taxYearSummary.received > 0 && (
+                <>
+                  <View style={[styles.taxSplitSegment, { flex: taxYearSummary.takeHome, backgroundColor: colors.success }]} />
+                  <View style={[styles.taxSplitSegment, { flex: taxYearSummary.setAside, backgroundColor: colors.warning }]} />
+                </>
+              )}
+            </View>
+            <View style={styles.taxPlanningValues}>
+              <Text style={[styles.taxPlanningValue, { color: colors.success }]}>
+                {formatCurrency(taxYearSummary.takeHome, taxSettings.currency, taxSettings.currencySymbol)} take-home
+              </Text>
+              <Text style={[styles.taxPlanningValue, { color: colors.warning }]}>
+                {formatCurrency(taxYearSummary.setAside, taxSettings.currency, taxSettings.currencySymbol)} set aside
+              </Text>
+            </View>
+          </TouchableOpacity>
         </View>
         
         <View style={styles.section}>
@@ -410,6 +465,51 @@ const createStyles = (colors: any) => StyleSheet.create({
   paidCard: {
     backgroundColor: colors.success + '10',
   },
+  taxPlanning: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  taxPlanningHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  taxPlanningTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  taxSplitBar: {
+    flexDirection: 'row',
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+    backgroundColor: colors.border,
+  },
+  taxSplitSegment: {
+    height: '100%',
+  },
+  taxPlanningValues: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  taxPlanningValue: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  pendingMilestones: {
+    fontSize: 13,
+    color: colors.subtext,
+    marginTop: 12,
+  },
+  pendingMilestonesOverdue: {
+    color: colors.danger,
+    fontWeight: '600',
+  },
   unpaidCard: {
     backgroundColor: colors.warning + '10',
   },
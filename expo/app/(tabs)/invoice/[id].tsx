@@ -1,22 +1,102 @@
 import React from 'react';
-import { StyleSheet, View } from 'react-native';
-import { useRouter } from 'expo-router';
+import { StyleSheet, View, Text, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { ArrowLeft, FileText, Trash2 } from 'lucide-react-native';
 import EmptyState from '@/components/EmptyState';
-import { FileText } from 'lucide-react-native';
+import InvoicePreview from '@/components/InvoicePreview';
 import Colors from '@/constants/colors';
+import { useInvoiceStore } from '@/store/invoiceStore';
+import { InvoiceStatus } from '@/types';
+import { getInvoiceDisplayStatus } from '@/utils/invoice';
 
 export default function InvoiceDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
-  
+  const insets = useSafeAreaInsets();
+  const { invoices, updateInvoiceStatus, deleteInvoice } = useInvoiceStore();
+
+  const invoice = invoices.find(item => item.id === id);
+
+  if (!invoice) {
+    return (
+      <View style={styles.container}>
+        <EmptyState
+          title="Invoice not found"
+          message="This invoice may have been deleted."
+          actionLabel="Go Back"
+          onAction={() => router.back()}
+          icon={<FileText size={40} color={Colors.light.inactive} />}
+        />
+      </View>
+    );
+  }
+
+  const status = getInvoiceDisplayStatus(invoice);
+
+  const handleStatusChange = (next: InvoiceStatus) => {
+    updateInvoiceStatus(invoice.id, next);
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Invoice',
+      `Are you sure you want to delete ${invoice.invoiceNumber}? The billed time will become available to invoice again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            deleteInvoice(invoice.id);
+            router.back();
+          }
+        }
+      ]
+    );
+  };
+
   return (
     <View style={styles.container}>
-      <EmptyState
-        title="Coming Soon"
-        message="Invoice functionality will be available in a future update."
-        actionLabel="Go Back"
-        onAction={() => router.back()}
-        icon={<FileText size={40} color={Colors.light.inactive} />}
-      />
+      <View style={[styles.header, { paddingTop: insets.top + 8 }]}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => router.back()}>
+          <ArrowLeft size={24} color={Colors.light.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{invoice.invoiceNumber}</Text>
+        <TouchableOpacity style={styles.headerButton} onPress={handleDelete}>
+          <Trash2 size={22} color={Colors.light.danger} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.statusRow}>
+          <Text style={styles.statusLabel}>Status</Text>
+          <Text style={styles.statusValue}>{status}</Text>
+        </View>
+
+        <InvoicePreview invoice={invoice} />
+
+        <View style={styles.actions}>
+          {invoice.status === 'draft' && (
+            <TouchableOpacity style={styles.primaryButton} onPress={() => handleStatusChange('sent')}>
+              <Text style={styles.primaryButtonText}>Mark as Sent</Text>
+            </TouchableOpacity>
+          )}
+          {invoice.status !== 'paid' && (
+            <TouchableOpacity
+              style={[styles.primaryButton, styles.successButton]}
+              onPress={() => handleStatusChange('paid')}
+            >
+              <Text style={styles.primaryButtonText}>Mark as Paid</Text>
+            </TouchableOpacity>
+          )}
+          {invoice.status !== 'draft' && (
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => handleStatusChange('draft')}>
+              <Text style={styles.secondaryButtonText}>Revert to Draft</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
     </View>
   );
 }
@@ -26,4 +106,71 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#F7F9FC',
   },
-});
\ No newline at end of file
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    backgroundColor: '#FFFFFF',
+  },
+  headerButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.light.text,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 48,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  statusLabel: {
+    fontSize: 14,
+    color: Colors.light.subtext,
+  },
+  statusValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.light.text,
+    textTransform: 'capitalize',
+  },
+  actions: {
+    marginTop: 16,
+    gap: 12,
+  },
+  primaryButton: {
+    backgroundColor: Colors.light.primary,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  successButton: {
+    backgroundColor: Colors.light.success,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  secondaryButton: {
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+    backgroundColor: '#FFFFFF',
+  },
+  secondaryButtonText: {
+    color: Colors.light.text,
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
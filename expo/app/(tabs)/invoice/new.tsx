@@ -1,23 +1,387 @@
-import React from 'react';
-import { StyleSheet, View } from 'react-native';
-import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, ScrollView, TouchableOpacity, TextInput, Alert } from 'react-native';
+import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
+import { CheckSquare, Square, FileText } from 'lucide-react-native';
 import EmptyState from '@/components/EmptyState';
-import { FileText } from 'lucide-react-native';
 import Colors from '@/constants/colors';
+import { useJobsStore } from '@/store/jobsStore';
+import { useInvoiceStore } from '@/store/invoiceStore';
+import { useBusinessStore } from '@/store/businessStore';
+import { useClientsStore } from '@/store/clientsStore';
+import { formatCurrency } from '@/utils/helpers';
+import { formatDate, formatDuration, formatPayPeriodRange, formatTime, getEntryBillableDuration } from '@/utils/time';
+import { buildInvoiceItems, calculateInvoiceTotals, getInvoicedExpenseIds } from '@/utils/invoice';
+import { getExpenseTitle } from '@/utils/expenses';
+import { isEntryBillable } from '@/utils/earnings';
+import { getBillingModelLabel, getContractValue } from '@/utils/billing';
+import { Job } from '@/types';
+
+type SourceMode = 'entries' | 'periods';
 
 export default function CreateInvoiceScreen() {
+  const { jobId } = useLocalSearchParams<{ jobId?: string }>();
   const router = useRouter();
-  
-  return (
-    <View style={styles.container}>
+  const { jobs, timeEntries, payPeriods, expenses } = useJobsStore();
+  const { invoices, createInvoice } = useInvoiceStore();
+  const { taxSettings } = useBusinessStore();
+  const { findClientByName } = useClientsStore();
+
+  const initialJob = jobs.find(job => job.id === jobId) ?? jobs[0];
+  // Billing details come from the saved client when there is one
+  const initialClient = initialJob ? findClientByName(initialJob.client) : undefined;
+
+  const [clientName, setClientName] = useState(initialJob?.client ?? '');
+  const [selectedJobIds, setSelectedJobIds] = useState<string[]>(initialJob ? [initialJob.id] : []);
+  const [mode, setMode] = useState<SourceMode>('entries');
+  const [selectedEntryIds, setSelectedEntryIds] = useState<string[]>([]);
+  const [selectedPeriodIds, setSelectedPeriodIds] = useState<string[]>([]);
+  const [selectedExpenseIds, setSelectedExpenseIds] = useState<string[]>([]);
+  const [clientEmail, setClientEmail] = useState(initialClient?.email ?? '');
+  const [clientAddress, setClientAddress] = useState(initialClient?.address ?? '');
+  const [dueInDays, setDueInDays] = useState(String(initialClient?.paymentTermsDays ?? 30));
+  const [notes, setNotes] = useState('');
+
+  const clients = React.useMemo(() => {
+    return Array.from(new Set(jobs.map(job => job.client.trim()))).sort();
+  }, [jobs]);
+
+  const clientJobs = React.useMemo(() => {
+    return jobs.filter(job => job.client.trim() === clientName);
+  }, [jobs, clientName]);
+
+  const invoicedEntryIds = React.useMemo(() => {
+    return useInvoiceStore.getState().getInvoicedTimeEntryIds();
+  }, [invoices]);
+
+  const invoicedPeriodIds = React.useMemo(() => {
+    return useInvoiceStore.getState().getInvoicedPayPeriodIds();
+  }, [invoices]);
+
+  const availableEntries = React.useMemo(() => {
+    return timeEntries
+      .filter(entry =>
+        selectedJobIds.includes(entry.jobId) &&
+        entry.endTime !== null &&
+        isEntryBillable(entry) &&
+        !entry.paidInPeriodId &&
+        !invoicedEntryIds.has(entry.id)
+      )
+      .sort((a, b) => b.startTime - a.startTime);
+  }, [timeEntries, selectedJobIds, invoicedEntryIds]);
+
+  const availableExpenses = React.useMemo(() => {
+    const invoicedExpenseIds = getInvoicedExpenseIds(invoices);
+    return expenses
+      .filter(expense =>
+        selectedJobIds.includes(expense.jobId) &&
+        expense.billable &&
+        !invoicedExpenseIds.has(expense.id)
+      )
+      .sort((a, b) => b.date - a.date);
+  }, [expenses, selectedJobIds, invoices]);
+
+  const availablePeriods = React.useMemo(() => {
+    return payPeriods
+      .filter(period =>
+        selectedJobIds.includes(period.jobId) &&
+        !period.isPaid &&
+        !invoicedPeriodIds.has(period.id) &&
+        !period.timeEntryIds.some(id => invoicedEntryIds.has(id))
+      )
+      .sort((a, b) => b.startDate - a.startDate);
+  }, [payPeriods, selectedJobIds, invoicedPeriodIds, invoicedEntryIds]);
+
+  const selectedJobs = React.useMemo(() => {
+    return jobs.filter(job => selectedJobIds.includes(job.id));
+  }, [jobs, selectedJobIds]);
+
+  const selectedEntries = mode === 'entries'
+    ? availableEntries.filter(entry => selectedEntryIds.includes(entry.id))
+    : [];
+  const selectedPeriods = mode === 'periods'
+    ? availablePeriods.filter(period => selectedPeriodIds.includes(period.id))
+    : [];
+  const selectedExpenses = availableExpenses.filter(expense => selectedExpenseIds.includes(expense.id));
+
+  const totals = React.useMemo(() => {
+    const items = buildInvoiceItems(selectedJobs, selectedEntries, selectedPeriods, selectedExpenses);
+    return calculateInvoiceTotals(items, taxSettings.defaultTaxRate || 0);
+  }, [selectedJobs, selectedEntries, selectedPeriods, selectedExpenses, taxSettings.defaultTaxRate]);
+
+  const money = (amount: number) => formatCurrency(amount, taxSettings.currency, taxSettings.currencySymbol);
+  const getJobRateLabel = (job: Job) => {
+    const contractValue = getContractValue(job);
+    if (contractValue === null) return `${money(job.hourlyRate)}/hr`;
+    return `${getBillingModelLabel(job)} · ${money(contractValue)}`;
+  };
+
+  const handleSelectClient = (client: string) => {
+    setClientName(client);
+    setSelectedJobIds(jobs.filter(job => job.client.trim() === client).map(job => job.id));
+    setSelectedEntryIds([]);
+    setSelectedPeriodIds([]);
+    setSelectedExpenseIds([]);
+
+    const savedClient = findClientByName(client);
+    setClientEmail(savedClient?.email ?? '');
+    setClientAddress(savedClient?.address ?? '');
+    if (savedClient?.paymentTermsDays !== undefined) {
+      setDueInDays(String(savedClient.paymentTermsDays));
+    }
+  };
+
+  const toggleId = (ids: string[], id: string) => {
+    return ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id];
+  };
+
+  const handleToggleJob = (id: string) => {
+    setSelectedJobIds(current => toggleId(current, id));
+    setSelectedEntryIds([]);
+    setSelectedPeriodIds([]);
+    setSelectedExpenseIds([]);
+  };
+
+  const handleSelectAll = () => {
+    if (mode === 'entries') {
+      setSelectedEntryIds(availableEntries.map(entry => entry.id));
+    } else {
+      setSelectedPeriodIds(availablePeriods.map(period => period.id));
+    }
+  };
+
+  const handleCreate = () => {
+    try {
+      const invoiceId = createInvoice({
+        jobs: selectedJobs,
+        timeEntries: selectedEntries,
+        payPeriods: selectedPeriods,
+        expenses: selectedExpenses,
+        clientEmail,
+        clientAddress,
+        dueInDays: parseInt(dueInDays, 10) || 0,
+        notes,
+      });
+      router.replace(`/invoice/${invoiceId}`);
+    } catch (error: any) {
+      Alert.alert('Cannot Create Invoice', error?.message || 'Failed to create invoice.');
+    }
+  };
+
+  if (jobs.length === 0) {
+    return (
       <EmptyState
-        title="Coming Soon"
-        message="Invoice creation will be available in a future update."
+        title="No jobs yet"
+        message="Add a job and track some time before creating an invoice."
         actionLabel="Go Back"
         onAction={() => router.back()}
         icon={<FileText size={40} color={Colors.light.inactive} />}
       />
-    </View>
+    );
+  }
+
+  const hasSelection = selectedEntries.length > 0 || selectedPeriods.length > 0 || selectedExpenses.length > 0;
+
+  return (
+    <>
+      <Stack.Screen options={{ title: 'Create Invoice' }} />
+
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Client</Text>
+          <View style={styles.chipRow}>
+            {clients.map(client => (
+              <TouchableOpacity
+                key={client}
+                style={[styles.chip, client === clientName && styles.chipActive]}
+                onPress={() => handleSelectClient(client)}
+              >
+                <Text style={[styles.chipText, client === clientName && styles.chipTextActive]}>{client}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Jobs</Text>
+          {clientJobs.map(job => (
+            <TouchableOpacity key={job.id} style={styles.selectRow} onPress={() => handleToggleJob(job.id)}>
+              {selectedJobIds.includes(job.id)
+                ? <CheckSquare size={20} color={Colors.light.primary} />
+                : <Square size={20} color={Colors.light.subtext} />}
+              <View style={[styles.colorDot, { backgroundColor: job.color || Colors.light.primary }]} />
+              <Text style={styles.selectText}>{job.name}</Text>
+              <Text style={styles.selectMeta}>{getJobRateLabel(job)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Bill</Text>
+            <TouchableOpacity onPress={handleSelectAll}>
+              <Text style={styles.linkText}>Select All</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.segmented}>
+            <TouchableOpacity
+              style={[styles.segment, mode === 'entries' && styles.segmentActive]}
+              onPress={() => setMode('entries')}
+            >
+              <Text style={[styles.segmentText, mode === 'entries' && styles.segmentTextActive]}>Time Entries</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.segment, mode === 'periods' && styles.segmentActive]}
+              onPress={() => setMode('periods')}
+            >
+              <Text style={[styles.segmentText, mode === 'periods' && styles.segmentTextActive]}>Pay Periods</Text>
+            </TouchableOpacity>
+          </View>
+
+          {mode === 'entries' ? (
+            availableEntries.length > 0 ? (
+              availableEntries.map(entry => (
+                <TouchableOpacity
+                  key={entry.id}
+                  style={styles.selectRow}
+                  onPress={() => setSelectedEntryIds(current => toggleId(current, entry.id))}
+                >
+                  {selectedEntryIds.includes(entry.id)
+                    ? <CheckSquare size={20} color={Colors.light.primary} />
+                    : <Square size={20} color={Colors.light.subtext} />}
+                  <View style={styles.selectBody}>
+                    <Text style={styles.selectText}>{formatDate(entry.startTime)}</Text>
+                    <Text style={styles.selectMeta}>
+                      {formatTime(entry.startTime)} - {entry.endTime ? formatTime(entry.endTime) : ''}
+                      {entry.note ? ` · ${entry.note}` : ''}
+                    </Text>
+                  </View>
+                  <Text style={styles.selectMeta}>{formatDuration(getEntryBillableDuration(entry, jobs.find(job => job.id === entry.jobId)?.settings))}</Text>
+                </TouchableOpacity>
+              ))
+            ) : (
+              <Text style={styles.emptyText}>No unpaid, uninvoiced time entries for the selected jobs.</Text>
+            )
+          ) : (
+            availablePeriods.length > 0 ? (
+              availablePeriods.map(period => (
+                <TouchableOpacity
+                  key={period.id}
+                  style={styles.selectRow}
+                  onPress={() => setSelectedPeriodIds(current => toggleId(current, period.id))}
+                >
+                  {selectedPeriodIds.includes(period.id)
+                    ? <CheckSquare size={20} color={Colors.light.primary} />
+                    : <Square size={20} color={Colors.light.subtext} />}
+                  <View style={styles.selectBody}>
+                    <Text style={styles.selectText}>{formatPayPeriodRange(period.startDate, period.endDate, jobs.find(job => job.id === period.jobId)?.settings?.billingTimeZone)}</Text>
+                    <Text style={styles.selectMeta}>
+                      {jobs.find(job => job.id === period.jobId)?.name} · {period.timeEntryIds.length} entries
+                    </Text>
+                  </View>
+                  <Text style={styles.selectMeta}>{money(period.totalEarnings)}</Text>
+                </TouchableOpacity>
+              ))
+            ) : (
+              <Text style={styles.emptyText}>No unpaid, uninvoiced pay periods for the selected jobs.</Text>
+            )
+          )}
+        </View>
+
+        {availableExpenses.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Expenses</Text>
+              <TouchableOpacity onPress={() => setSelectedExpenseIds(availableExpenses.map(expense => expense.id))}>
+                <Text style={styles.linkText}>Select All</Text>
+              </TouchableOpacity>
+            </View>
+
+            {availableExpenses.map(expense => (
+              <TouchableOpacity
+                key={expense.id}
+                style={styles.selectRow}
+                onPress={() => setSelectedExpenseIds(current => toggleId(current, expense.id))}
+              >
+                {selectedExpenseIds.includes(expense.id)
+                  ? <CheckSquare size={20} color={Colors.light.primary} />
+                  : <Square size={20} color={Colors.light.subtext} />}
+                <View style={styles.selectBody}>
+                  <Text style={styles.selectText}>{formatDate(expense.date)} · {getExpenseTitle(expense)}</Text>
+                  <Text style={styles.selectMeta}>
+                    {jobs.find(job => job.id === expense.jobId)?.name}
+                    {expense.description ? ` · ${expense.description}` : ''}
+                  </Text>
+                </View>
+                <Text style={styles.selectMeta}>{money(expense.amount)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Details</Text>
+          <Text style={styles.label}>Client Email</Text>
+          <TextInput
+            style={styles.input}
+            value={clientEmail}
+            onChangeText={setClientEmail}
+            placeholder="billing@client.com"
+            placeholderTextColor={Colors.light.placeholder}
+            keyboardType="email-address"
+            autoCapitalize="none"
+          />
+          <Text style={styles.label}>Client Address</Text>
+          <TextInput
+            style={styles.input}
+            value={clientAddress}
+            onChangeText={setClientAddress}
+            placeholder="Street, City"
+            placeholderTextColor={Colors.light.placeholder}
+          />
+          <Text style={styles.label}>Due In (days)</Text>
+          <TextInput
+            style={styles.input}
+            value={dueInDays}
+            onChangeText={setDueInDays}
+            keyboardType="number-pad"
+            placeholder="30"
+            placeholderTextColor={Colors.light.placeholder}
+          />
+          <Text style={styles.label}>Notes</Text>
+          <TextInput
+            style={[styles.input, styles.notesInput]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Payment terms, thank-you note..."
+            placeholderTextColor={Colors.light.placeholder}
+            multiline
+            textAlignVertical="top"
+          />
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Subtotal</Text>
+            <Text style={styles.totalValue}>{money(totals.subtotal)}</Text>
+          </View>
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Tax ({taxSettings.defaultTaxRate || 0}%)</Text>
+            <Text style={styles.totalValue}>{money(totals.taxAmount)}</Text>
+          </View>
+          <View style={styles.totalRow}>
+            <Text style={styles.grandTotalLabel}>Total</Text>
+            <Text style={styles.grandTotalValue}>{money(totals.total)}</Text>
+          </View>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.createButton, !hasSelection && styles.createButtonDisabled]}
+          onPress={handleCreate}
+          disabled={!hasSelection}
+        >
+          <Text style={styles.createButtonText}>Create Invoice</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </>
   );
 }
 
@@ -26,4 +390,180 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#F7F9FC',
   },
-});
\ No newline at end of file
+  content: {
+    padding: 16,
+    paddingBottom: 48,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: Colors.light.text,
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.light.text,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.light.primary,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: Colors.light.surface,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.light.primary,
+    borderColor: Colors.light.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: Colors.light.text,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  selectRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.light.border,
+    gap: 10,
+  },
+  selectBody: {
+    flex: 1,
+  },
+  selectText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: Colors.light.text,
+  },
+  selectMeta: {
+    fontSize: 13,
+    color: Colors.light.subtext,
+  },
+  colorDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: Colors.light.surface,
+    borderRadius: 10,
+    padding: 4,
+    marginBottom: 8,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  segmentActive: {
+    backgroundColor: '#FFFFFF',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.08,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: Colors.light.subtext,
+  },
+  segmentTextActive: {
+    color: Colors.light.text,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.light.subtext,
+    paddingVertical: 12,
+    textAlign: 'center',
+  },
+  input: {
+    backgroundColor: Colors.light.inputBg,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: Colors.light.text,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  notesInput: {
+    minHeight: 80,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  totalLabel: {
+    fontSize: 14,
+    color: Colors.light.subtext,
+  },
+  totalValue: {
+    fontSize: 14,
+    color: Colors.light.text,
+  },
+  grandTotalLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.light.text,
+  },
+  grandTotalValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.light.primary,
+  },
+  createButton: {
+    backgroundColor: Colors.light.primary,
+    paddingVertical: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  createButtonDisabled: {
+    backgroundColor: '#94A3B8',
+  },
+  createButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
@@ -1,24 +1,56 @@
 import React from 'react';
-import { StyleSheet, Text, View } from 'react-native';
+import { StyleSheet, Text, View, FlatList, TouchableOpacity } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { FileText } from 'lucide-react-native';
+import { useRouter } from 'expo-router';
+import { FileText, Plus } from 'lucide-react-native';
 import Colors from '@/constants/colors';
 import EmptyState from '@/components/EmptyState';
+import InvoiceCard from '@/components/InvoiceCard';
+import { useInvoiceStore } from '@/store/invoiceStore';
 
 export default function InvoicesScreen() {
   const insets = useSafeAreaInsets();
-  
+  const router = useRouter();
+  const { invoices } = useInvoiceStore();
+
+  const sortedInvoices = React.useMemo(() => {
+    return [...invoices].sort((a, b) => b.issueDate - a.issueDate);
+  }, [invoices]);
+
+  const handleNewInvoice = React.useCallback(() => {
+    router.push('/invoice/new');
+  }, [router]);
+
   return (
     <View style={styles.container}>
       <View style={[styles.header, { paddingTop: insets.top + 16 }]}>
         <Text style={styles.title}>Invoices</Text>
+        <TouchableOpacity style={styles.addButton} onPress={handleNewInvoice}>
+          <Plus size={20} color="#FFFFFF" />
+        </TouchableOpacity>
       </View>
-      
-      <EmptyState
-        title="Coming Soon"
-        message="Invoice functionality will be available in a future update."
-        icon={<FileText size={40} color={Colors.light.inactive} />}
-      />
+
+      {sortedInvoices.length > 0 ? (
+        <FlatList
+          data={sortedInvoices}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => (
+            <InvoiceCard
+              invoice={item}
+              onPress={() => router.push(`/invoice/${item.id}`)}
+            />
+          )}
+          contentContainerStyle={styles.listContent}
+        />
+      ) : (
+        <EmptyState
+          title="No invoices yet"
+          message="Create an invoice from your unpaid time entries or pay periods."
+          actionLabel="Create Invoice"
+          onAction={handleNewInvoice}
+          icon={<FileText size={40} color={Colors.light.inactive} />}
+        />
+      )}
     </View>
   );
 }
@@ -29,6 +61,9 @@ const styles = StyleSheet.create({
     backgroundColor: '#F7F9FC',
   },
   header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
     paddingHorizontal: 16,
     paddingBottom: 16,
     backgroundColor: '#FFFFFF',
@@ -38,4 +73,16 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: Colors.light.text,
   },
-});
\ No newline at end of file
+  addButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    backgroundColor: Colors.light.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 100,
+  },
+});
@@ -6,7 +6,8 @@ import {
   ScrollView, 
   TouchableOpacity, 
   Alert,
-  RefreshControl
+  RefreshControl,
+  Linking
 } from 'react-native';
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import { 
@@ -18,19 +19,33 @@ import {
   ChevronLeft,
   FileText,
   CheckCircle,
-  AlertCircle
+  AlertCircle,
+  Download,
+  Trash2,
+  Receipt,
+  Circle
 } from 'lucide-react-native';
 import { useJobsStore } from '@/store/jobsStore';
 import { useBusinessStore } from '@/store/businessStore';
 import { useAuth } from '@/contexts/AuthContext';
-import { formatDuration, formatDateFull, formatTime, getStartOfWeek, getEndOfWeek } from '@/utils/time';
+import { formatDuration, formatDateFull, formatTime, formatPayPeriodRange } from '@/utils/time';
+import { calculateJobEarnings, getEntryRate } from '@/utils/earnings';
 import { formatCurrency } from '@/utils/helpers';
+import { isPayPeriodLocked } from '@/utils/period-locks';
+import { getPaymentMethodLabel, getPeriodBalance, getPeriodPaidAmount, getUnallocatedAmount } from '@/utils/payments';
+import { getExpenseTitle, getExpensesTotal } from '@/utils/expenses';
+import { getBillingModelLabel, getContractValue, getEffectiveHourlyRate, getJobMilestones, isMilestoneCompleted, isMilestoneOverdue } from '@/utils/billing';
+import { formatBudgetAmount, getBudgetAlertThresholds, getBudgetStatus } from '@/utils/budget';
+import { getJobTaxRate, getTaxReceipts, summarizeTaxReceipts } from '@/utils/tax';
+import { resolveTimeZone } from '@/utils/timezone';
+import { deleteReceipt, getReceiptUrl } from '@/lib/receipts';
 import TimeEntryCard from '@/components/TimeEntryCard';
 import EmptyState from '@/components/EmptyState';
 import TimePickerModal from '@/components/TimePickerModal';
 import PayPeriodCard from '@/components/PayPeriodCard';
+import ExportModal from '@/components/ExportModal';
 import { useTheme } from '@/contexts/ThemeContext';
-import { TimeEntry, PayPeriod } from '@/types';
+import { TimeEntry, PayPeriod, Payment, Expense, Milestone } from '@/types';
 
 export default function JobDetailScreen() {
   // ALL HOOKS MUST BE DECLARED FIRST - BEFORE ANY CONDITIONAL LOGIC
@@ -41,6 +56,7 @@ export default function JobDetailScreen() {
   const [showBreakStartPicker, setShowBreakStartPicker] = useState(false);
   const [activeEntryState, setActiveEntryState] = useState<TimeEntry | null>(null);
   const [showPayPeriods, setShowPayPeriods] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
   
   const store = useJobsStore();
   const { taxSettings } = useBusinessStore();
@@ -68,6 +84,8 @@ export default function JobDetailScreen() {
       return undefined;
     }
   }, [jobWithPayPeriods, store, id]);
+  // Periods and budget windows are built in the job's billing timezone, so they're labelled in it too
+  const timeZone = resolveTimeZone(job?.settings?.billingTimeZone);
   
   const timeEntries = React.useMemo(() => {
     if (!id || typeof id !== 'string') return [];
@@ -104,124 +122,50 @@ export default function JobDetailScreen() {
   
   // Calculate total duration and earnings with overtime support
   const calculateTotalStats = React.useCallback(() => {
-    if (!timeEntries || timeEntries.length === 0 || !job) return { totalDuration: 0, totalEarnings: 0 };
-    
-    let totalDuration = 0;
-    let totalEarnings = 0;
-    
-    timeEntries.forEach(entry => {
-      if (!entry) return;
-      
-      let entryDuration = 0;
-      
-      if (entry.endTime) {
-        entryDuration = entry.endTime - entry.startTime;
-      } else if (entry.endTime === null) {
-        entryDuration = Date.now() - entry.startTime;
-      }
-      
-      // Safely calculate break durations
-      const breakDuration = entry.breaks && entry.breaks.length > 0 
-        ? entry.breaks.reduce((breakTotal, breakItem) => {
-            if (!breakItem) return breakTotal;
-            if (breakItem.endTime) {
-              return breakTotal + (breakItem.endTime - breakItem.startTime);
-            } else if (breakItem.endTime === null && entry.isOnBreak) {
-              return breakTotal + (Date.now() - breakItem.startTime);
-            }
-            return breakTotal;
-          }, 0) 
-        : 0;
-      
-      const workDuration = Math.max(0, entryDuration - breakDuration);
-      totalDuration += workDuration;
-      
-      // Calculate earnings with overtime support
-      if (entry.endTime && job.settings) {
-        const durationHours = workDuration / (1000 * 60 * 60);
-        const { 
-          dailyOvertime, 
-          dailyOvertimeThreshold = 8, 
-          dailyOvertimeRate = 1.5,
-          weeklyOvertime,
-          weeklyOvertimeThreshold = 40,
-          weeklyOvertimeRate = 1.5
-        } = job.settings;
-        
-        // Daily overtime calculation
-        if (dailyOvertime === 'daily' && durationHours > dailyOvertimeThreshold) {
-          const straightTimeHours = dailyOvertimeThreshold;
-          const overtimeHours = durationHours - dailyOvertimeThreshold;
-          
-          const straightTimeEarnings = straightTimeHours * job.hourlyRate;
-          const overtimeEarnings = overtimeHours * job.hourlyRate * dailyOvertimeRate;
-          totalEarnings += straightTimeEarnings + overtimeEarnings;
-        }
-        // Weekly overtime calculation
-        else if (weeklyOvertime === 'weekly') {
-          // Get the week boundaries for this entry
-          const entryDate = new Date(entry.startTime);
-          const weekStart = getStartOfWeek(entryDate, 0); // Sunday start
-          const weekEnd = getEndOfWeek(entryDate, 0);
-          
-          // Get all time entries for this job in the same week
-          const weekEntries = timeEntries.filter(e => {
-            if (!e.endTime) return false; // Only completed entries
-            const eDate = new Date(e.startTime);
-            return eDate >= weekStart && eDate <= weekEnd;
-          });
-          
-          // Calculate total hours for the week
-          let totalWeekHours = 0;
-          weekEntries.forEach(e => {
-            if (e.endTime) {
-              const eDuration = e.endTime - e.startTime;
-              const eBreakDuration = (e.breaks || []).reduce((total, breakItem) => {
-                if (breakItem?.endTime) {
-                  return total + (breakItem.endTime - breakItem.startTime);
-                }
-                return total;
-              }, 0);
-              const eWorkDuration = Math.max(0, eDuration - eBreakDuration);
-              totalWeekHours += eWorkDuration / (1000 * 60 * 60);
-            }
-          });
-          
-          // Check if weekly overtime threshold is exceeded
-          if (totalWeekHours > weeklyOvertimeThreshold) {
-            // Calculate how much of this entry contributes to overtime
-            const entryOvertimeHours = Math.max(0, Math.min(durationHours, totalWeekHours - weeklyOvertimeThreshold));
-            const entryStraightTimeHours = durationHours - entryOvertimeHours;
-            
-            const entryStraightTimeEarnings = entryStraightTimeHours * job.hourlyRate;
-            const entryOvertimeEarnings = entryOvertimeHours * job.hourlyRate * weeklyOvertimeRate;
-            totalEarnings += entryStraightTimeEarnings + entryOvertimeEarnings;
-          } else {
-            // No overtime for this entry
-            totalEarnings += durationHours * job.hourlyRate;
-          }
-        }
-        // No overtime
-        else {
-          totalEarnings += durationHours * job.hourlyRate;
-        }
-      } else if (!entry.endTime) {
-        // For active entries, calculate without overtime for now
-        const durationHours = workDuration / (1000 * 60 * 60);
-        totalEarnings += durationHours * job.hourlyRate;
-      }
-    });
+    if (!job) {
+      return { totalDuration: 0, totalEarnings: 0, billableDuration: 0, nonBillableDuration: 0 };
+    }
     
-    return { totalDuration, totalEarnings };
+    // Milestone earnings count even before any time has been tracked
+    const earnings = calculateJobEarnings(job, timeEntries || []);
+    return {
+      totalDuration: earnings.totalDuration,
+      totalEarnings: earnings.totalEarnings,
+      billableDuration: earnings.billableDuration,
+      nonBillableDuration: earnings.nonBillableDuration,
+    };
   }, [timeEntries, job]);
   
-  const { totalDuration, totalEarnings } = calculateTotalStats();
+  const { totalDuration, totalEarnings, billableDuration, nonBillableDuration } = calculateTotalStats();
   
   // Get paid/unpaid earnings from jobWithPayPeriods
   const paidEarnings = jobWithPayPeriods?.paidEarnings || 0;
   const unpaidEarnings = Math.max(0, totalEarnings - paidEarnings);
+  const milestones = job ? getJobMilestones(job) : [];
+  const contractValue = job ? getContractValue(job) : null;
+  const effectiveRate = job && contractValue !== null ? getEffectiveHourlyRate(job, totalEarnings, totalDuration) : null;
   const paidDuration = jobWithPayPeriods?.paidDuration || 0;
   const payPeriods = jobWithPayPeriods?.payPeriods || [];
+  const jobPayments = React.useMemo(() => {
+    return id && typeof id === 'string' ? store.getPaymentsForJob(id) : [];
+  }, [store, id]);
+  const jobExpenses = React.useMemo(() => {
+    return id && typeof id === 'string' ? store.getExpensesForJob(id) : [];
+  }, [store, id]);
+  // Set-aside is worked out from what the job has actually been paid
+  const jobTax = React.useMemo(() => {
+    return job ? summarizeTaxReceipts(getTaxReceipts([job], payPeriods, jobPayments, taxSettings)) : null;
+  }, [job, payPeriods, jobPayments, taxSettings]);
+  const budgetStatus = React.useMemo(() => {
+    return job && timeEntries ? getBudgetStatus(job, timeEntries) : null;
+  }, [job, timeEntries]);
+  const formatBudget = (amount: number) => budgetStatus
+    ? formatBudgetAmount(budgetStatus.budget.unit, amount, value => formatCurrency(value, taxSettings.currency, taxSettings.currencySymbol))
+    : '';
+  // The bar turns amber at the first alert threshold and red once the budget is used up
+  const budgetBarColor = !budgetStatus || budgetStatus.percentUsed < (getBudgetAlertThresholds(budgetStatus.budget)[0] ?? 100)
+    ? colors.primary
+    : budgetStatus.percentUsed >= 100 ? colors.danger : colors.warning;
   
   const handleClockIn = React.useCallback(() => {
     if (!id) return;
@@ -333,12 +277,9 @@ export default function JobDetailScreen() {
   }, [router, id]);
   
   const handleCreateInvoice = React.useCallback(() => {
-    Alert.alert(
-      "Coming Soon",
-      "Invoice functionality will be available in a future update.",
-      [{ text: "OK" }]
-    );
-  }, []);
+    if (!id || typeof id !== 'string') return;
+    router.push({ pathname: '/invoice/new', params: { jobId: id } });
+  }, [id, router]);
   
   const handleEditTimeEntry = React.useCallback((entryId: string) => {
     if (!id || typeof id !== 'string') {
@@ -363,8 +304,9 @@ export default function JobDetailScreen() {
           onPress: () => {
             try {
               store.deleteTimeEntry(entryId);
-            } catch (error) {
+            } catch (error: any) {
               console.error('Error deleting time entry:', error);
+              Alert.alert('Cannot Delete', error?.message || 'Failed to delete time entry.');
             }
           },
           style: "destructive"
@@ -398,6 +340,79 @@ export default function JobDetailScreen() {
     }
   }, [store]);
   
+  const handleTogglePeriodLock = React.useCallback((period: PayPeriod) => {
+    if (isPayPeriodLocked(period)) {
+      Alert.alert(
+        "Unlock Pay Period",
+        "This period has been paid. Changes to its time will be recorded as adjustments.",
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Unlock", onPress: () => store.unlockPayPeriod(period.id) }
+        ]
+      );
+    } else {
+      store.lockPayPeriod(period.id);
+    }
+  }, [store]);
+  
+  const handleRecordPayment = React.useCallback(() => {
+    if (!id || typeof id !== 'string') return;
+    router.push({ pathname: '/payment/new/[jobId]', params: { jobId: id } });
+  }, [id, router]);
+  
+  const handleDeletePayment = React.useCallback((payment: Payment) => {
+    Alert.alert(
+      "Delete Payment",
+      "Pay periods this payment settled will show their balance as outstanding again.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Delete", style: "destructive", onPress: () => store.deletePayment(payment.id) }
+      ]
+    );
+  }, [store]);
+  
+  const handleAddExpense = React.useCallback(() => {
+    if (!id || typeof id !== 'string') return;
+    router.push({ pathname: '/expense/new/[jobId]', params: { jobId: id } });
+  }, [id, router]);
+  
+  const handleViewReceipt = React.useCallback((expense: Expense) => {
+    if (!expense.receiptPath) return;
+    Linking.openURL(getReceiptUrl(expense.receiptPath)).catch(error => {
+      console.error('Error opening receipt:', error);
+      Alert.alert('Error', 'Could not open the receipt.');
+    });
+  }, []);
+  
+  const handleToggleMilestone = React.useCallback((milestone: Milestone) => {
+    if (!job) return;
+    try {
+      store.setMilestoneCompleted(job.id, milestone.id, !isMilestoneCompleted(milestone));
+    } catch (error: any) {
+      Alert.alert("Milestone Locked", error?.message || "This milestone cannot be changed.");
+    }
+  }, [store, job]);
+  
+  const handleDeleteExpense = React.useCallback((expense: Expense) => {
+    Alert.alert(
+      "Delete Expense",
+      "Are you sure you want to delete this expense?",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => {
+            store.deleteExpense(expense.id);
+            if (expense.receiptPath) {
+              deleteReceipt(expense.id).catch(error => console.error('Error deleting receipt:', error));
+            }
+          }
+        }
+      ]
+    );
+  }, [store]);
+  
   const onRefresh = React.useCallback(async () => {
     try {
       if (user?.uid) {
@@ -455,7 +470,7 @@ export default function JobDetailScreen() {
     }
     
     sessionDuration = now - sessionStart - totalBreakDuration;
-    const sessionEarnings = (sessionDuration / (1000 * 60 * 60)) * job.hourlyRate;
+    const sessionEarnings = (sessionDuration / (1000 * 60 * 60)) * getEntryRate(activeEntryState, job);
     
     return {
       label: `since ${formatTime(sessionStart)}`,
@@ -538,8 +553,23 @@ export default function JobDetailScreen() {
                 <View style={styles.header}>
                   <View style={[styles.colorIndicator, { backgroundColor: job.color }]} />
                   <View style={styles.headerContent}>
-                    <Text style={styles.client}>{job.client}</Text>
-                    <Text style={styles.rate}>{formatCurrency(job.hourlyRate, taxSettings.currency, taxSettings.currencySymbol)}/hr</Text>
+                    {job.clientId ? (
+                      <TouchableOpacity onPress={() => router.push(`/client/${job.clientId}`)}>
+                        <Text style={[styles.client, styles.clientLink]}>{job.client}</Text>
+                      </TouchableOpacity>
+                    ) : (
+                      <Text style={styles.client}>{job.client}</Text>
+                    )}
+                    <Text style={styles.rate}>
+                      {contractValue === null
+                        ? `${formatCurrency(job.hourlyRate, taxSettings.currency, taxSettings.currencySymbol)}/hr`
+                        : `${getBillingModelLabel(job)} · ${formatCurrency(contractValue, taxSettings.currency, taxSettings.currencySymbol)}`}
+                    </Text>
+                    {effectiveRate !== null && (
+                      <Text style={styles.effectiveRate}>
+                        {formatCurrency(effectiveRate, taxSettings.currency, taxSettings.currencySymbol)}/hr effective
+                      </Text>
+                    )}
                     <Text style={styles.date}>
                       Created on {formatDateFull(job.createdAt)}
                     </Text>
@@ -637,6 +667,17 @@ export default function JobDetailScreen() {
                   </View>
                 </View>
                 
+                <View style={styles.billableRow}>
+                  <View style={styles.billableItem}>
+                    <Text style={styles.billableValue}>{formatDuration(billableDuration)}</Text>
+                    <Text style={styles.statLabel}>Billable</Text>
+                  </View>
+                  <View style={styles.billableItem}>
+                    <Text style={[styles.billableValue, styles.nonBillableValue]}>{formatDuration(nonBillableDuration)}</Text>
+                    <Text style={styles.statLabel}>Non-billable</Text>
+                  </View>
+                </View>
+                
                 {/* Paid/Unpaid Earnings Section */}
                 <View style={styles.earningsContainer}>
                   <View style={styles.earningsHeader}>
@@ -671,6 +712,13 @@ export default function JobDetailScreen() {
                     </View>
                   </View>
                   
+                  {jobTax && jobTax.setAside > 0 && (
+                    <Text style={styles.taxSetAside}>
+                      Set aside {formatCurrency(jobTax.setAside, taxSettings.currency, taxSettings.currencySymbol)} for tax ({getJobTaxRate(job, taxSettings)}%
+                      {jobTax.deductions > 0 ? ` after ${formatCurrency(jobTax.deductions, taxSettings.currency, taxSettings.currencySymbol)} deductions` : ''}) · {formatCurrency(jobTax.takeHome, taxSettings.currency, taxSettings.currencySymbol)} take-home
+                    </Text>
+                  )}
+                  
                   {/* Pay Periods Section */}
                   {showPayPeriods && (
                     <View style={styles.payPeriodsContainer}>
@@ -683,6 +731,10 @@ export default function JobDetailScreen() {
                               key={period.id}
                               period={period}
                               onTogglePaid={() => handleTogglePaidStatus(period)}
+                              onToggleLock={() => handleTogglePeriodLock(period)}
+                              paidAmount={getPeriodPaidAmount(period, jobPayments)}
+                              balance={getPeriodBalance(period, jobPayments)}
+                              timeZone={timeZone}
                             />
                           ) : null
                         ))
@@ -697,6 +749,205 @@ export default function JobDetailScreen() {
                   )}
                 </View>
                 
+                {/* Budget Section */}
+                {budgetStatus && (
+                  <View style={styles.earningsContainer}>
+                    <View style={styles.earningsHeader}>
+                      <Text style={styles.earningsTitle}>Budget</Text>
+                      <Text style={styles.paymentMeta}>
+                        {budgetStatus.current.end === null
+                          ? 'Whole job'
+                          : formatPayPeriodRange(budgetStatus.current.start, budgetStatus.current.end, timeZone)}
+                      </Text>
+                    </View>
+                    
+                    <Text style={[styles.budgetRemaining, budgetStatus.current.remaining < 0 && styles.budgetOver]}>
+                      {budgetStatus.current.remaining >= 0
+                        ? `${formatBudget(budgetStatus.current.remaining)} left`
+                        : `${formatBudget(-budgetStatus.current.remaining)} over budget`}
+                    </Text>
+                    <Text style={styles.paymentMeta}>
+                      {formatBudget(budgetStatus.current.used)} of {formatBudget(budgetStatus.current.allowance)} used
+                      {budgetStatus.current.carriedIn !== 0
+                        ? ` · ${formatBudget(budgetStatus.current.carriedIn)} carried over`
+                        : ''}
+                    </Text>
+                    <View style={styles.budgetBar}>
+                      <View style={[styles.budgetBarFill, { width: `${Math.min(100, budgetStatus.percentUsed)}%`, backgroundColor: budgetBarColor }]} />
+                    </View>
+                    
+                    {budgetStatus.burnDown.length > 1 && (
+                      <>
+                        <Text style={styles.budgetSubtitle}>Burn-down</Text>
+                        <View style={styles.burnDown}>
+                          {budgetStatus.burnDown.slice(-31).map(point => {
+                            const ratio = budgetStatus.current.allowance > 0 ? point.remaining / budgetStatus.current.allowance : 0;
+                            return (
+                              <View key={point.date} style={styles.burnDownColumn}>
+                                <View
+                                  style={[
+                                    styles.burnDownBar,
+                                    {
+                                      height: `${Math.max(2, Math.min(100, Math.abs(ratio) * 100))}%`,
+                                      backgroundColor: point.remaining < 0 ? colors.danger : colors.primary,
+                                    },
+                                  ]}
+                                />
+                              </View>
+                            );
+                          })}
+                        </View>
+                        <Text style={styles.paymentMeta}>
+                          Remaining after each day worked since {formatDateFull(budgetStatus.current.start)}
+                        </Text>
+                      </>
+                    )}
+                    
+                    {budgetStatus.history.length > 0 && (
+                      <>
+                        <Text style={styles.budgetSubtitle}>Past months</Text>
+                        {budgetStatus.history.slice(-3).reverse().map(window => (
+                          <View key={window.start} style={styles.paymentRow}>
+                            <View style={styles.paymentInfo}>
+                              <Text style={styles.paymentAmount}>
+                                {formatPayPeriodRange(window.start, window.end ?? window.start, timeZone)}
+                              </Text>
+                              <Text style={styles.paymentMeta}>
+                                {formatBudget(window.used)} of {formatBudget(window.allowance)} used
+                                {window.remaining > 0 ? ` · ${formatBudget(window.remaining)} unused` : ''}
+                                {window.remaining < 0 ? ` · ${formatBudget(-window.remaining)} over` : ''}
+                                {window.carriedOut !== 0 ? ` · ${formatBudget(window.carriedOut)} rolled over` : ''}
+                              </Text>
+                            </View>
+                          </View>
+                        ))}
+                      </>
+                    )}
+                  </View>
+                )}
+                
+                {/* Milestones Section */}
+                {milestones.length > 0 && (
+                  <View style={styles.earningsContainer}>
+                    <View style={styles.earningsHeader}>
+                      <Text style={styles.earningsTitle}>{job.billingModel === 'fixed' ? 'Completion' : 'Milestones'}</Text>
+                    </View>
+                    
+                    {milestones.map((milestone) => {
+                      const completed = isMilestoneCompleted(milestone);
+                      const overdue = isMilestoneOverdue(milestone);
+                      return (
+                        <View key={milestone.id} style={styles.paymentRow}>
+                          <TouchableOpacity style={styles.milestoneToggle} onPress={() => handleToggleMilestone(milestone)}>
+                            {completed ? (
+                              <CheckCircle size={22} color={colors.success} />
+                            ) : (
+                              <Circle size={22} color={colors.inactive} />
+                            )}
+                          </TouchableOpacity>
+                          <View style={styles.paymentInfo}>
+                            <Text style={styles.paymentAmount}>
+                              {milestone.name} · {formatCurrency(milestone.amount, taxSettings.currency, taxSettings.currencySymbol)}
+                            </Text>
+                            <Text style={[styles.paymentMeta, overdue && styles.milestoneOverdue]}>
+                              {completed
+                                ? `Completed ${formatDateFull(milestone.completedAt!)}`
+                                : milestone.dueDate !== undefined
+                                  ? `${overdue ? 'Overdue' : 'Due'} ${formatDateFull(milestone.dueDate)}`
+                                  : 'Not completed'}
+                            </Text>
+                          </View>
+                        </View>
+                      );
+                    })}
+                  </View>
+                )}
+                
+                {/* Payments Section */}
+                <View style={styles.earningsContainer}>
+                  <View style={styles.earningsHeader}>
+                    <Text style={styles.earningsTitle}>Payments</Text>
+                    <TouchableOpacity style={styles.viewPeriodsButton} onPress={handleRecordPayment}>
+                      <Text style={styles.viewPeriodsText}>Record Payment</Text>
+                    </TouchableOpacity>
+                  </View>
+                  
+                  {jobPayments.length > 0 ? (
+                    jobPayments.map((payment) => {
+                      const credit = getUnallocatedAmount(payment);
+                      const periodCount = payment.allocations.length;
+                      return (
+                        <View key={payment.id} style={styles.paymentRow}>
+                          <View style={styles.paymentInfo}>
+                            <Text style={styles.paymentAmount}>
+                              {formatCurrency(payment.amount, taxSettings.currency, taxSettings.currencySymbol)}
+                            </Text>
+                            <Text style={styles.paymentMeta}>
+                              {formatDateFull(payment.date)} · {getPaymentMethodLabel(payment.method)}
+                              {payment.reference ? ` · ${payment.reference}` : ''}
+                            </Text>
+                            <Text style={styles.paymentMeta}>
+                              {periodCount > 0
+                                ? `Applied to ${periodCount} pay ${periodCount === 1 ? 'period' : 'periods'}`
+                                : 'Not applied to a pay period'}
+                              {credit > 0 ? ` · ${formatCurrency(credit, taxSettings.currency, taxSettings.currencySymbol)} credit` : ''}
+                            </Text>
+                          </View>
+                          <TouchableOpacity style={styles.paymentDeleteButton} onPress={() => handleDeletePayment(payment)}>
+                            <Trash2 size={18} color={colors.danger} />
+                          </TouchableOpacity>
+                        </View>
+                      );
+                    })
+                  ) : (
+                    <Text style={styles.paymentsEmpty}>No payments recorded yet.</Text>
+                  )}
+                </View>
+                
+                {/* Expenses Section */}
+                <View style={styles.earningsContainer}>
+                  <View style={styles.earningsHeader}>
+                    <Text style={styles.earningsTitle}>Expenses</Text>
+                    <TouchableOpacity style={styles.viewPeriodsButton} onPress={handleAddExpense}>
+                      <Text style={styles.viewPeriodsText}>Add Expense</Text>
+                    </TouchableOpacity>
+                  </View>
+                  
+                  {jobExpenses.length > 0 ? (
+                    <>
+                      <Text style={styles.expensesSummary}>
+                        {formatCurrency(getExpensesTotal(jobExpenses), taxSettings.currency, taxSettings.currencySymbol)} total · {formatCurrency(getExpensesTotal(jobExpenses, true), taxSettings.currency, taxSettings.currencySymbol)} billable
+                      </Text>
+                      {jobExpenses.map((expense) => (
+                        <View key={expense.id} style={styles.paymentRow}>
+                          <View style={styles.paymentInfo}>
+                            <Text style={styles.paymentAmount}>
+                              {formatCurrency(expense.amount, taxSettings.currency, taxSettings.currencySymbol)}
+                            </Text>
+                            <Text style={styles.paymentMeta}>
+                              {formatDateFull(expense.date)} · {getExpenseTitle(expense)}
+                              {expense.billable ? ' · Billable' : ''}
+                            </Text>
+                            {expense.description ? (
+                              <Text style={styles.paymentMeta}>{expense.description}</Text>
+                            ) : null}
+                          </View>
+                          {expense.receiptPath ? (
+                            <TouchableOpacity style={styles.paymentDeleteButton} onPress={() => handleViewReceipt(expense)}>
+                              <Receipt size={18} color={colors.primary} />
+                            </TouchableOpacity>
+                          ) : null}
+                          <TouchableOpacity style={styles.paymentDeleteButton} onPress={() => handleDeleteExpense(expense)}>
+                            <Trash2 size={18} color={colors.danger} />
+                          </TouchableOpacity>
+                        </View>
+                      ))}
+                    </>
+                  ) : (
+                    <Text style={styles.paymentsEmpty}>No expenses or mileage logged yet.</Text>
+                  )}
+                </View>
+                
                 <View style={styles.actionsContainer}>
                   <TouchableOpacity 
                     style={styles.createInvoiceButton}
@@ -705,6 +956,13 @@ export default function JobDetailScreen() {
                     <FileText size={20} color="#FFFFFF" />
                     <Text style={styles.createInvoiceText}>Create Invoice</Text>
                   </TouchableOpacity>
+                  <TouchableOpacity 
+                    style={styles.exportButton}
+                    onPress={() => setShowExportModal(true)}
+                  >
+                    <Download size={20} color={colors.primary} />
+                    <Text style={styles.exportButtonText}>Export Entries</Text>
+                  </TouchableOpacity>
                 </View>
                 
                 <View style={styles.timeEntriesContainer}>
@@ -767,6 +1025,14 @@ export default function JobDetailScreen() {
         onConfirm={handleCustomBreakStart}
         title="Select Break Start Time"
       />
+      
+      {typeof id === 'string' && (
+        <ExportModal
+          visible={showExportModal}
+          onClose={() => setShowExportModal(false)}
+          jobId={id}
+        />
+      )}
     </>
   );
 }
@@ -806,6 +1072,9 @@ const createStyles = (colors: any) => StyleSheet.create({
     color: colors.text,
     marginBottom: 4,
   },
+  clientLink: {
+    color: colors.primary,
+  },
   rate: {
     fontSize: 16,
     fontWeight: '500',
@@ -939,6 +1208,25 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 12,
     color: colors.subtext,
   },
+  billableRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    backgroundColor: colors.background,
+  },
+  billableItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  billableValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 2,
+  },
+  nonBillableValue: {
+    color: colors.subtext,
+  },
   earningsContainer: {
     padding: 16,
     backgroundColor: colors.background,
@@ -1005,6 +1293,96 @@ const createStyles = (colors: any) => StyleSheet.create({
     color: colors.text,
     marginBottom: 12,
   },
+  paymentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  paymentInfo: {
+    flex: 1,
+  },
+  paymentAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 2,
+  },
+  paymentMeta: {
+    fontSize: 13,
+    color: colors.subtext,
+  },
+  paymentDeleteButton: {
+    padding: 8,
+  },
+  paymentsEmpty: {
+    fontSize: 14,
+    color: colors.subtext,
+  },
+  effectiveRate: {
+    fontSize: 14,
+    color: colors.subtext,
+    marginBottom: 8,
+  },
+  taxSetAside: {
+    fontSize: 13,
+    color: colors.subtext,
+    marginTop: 12,
+  },
+  budgetRemaining: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  budgetOver: {
+    color: colors.danger,
+  },
+  budgetBar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.border,
+    overflow: 'hidden',
+    marginTop: 12,
+  },
+  budgetBarFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  budgetSubtitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  burnDown: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 80,
+    gap: 2,
+    marginBottom: 6,
+  },
+  burnDownColumn: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+  },
+  burnDownBar: {
+    borderRadius: 2,
+  },
+  milestoneToggle: {
+    paddingRight: 12,
+  },
+  milestoneOverdue: {
+    color: colors.danger,
+  },
+  expensesSummary: {
+    fontSize: 14,
+    color: colors.subtext,
+    marginBottom: 8,
+  },
   actionsContainer: {
     padding: 16,
     backgroundColor: colors.background,
@@ -1024,6 +1402,21 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 16,
     marginLeft: 8,
   },
+  exportButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.primaryLight,
+    paddingVertical: 16,
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  exportButtonText: {
+    color: colors.primary,
+    fontWeight: '600',
+    fontSize: 16,
+    marginLeft: 8,
+  },
   timeEntriesContainer: {
     padding: 16,
     marginTop: 16,
@@ -2,9 +2,10 @@ import React from 'react';
 import { StyleSheet, View } from 'react-native';
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import { useJobsStore } from '@/store/jobsStore';
-import JobForm from '@/components/JobForm';
+import JobForm, { JobBilling } from '@/components/JobForm';
 import EmptyState from '@/components/EmptyState';
 import { JobSettings } from '@/types';
+import { applyRateChange } from '@/utils/rates';
 
 export default function EditJobScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -18,7 +19,10 @@ export default function EditJobScreen() {
     client: string, 
     hourlyRate: number, 
     color: string,
-    settings: JobSettings
+    settings: JobSettings,
+    clientId: string,
+    billing: JobBilling,
+    rateEffectiveFrom?: number
   ) => {
     if (!job || !id || typeof id !== 'string') return;
     
@@ -26,9 +30,14 @@ export default function EditJobScreen() {
       updateJob(id, {
         name,
         client,
+        clientId,
         hourlyRate,
+        ...(rateEffectiveFrom !== undefined && {
+          rateHistory: applyRateChange(job, hourlyRate, rateEffectiveFrom),
+        }),
         color,
-        settings
+        settings,
+        ...billing
       });
       
       // Navigate back to the job detail screen
@@ -71,6 +80,10 @@ export default function EditJobScreen() {
             name: job.name,
             client: job.client,
             hourlyRate: job.hourlyRate,
+            rateHistory: job.rateHistory,
+            billingModel: job.billingModel,
+            fixedPrice: job.fixedPrice,
+            milestones: job.milestones,
             color: job.color,
             settings: job.settings || {
               payPeriodType: 'weekly',
@@ -83,7 +96,6 @@ export default function EditJobScreen() {
               presetBreaks: [],
               dailyOvertime: 'none',
               weeklyOvertime: 'none',
-              estimatedTaxRate: 0,
               deductions: 0,
             }
           }}
@@ -2,7 +2,7 @@ import React from 'react';
 import { StyleSheet, View } from 'react-native';
 import { useRouter, Stack } from 'expo-router';
 import { useJobsStore } from '@/store/jobsStore';
-import JobForm from '@/components/JobForm';
+import JobForm, { JobBilling } from '@/components/JobForm';
 import { JobSettings } from '@/types';
 
 export default function NewJobScreen() {
@@ -14,15 +14,19 @@ export default function NewJobScreen() {
     client: string, 
     hourlyRate: number, 
     color: string,
-    settings: JobSettings
+    settings: JobSettings,
+    clientId: string,
+    billing: JobBilling
   ) => {
     try {
       const newJobId = addJob({
         name,
         client,
+        clientId,
         hourlyRate,
         color,
-        settings
+        settings,
+        ...billing
       });
       
       // Ensure the job is properly saved before navigating
@@ -62,7 +66,6 @@ export default function NewJobScreen() {
               presetBreaks: [],
               dailyOvertime: 'none',
               weeklyOvertime: 'none',
-              estimatedTaxRate: 0,
               deductions: 0,
             }
           }}
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Alert, StyleSheet, View } from 'react-native';
+import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
+import { useJobsStore } from '@/store/jobsStore';
+import PaymentForm, { PaymentFormValues } from '@/components/PaymentForm';
+import EmptyState from '@/components/EmptyState';
+import { useTheme } from '@/contexts/ThemeContext';
+import { resolveTimeZone } from '@/utils/timezone';
+
+export default function NewPaymentScreen() {
+  const { jobId } = useLocalSearchParams<{ jobId: string }>();
+  const router = useRouter();
+  const { colors } = useTheme();
+  const { getJobById, payPeriods, payments, recordPayment } = useJobsStore();
+  
+  const job = jobId ? getJobById(jobId) : undefined;
+  
+  const jobPeriods = React.useMemo(() => payPeriods.filter(period => period.jobId === jobId), [payPeriods, jobId]);
+  const jobPayments = React.useMemo(() => payments.filter(payment => payment.jobId === jobId), [payments, jobId]);
+  
+  const handleSubmit = React.useCallback((values: PaymentFormValues) => {
+    if (!job) return;
+    try {
+      recordPayment({ ...values, jobId: job.id });
+      router.navigate(`/(tabs)/job/${job.id}`);
+    } catch (error: any) {
+      console.error('Error recording payment:', error);
+      Alert.alert('Error', error?.message || 'Failed to record payment.');
+    }
+  }, [job, recordPayment, router]);
+  
+  if (!job) {
+    return (
+      <EmptyState
+        title="Job not found"
+        message="The job you are trying to record a payment for does not exist"
+        actionLabel="Go Back"
+        onAction={() => router.replace('/(tabs)/jobs')}
+      />
+    );
+  }
+  
+  return (
+    <>
+      <Stack.Screen options={{ title: "Record Payment" }} />
+      
+      <View style={[styles.container, { backgroundColor: colors.surface }]}>
+        <PaymentForm
+          payPeriods={jobPeriods}
+          payments={jobPayments}
+          timeZone={resolveTimeZone(job.settings?.billingTimeZone)}
+          onSubmit={handleSubmit}
+          onCancel={() => router.back()}
+        />
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
@@ -13,16 +13,75 @@ import {
   ChevronRight,
   Moon,
   Sun,
-  Server
+  Server,
+  FileUp,
+  Users,
+  PiggyBank,
+  RefreshCw
 } from 'lucide-react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { useJobsStore } from '@/store/jobsStore';
+import { useClientsStore } from '@/store/clientsStore';
+import { SyncEntityType, SyncQueueItem } from '@/types';
+
+const SYNC_ENTITY_LABELS: Record<SyncEntityType, string> = {
+  client: 'Client',
+  job: 'Job',
+  timeEntry: 'Time entry',
+  payPeriod: 'Pay period',
+  payment: 'Payment',
+  expense: 'Expense',
+  businessInfo: 'Business info',
+};
+
+// Shown when the backend refuses some changes; lists the first few with their reasons
+const MAX_LISTED_SYNC_ISSUES = 5;
+
+const describeSyncIssue = (item: SyncQueueItem): string => {
+  const label = SYNC_ENTITY_LABELS[item.entityType] ?? item.entityType;
+  if (item.rejectionCode === 'PERIOD_LOCKED') {
+    return `${label}: in a paid pay period, so the synced copy was restored`;
+  }
+  return `${label}: ${item.lastError || 'Refused by the server'}`;
+};
 
 export default function SettingsScreen() {
   const router = useRouter();
   const { colors, isDark, toggleTheme } = useTheme();
   const { user } = useAuth();
   const insets = useSafeAreaInsets();
+  const { getSyncStatus, rejectedSyncItems, retryRejectedSyncItems, dismissRejectedSyncItems } = useJobsStore();
+  const clientRejections = useClientsStore(state => state.rejectedSyncItems);
+  const syncStatus = getSyncStatus();
+  
+  const syncSubtitle = syncStatus.rejectedOperations > 0
+    ? `${syncStatus.rejectedOperations} ${syncStatus.rejectedOperations === 1 ? 'change was' : 'changes were'} not synced`
+    : syncStatus.pendingOperations > 0
+      ? `${syncStatus.pendingOperations} ${syncStatus.pendingOperations === 1 ? 'change' : 'changes'} waiting to sync`
+      : 'All changes synced';
+  
+  const showSyncStatus = () => {
+    const issues = [...clientRejections, ...rejectedSyncItems];
+    if (issues.length === 0) {
+      Alert.alert('Sync Status', syncSubtitle);
+      return;
+    }
+    
+    const listed = issues.slice(0, MAX_LISTED_SYNC_ISSUES).map(describeSyncIssue);
+    if (issues.length > MAX_LISTED_SYNC_ISSUES) {
+      listed.push(`…and ${issues.length - MAX_LISTED_SYNC_ISSUES} more`);
+    }
+    Alert.alert(
+      'Changes Not Synced',
+      `The server refused these changes:\n\n${listed.join('\n')}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: dismissRejectedSyncItems },
+        { text: 'Retry', onPress: retryRejectedSyncItems },
+      ]
+    );
+  };
   
   const settingsGroups = [
     {
@@ -34,6 +93,12 @@ export default function SettingsScreen() {
           subtitle: 'Company details and contact info',
           route: '/settings/business-info',
         },
+        {
+          icon: Users,
+          title: 'Clients',
+          subtitle: 'Billing details and balances',
+          route: '/client',
+        },
         {
           icon: CreditCard,
           title: 'Payment Options',
@@ -46,6 +111,29 @@ export default function SettingsScreen() {
           subtitle: 'Tax rates and currency settings',
           route: '/settings/tax-currency',
         },
+        {
+          icon: PiggyBank,
+          title: 'Quarterly Tax Report',
+          subtitle: 'Estimated tax to set aside',
+          route: '/settings/tax-report',
+        },
+      ],
+    },
+    {
+      title: 'Data',
+      items: [
+        {
+          icon: FileUp,
+          title: 'Import Time Entries',
+          subtitle: 'From Toggl, Clockify or Harvest CSV',
+          route: '/settings/import-data',
+        },
+        {
+          icon: RefreshCw,
+          title: 'Sync Status',
+          subtitle: syncSubtitle,
+          onPress: showSyncStatus,
+        },
       ],
     },
     {
@@ -1,15 +1,36 @@
 import React, { useCallback } from 'react';
-import { StyleSheet, View } from 'react-native';
+import { Alert, StyleSheet, View } from 'react-native';
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import { useJobsStore } from '@/store/jobsStore';
 import TimeEntryForm from '@/components/TimeEntryForm';
 import EmptyState from '@/components/EmptyState';
 import { useTheme } from '@/contexts/ThemeContext';
+import { BreakEntry, PayPeriod } from '@/types';
+import { getJobRateAt } from '@/utils/rates';
+
+type EntryValues = {
+  startTime: number;
+  endTime: number | null;
+  note: string;
+  breaks?: BreakEntry[];
+  dismissedAutoBreakIds?: string[];
+  billable?: boolean;
+  rateOverride?: number;
+};
 
 export default function EditTimeEntryScreen() {
   const { id, from, jobId } = useLocalSearchParams<{ id: string; from?: string; jobId?: string }>();
   const router = useRouter();
-  const { timeEntries, updateTimeEntry, getJobById, deleteTimeEntry } = useJobsStore();
+  const {
+    timeEntries,
+    updateTimeEntry,
+    addTimeEntry,
+    getJobById,
+    deleteTimeEntry,
+    findOverlaps,
+    getLockedPayPeriods,
+    unlockPayPeriod,
+  } = useJobsStore();
   const { colors } = useTheme();
   
   const timeEntry = timeEntries.find(entry => entry?.id === id);
@@ -37,17 +58,42 @@ export default function EditTimeEntryScreen() {
     }
   }, [router, jobId, from]);
 
-  const handleSubmit = useCallback(async (values: { startTime: number; endTime: number | null; note: string }): Promise<boolean> => {
+  const handleSubmit = useCallback(async (
+    values: EntryValues,
+    additionalEntries: EntryValues[] = [],
+    options?: { allowOverlaps: boolean }
+  ): Promise<boolean> => {
     if (!timeEntry) return false;
 
     try {
       console.log('EDIT ENTRY: Updating time entry with values:', values);
       console.log('EDIT ENTRY: Time entry ID:', timeEntry.id);
 
+      const breaks = values.breaks ?? timeEntry.breaks ?? [];
       updateTimeEntry(timeEntry.id, {
         startTime: values.startTime,
         endTime: values.endTime,
         note: values.note,
+        breaks,
+        dismissedAutoBreakIds: values.dismissedAutoBreakIds,
+        billable: values.billable,
+        rateOverride: values.rateOverride,
+        isOnBreak: timeEntry.isOnBreak && breaks.some(b => b.endTime === null),
+      }, options);
+
+      // Remaining pieces of an entry that was split around overlaps
+      additionalEntries.forEach(extra => {
+        addTimeEntry({
+          jobId: timeEntry.jobId,
+          startTime: extra.startTime,
+          endTime: extra.endTime,
+          note: extra.note,
+          breaks: extra.breaks ?? [],
+          billable: extra.billable,
+          rateOverride: extra.rateOverride,
+          isOnBreak: false,
+          paidInPeriodId: undefined,
+        }, options);
       });
 
       console.log('EDIT ENTRY: Time entry updated successfully');
@@ -66,7 +112,26 @@ export default function EditTimeEntryScreen() {
       console.error('EDIT ENTRY: Error updating time entry:', error);
       return false;
     }
-  }, [timeEntry, updateTimeEntry, navigateBackSafe, jobId, router]);
+  }, [timeEntry, updateTimeEntry, addTimeEntry, navigateBackSafe, jobId, router]);
+
+  const checkOverlaps = useCallback((range: { startTime: number; endTime: number | null }) => {
+    return timeEntry ? findOverlaps({ id: timeEntry.id, jobId: timeEntry.jobId, ...range }) : [];
+  }, [timeEntry, findOverlaps]);
+
+  const getJobName = useCallback((jobIdToName: string) => getJobById(jobIdToName)?.name, [getJobById]);
+
+  const findLockedPeriods = useCallback(([values, ...extras]: EntryValues[]) => {
+    if (!timeEntry) return [];
+    const periods = [
+      ...getLockedPayPeriods(timeEntry, { ...timeEntry, ...values }),
+      ...extras.flatMap(extra => getLockedPayPeriods(null, { ...extra, jobId: timeEntry.jobId })),
+    ];
+    return periods.filter((period, index) => periods.findIndex(p => p.id === period.id) === index);
+  }, [timeEntry, getLockedPayPeriods]);
+
+  const handleUnlockPeriods = useCallback((periods: PayPeriod[]) => {
+    periods.forEach(period => unlockPayPeriod(period.id));
+  }, [unlockPayPeriod]);
   
   const handleCancel = useCallback(() => {
     console.log('EDIT ENTRY: Cancel button pressed');
@@ -89,8 +154,9 @@ export default function EditTimeEntryScreen() {
         console.log('EDIT ENTRY: No jobId, using navigateBackSafe');
         navigateBackSafe();
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('EDIT ENTRY: Error deleting time entry:', error);
+      Alert.alert('Cannot Delete', error?.message || 'Failed to delete time entry.');
     }
   }, [id, deleteTimeEntry, navigateBackSafe, jobId, router]);
   
@@ -140,12 +206,22 @@ export default function EditTimeEntryScreen() {
             startTime: timeEntry.startTime,
             endTime: timeEntry.endTime,
             note: timeEntry.note || '',
+            breaks: timeEntry.breaks || [],
+            dismissedAutoBreakIds: timeEntry.dismissedAutoBreakIds || [],
+            billable: timeEntry.billable,
+            rateOverride: timeEntry.rateOverride,
           }}
           onSubmit={handleSubmit}
           onCancel={handleCancel}
           onDelete={handleDelete}
           jobName={job.name}
+          jobRate={getJobRateAt(job, timeEntry.startTime)}
+          presetBreaks={job.settings?.presetBreaks}
           isNewEntry={false}
+          findOverlaps={checkOverlaps}
+          getJobName={getJobName}
+          findLockedPeriods={findLockedPeriods}
+          onUnlockPeriods={handleUnlockPeriods}
         />
       </View>
     </>
@@ -5,11 +5,20 @@ import { useJobsStore } from '@/store/jobsStore';
 import TimeEntryForm from '@/components/TimeEntryForm';
 import EmptyState from '@/components/EmptyState';
 import { useTheme } from '@/contexts/ThemeContext';
+import { PayPeriod } from '@/types';
+
+type EntryValues = {
+  startTime: number;
+  endTime: number | null;
+  note: string;
+  billable?: boolean;
+  rateOverride?: number;
+};
 
 export default function NewTimeEntryScreen() {
   const { jobId } = useLocalSearchParams<{ jobId: string }>();
   const router = useRouter();
-  const { addTimeEntry, getJobById } = useJobsStore();
+  const { addTimeEntry, getJobById, findOverlaps, getLockedPayPeriods, unlockPayPeriod } = useJobsStore();
   const { colors } = useTheme();
   
   const job = jobId ? getJobById(jobId) : undefined;
@@ -36,7 +45,11 @@ export default function NewTimeEntryScreen() {
     }
   }, [router, jobId]);
 
-  const handleSubmit = useCallback(async (values: { startTime: number; endTime: number | null; note: string }): Promise<boolean> => {
+  const handleSubmit = useCallback(async (
+    values: EntryValues,
+    additionalEntries: EntryValues[] = [],
+    options?: { allowOverlaps: boolean }
+  ): Promise<boolean> => {
     if (!jobId || typeof jobId !== 'string') {
       console.error('Invalid jobId:', jobId);
       return false;
@@ -52,12 +65,29 @@ export default function NewTimeEntryScreen() {
         endTime: values.endTime,
         note: values.note,
         breaks: [],
+        billable: values.billable,
+        rateOverride: values.rateOverride,
         isOnBreak: false,
         paidInPeriodId: undefined,
-      });
+      }, options);
 
       console.log('NEW ENTRY: Time entry created with ID:', entryId);
 
+      // Remaining pieces of an entry that was split around overlaps
+      additionalEntries.forEach(extra => {
+        addTimeEntry({
+          jobId,
+          startTime: extra.startTime,
+          endTime: extra.endTime,
+          note: extra.note,
+          breaks: [],
+          billable: extra.billable,
+          rateOverride: extra.rateOverride,
+          isOnBreak: false,
+          paidInPeriodId: undefined,
+        }, options);
+      });
+
       if (entryId) {
         console.log('NEW ENTRY: Time entry created successfully, navigating to job details');
         // Use a direct navigation with no setTimeout to ensure immediate redirect
@@ -73,6 +103,22 @@ export default function NewTimeEntryScreen() {
     }
   }, [jobId, addTimeEntry, router]);
 
+  const checkOverlaps = useCallback((range: { startTime: number; endTime: number | null }) => {
+    return jobId ? findOverlaps({ jobId, ...range }) : [];
+  }, [jobId, findOverlaps]);
+
+  const getJobName = useCallback((id: string) => getJobById(id)?.name, [getJobById]);
+
+  const findLockedPeriods = useCallback((entries: EntryValues[]) => {
+    if (!jobId) return [];
+    const periods = entries.flatMap(values => getLockedPayPeriods(null, { ...values, jobId }));
+    return periods.filter((period, index) => periods.findIndex(p => p.id === period.id) === index);
+  }, [jobId, getLockedPayPeriods]);
+
+  const handleUnlockPeriods = useCallback((periods: PayPeriod[]) => {
+    periods.forEach(period => unlockPayPeriod(period.id));
+  }, [unlockPayPeriod]);
+
   const handleCancel = useCallback(() => {
     console.log('NEW ENTRY: Cancel button pressed');
     navigateBackSafe();
@@ -112,7 +158,12 @@ export default function NewTimeEntryScreen() {
           onSubmit={handleSubmit}
           onCancel={handleCancel}
           jobName={job.name}
+          jobRate={job.hourlyRate}
           isNewEntry={true}
+          findOverlaps={checkOverlaps}
+          getJobName={getJobName}
+          findLockedPeriods={findLockedPeriods}
+          onUnlockPeriods={handleUnlockPeriods}
         />
       </View>
     </>
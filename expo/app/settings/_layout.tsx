@@ -20,6 +20,8 @@ export default function SettingsLayout() {
       <Stack.Screen name="business-info" />
       <Stack.Screen name="payment-options" />
       <Stack.Screen name="tax-currency" />
+      <Stack.Screen name="tax-report" />
+      <Stack.Screen name="import-data" />
       <Stack.Screen name="profile" />
       <Stack.Screen name="reset-password" />
       <Stack.Screen name="whats-new" />
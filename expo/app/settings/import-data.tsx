@@ -0,0 +1,499 @@
+import React, { useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  Platform,
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { ChevronLeft, FileUp, Columns, ListChecks } from 'lucide-react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { useJobsStore } from '@/store/jobsStore';
+import { useTheme } from '@/contexts/ThemeContext';
+import OptionSelector from '@/components/OptionSelector';
+import { formatDate, formatTime, formatDuration } from '@/utils/time';
+import {
+  ImportColumnMapping,
+  ImportField,
+  ImportPreview,
+  ImportSource,
+  buildImportPreview,
+  detectColumnMapping,
+  getImportableEntries,
+  readImportHeaders,
+} from '@/utils/csv-import';
+
+const SOURCE_LABELS: Record<ImportSource, string> = {
+  toggl: 'Toggl Track',
+  clockify: 'Clockify',
+  harvest: 'Harvest',
+  generic: 'Generic CSV',
+};
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  project: 'Job',
+  client: 'Client',
+  note: 'Note',
+  startDate: 'Start date',
+  startTime: 'Start time',
+  endDate: 'End date',
+  endTime: 'End time',
+  duration: 'Duration',
+};
+
+// Only the first rows are rendered; the import itself covers the whole file
+const PREVIEW_LIMIT = 50;
+
+// Option value for a field that no column is mapped to
+const UNMAPPED_COLUMN = -1;
+
+const readPickedFile = async (asset: DocumentPicker.DocumentPickerAsset): Promise<string> => {
+  if (Platform.OS === 'web' && asset.file) {
+    return asset.file.text();
+  }
+  return new File(asset.uri).text();
+};
+
+export default function ImportDataScreen() {
+  const router = useRouter();
+  const { colors } = useTheme();
+  const { jobs, timeEntries, payPeriods, importTimeEntries } = useJobsStore();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileText, setFileText] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Rebuilt whenever a column is remapped; a mapping without dates shows why instead of failing
+  const { preview, previewError } = useMemo((): { preview: ImportPreview | null; previewError: string | null } => {
+    if (fileText === null || !mapping) return { preview: null, previewError: null };
+    try {
+      return { preview: buildImportPreview(fileText, jobs, timeEntries, { mapping, payPeriods }), previewError: null };
+    } catch (error: any) {
+      return { preview: null, previewError: error?.message || 'Could not read the file with this mapping.' };
+    }
+  }, [fileText, mapping, jobs, timeEntries, payPeriods]);
+
+  const importable = preview ? getImportableEntries(preview) : [];
+  const duplicateCount = preview?.rows.filter(row => row.status === 'duplicate').length ?? 0;
+  const invalidCount = preview?.rows.filter(row => row.status === 'invalid').length ?? 0;
+  const lockedCount = preview?.rows.filter(row => row.status === 'locked').length ?? 0;
+  const needsRate = importable.some(entry => !entry.jobId);
+
+  const columnOptions = [
+    { label: 'Not mapped', value: UNMAPPED_COLUMN },
+    ...headers.map((header, index) => ({ label: header || `Column ${index + 1}`, value: index })),
+  ];
+
+  const handleMapColumn = (field: ImportField, value: string | number) => {
+    if (!mapping) return;
+    const index = Number(value);
+    setMapping({ ...mapping, [field]: index === UNMAPPED_COLUMN ? null : index });
+  };
+
+  const resetFile = () => {
+    setFileName(null);
+    setFileText(null);
+    setHeaders([]);
+    setMapping(null);
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.length) return;
+
+      const asset = result.assets[0];
+      const text = await readPickedFile(asset);
+      const fileHeaders = readImportHeaders(text);
+      setFileText(text);
+      setHeaders(fileHeaders);
+      setMapping(detectColumnMapping(fileHeaders));
+      setFileName(asset.name);
+    } catch (error: any) {
+      console.error('Error reading import file:', error);
+      resetFile();
+      Alert.alert('Import Failed', error?.message || 'Could not read the selected file.');
+    }
+  };
+
+  const handleImport = () => {
+    if (!preview || isImporting) return;
+    if (importable.length === 0) {
+      Alert.alert('Nothing to Import', 'All rows in this file are duplicates, in paid pay periods or could not be read.');
+      return;
+    }
+
+    const rate = parseFloat(hourlyRate);
+    if (needsRate && (!rate || rate <= 0)) {
+      Alert.alert('Hourly Rate Required', 'Enter an hourly rate for the new jobs this import will create.');
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const { entriesCreated, jobsCreated, entriesSkipped } = importTimeEntries(importable, rate || 0);
+      const jobsText = jobsCreated > 0 ? ` and ${jobsCreated} new ${jobsCreated === 1 ? 'job' : 'jobs'}` : '';
+      const skippedCount = lockedCount + entriesSkipped;
+      const skippedText = skippedCount > 0
+        ? ` Skipped ${skippedCount} ${skippedCount === 1 ? 'entry' : 'entries'} in paid pay periods.`
+        : '';
+      Alert.alert(
+        'Import Complete',
+        `Imported ${entriesCreated} time ${entriesCreated === 1 ? 'entry' : 'entries'}${jobsText}.${skippedText}`,
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+      resetFile();
+    } catch (error: any) {
+      console.error('Error importing time entries:', error);
+      Alert.alert('Import Failed', error?.message || 'Failed to import time entries.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const styles = createStyles(colors);
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: 'Import Time Entries',
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+              <ChevronLeft size={24} color={colors.primary} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <FileUp size={24} color={colors.primary} />
+            <Text style={styles.sectionTitle}>CSV File</Text>
+          </View>
+          <Text style={styles.settingDescription}>
+            Import detailed time reports exported from Toggl Track, Clockify or Harvest. Jobs are matched by
+            name and client; missing jobs are created.
+          </Text>
+          <TouchableOpacity style={styles.pickButton} onPress={handlePickFile}>
+            <Text style={styles.pickButtonText}>{fileName ? 'Choose Another File' : 'Choose CSV File'}</Text>
+          </TouchableOpacity>
+          {fileName && preview && (
+            <Text style={styles.fileInfo}>
+              {fileName} · {SOURCE_LABELS[preview.source]} · {preview.rows.length} rows
+            </Text>
+          )}
+        </View>
+
+        {mapping && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Columns size={24} color={colors.primary} />
+              <Text style={styles.sectionTitle}>Column Mapping</Text>
+            </View>
+            <Text style={styles.settingDescription}>
+              Choose the column for each field. A start date and an end time or duration are required.
+            </Text>
+            {(Object.keys(FIELD_LABELS) as ImportField[]).map(field => (
+              <View key={field} style={styles.mappingRow}>
+                <Text style={styles.mappingLabel}>{FIELD_LABELS[field]}</Text>
+                <OptionSelector
+                  options={columnOptions}
+                  selectedValue={mapping[field] ?? UNMAPPED_COLUMN}
+                  onSelect={value => handleMapColumn(field, value)}
+                  placeholder="Not mapped"
+                />
+              </View>
+            ))}
+            {previewError && <Text style={styles.mappingError}>{previewError}</Text>}
+          </View>
+        )}
+
+        {preview && needsRate && (
+          <View style={styles.section}>
+            <Text style={styles.settingLabel}>Hourly Rate for New Jobs</Text>
+            <Text style={styles.settingDescription}>
+              {preview.newJobNames.length} {preview.newJobNames.length === 1 ? 'job' : 'jobs'} will be created:{' '}
+              {preview.newJobNames.join(', ')}. You can change each rate later.
+            </Text>
+            <View style={styles.inputContainer}>
+              <TextInput
+                style={styles.textInput}
+                value={hourlyRate}
+                onChangeText={value => setHourlyRate(value.replace(/[^0-9.]/g, ''))}
+                placeholder="0.00"
+                placeholderTextColor={colors.placeholder}
+                keyboardType="decimal-pad"
+              />
+              <Text style={styles.inputSuffix}>/hr</Text>
+            </View>
+          </View>
+        )}
+
+        {preview && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <ListChecks size={24} color={colors.primary} />
+              <Text style={styles.sectionTitle}>Preview</Text>
+            </View>
+            <Text style={styles.settingDescription}>
+              {importable.length} new · {duplicateCount} duplicate · {invalidCount} invalid
+              {lockedCount > 0 ? ` · ${lockedCount} in paid periods (skipped)` : ''}
+            </Text>
+
+            {preview.rows.slice(0, PREVIEW_LIMIT).map(row => (
+              <View key={row.lineNumber} style={styles.previewRow}>
+                <View style={styles.previewInfo}>
+                  <Text style={styles.previewJob} numberOfLines={1}>
+                    {row.jobName} <Text style={styles.previewClient}>· {row.clientName}</Text>
+                  </Text>
+                  <Text style={styles.previewTime}>
+                    {row.startTime !== null
+                      ? `${formatDate(row.startTime)} ${formatTime(row.startTime)}`
+                      : `Line ${row.lineNumber}`}
+                    {row.startTime !== null && row.endTime !== null
+                      ? ` · ${formatDuration(row.endTime - row.startTime)}`
+                      : ''}
+                  </Text>
+                  {row.message && <Text style={styles.previewMessage}>{row.message}</Text>}
+                </View>
+                <View style={[styles.badge, styles[`badge_${row.status}`]]}>
+                  <Text style={styles.badgeText}>{row.status}</Text>
+                </View>
+              </View>
+            ))}
+
+            {preview.rows.length > PREVIEW_LIMIT && (
+              <Text style={styles.moreText}>
+                and {preview.rows.length - PREVIEW_LIMIT} more rows
+              </Text>
+            )}
+          </View>
+        )}
+
+        {preview && (
+          <TouchableOpacity
+            style={[styles.importButton, (isImporting || importable.length === 0) && styles.importButtonDisabled]}
+            onPress={handleImport}
+            disabled={isImporting}
+          >
+            <Text style={styles.importButtonText}>
+              {isImporting ? 'Importing...' : `Import ${importable.length} ${importable.length === 1 ? 'Entry' : 'Entries'}`}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.surface,
+  },
+  content: {
+    flexGrow: 1,
+    padding: 24,
+  },
+  headerButton: {
+    padding: 12,
+    borderRadius: 16,
+    backgroundColor: colors.inputBg,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  section: {
+    backgroundColor: colors.background,
+    borderRadius: 20,
+    padding: 24,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 6,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 20,
+    elevation: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.text,
+    letterSpacing: -0.3,
+  },
+  settingLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 8,
+    letterSpacing: -0.2,
+  },
+  settingDescription: {
+    fontSize: 14,
+    color: colors.subtext,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  pickButton: {
+    backgroundColor: colors.inputBg,
+    borderRadius: 14,
+    paddingVertical: 14,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  pickButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  fileInfo: {
+    marginTop: 12,
+    fontSize: 13,
+    color: colors.subtext,
+    textAlign: 'center',
+  },
+  mappingRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  mappingLabel: {
+    fontSize: 14,
+    color: colors.subtext,
+    fontWeight: '500',
+    marginBottom: 6,
+  },
+  mappingError: {
+    fontSize: 14,
+    color: '#EF4444',
+    marginTop: 12,
+  },
+  inputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.inputBg,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  textInput: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.text,
+    fontWeight: '500',
+  },
+  inputSuffix: {
+    fontSize: 16,
+    color: colors.subtext,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    gap: 12,
+  },
+  previewInfo: {
+    flex: 1,
+  },
+  previewJob: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  previewClient: {
+    fontWeight: '400',
+    color: colors.subtext,
+  },
+  previewTime: {
+    fontSize: 13,
+    color: colors.subtext,
+    marginTop: 2,
+  },
+  previewMessage: {
+    fontSize: 12,
+    color: colors.subtext,
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  badge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  badge_new: {
+    backgroundColor: '#10B981',
+  },
+  badge_duplicate: {
+    backgroundColor: '#F59E0B',
+  },
+  badge_invalid: {
+    backgroundColor: '#EF4444',
+  },
+  badge_locked: {
+    backgroundColor: '#64748B',
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    textTransform: 'capitalize',
+  },
+  moreText: {
+    fontSize: 13,
+    color: colors.subtext,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  importButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 16,
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    alignItems: 'center',
+    marginBottom: 20,
+    shadowColor: colors.primary,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.25,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  importButtonDisabled: {
+    backgroundColor: '#94A3B8',
+  },
+  importButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+    letterSpacing: -0.2,
+  },
+});
@@ -9,19 +9,21 @@ import {
   Alert
 } from 'react-native';
 import { Stack, useRouter } from 'expo-router';
-import { ChevronLeft, DollarSign, Percent } from 'lucide-react-native';
+import { ChevronLeft, DollarSign, Percent, CalendarRange } from 'lucide-react-native';
 import { useBusinessStore } from '@/store/businessStore';
 import { useTheme } from '@/contexts/ThemeContext';
 import OptionSelector from '@/components/OptionSelector';
 import { CURRENCIES, getCurrencyByCode } from '@/constants/currencies';
+import { TAX_QUARTER_PRESETS, getTaxQuarterStarts, parseTaxQuarterStarts } from '@/utils/tax';
 
 export default function TaxCurrencyScreen() {
   const router = useRouter();
-  const { taxSettings, updateCurrency, updateTaxRate } = useBusinessStore();
+  const { taxSettings, updateCurrency, updateTaxRate, updateTaxSettings } = useBusinessStore();
   const { colors } = useTheme();
   
   const [selectedCurrency, setSelectedCurrency] = useState(taxSettings.currency);
   const [taxRate, setTaxRate] = useState(taxSettings.defaultTaxRate.toString());
+  const [quarterStarts, setQuarterStarts] = useState(getTaxQuarterStarts(taxSettings).join(', '));
   const [hasChanges, setHasChanges] = useState(false);
   
   const currencyOptions = CURRENCIES.map(currency => ({
@@ -64,6 +66,13 @@ export default function TaxCurrencyScreen() {
     setHasChanges(true);
   };
   
+  const handleQuarterStartsChange = (value: string) => {
+    setQuarterStarts(value);
+    setHasChanges(true);
+  };
+  
+  const selectedQuarterPreset = TAX_QUARTER_PRESETS.find(preset => preset.starts.join(', ') === quarterStarts.trim())?.value ?? '';
+  
   const handleSave = () => {
     const currency = getCurrencyByCode(selectedCurrency);
     if (!currency) {
@@ -77,11 +86,18 @@ export default function TaxCurrencyScreen() {
       return;
     }
     
+    const parsedQuarterStarts = parseTaxQuarterStarts(quarterStarts);
+    if (!parsedQuarterStarts) {
+      Alert.alert('Error', 'Enter four quarter start dates as MM-DD, separated by commas');
+      return;
+    }
+    
     // Update currency
     updateCurrency(currency.code, currency.symbol);
     
     // Update tax rate
     updateTaxRate(taxRateNum);
+    updateTaxSettings({ taxQuarterStarts: parsedQuarterStarts });
     
     setHasChanges(false);
     
@@ -179,7 +195,7 @@ export default function TaxCurrencyScreen() {
           <View style={styles.settingItem}>
             <Text style={styles.settingLabel}>Default Tax Rate (%)</Text>
             <Text style={styles.settingDescription}>
-              Set your default tax rate for future invoice calculations. This can be customized per invoice.
+              Set your default tax rate for future invoice calculations. This can be customized per invoice. Jobs without their own estimated tax rate also set aside this share of what they're paid.
             </Text>
             
             <View style={styles.inputContainer}>
@@ -205,6 +221,39 @@ export default function TaxCurrencyScreen() {
           </View>
         </View>
         
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <CalendarRange size={24} color={colors.primary} />
+            <Text style={styles.sectionTitle}>Estimated Tax Quarters</Text>
+          </View>
+          
+          <View style={styles.settingItem}>
+            <Text style={styles.settingLabel}>Quarter Start Dates</Text>
+            <Text style={styles.settingDescription}>
+              The quarterly tax report groups money received by these dates. A date earlier than the one before it falls in the next year.
+            </Text>
+            <OptionSelector
+              options={TAX_QUARTER_PRESETS.map(preset => ({ label: preset.label, value: preset.value }))}
+              selectedValue={selectedQuarterPreset}
+              onSelect={(value) => {
+                const preset = TAX_QUARTER_PRESETS.find(option => option.value === value);
+                if (preset) handleQuarterStartsChange(preset.starts.join(', '));
+              }}
+              placeholder="Custom"
+            />
+            <View style={[styles.inputContainer, styles.quarterInput]}>
+              <TextInput
+                style={styles.textInput}
+                value={quarterStarts}
+                onChangeText={handleQuarterStartsChange}
+                placeholder="01-01, 04-01, 07-01, 10-01"
+                placeholderTextColor={colors.placeholder}
+                keyboardType="numbers-and-punctuation"
+              />
+            </View>
+          </View>
+        </View>
+        
         {hasChanges && (
           <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
             <Text style={styles.saveButtonText}>Save Changes</Text>
@@ -317,6 +366,9 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontWeight: '600',
     marginLeft: 8,
   },
+  quarterInput: {
+    marginTop: 12,
+  },
   taxPreview: {
     marginTop: 12,
     padding: 12,
@@ -0,0 +1,282 @@
+import React, { useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  ScrollView
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { ChevronLeft, ChevronRight, PiggyBank } from 'lucide-react-native';
+import { useBusinessStore } from '@/store/businessStore';
+import { useJobsStore } from '@/store/jobsStore';
+import { useTheme } from '@/contexts/ThemeContext';
+import { formatCurrency } from '@/utils/helpers';
+import { formatPayPeriodRange } from '@/utils/time';
+import { resolveTimeZone } from '@/utils/timezone';
+import {
+  buildQuarterlyTaxReport,
+  getJobTaxRate,
+  getTaxQuarterStarts,
+  getTaxReceipts,
+  getTaxYear,
+  getTaxYearRange,
+  summarizeTaxReceipts,
+} from '@/utils/tax';
+
+export default function TaxReportScreen() {
+  const router = useRouter();
+  const { taxSettings } = useBusinessStore();
+  const { jobs, payPeriods, payments } = useJobsStore();
+  const { colors } = useTheme();
+
+  const timeZone = resolveTimeZone();
+  const starts = getTaxQuarterStarts(taxSettings);
+  const [taxYear, setTaxYear] = useState(() => getTaxYear(Date.now(), starts, timeZone));
+
+  const receipts = useMemo(() => {
+    return getTaxReceipts(jobs, payPeriods, payments, taxSettings);
+  }, [jobs, payPeriods, payments, taxSettings]);
+
+  const quarters = useMemo(() => {
+    return buildQuarterlyTaxReport(receipts, taxYear, starts, timeZone);
+  }, [receipts, taxYear, starts, timeZone]);
+
+  const yearRange = getTaxYearRange(taxYear, starts, timeZone);
+  const yearReceipts = receipts.filter(receipt => receipt.date >= yearRange.start && receipt.date <= yearRange.end);
+  const yearSummary = summarizeTaxReceipts(yearReceipts);
+  const jobSummaries = jobs
+    .map(job => ({ job, summary: summarizeTaxReceipts(yearReceipts.filter(receipt => receipt.jobId === job.id)) }))
+    .filter(({ summary }) => summary.received > 0)
+    .sort((a, b) => b.summary.received - a.summary.received);
+
+  // A tax year that doesn't start on Jan 1 spans two calendar years
+  const yearLabel = starts[0] === '01-01' ? `${taxYear}` : `${taxYear}–${String(taxYear + 1).slice(-2)}`;
+  const money = (amount: number) => formatCurrency(amount, taxSettings.currency, taxSettings.currencySymbol);
+
+  const styles = createStyles(colors);
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: 'Quarterly Tax Report',
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+              <ChevronLeft size={24} color={colors.primary} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.yearPicker}>
+          <TouchableOpacity style={styles.yearButton} onPress={() => setTaxYear(year => year - 1)}>
+            <ChevronLeft size={20} color={colors.primary} />
+          </TouchableOpacity>
+          <Text style={styles.yearLabel}>Tax year {yearLabel}</Text>
+          <TouchableOpacity style={styles.yearButton} onPress={() => setTaxYear(year => year + 1)}>
+            <ChevronRight size={20} color={colors.primary} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <PiggyBank size={24} color={colors.primary} />
+            <Text style={styles.sectionTitle}>Year to Date</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Received</Text>
+            <Text style={styles.summaryValue}>{money(yearSummary.received)}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Deductions</Text>
+            <Text style={styles.summaryValue}>−{money(yearSummary.deductions)}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Taxable</Text>
+            <Text style={styles.summaryValue}>{money(yearSummary.taxable)}</Text>
+          </View>
+          <View style={[styles.summaryRow, styles.summaryTotal]}>
+            <Text style={styles.summaryLabel}>Set aside for tax</Text>
+            <Text style={[styles.summaryValue, styles.setAsideValue]}>{money(yearSummary.setAside)}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Take-home</Text>
+            <Text style={[styles.summaryValue, styles.takeHomeValue]}>{money(yearSummary.takeHome)}</Text>
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Quarters</Text>
+          {quarters.map(quarter => (
+            <View key={quarter.label} style={styles.quarterRow}>
+              <View style={styles.quarterInfo}>
+                <Text style={styles.quarterLabel}>{quarter.label}</Text>
+                <Text style={styles.quarterDates}>{formatPayPeriodRange(quarter.start, quarter.end, timeZone)}</Text>
+              </View>
+              <View style={styles.quarterAmounts}>
+                <Text style={[styles.quarterSetAside, styles.setAsideValue]}>{money(quarter.setAside)}</Text>
+                <Text style={styles.quarterDates}>of {money(quarter.received)} received</Text>
+              </View>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>By Job</Text>
+          {jobSummaries.length > 0 ? (
+            jobSummaries.map(({ job, summary }) => (
+              <View key={job.id} style={styles.quarterRow}>
+                <View style={styles.quarterInfo}>
+                  <Text style={styles.quarterLabel}>{job.name}</Text>
+                  <Text style={styles.quarterDates}>
+                    {getJobTaxRate(job, taxSettings)}% set aside
+                    {summary.deductions > 0 ? ` after ${money(summary.deductions)} deductions` : ''}
+                  </Text>
+                </View>
+                <View style={styles.quarterAmounts}>
+                  <Text style={[styles.quarterSetAside, styles.setAsideValue]}>{money(summary.setAside)}</Text>
+                  <Text style={styles.quarterDates}>of {money(summary.received)} received</Text>
+                </View>
+              </View>
+            ))
+          ) : (
+            <Text style={styles.emptyText}>Nothing received in this tax year yet.</Text>
+          )}
+        </View>
+
+        <Text style={styles.footnote}>
+          Amounts are estimates from each job's estimated tax rate and deductions, counted when payments are received. Set quarter dates under Tax & Currency.
+        </Text>
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.surface,
+  },
+  content: {
+    flexGrow: 1,
+    padding: 24,
+  },
+  headerButton: {
+    padding: 12,
+    borderRadius: 16,
+    backgroundColor: colors.inputBg,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  yearPicker: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  yearButton: {
+    padding: 10,
+    borderRadius: 12,
+    backgroundColor: colors.inputBg,
+  },
+  yearLabel: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+  },
+  section: {
+    backgroundColor: colors.background,
+    borderRadius: 20,
+    padding: 24,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 6,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 20,
+    elevation: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.text,
+    letterSpacing: -0.3,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  summaryTotal: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    marginTop: 6,
+    paddingTop: 12,
+  },
+  summaryLabel: {
+    fontSize: 15,
+    color: colors.subtext,
+  },
+  summaryValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  setAsideValue: {
+    color: colors.warning,
+  },
+  takeHomeValue: {
+    color: colors.success,
+  },
+  quarterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  quarterInfo: {
+    flex: 1,
+  },
+  quarterLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  quarterDates: {
+    fontSize: 13,
+    color: colors.subtext,
+    marginTop: 2,
+  },
+  quarterAmounts: {
+    alignItems: 'flex-end',
+  },
+  quarterSetAside: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.subtext,
+    marginTop: 12,
+  },
+  footnote: {
+    fontSize: 13,
+    color: colors.subtext,
+    lineHeight: 18,
+    textAlign: 'center',
+  },
+});
@@ -1,4 +1,5 @@
 import Database from 'better-sqlite3';
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'node:crypto';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 
@@ -6,7 +7,8 @@ console.log('🗄️ Initializing SQLite database...');
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
-const dbPath = join(__dirname, 'database.sqlite');
+// DATABASE_PATH lets tests run against ':memory:' instead of the app's database file
+const dbPath = process.env.DATABASE_PATH || join(__dirname, 'database.sqlite');
 
 const db = new Database(dbPath);
 db.pragma('journal_mode = WAL');
@@ -31,15 +33,40 @@ db.exec(`
     FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
   );
 
+  CREATE TABLE IF NOT EXISTS clients (
+    id TEXT PRIMARY KEY,
+    userId TEXT NOT NULL,
+    name TEXT NOT NULL,
+    email TEXT,
+    address TEXT,
+    defaultRate REAL,
+    paymentTermsDays INTEGER,
+    currency TEXT,
+    createdAt INTEGER NOT NULL,
+    updatedAt INTEGER,
+    deletedAt INTEGER,
+    syncedAt INTEGER,
+    FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
+  );
+
   CREATE TABLE IF NOT EXISTS jobs (
     id TEXT PRIMARY KEY,
     userId TEXT NOT NULL,
     name TEXT NOT NULL,
     client TEXT NOT NULL,
+    clientId TEXT,
     hourlyRate REAL NOT NULL,
+    rateHistory TEXT,
+    billingModel TEXT,
+    fixedPrice REAL,
+    completedAt INTEGER,
+    milestones TEXT,
     color TEXT,
     settings TEXT,
     createdAt INTEGER NOT NULL,
+    updatedAt INTEGER,
+    deletedAt INTEGER,
+    syncedAt INTEGER,
     FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
   );
 
@@ -53,7 +80,14 @@ db.exec(`
     breaks TEXT,
     isOnBreak INTEGER DEFAULT 0,
     paidInPeriodId TEXT,
+    dismissedAutoBreakIds TEXT,
+    timeZone TEXT,
+    billable INTEGER DEFAULT 1,
+    rateOverride REAL,
     createdAt INTEGER NOT NULL,
+    updatedAt INTEGER,
+    deletedAt INTEGER,
+    syncedAt INTEGER,
     FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE,
     FOREIGN KEY (jobId) REFERENCES jobs(id) ON DELETE CASCADE
   );
@@ -68,24 +102,140 @@ db.exec(`
     totalEarnings REAL NOT NULL,
     isPaid INTEGER DEFAULT 0,
     paidDate INTEGER,
+    unlockedAt INTEGER,
+    adjustments TEXT,
     timeEntryIds TEXT NOT NULL,
+    milestoneIds TEXT,
+    createdAt INTEGER NOT NULL,
+    updatedAt INTEGER,
+    deletedAt INTEGER,
+    syncedAt INTEGER,
+    FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (jobId) REFERENCES jobs(id) ON DELETE CASCADE
+  );
+
+  CREATE TABLE IF NOT EXISTS payments (
+    id TEXT PRIMARY KEY,
+    userId TEXT NOT NULL,
+    jobId TEXT NOT NULL,
+    amount REAL NOT NULL,
+    date INTEGER NOT NULL,
+    method TEXT NOT NULL,
+    reference TEXT,
+    note TEXT,
+    allocations TEXT NOT NULL,
+    createdAt INTEGER NOT NULL,
+    updatedAt INTEGER,
+    deletedAt INTEGER,
+    syncedAt INTEGER,
+    FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (jobId) REFERENCES jobs(id) ON DELETE CASCADE
+  );
+
+  CREATE TABLE IF NOT EXISTS expenses (
+    id TEXT PRIMARY KEY,
+    userId TEXT NOT NULL,
+    jobId TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    amount REAL NOT NULL,
+    category TEXT NOT NULL,
+    date INTEGER NOT NULL,
+    description TEXT,
+    billable INTEGER NOT NULL DEFAULT 0,
+    receiptPath TEXT,
+    distance REAL,
+    distanceUnit TEXT,
+    mileageRate REAL,
     createdAt INTEGER NOT NULL,
+    updatedAt INTEGER,
+    deletedAt INTEGER,
+    syncedAt INTEGER,
     FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE,
     FOREIGN KEY (jobId) REFERENCES jobs(id) ON DELETE CASCADE
   );
 
   CREATE INDEX IF NOT EXISTS idx_sessions_userId ON sessions(userId);
   CREATE INDEX IF NOT EXISTS idx_sessions_expiresAt ON sessions(expiresAt);
+  CREATE INDEX IF NOT EXISTS idx_clients_userId ON clients(userId);
   CREATE INDEX IF NOT EXISTS idx_jobs_userId ON jobs(userId);
   CREATE INDEX IF NOT EXISTS idx_time_entries_userId ON time_entries(userId);
   CREATE INDEX IF NOT EXISTS idx_time_entries_jobId ON time_entries(jobId);
+  CREATE INDEX IF NOT EXISTS idx_time_entries_userId_startTime ON time_entries(userId, startTime);
   CREATE INDEX IF NOT EXISTS idx_pay_periods_userId ON pay_periods(userId);
   CREATE INDEX IF NOT EXISTS idx_pay_periods_jobId ON pay_periods(jobId);
+  CREATE INDEX IF NOT EXISTS idx_payments_jobId ON payments(jobId);
+  CREATE INDEX IF NOT EXISTS idx_expenses_jobId ON expenses(jobId);
+`);
+
+// Databases created before delta sync lack the change-tracking columns
+function ensureColumn(table: string, column: string, definition: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (columns.some(c => c.name === column)) {
+    return false;
+  }
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+}
+
+for (const table of ['jobs', 'time_entries', 'pay_periods']) {
+  const added = ensureColumn(table, 'updatedAt', 'INTEGER');
+  ensureColumn(table, 'deletedAt', 'INTEGER');
+  ensureColumn(table, 'syncedAt', 'INTEGER');
+  if (added) {
+    db.exec(`UPDATE ${table} SET updatedAt = createdAt, syncedAt = createdAt WHERE updatedAt IS NULL`);
+    console.log(`✅ Added change tracking columns to ${table}`);
+  }
+}
+
+ensureColumn('time_entries', 'dismissedAutoBreakIds', 'TEXT');
+ensureColumn('time_entries', 'timeZone', 'TEXT');
+ensureColumn('time_entries', 'billable', 'INTEGER DEFAULT 1');
+ensureColumn('time_entries', 'rateOverride', 'REAL');
+ensureColumn('jobs', 'clientId', 'TEXT');
+ensureColumn('jobs', 'rateHistory', 'TEXT');
+ensureColumn('jobs', 'billingModel', 'TEXT');
+ensureColumn('jobs', 'fixedPrice', 'REAL');
+ensureColumn('jobs', 'completedAt', 'INTEGER');
+ensureColumn('jobs', 'milestones', 'TEXT');
+ensureColumn('pay_periods', 'unlockedAt', 'INTEGER');
+ensureColumn('pay_periods', 'adjustments', 'TEXT');
+ensureColumn('pay_periods', 'milestoneIds', 'TEXT');
+
+db.exec(`
+  CREATE INDEX IF NOT EXISTS idx_clients_userId_syncedAt ON clients(userId, syncedAt);
+  CREATE INDEX IF NOT EXISTS idx_jobs_userId_syncedAt ON jobs(userId, syncedAt);
+  CREATE INDEX IF NOT EXISTS idx_time_entries_userId_syncedAt ON time_entries(userId, syncedAt);
+  CREATE INDEX IF NOT EXISTS idx_pay_periods_userId_syncedAt ON pay_periods(userId, syncedAt);
+  CREATE INDEX IF NOT EXISTS idx_payments_userId_syncedAt ON payments(userId, syncedAt);
+  CREATE INDEX IF NOT EXISTS idx_expenses_userId_syncedAt ON expenses(userId, syncedAt);
 `);
 
 console.log('✅ Database schema initialized');
 
-function simpleHash(str: string): string {
+// scrypt cost parameters; stored with each hash so they can be raised later
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SCRYPT_KEYLEN = 64;
+
+function scryptAsync(password: string, salt: Buffer, keylen: number, n: number, r: number, p: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keylen, { N: n, r, p, maxmem: 128 * n * r * 2 }, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+// Format: scrypt$N$r$p$salt$hash with base64 salt and hash
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, SCRYPT_KEYLEN, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+  return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+// The 32-bit hash used before scrypt; only kept to verify and upgrade old accounts
+function legacySimpleHash(str: string): string {
   let hash = 0;
   for (let i = 0; i < str.length; i++) {
     const char = str.charCodeAt(i);
@@ -95,21 +245,54 @@ function simpleHash(str: string): string {
   return Math.abs(hash).toString(36);
 }
 
+function legacyHashPassword(password: string): string {
+  let hash = password;
+  for (let i = 0; i < 100; i++) {
+    hash = legacySimpleHash(hash + password + i.toString());
+  }
+  return hash;
+}
+
+function isLegacyPasswordHash(stored: string): boolean {
+  return !stored.startsWith('scrypt$');
+}
+
+async function checkPassword(password: string, stored: string): Promise<boolean> {
+  if (isLegacyPasswordHash(stored)) {
+    const candidate = Buffer.from(legacyHashPassword(password));
+    const expected = Buffer.from(stored);
+    return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+  }
+
+  const [, n, r, p, salt, hash] = stored.split('$');
+  const expected = Buffer.from(hash, 'base64');
+  const candidate = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length, Number(n), Number(r), Number(p));
+  return timingSafeEqual(candidate, expected);
+}
+
 function generateUUID(): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-    const r = Math.random() * 16 | 0;
-    const v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
+  return randomUUID();
 }
 
 function generateRandomToken(): string {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-  let token = '';
-  for (let i = 0; i < 64; i++) {
-    token += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return token;
+  return randomBytes(32).toString('base64url');
+}
+
+// Sessions are looked up by this hash so a leaked database doesn't expose usable tokens
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// One-off data migrations, tracked with SQLite's user_version
+const schemaVersion = db.pragma('user_version', { simple: true }) as number;
+if (schemaVersion < 1) {
+  db.transaction(() => {
+    const sessions = db.prepare('SELECT token FROM sessions').all() as { token: string }[];
+    const updateToken = db.prepare('UPDATE sessions SET token = ? WHERE token = ?');
+    sessions.forEach(session => updateToken.run(hashToken(session.token), session.token));
+    db.pragma('user_version = 1');
+  })();
+  console.log('✅ Session tokens migrated to hashed storage');
 }
 
 export interface User {
@@ -121,21 +304,34 @@ export interface User {
   createdAt: number;
 }
 
+export type SyncedTable = 'clients' | 'jobs' | 'time_entries' | 'pay_periods' | 'payments' | 'expenses';
+
+// The parts of a stored entry that decide what it pays
+export interface StoredEntryPayFields {
+  jobId: string;
+  startTime: number;
+  endTime: number | null;
+  breaks: { startTime: number; endTime: number | null }[];
+  billable: boolean;
+  rateOverride: number | null;
+}
+
+export interface PaidPayPeriodRow {
+  id: string;
+  jobId: string;
+  startDate: number;
+  endDate: number;
+  isPaid: boolean;
+  adjustments: { timeEntryId: string; createdAt: number }[];
+}
+
 export interface Session {
   userId: string;
-  token: string;
+  token: string; // The raw token is only available from createSession; stored rows hold its hash
   createdAt: number;
   expiresAt: number;
 }
 
-function hashPassword(password: string): string {
-  let hash = password;
-  for (let i = 0; i < 100; i++) {
-    hash = simpleHash(hash + password + i.toString());
-  }
-  return hash;
-}
-
 function cleanExpiredSessions(): void {
   const now = Date.now();
   const deleteStmt = db.prepare('DELETE FROM sessions WHERE expiresAt <= ?');
@@ -152,7 +348,7 @@ export const database = {
     const user: User = {
       id: generateUUID(),
       email,
-      password: hashPassword(password),
+      password: await hashPassword(password),
       displayName,
       photoURL: null,
       createdAt: Date.now(),
@@ -184,7 +380,12 @@ export const database = {
       return null;
     }
 
-    const updatedUser = { ...user, ...updates };
+    // Callers pass a plain-text password; only its hash is stored
+    const updatedUser = {
+      ...user,
+      ...updates,
+      ...(updates.password !== undefined && { password: await hashPassword(updates.password) }),
+    };
     
     const stmt = db.prepare(
       'UPDATE users SET email = ?, password = ?, displayName = ?, photoURL = ? WHERE id = ?'
@@ -206,11 +407,18 @@ export const database = {
       return null;
     }
 
-    const hashedPassword = hashPassword(password);
-    if (user.password !== hashedPassword) {
+    if (!(await checkPassword(password, user.password))) {
       return null;
     }
 
+    // Upgrade accounts still on the legacy hash now that we know the password
+    if (isLegacyPasswordHash(user.password)) {
+      const upgraded = await hashPassword(password);
+      db.prepare('UPDATE users SET password = ? WHERE id = ?').run(upgraded, user.id);
+      console.log('Upgraded password hash for user:', user.id);
+      return { ...user, password: upgraded };
+    }
+
     return user;
   },
 
@@ -228,7 +436,7 @@ export const database = {
     const stmt = db.prepare(
       'INSERT INTO sessions (token, userId, createdAt, expiresAt) VALUES (?, ?, ?, ?)'
     );
-    stmt.run(session.token, session.userId, session.createdAt, session.expiresAt);
+    stmt.run(hashToken(session.token), session.userId, session.createdAt, session.expiresAt);
     
     return session;
   },
@@ -237,13 +445,13 @@ export const database = {
     cleanExpiredSessions();
     
     const stmt = db.prepare('SELECT * FROM sessions WHERE token = ? AND expiresAt > ?');
-    const row = stmt.get(token, Date.now()) as any;
+    const row = stmt.get(hashToken(token), Date.now()) as any;
     return row || null;
   },
 
   async deleteSession(token: string): Promise<void> {
     const stmt = db.prepare('DELETE FROM sessions WHERE token = ?');
-    stmt.run(token);
+    stmt.run(hashToken(token));
   },
 
   async deleteUserSessions(userId: string): Promise<void> {
@@ -251,12 +459,91 @@ export const database = {
     stmt.run(userId);
   },
 
+  // Maps each existing row id to the user that owns it, including tombstoned rows
+  findRowOwners(table: SyncedTable, ids: string[]): Map<string, string> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+    const rows = db
+      .prepare(`SELECT id, userId FROM ${table} WHERE id IN (SELECT value FROM json_each(?))`)
+      .all(JSON.stringify(ids)) as { id: string; userId: string }[];
+    return new Map(rows.map(row => [row.id, row.userId]));
+  },
+
+  // Pay fields of the caller's live entries, keyed by id. Deleted entries are left out
+  // since writing one again adds its time back.
+  findEntryPayFields(userId: string, ids: string[]): Map<string, StoredEntryPayFields> {
+    if (ids.length === 0) {
+      return new Map();
+    }
+    const rows = db
+      .prepare(`
+        SELECT id, jobId, startTime, endTime, breaks, billable, rateOverride FROM time_entries
+        WHERE userId = ? AND deletedAt IS NULL AND id IN (SELECT value FROM json_each(?))
+      `)
+      .all(userId, JSON.stringify(ids)) as any[];
+    return new Map(rows.map(row => [row.id, {
+      jobId: row.jobId,
+      startTime: row.startTime,
+      endTime: row.endTime,
+      breaks: row.breaks ? JSON.parse(row.breaks) : [],
+      billable: row.billable !== 0,
+      rateOverride: row.rateOverride,
+    }]));
+  },
+
+  findPaidPayPeriods(userId: string, jobIds: string[]): PaidPayPeriodRow[] {
+    if (jobIds.length === 0) {
+      return [];
+    }
+    const rows = db
+      .prepare(`
+        SELECT id, jobId, startDate, endDate, adjustments FROM pay_periods
+        WHERE userId = ? AND isPaid = 1 AND deletedAt IS NULL AND jobId IN (SELECT value FROM json_each(?))
+      `)
+      .all(userId, JSON.stringify(jobIds)) as any[];
+    return rows.map(row => ({
+      id: row.id,
+      jobId: row.jobId,
+      startDate: row.startDate,
+      endDate: row.endDate,
+      isPaid: true,
+      adjustments: row.adjustments ? JSON.parse(row.adjustments) : [],
+    }));
+  },
+
+  // Marks rows as deleted so other devices receive the tombstone on their next pull.
+  // A row edited after the deletion time is left alone and reported as stale.
+  softDeleteRows(
+    table: SyncedTable,
+    userId: string,
+    items: { id: string; updatedAt?: number }[],
+    syncedAt: number
+  ): { id: string; status: 'accepted' | 'stale' }[] {
+    const update = db.prepare(`
+      UPDATE ${table} SET deletedAt = ?, updatedAt = ?, syncedAt = ?
+      WHERE id = ? AND userId = ? AND COALESCE(updatedAt, 0) <= ?
+    `);
+    const exists = db.prepare(`SELECT 1 FROM ${table} WHERE id = ? AND userId = ?`);
+
+    return items.map(item => {
+      const deletedAt = item.updatedAt ?? syncedAt;
+      const info = update.run(deletedAt, deletedAt, syncedAt, item.id, userId, deletedAt);
+      // Deleting a row the server never had is a no-op, not a conflict
+      const stale = info.changes === 0 && exists.get(item.id, userId) !== undefined;
+      return { id: item.id, status: stale ? 'stale' : 'accepted' };
+    });
+  },
+
   async clearAll(): Promise<void> {
     db.exec('DELETE FROM sessions');
     db.exec('DELETE FROM users');
+    db.exec('DELETE FROM clients');
     db.exec('DELETE FROM jobs');
     db.exec('DELETE FROM time_entries');
     db.exec('DELETE FROM pay_periods');
+    db.exec('DELETE FROM payments');
+    db.exec('DELETE FROM expenses');
   },
 
   async initializeDemoAccount(): Promise<void> {
@@ -270,7 +557,7 @@ export const database = {
       const demoUser: User = {
         id: generateUUID(),
         email: 'demo@example.com',
-        password: hashPassword('password123'),
+        password: await hashPassword('password123'),
         displayName: 'Demo User',
         photoURL: null,
         createdAt: Date.now(),
@@ -307,4 +594,14 @@ export const database = {
   exec(sql: string) {
     return db.exec(sql);
   },
+
+  // Makes a JavaScript function callable from SQL, for calculations SQLite can't do itself
+  function(name: string, fn: (...args: any[]) => unknown) {
+    db.function(name, { deterministic: true }, fn);
+  },
+
+  // Runs fn inside a transaction; any thrown error rolls back every write in it
+  transaction<T>(fn: () => T): T {
+    return db.transaction(fn)();
+  },
 };
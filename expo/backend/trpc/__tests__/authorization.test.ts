@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { database } from '../../db';
+import { router } from '../create-context';
+import { syncJobsProcedure } from '../routes/data/sync-jobs/route';
+import { getTimeEntriesProcedure, syncTimeEntriesProcedure } from '../routes/data/sync-time-entries/route';
+import { syncPayPeriodsProcedure } from '../routes/data/sync-pay-periods/route';
+
+const NOW = Date.parse('2024-03-13T12:00:00Z');
+
+// The sync procedures as mounted in the app router, without routes that need the app's runtime
+const testRouter = router({
+  data: router({
+    syncJobs: syncJobsProcedure,
+    syncTimeEntries: syncTimeEntriesProcedure,
+    getTimeEntries: getTimeEntriesProcedure,
+    syncPayPeriods: syncPayPeriodsProcedure,
+  }),
+});
+
+const createCaller = async (email: string) => {
+  const user = await database.createUser(email, 'correct horse battery', email);
+  const session = await database.createSession(user.id);
+  const caller = testRouter.createCaller({ req: new Request('http://localhost/api/trpc'), token: session.token });
+  return { user, caller };
+};
+
+const job = (id: string) => ({
+  id,
+  name: 'Consulting',
+  client: 'Acme',
+  hourlyRate: 100,
+  color: '#000000',
+  createdAt: NOW,
+  updatedAt: NOW,
+});
+
+const timeEntry = (id: string, jobId: string) => ({
+  id,
+  jobId,
+  startTime: NOW,
+  endTime: NOW + 60 * 60 * 1000,
+  note: '',
+  isOnBreak: false,
+  createdAt: NOW,
+  updatedAt: NOW,
+});
+
+const payPeriod = (id: string, jobId: string) => ({
+  id,
+  jobId,
+  startDate: NOW,
+  endDate: NOW + 7 * 24 * 60 * 60 * 1000,
+  totalDuration: 0,
+  totalEarnings: 0,
+  isPaid: false,
+  timeEntryIds: [],
+  createdAt: NOW,
+  updatedAt: NOW,
+});
+
+const findRow = (table: string, id: string) => database.prepare(`SELECT * FROM ${table} WHERE id = ?`).get(id) as any;
+
+describe('cross-tenant sync writes', () => {
+  let alice: Awaited<ReturnType<typeof createCaller>>;
+  let mallory: Awaited<ReturnType<typeof createCaller>>;
+
+  beforeEach(async () => {
+    await database.clearAll();
+    alice = await createCaller('alice@example.com');
+    mallory = await createCaller('mallory@example.com');
+
+    await alice.caller.data.syncJobs({ jobs: [job('alice-job')], operation: 'upsert' });
+    await alice.caller.data.syncTimeEntries({ timeEntries: [timeEntry('alice-entry', 'alice-job')], operation: 'upsert' });
+    await alice.caller.data.syncPayPeriods({ payPeriods: [payPeriod('alice-period', 'alice-job')], operation: 'upsert' });
+  });
+
+  it('rejects upserting a row owned by another user', async () => {
+    const result = await mallory.caller.data.syncJobs({
+      jobs: [{ ...job('alice-job'), name: 'Hijacked', updatedAt: NOW + 1000 }],
+      operation: 'upsert',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.results).toEqual([expect.objectContaining({ id: 'alice-job', status: 'rejected', code: 'FORBIDDEN' })]);
+    expect(findRow('jobs', 'alice-job')).toMatchObject({ userId: alice.user.id, name: 'Consulting' });
+  });
+
+  it('rejects upserting another user\'s time entry onto the caller\'s own job', async () => {
+    await mallory.caller.data.syncJobs({ jobs: [job('mallory-job')], operation: 'upsert' });
+    const result = await mallory.caller.data.syncTimeEntries({
+      timeEntries: [{ ...timeEntry('alice-entry', 'mallory-job'), updatedAt: NOW + 1000 }],
+      operation: 'upsert',
+    });
+
+    expect(result.results).toEqual([expect.objectContaining({ id: 'alice-entry', code: 'FORBIDDEN' })]);
+    expect(findRow('time_entries', 'alice-entry')).toMatchObject({ userId: alice.user.id, jobId: 'alice-job' });
+  });
+
+  it('rejects new entries and periods that point at another user\'s job', async () => {
+    const entries = await mallory.caller.data.syncTimeEntries({
+      timeEntries: [timeEntry('mallory-entry', 'alice-job')],
+      operation: 'upsert',
+    });
+    const periods = await mallory.caller.data.syncPayPeriods({
+      payPeriods: [payPeriod('mallory-period', 'alice-job')],
+      operation: 'upsert',
+    });
+
+    expect(entries.results).toEqual([expect.objectContaining({ id: 'mallory-entry', status: 'rejected', code: 'FORBIDDEN' })]);
+    expect(periods.results).toEqual([expect.objectContaining({ id: 'mallory-period', status: 'rejected', code: 'FORBIDDEN' })]);
+    expect(findRow('time_entries', 'mallory-entry')).toBeUndefined();
+    expect(findRow('pay_periods', 'mallory-period')).toBeUndefined();
+  });
+
+  it('accepts the caller\'s own rows in the same batch as rejected ones', async () => {
+    await mallory.caller.data.syncJobs({ jobs: [job('mallory-job')], operation: 'upsert' });
+    const result = await mallory.caller.data.syncTimeEntries({
+      timeEntries: [timeEntry('mallory-entry', 'mallory-job'), timeEntry('sneaky-entry', 'alice-job')],
+      operation: 'upsert',
+    });
+
+    expect(result.count).toBe(1);
+    expect(findRow('time_entries', 'mallory-entry')).toMatchObject({ userId: mallory.user.id });
+    expect(findRow('time_entries', 'sneaky-entry')).toBeUndefined();
+  });
+
+  it('leaves another user\'s rows alone on delete and reports them as rejected', async () => {
+    const deletes = [
+      mallory.caller.data.syncJobs({ jobs: [{ id: 'alice-job', updatedAt: NOW + 1000 }], operation: 'delete' }),
+      mallory.caller.data.syncTimeEntries({ timeEntries: [{ id: 'alice-entry', updatedAt: NOW + 1000 }], operation: 'delete' }),
+      mallory.caller.data.syncPayPeriods({ payPeriods: [{ id: 'alice-period', updatedAt: NOW + 1000 }], operation: 'delete' }),
+    ];
+
+    for (const result of await Promise.all(deletes)) {
+      expect(result.success).toBe(false);
+      expect(result.results).toEqual([expect.objectContaining({ status: 'rejected', code: 'FORBIDDEN' })]);
+    }
+    expect(findRow('jobs', 'alice-job').deletedAt).toBeNull();
+    expect(findRow('time_entries', 'alice-entry').deletedAt).toBeNull();
+    expect(findRow('pay_periods', 'alice-period').deletedAt).toBeNull();
+
+    const pulled = await alice.caller.data.getTimeEntries();
+    expect(pulled.map((entry: { id: string }) => entry.id)).toEqual(['alice-entry']);
+  });
+});
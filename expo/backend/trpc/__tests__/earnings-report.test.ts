@@ -0,0 +1,179 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { database } from '../../db';
+import { router } from '../create-context';
+import { syncClientsProcedure } from '../routes/data/sync-clients/route';
+import { syncJobsProcedure } from '../routes/data/sync-jobs/route';
+import { syncTimeEntriesProcedure } from '../routes/data/sync-time-entries/route';
+import { earningsReportProcedure } from '../routes/reports/earnings/route';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2024-11-20T12:00:00Z');
+
+const testRouter = router({
+  data: router({
+    syncClients: syncClientsProcedure,
+    syncJobs: syncJobsProcedure,
+    syncTimeEntries: syncTimeEntriesProcedure,
+  }),
+  reports: router({
+    earnings: earningsReportProcedure,
+  }),
+});
+
+const job = (id: string, client: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  name: id,
+  client,
+  hourlyRate: 100,
+  color: '#000000',
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...extra,
+});
+
+const timeEntry = (id: string, jobId: string, iso: string, hours: number, timeZone?: string) => {
+  const startTime = Date.parse(iso);
+  return { id, jobId, startTime, endTime: startTime + hours * HOUR, note: '', timeZone, createdAt: NOW, updatedAt: NOW };
+};
+
+describe('earnings report buckets', () => {
+  let caller: ReturnType<typeof testRouter.createCaller>;
+
+  beforeEach(async () => {
+    await database.clearAll();
+    const user = await database.createUser('owner@example.com', 'correct horse battery', 'Owner');
+    const session = await database.createSession(user.id);
+    caller = testRouter.createCaller({ req: new Request('http://localhost/api/trpc'), token: session.token });
+  });
+
+  it('dates entries in the job\'s billing timezone across DST changes', async () => {
+    await caller.data.syncJobs({
+      jobs: [job('nyc', 'Acme', { settings: { billingTimeZone: 'America/New_York' } })],
+      operation: 'upsert',
+    });
+    await caller.data.syncTimeEntries({
+      timeEntries: [
+        // 23:30 local on each side of fall-back; any single fixed offset misdates one of them
+        timeEntry('before', 'nyc', '2024-11-02T03:30:00Z', 1),
+        timeEntry('after', 'nyc', '2024-11-05T04:30:00Z', 1),
+      ],
+      operation: 'upsert',
+    });
+
+    const report = await caller.reports.earnings({
+      startDate: Date.parse('2024-10-01T00:00:00Z'),
+      endDate: Date.parse('2024-12-01T00:00:00Z'),
+      groupBy: 'day',
+    });
+    expect(report.groups.map(group => group.key)).toEqual(['2024-11-01', '2024-11-04']);
+  });
+
+  it('falls back to the entry\'s zone, then the requested one', async () => {
+    await caller.data.syncJobs({ jobs: [job('remote', 'Acme')], operation: 'upsert' });
+    await caller.data.syncTimeEntries({
+      timeEntries: [
+        timeEntry('tokyo', 'remote', '2024-10-31T16:00:00Z', 1, 'Asia/Tokyo'),
+        timeEntry('unzoned', 'remote', '2024-10-31T16:00:00Z', 1),
+      ],
+      operation: 'upsert',
+    });
+
+    const report = await caller.reports.earnings({
+      startDate: Date.parse('2024-10-01T00:00:00Z'),
+      endDate: Date.parse('2024-12-01T00:00:00Z'),
+      groupBy: 'month',
+      timeZone: 'America/Los_Angeles',
+    });
+    expect(report.groups.map(group => [group.key, group.hours])).toEqual([['2024-10', 1], ['2024-11', 1]]);
+  });
+
+  it('starts weeks on the requested weekday in local time', async () => {
+    await caller.data.syncJobs({
+      jobs: [job('london', 'Acme', { settings: { billingTimeZone: 'Europe/London' } })],
+      operation: 'upsert',
+    });
+    await caller.data.syncTimeEntries({
+      // 00:30 BST on Monday 21 October is still Sunday in UTC
+      timeEntries: [timeEntry('monday', 'london', '2024-10-20T23:30:00Z', 1)],
+      operation: 'upsert',
+    });
+
+    const report = await caller.reports.earnings({
+      startDate: Date.parse('2024-10-01T00:00:00Z'),
+      endDate: Date.parse('2024-12-01T00:00:00Z'),
+      groupBy: 'week',
+      weekStartDay: 1,
+    });
+    expect(report.groups.map(group => group.key)).toEqual(['2024-10-21']);
+  });
+
+  it('rejects unknown timezones', async () => {
+    await expect(caller.reports.earnings({
+      startDate: 0,
+      endDate: NOW,
+      groupBy: 'day',
+      timeZone: 'Mars/Olympus_Mons',
+    })).rejects.toThrow();
+  });
+
+  it('groups by client record rather than client name', async () => {
+    await caller.data.syncClients({
+      clients: [
+        { id: 'client-a', name: 'Acme', createdAt: NOW, updatedAt: NOW },
+        { id: 'client-b', name: 'ACME', createdAt: NOW, updatedAt: NOW },
+      ],
+      operation: 'upsert',
+    });
+    await caller.data.syncJobs({
+      jobs: [
+        job('first', 'Acme', { clientId: 'client-a' }),
+        job('second', 'Acme', { clientId: 'client-a' }),
+        job('other', 'ACME', { clientId: 'client-b' }),
+      ],
+      operation: 'upsert',
+    });
+    await caller.data.syncTimeEntries({
+      timeEntries: [
+        timeEntry('e1', 'first', '2024-11-04T09:00:00Z', 2),
+        timeEntry('e2', 'second', '2024-11-05T09:00:00Z', 1),
+        timeEntry('e3', 'other', '2024-11-06T09:00:00Z', 1),
+      ],
+      operation: 'upsert',
+    });
+
+    const report = await caller.reports.earnings({
+      startDate: Date.parse('2024-11-01T00:00:00Z'),
+      endDate: Date.parse('2024-12-01T00:00:00Z'),
+      groupBy: 'client',
+    });
+    expect(report.groups.map(group => [group.key, group.hours])).toEqual([['client-a', 3], ['client-b', 1]]);
+  });
+
+  it('counts hours on fixed-price jobs without hourly earnings', async () => {
+    await caller.data.syncJobs({
+      jobs: [
+        // Switched from hourly, so the old rate is still on the job
+        job('fixed', 'Acme', { billingModel: 'fixed', fixedPrice: 2000, hourlyRate: 100 }),
+        job('hourly', 'Acme'),
+      ],
+      operation: 'upsert',
+    });
+    await caller.data.syncTimeEntries({
+      timeEntries: [
+        timeEntry('f1', 'fixed', '2024-11-04T09:00:00Z', 3),
+        timeEntry('h1', 'hourly', '2024-11-05T09:00:00Z', 2),
+      ],
+      operation: 'upsert',
+    });
+
+    const report = await caller.reports.earnings({
+      startDate: Date.parse('2024-11-01T00:00:00Z'),
+      endDate: Date.parse('2024-12-01T00:00:00Z'),
+      groupBy: 'job',
+    });
+    expect(report.groups.map(group => [group.key, group.hours, group.earnings])).toEqual([
+      ['hourly', 2, 200],
+      ['fixed', 3, 0],
+    ]);
+  });
+});
@@ -5,9 +5,15 @@ import { loginProcedure } from './routes/auth/login/route';
 import { registerProcedure } from './routes/auth/register/route';
 import { logoutProcedure } from './routes/auth/logout/route';
 import { getProfileProcedure } from './routes/auth/profile/route';
+import { syncClientsProcedure, getClientsProcedure } from './routes/data/sync-clients/route';
 import { syncJobsProcedure, getJobsProcedure } from './routes/data/sync-jobs/route';
 import { syncTimeEntriesProcedure, getTimeEntriesProcedure } from './routes/data/sync-time-entries/route';
 import { syncPayPeriodsProcedure, getPayPeriodsProcedure } from './routes/data/sync-pay-periods/route';
+import { syncPaymentsProcedure, getPaymentsProcedure } from './routes/data/sync-payments/route';
+import { syncExpensesProcedure, getExpensesProcedure } from './routes/data/sync-expenses/route';
+import { pullChangesProcedure } from './routes/data/pull-changes/route';
+import { auditOverlapsProcedure } from './routes/data/audit-overlaps/route';
+import { earningsReportProcedure } from './routes/reports/earnings/route';
 
 export const appRouter = router({
   example: router({
@@ -23,12 +29,23 @@ export const appRouter = router({
     profile: getProfileProcedure,
   }),
   data: router({
+    syncClients: syncClientsProcedure,
+    getClients: getClientsProcedure,
     syncJobs: syncJobsProcedure,
     getJobs: getJobsProcedure,
     syncTimeEntries: syncTimeEntriesProcedure,
     getTimeEntries: getTimeEntriesProcedure,
     syncPayPeriods: syncPayPeriodsProcedure,
     getPayPeriods: getPayPeriodsProcedure,
+    syncPayments: syncPaymentsProcedure,
+    getPayments: getPaymentsProcedure,
+    syncExpenses: syncExpensesProcedure,
+    getExpenses: getExpensesProcedure,
+    pullChanges: pullChangesProcedure,
+    auditOverlaps: auditOverlapsProcedure,
+  }),
+  reports: router({
+    earnings: earningsReportProcedure,
   }),
 });
 
@@ -0,0 +1,123 @@
+import { database, SyncedTable } from '../db';
+import { SyncItemResult } from './routes/data/schemas';
+import { EntryPayFields, findPaidPeriodsForChange } from '@/utils/period-locks';
+
+// Splits items into those the caller may write and FORBIDDEN rejections for rows that
+// already exist under another user. Rows that don't exist yet are created for the caller.
+export function partitionOwnedRows<T extends { id: string }>(
+  table: SyncedTable,
+  items: T[],
+  userId: string
+): { allowed: T[]; forbidden: SyncItemResult[] } {
+  const owners = database.findRowOwners(table, items.map(item => item.id));
+  const allowed: T[] = [];
+  const forbidden: SyncItemResult[] = [];
+
+  items.forEach(item => {
+    const owner = owners.get(item.id);
+    if (owner !== undefined && owner !== userId) {
+      forbidden.push({ id: item.id, status: 'rejected', code: 'FORBIDDEN', reason: 'Record belongs to another user' });
+    } else {
+      allowed.push(item);
+    }
+  });
+
+  if (forbidden.length > 0) {
+    console.warn(`User ${userId} attempted to write ${forbidden.length} ${table} rows owned by another user`);
+  }
+
+  return { allowed, forbidden };
+}
+
+// Entries and pay periods may only reference jobs the caller owns. A job the server has
+// never seen is reported separately so the client can upload it and retry.
+export function partitionOwnedJobReferences<T extends { id: string; jobId: string }>(
+  items: T[],
+  userId: string
+): { allowed: T[]; rejected: SyncItemResult[] } {
+  const owners = database.findRowOwners('jobs', Array.from(new Set(items.map(item => item.jobId))));
+  const allowed: T[] = [];
+  const rejected: SyncItemResult[] = [];
+
+  items.forEach(item => {
+    const owner = owners.get(item.jobId);
+    if (owner === userId) {
+      allowed.push(item);
+    } else if (owner === undefined) {
+      rejected.push({ id: item.id, status: 'rejected', code: 'UNKNOWN_JOB', reason: `Job ${item.jobId} has not been synced` });
+    } else {
+      rejected.push({ id: item.id, status: 'rejected', code: 'FORBIDDEN', reason: 'Job belongs to another user' });
+    }
+  });
+
+  if (rejected.some(result => result.code === 'FORBIDDEN')) {
+    console.warn(`User ${userId} referenced jobs owned by another user`);
+  }
+
+  return { allowed, rejected };
+}
+
+// Jobs may link to a client the server hasn't received yet, but never to another user's
+export function partitionOwnedClientReferences<T extends { id: string; clientId?: string | null }>(
+  items: T[],
+  userId: string
+): { allowed: T[]; rejected: SyncItemResult[] } {
+  const clientIds = items.map(item => item.clientId).filter((id): id is string => !!id);
+  const owners = database.findRowOwners('clients', Array.from(new Set(clientIds)));
+  const allowed: T[] = [];
+  const rejected: SyncItemResult[] = [];
+
+  items.forEach(item => {
+    const owner = item.clientId ? owners.get(item.clientId) : undefined;
+    if (owner !== undefined && owner !== userId) {
+      rejected.push({ id: item.id, status: 'rejected', code: 'FORBIDDEN', reason: 'Client belongs to another user' });
+    } else {
+      allowed.push(item);
+    }
+  });
+
+  if (rejected.length > 0) {
+    console.warn(`User ${userId} referenced clients owned by another user`);
+  }
+
+  return { allowed, rejected };
+}
+
+// Time in a paid pay period only changes along with the adjustment the client records
+// for it. Clients upload pay periods before entries, so the adjustment is already here.
+// getChange returns the entry as written, or null for a deletion.
+export function partitionPaidPeriodWrites<T extends { id: string; updatedAt?: number }>(
+  items: T[],
+  userId: string,
+  getChange: (item: T) => EntryPayFields | null
+): { allowed: T[]; rejected: SyncItemResult[] } {
+  const existing = database.findEntryPayFields(userId, items.map(item => item.id));
+  const jobIds = new Set<string>();
+  items.forEach(item => {
+    const before = existing.get(item.id);
+    const after = getChange(item);
+    if (before) jobIds.add(before.jobId);
+    if (after) jobIds.add(after.jobId);
+  });
+  const paidPeriods = database.findPaidPayPeriods(userId, Array.from(jobIds));
+  const allowed: T[] = [];
+  const rejected: SyncItemResult[] = [];
+
+  items.forEach(item => {
+    const touched = findPaidPeriodsForChange(paidPeriods, existing.get(item.id) ?? null, getChange(item));
+    const recorded = touched.every(period => period.adjustments.some(adjustment =>
+      adjustment.timeEntryId === item.id && adjustment.createdAt === item.updatedAt
+    ));
+    if (recorded) {
+      allowed.push(item);
+    } else {
+      rejected.push({ id: item.id, status: 'rejected', code: 'PERIOD_LOCKED', reason: 'Entry is in a paid pay period' });
+    }
+  });
+
+  if (rejected.length > 0) {
+    console.warn(`User ${userId} changed ${rejected.length} entries in paid pay periods without an adjustment`);
+  }
+
+  return { allowed, rejected };
+}
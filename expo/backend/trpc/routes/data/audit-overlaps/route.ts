@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { protectedProcedure } from '../../../create-context';
+import { database } from '../../../../db';
+import { TRPCError } from '@trpc/server';
+import { mapTimeEntryRow } from '../sync-time-entries/route';
+import { findAllOverlaps } from '@/utils/overlaps';
+
+const auditOverlapsInputSchema = z.object({
+  startDate: z.number().optional(),
+  endDate: z.number().optional(),
+  // Only report pairs involving this job; its overlaps with other jobs are still found
+  jobId: z.string().optional(),
+});
+
+// Runs the same overlap check the app uses before saving, over everything stored on
+// the server, so entries synced from different devices can be audited for double billing
+export const auditOverlapsProcedure = protectedProcedure
+  .input(auditOverlapsInputSchema)
+  .query(async ({ input, ctx }) => {
+    try {
+      const userId = ctx.userId!;
+      console.log(`Auditing overlapping time entries for user ${userId}`);
+
+      const stmt = database.prepare(`
+        SELECT * FROM time_entries
+        WHERE userId = @userId
+          AND deletedAt IS NULL
+          AND (@startDate IS NULL OR endTime IS NULL OR endTime > @startDate)
+          AND (@endDate IS NULL OR startTime < @endDate)
+      `);
+      const rows = stmt.all({
+        userId,
+        startDate: input.startDate ?? null,
+        endDate: input.endDate ?? null,
+      }) as any[];
+
+      const overlaps = findAllOverlaps(rows.map(mapTimeEntryRow))
+        .filter(overlap => !input.jobId || overlap.jobId === input.jobId || overlap.otherJobId === input.jobId);
+
+      console.log(`Found ${overlaps.length} overlapping time entry pairs for user ${userId}`);
+      return {
+        overlaps,
+        sameJobCount: overlaps.filter(overlap => overlap.kind === 'same-job').length,
+        otherJobCount: overlaps.filter(overlap => overlap.kind === 'other-job').length,
+      };
+    } catch (error: any) {
+      console.error('Error auditing overlapping time entries:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: error.message || 'Failed to audit overlapping time entries',
+      });
+    }
+  });
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { protectedProcedure } from '../../../create-context';
+import { database } from '../../../../db';
+import { TRPCError } from '@trpc/server';
+import { mapClientRow } from '../sync-clients/route';
+import { mapJobRow } from '../sync-jobs/route';
+import { mapTimeEntryRow } from '../sync-time-entries/route';
+import { mapPayPeriodRow } from '../sync-pay-periods/route';
+import { mapPaymentRow } from '../sync-payments/route';
+import { mapExpenseRow } from '../sync-expenses/route';
+
+const pullChangesInputSchema = z.object({
+  // Cursor returned by the previous pull; null fetches a full snapshot
+  since: z.number().nullable(),
+});
+
+// Returns every row written since the cursor, including tombstones (deletedAt set).
+// The cursor is the server's clock, so edits uploaded late from an offline device
+// are still picked up even though their updatedAt is older.
+export const pullChangesProcedure = protectedProcedure
+  .input(pullChangesInputSchema)
+  .query(async ({ input, ctx }) => {
+    try {
+      const userId = ctx.userId!;
+      const serverTime = Date.now();
+      console.log(`Pulling changes for user ${userId} since ${input.since ?? 'beginning'}`);
+
+      // A full snapshot has nothing to delete locally, so tombstones are skipped.
+      // The range is inclusive so rows written in the cursor's millisecond aren't missed.
+      const filter = input.since === null
+        ? 'userId = ? AND deletedAt IS NULL'
+        : 'userId = ? AND syncedAt >= ?';
+      const params = input.since === null ? [userId] : [userId, input.since];
+
+      const clients = (database.prepare(`SELECT * FROM clients WHERE ${filter}`).all(...params) as any[])
+        .map(mapClientRow);
+      const jobs = (database.prepare(`SELECT * FROM jobs WHERE ${filter}`).all(...params) as any[])
+        .map(mapJobRow);
+      const timeEntries = (database.prepare(`SELECT * FROM time_entries WHERE ${filter}`).all(...params) as any[])
+        .map(mapTimeEntryRow);
+      const payPeriods = (database.prepare(`SELECT * FROM pay_periods WHERE ${filter}`).all(...params) as any[])
+        .map(mapPayPeriodRow);
+      const payments = (database.prepare(`SELECT * FROM payments WHERE ${filter}`).all(...params) as any[])
+        .map(mapPaymentRow);
+      const expenses = (database.prepare(`SELECT * FROM expenses WHERE ${filter}`).all(...params) as any[])
+        .map(mapExpenseRow);
+
+      console.log(`Pulled ${clients.length} clients, ${jobs.length} jobs, ${timeEntries.length} time entries, ${payPeriods.length} pay periods, ${payments.length} payments, ${expenses.length} expenses`);
+      return { clients, jobs, timeEntries, payPeriods, payments, expenses, serverTime };
+    } catch (error: any) {
+      console.error('Error pulling changes:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: error.message || 'Failed to pull changes',
+      });
+    }
+  });
@@ -0,0 +1,277 @@
+import { z } from 'zod';
+import { isValidTimeZone } from '@/utils/timezone';
+
+// Mirrors the client types in types/index.ts. Each synced item is validated on its own
+// so one malformed row is rejected without failing the rest of the batch.
+
+const timestamp = z.number().int().nonnegative();
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+const weekday = z.enum(['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']);
+const overtimeType = z.enum(['none', 'daily', 'weekly']);
+const distanceUnit = z.enum(['km', 'mi']);
+export const timeZone = z.string().max(64).refine(isValidTimeZone, 'Unknown timezone');
+
+export const presetBreakSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  startTime: timeOfDay,
+  endTime: timeOfDay,
+  days: z.array(weekday),
+  duration: z.number().min(0).max(24 * 60),
+});
+
+export const breakEntrySchema = z.object({
+  id: z.string().min(1),
+  startTime: timestamp,
+  endTime: timestamp.nullable(),
+  presetBreakId: z.string().optional(),
+}).refine(entry => entry.endTime === null || entry.endTime >= entry.startTime, {
+  message: 'Break ends before it starts',
+});
+
+export const timeRoundingSchema = z.object({
+  enabled: z.boolean(),
+  direction: z.enum(['up', 'down']),
+  interval: z.enum(['15min', '30min', '1hour']),
+  bufferTime: z.number().min(0).max(60),
+});
+
+export const jobBudgetSchema = z.object({
+  unit: z.enum(['hours', 'money']),
+  amount: z.number().positive(),
+  period: z.enum(['monthly', 'total']),
+  rollover: z.enum(['none', 'unused', 'all']).optional(),
+  rolloverCap: z.number().min(0).optional(),
+  alertThresholds: z.array(z.number().min(1).max(1000)).max(10).optional(),
+  startDate: timestamp.optional(),
+});
+
+export const jobSettingsSchema = z.object({
+  payPeriodType: z.enum(['weekly', 'biweekly', 'semimonthly', 'monthly']).optional(),
+  // Weekday for weekly/biweekly, day of month for monthly
+  payPeriodStartDay: z.number().int().min(0).max(28).optional(),
+  payPeriodAnchorDate: timestamp.optional(),
+  billingTimeZone: timeZone.optional(),
+  roundTime: z.enum(['none', '15min', '30min', '1hour']).optional(),
+  timeRounding: timeRoundingSchema.optional(),
+  tags: z.array(z.string()).optional(),
+  location: z.string().optional(),
+  clockOutReminders: z.boolean().optional(),
+  dailyReminderThreshold: z.number().min(0).max(24).optional(),
+  weeklyReminderThreshold: z.number().min(0).max(168).optional(),
+  maxShiftHours: z.number().min(0).max(72).optional(),
+  workdayEnd: timeOfDay.optional(),
+  autoCapForgottenTimers: z.boolean().optional(),
+  automaticBreaks: z.boolean().optional(),
+  presetBreaks: z.array(presetBreakSchema).optional(),
+  dailyOvertime: overtimeType.optional(),
+  dailyOvertimeThreshold: z.number().min(0).max(24).optional(),
+  dailyOvertimeRate: z.number().min(1).max(10).optional(),
+  weeklyOvertime: overtimeType.optional(),
+  weeklyOvertimeThreshold: z.number().min(0).max(168).optional(),
+  weeklyOvertimeRate: z.number().min(1).max(10).optional(),
+  estimatedTaxRate: z.number().min(0).max(100).optional(),
+  deductions: z.number().min(0).optional(),
+  mileageRate: z.number().min(0).optional(),
+  distanceUnit: distanceUnit.optional(),
+  budget: jobBudgetSchema.optional(),
+});
+
+export const rateChangeSchema = z.object({
+  rate: z.number().nonnegative(),
+  effectiveFrom: timestamp,
+});
+
+export const milestoneSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  amount: z.number().nonnegative(),
+  dueDate: timestamp.nullish(),
+  completedAt: timestamp.nullish(),
+});
+
+export const clientSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  email: z.string().trim().nullish(),
+  address: z.string().nullish(),
+  defaultRate: z.number().nonnegative().nullish(),
+  paymentTermsDays: z.number().int().min(0).max(365).nullish(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Expected an ISO currency code').nullish(),
+  createdAt: timestamp,
+  updatedAt: timestamp.optional(),
+});
+
+export const jobSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  client: z.string().trim().min(1),
+  clientId: z.string().min(1).nullish(),
+  hourlyRate: z.number().nonnegative(),
+  rateHistory: z.array(rateChangeSchema).max(500).nullish(),
+  billingModel: z.enum(['hourly', 'fixed', 'milestone']).nullish(),
+  fixedPrice: z.number().nonnegative().nullish(),
+  completedAt: timestamp.nullish(),
+  milestones: z.array(milestoneSchema).max(200).nullish(),
+  color: z.string().optional(),
+  settings: jobSettingsSchema.nullish(),
+  createdAt: timestamp,
+  updatedAt: timestamp.optional(),
+});
+
+export const timeEntrySchema = z.object({
+  id: z.string().min(1),
+  jobId: z.string().min(1),
+  startTime: timestamp,
+  endTime: timestamp.nullable(),
+  note: z.string().nullish(),
+  breaks: z.array(breakEntrySchema).nullish(),
+  dismissedAutoBreakIds: z.array(z.string()).nullish(),
+  isOnBreak: z.boolean().optional(),
+  timeZone: timeZone.nullish(),
+  billable: z.boolean().nullish(),
+  rateOverride: z.number().nonnegative().nullish(),
+  paidInPeriodId: z.string().nullish(),
+  createdAt: timestamp,
+  updatedAt: timestamp.optional(),
+}).refine(entry => entry.endTime === null || entry.endTime >= entry.startTime, {
+  message: 'Entry ends before it starts',
+});
+
+export const payPeriodAdjustmentSchema = z.object({
+  id: z.string().min(1),
+  timeEntryId: z.string().min(1),
+  kind: z.enum(['added', 'edited', 'deleted']),
+  durationDelta: z.number(),
+  earningsDelta: z.number(),
+  createdAt: timestamp,
+});
+
+export const payPeriodSchema = z.object({
+  id: z.string().min(1),
+  jobId: z.string().min(1),
+  startDate: timestamp,
+  endDate: timestamp,
+  totalDuration: z.number().nonnegative(),
+  totalEarnings: z.number(),
+  isPaid: z.boolean(),
+  paidDate: timestamp.nullish(),
+  unlockedAt: timestamp.nullish(),
+  adjustments: z.array(payPeriodAdjustmentSchema).max(1000).nullish(),
+  timeEntryIds: z.array(z.string()),
+  milestoneIds: z.array(z.string()).max(200).nullish(),
+  createdAt: timestamp,
+  updatedAt: timestamp.optional(),
+}).refine(period => period.endDate >= period.startDate, {
+  message: 'Period ends before it starts',
+});
+
+export const paymentAllocationSchema = z.object({
+  payPeriodId: z.string().min(1),
+  amount: z.number().positive(),
+});
+
+export const paymentSchema = z.object({
+  id: z.string().min(1),
+  jobId: z.string().min(1),
+  amount: z.number().positive(),
+  date: timestamp,
+  method: z.enum(['bank_transfer', 'cash', 'check', 'card', 'other']),
+  reference: z.string().nullish(),
+  note: z.string().nullish(),
+  allocations: z.array(paymentAllocationSchema).max(500),
+  createdAt: timestamp,
+  updatedAt: timestamp.optional(),
+}).refine(payment => {
+  // Compared in cents so float sums of allocations don't trip the check
+  const allocated = payment.allocations.reduce((total, allocation) => total + allocation.amount, 0);
+  return Math.round(allocated * 100) <= Math.round(payment.amount * 100);
+}, {
+  message: 'Allocations add up to more than the payment',
+});
+
+export const expenseSchema = z.object({
+  id: z.string().min(1),
+  jobId: z.string().min(1),
+  kind: z.enum(['expense', 'mileage']),
+  amount: z.number().nonnegative(),
+  category: z.enum(['materials', 'equipment', 'travel', 'meals', 'software', 'other']),
+  date: timestamp,
+  description: z.string().nullish(),
+  billable: z.boolean(),
+  receiptPath: z.string().max(500).nullish(),
+  distance: z.number().positive().nullish(),
+  distanceUnit: distanceUnit.nullish(),
+  mileageRate: z.number().nonnegative().nullish(),
+  createdAt: timestamp,
+  updatedAt: timestamp.optional(),
+}).refine(expense => expense.kind !== 'mileage' || (expense.distance != null && expense.distanceUnit != null), {
+  message: 'Mileage needs a distance and unit',
+});
+
+// Deletes only need the id and the deletion time
+export const deletedItemSchema = z.object({
+  id: z.string().min(1),
+  updatedAt: timestamp.optional(),
+});
+
+export const syncOperationSchema = z.enum(['upsert', 'delete']);
+
+// Larger queues are split into several requests by the client
+export const MAX_SYNC_BATCH_SIZE = 500;
+
+// Items arrive unvalidated so each one can be checked on its own
+export const syncItemsSchema = z.array(z.unknown()).max(MAX_SYNC_BATCH_SIZE);
+
+export type SyncItemStatus = 'accepted' | 'stale' | 'rejected';
+export type SyncRejectionCode = 'INVALID' | 'FORBIDDEN' | 'UNKNOWN_JOB' | 'PERIOD_LOCKED';
+
+export interface SyncItemResult {
+  id: string;
+  status: SyncItemStatus; // stale: the server already has a newer version
+  code?: SyncRejectionCode;
+  reason?: string;
+}
+
+// Best-effort id for reporting results on items that failed validation
+const getRawItemId = (item: unknown, index: number): string => {
+  const id = (item as { id?: unknown } | null)?.id;
+  return typeof id === 'string' && id ? id : `#${index}`;
+};
+
+const formatZodError = (error: z.ZodError): string => {
+  return error.issues
+    .map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+};
+
+// Splits raw items into parsed ones and INVALID rejections
+export function validateSyncItems<T>(
+  items: unknown[],
+  schema: z.ZodType<T>
+): { valid: T[]; rejected: SyncItemResult[] } {
+  const valid: T[] = [];
+  const rejected: SyncItemResult[] = [];
+
+  items.forEach((item, index) => {
+    const parsed = schema.safeParse(item);
+    if (parsed.success) {
+      valid.push(parsed.data);
+    } else {
+      rejected.push({
+        id: getRawItemId(item, index),
+        status: 'rejected',
+        code: 'INVALID',
+        reason: formatZodError(parsed.error),
+      });
+    }
+  });
+
+  return { valid, rejected };
+}
+
+export const summarizeResults = (results: SyncItemResult[]) => ({
+  success: results.every(result => result.status !== 'rejected'),
+  count: results.filter(result => result.status === 'accepted').length,
+  results,
+});
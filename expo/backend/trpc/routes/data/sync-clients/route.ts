@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import { protectedProcedure } from '../../../create-context';
+import { database } from '../../../../db';
+import { TRPCError } from '@trpc/server';
+import { partitionOwnedRows } from '../../../authorization';
+import {
+  SyncItemResult,
+  clientSchema,
+  deletedItemSchema,
+  summarizeResults,
+  syncItemsSchema,
+  syncOperationSchema,
+  validateSyncItems,
+} from '../schemas';
+
+export const mapClientRow = (row: any) => ({
+  ...row,
+  email: row.email ?? undefined,
+  address: row.address ?? undefined,
+  defaultRate: row.defaultRate ?? undefined,
+  paymentTermsDays: row.paymentTermsDays ?? undefined,
+  currency: row.currency ?? undefined,
+});
+
+const syncClientsInputSchema = z.object({
+  clients: syncItemsSchema,
+  operation: syncOperationSchema,
+});
+
+export const syncClientsProcedure = protectedProcedure
+  .input(syncClientsInputSchema)
+  .mutation(async ({ input, ctx }) => {
+    try {
+      const { clients, operation } = input;
+      const userId = ctx.userId!;
+      const syncedAt = Date.now();
+
+      console.log(`Syncing ${clients.length} clients for user ${userId} (${operation})`);
+
+      if (operation === 'delete') {
+        const { valid, rejected } = validateSyncItems(clients, deletedItemSchema);
+        const { allowed, forbidden } = partitionOwnedRows('clients', valid, userId);
+        const applied = database.transaction(() => database.softDeleteRows('clients', userId, allowed, syncedAt));
+        return summarizeResults([...rejected, ...forbidden, ...applied]);
+      }
+
+      const { valid, rejected } = validateSyncItems(clients, clientSchema);
+      const { allowed, forbidden } = partitionOwnedRows('clients', valid, userId);
+
+      // Last writer wins: an older copy never overwrites a newer edit or delete
+      const stmt = database.prepare(`
+        INSERT INTO clients (id, userId, name, email, address, defaultRate, paymentTermsDays, currency, createdAt, updatedAt, deletedAt, syncedAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          name = excluded.name,
+          email = excluded.email,
+          address = excluded.address,
+          defaultRate = excluded.defaultRate,
+          paymentTermsDays = excluded.paymentTermsDays,
+          currency = excluded.currency,
+          updatedAt = excluded.updatedAt,
+          deletedAt = NULL,
+          syncedAt = excluded.syncedAt
+        WHERE clients.userId = excluded.userId
+          AND excluded.updatedAt >= COALESCE(clients.updatedAt, 0)
+      `);
+
+      // The whole batch is applied or, on any database error, none of it
+      const applied = database.transaction(() => allowed.map((client): SyncItemResult => {
+        const info = stmt.run(
+          client.id,
+          userId,
+          client.name,
+          client.email || null,
+          client.address || null,
+          client.defaultRate ?? null,
+          client.paymentTermsDays ?? null,
+          client.currency || null,
+          client.createdAt,
+          client.updatedAt ?? syncedAt,
+          syncedAt
+        );
+        return { id: client.id, status: info.changes > 0 ? 'accepted' : 'stale' };
+      }));
+
+      const response = summarizeResults([...rejected, ...forbidden, ...applied]);
+      console.log(`Synced clients: ${response.count} accepted, ${clients.length - response.count} not applied`);
+      return response;
+    } catch (error: any) {
+      console.error('Error syncing clients:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: error.message || 'Failed to sync clients',
+      });
+    }
+  });
+
+export const getClientsProcedure = protectedProcedure
+  .query(async ({ ctx }) => {
+    try {
+      const userId = ctx.userId!;
+      console.log(`Fetching clients for user ${userId}`);
+
+      const stmt = database.prepare('SELECT * FROM clients WHERE userId = ? AND deletedAt IS NULL');
+      const rows = stmt.all(userId) as any[];
+
+      const clients = rows.map(mapClientRow);
+
+      console.log(`Found ${clients.length} clients for user ${userId}`);
+      return clients;
+    } catch (error: any) {
+      console.error('Error fetching clients:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: error.message || 'Failed to fetch clients',
+      });
+    }
+  });
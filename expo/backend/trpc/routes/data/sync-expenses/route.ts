@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import { protectedProcedure } from '../../../create-context';
+import { database } from '../../../../db';
+import { TRPCError } from '@trpc/server';
+import { partitionOwnedJobReferences, partitionOwnedRows } from '../../../authorization';
+import {
+  SyncItemResult,
+  deletedItemSchema,
+  expenseSchema,
+  summarizeResults,
+  syncItemsSchema,
+  syncOperationSchema,
+  validateSyncItems,
+} from '../schemas';
+
+export const mapExpenseRow = (row: any) => ({
+  ...row,
+  description: row.description ?? undefined,
+  billable: row.billable !== 0,
+  receiptPath: row.receiptPath ?? undefined,
+  distance: row.distance ?? undefined,
+  distanceUnit: row.distanceUnit ?? undefined,
+  mileageRate: row.mileageRate ?? undefined,
+});
+
+const syncExpensesInputSchema = z.object({
+  expenses: syncItemsSchema,
+  operation: syncOperationSchema,
+});
+
+export const syncExpensesProcedure = protectedProcedure
+  .input(syncExpensesInputSchema)
+  .mutation(async ({ input, ctx }) => {
+    try {
+      const { expenses, operation } = input;
+      const userId = ctx.userId!;
+      const syncedAt = Date.now();
+
+      console.log(`Syncing ${expenses.length} expenses for user ${userId} (${operation})`);
+
+      if (operation === 'delete') {
+        const { valid, rejected } = validateSyncItems(expenses, deletedItemSchema);
+        const { allowed, forbidden } = partitionOwnedRows('expenses', valid, userId);
+        const applied = database.transaction(() => database.softDeleteRows('expenses', userId, allowed, syncedAt));
+        return summarizeResults([...rejected, ...forbidden, ...applied]);
+      }
+
+      const { valid, rejected } = validateSyncItems(expenses, expenseSchema);
+      const { allowed: ownedRows, forbidden } = partitionOwnedRows('expenses', valid, userId);
+      const { allowed, rejected: jobRejections } = partitionOwnedJobReferences(ownedRows, userId);
+
+      // Last writer wins: an older copy never overwrites a newer edit or delete
+      const stmt = database.prepare(`
+        INSERT INTO expenses (id, userId, jobId, kind, amount, category, date, description, billable, receiptPath, distance, distanceUnit, mileageRate, createdAt, updatedAt, deletedAt, syncedAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          kind = excluded.kind,
+          amount = excluded.amount,
+          category = excluded.category,
+          date = excluded.date,
+          description = excluded.description,
+          billable = excluded.billable,
+          receiptPath = excluded.receiptPath,
+          distance = excluded.distance,
+          distanceUnit = excluded.distanceUnit,
+          mileageRate = excluded.mileageRate,
+          updatedAt = excluded.updatedAt,
+          deletedAt = NULL,
+          syncedAt = excluded.syncedAt
+        WHERE expenses.userId = excluded.userId
+          AND excluded.updatedAt >= COALESCE(expenses.updatedAt, 0)
+      `);
+
+      // The whole batch is applied or, on any database error, none of it
+      const applied = database.transaction(() => allowed.map((expense): SyncItemResult => {
+        const info = stmt.run(
+          expense.id,
+          userId,
+          expense.jobId,
+          expense.kind,
+          expense.amount,
+          expense.category,
+          expense.date,
+          expense.description || null,
+          expense.billable ? 1 : 0,
+          expense.receiptPath || null,
+          expense.distance ?? null,
+          expense.distanceUnit ?? null,
+          expense.mileageRate ?? null,
+          expense.createdAt,
+          expense.updatedAt ?? syncedAt,
+          syncedAt
+        );
+        return { id: expense.id, status: info.changes > 0 ? 'accepted' : 'stale' };
+      }));
+
+      const response = summarizeResults([...rejected, ...forbidden, ...jobRejections, ...applied]);
+      console.log(`Synced expenses: ${response.count} accepted, ${expenses.length - response.count} not applied`);
+      return response;
+    } catch (error: any) {
+      console.error('Error syncing expenses:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: error.message || 'Failed to sync expenses',
+      });
+    }
+  });
+
+export const getExpensesProcedure = protectedProcedure
+  .query(async ({ ctx }) => {
+    try {
+      const userId = ctx.userId!;
+      console.log(`Fetching expenses for user ${userId}`);
+
+      const stmt = database.prepare('SELECT * FROM expenses WHERE userId = ? AND deletedAt IS NULL');
+      const rows = stmt.all(userId) as any[];
+
+      const expenses = rows.map(mapExpenseRow);
+
+      console.log(`Found ${expenses.length} expenses for user ${userId}`);
+      return expenses;
+    } catch (error: any) {
+      console.error('Error fetching expenses:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: error.message || 'Failed to fetch expenses',
+      });
+    }
+  });
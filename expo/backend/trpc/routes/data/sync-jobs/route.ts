@@ -2,20 +2,31 @@ import { z } from 'zod';
 import { protectedProcedure } from '../../../create-context';
 import { database } from '../../../../db';
 import { TRPCError } from '@trpc/server';
+import { partitionOwnedClientReferences, partitionOwnedRows } from '../../../authorization';
+import {
+  SyncItemResult,
+  deletedItemSchema,
+  jobSchema,
+  summarizeResults,
+  syncItemsSchema,
+  syncOperationSchema,
+  validateSyncItems,
+} from '../schemas';
 
-const jobSchema = z.object({
-  id: z.string(),
-  name: z.string(),
-  client: z.string(),
-  hourlyRate: z.number(),
-  color: z.string().optional(),
-  settings: z.any().optional(),
-  createdAt: z.number(),
+export const mapJobRow = (row: any) => ({
+  ...row,
+  clientId: row.clientId ?? undefined,
+  rateHistory: row.rateHistory ? JSON.parse(row.rateHistory) : undefined,
+  billingModel: row.billingModel ?? undefined,
+  fixedPrice: row.fixedPrice ?? undefined,
+  completedAt: row.completedAt ?? undefined,
+  milestones: row.milestones ? JSON.parse(row.milestones) : undefined,
+  settings: row.settings ? JSON.parse(row.settings) : null,
 });
 
 const syncJobsInputSchema = z.object({
-  jobs: z.array(jobSchema),
-  operation: z.enum(['upsert', 'delete']),
+  jobs: syncItemsSchema,
+  operation: syncOperationSchema,
 });
 
 export const syncJobsProcedure = protectedProcedure
@@ -24,42 +35,70 @@ export const syncJobsProcedure = protectedProcedure
     try {
       const { jobs, operation } = input;
       const userId = ctx.userId!;
+      const syncedAt = Date.now();
 
       console.log(`Syncing ${jobs.length} jobs for user ${userId} (${operation})`);
 
-      if (operation === 'upsert') {
-        for (const job of jobs) {
-          const stmt = database.prepare(`
-            INSERT INTO jobs (id, userId, name, client, hourlyRate, color, settings, createdAt)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-            ON CONFLICT(id) DO UPDATE SET
-              name = excluded.name,
-              client = excluded.client,
-              hourlyRate = excluded.hourlyRate,
-              color = excluded.color,
-              settings = excluded.settings
-          `);
-          
-          stmt.run(
-            job.id,
-            userId,
-            job.name,
-            job.client,
-            job.hourlyRate,
-            job.color || null,
-            job.settings ? JSON.stringify(job.settings) : null,
-            job.createdAt
-          );
-        }
-      } else if (operation === 'delete') {
-        for (const job of jobs) {
-          const stmt = database.prepare('DELETE FROM jobs WHERE id = ? AND userId = ?');
-          stmt.run(job.id, userId);
-        }
+      if (operation === 'delete') {
+        const { valid, rejected } = validateSyncItems(jobs, deletedItemSchema);
+        const { allowed, forbidden } = partitionOwnedRows('jobs', valid, userId);
+        const applied = database.transaction(() => database.softDeleteRows('jobs', userId, allowed, syncedAt));
+        return summarizeResults([...rejected, ...forbidden, ...applied]);
       }
 
-      console.log(`Successfully synced ${jobs.length} jobs`);
-      return { success: true, count: jobs.length };
+      const { valid, rejected } = validateSyncItems(jobs, jobSchema);
+      const { allowed: ownedRows, forbidden } = partitionOwnedRows('jobs', valid, userId);
+      const { allowed, rejected: clientRejections } = partitionOwnedClientReferences(ownedRows, userId);
+
+      // Last writer wins: an older copy never overwrites a newer edit or delete
+      const stmt = database.prepare(`
+        INSERT INTO jobs (id, userId, name, client, clientId, hourlyRate, rateHistory, billingModel, fixedPrice, completedAt, milestones, color, settings, createdAt, updatedAt, deletedAt, syncedAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          name = excluded.name,
+          client = excluded.client,
+          clientId = excluded.clientId,
+          hourlyRate = excluded.hourlyRate,
+          rateHistory = excluded.rateHistory,
+          billingModel = excluded.billingModel,
+          fixedPrice = excluded.fixedPrice,
+          completedAt = excluded.completedAt,
+          milestones = excluded.milestones,
+          color = excluded.color,
+          settings = excluded.settings,
+          updatedAt = excluded.updatedAt,
+          deletedAt = NULL,
+          syncedAt = excluded.syncedAt
+        WHERE jobs.userId = excluded.userId
+          AND excluded.updatedAt >= COALESCE(jobs.updatedAt, 0)
+      `);
+
+      // The whole batch is applied or, on any database error, none of it
+      const applied = database.transaction(() => allowed.map((job): SyncItemResult => {
+        const info = stmt.run(
+          job.id,
+          userId,
+          job.name,
+          job.client,
+          job.clientId || null,
+          job.hourlyRate,
+          job.rateHistory?.length ? JSON.stringify(job.rateHistory) : null,
+          job.billingModel ?? null,
+          job.fixedPrice ?? null,
+          job.completedAt ?? null,
+          job.milestones?.length ? JSON.stringify(job.milestones) : null,
+          job.color || null,
+          job.settings ? JSON.stringify(job.settings) : null,
+          job.createdAt,
+          job.updatedAt ?? syncedAt,
+          syncedAt
+        );
+        return { id: job.id, status: info.changes > 0 ? 'accepted' : 'stale' };
+      }));
+
+      const response = summarizeResults([...rejected, ...forbidden, ...clientRejections, ...applied]);
+      console.log(`Synced jobs: ${response.count} accepted, ${jobs.length - response.count} not applied`);
+      return response;
     } catch (error: any) {
       console.error('Error syncing jobs:', error);
       throw new TRPCError({
@@ -75,13 +114,10 @@ export const getJobsProcedure = protectedProcedure
       const userId = ctx.userId!;
       console.log(`Fetching jobs for user ${userId}`);
 
-      const stmt = database.prepare('SELECT * FROM jobs WHERE userId = ?');
+      const stmt = database.prepare('SELECT * FROM jobs WHERE userId = ? AND deletedAt IS NULL');
       const rows = stmt.all(userId) as any[];
 
-      const jobs = rows.map(row => ({
-        ...row,
-        settings: row.settings ? JSON.parse(row.settings) : null,
-      }));
+      const jobs = rows.map(mapJobRow);
 
       console.log(`Found ${jobs.length} jobs for user ${userId}`);
       return jobs;
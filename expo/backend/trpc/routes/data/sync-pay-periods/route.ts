@@ -2,23 +2,29 @@ import { z } from 'zod';
 import { protectedProcedure } from '../../../create-context';
 import { database } from '../../../../db';
 import { TRPCError } from '@trpc/server';
+import { partitionOwnedJobReferences, partitionOwnedRows } from '../../../authorization';
+import {
+  SyncItemResult,
+  deletedItemSchema,
+  payPeriodSchema,
+  summarizeResults,
+  syncItemsSchema,
+  syncOperationSchema,
+  validateSyncItems,
+} from '../schemas';
 
-const payPeriodSchema = z.object({
-  id: z.string(),
-  jobId: z.string(),
-  startDate: z.number(),
-  endDate: z.number(),
-  totalDuration: z.number(),
-  totalEarnings: z.number(),
-  isPaid: z.boolean(),
-  paidDate: z.number().optional(),
-  timeEntryIds: z.array(z.string()),
-  createdAt: z.number(),
+export const mapPayPeriodRow = (row: any) => ({
+  ...row,
+  isPaid: Boolean(row.isPaid),
+  unlockedAt: row.unlockedAt ?? undefined,
+  adjustments: row.adjustments ? JSON.parse(row.adjustments) : undefined,
+  timeEntryIds: JSON.parse(row.timeEntryIds),
+  milestoneIds: row.milestoneIds ? JSON.parse(row.milestoneIds) : undefined,
 });
 
 const syncPayPeriodsInputSchema = z.object({
-  payPeriods: z.array(payPeriodSchema),
-  operation: z.enum(['upsert', 'delete']),
+  payPeriods: syncItemsSchema,
+  operation: syncOperationSchema,
 });
 
 export const syncPayPeriodsProcedure = protectedProcedure
@@ -27,47 +33,69 @@ export const syncPayPeriodsProcedure = protectedProcedure
     try {
       const { payPeriods, operation } = input;
       const userId = ctx.userId!;
+      const syncedAt = Date.now();
 
       console.log(`Syncing ${payPeriods.length} pay periods for user ${userId} (${operation})`);
 
-      if (operation === 'upsert') {
-        for (const period of payPeriods) {
-          const stmt = database.prepare(`
-            INSERT INTO pay_periods (id, userId, jobId, startDate, endDate, totalDuration, totalEarnings, isPaid, paidDate, timeEntryIds, createdAt)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-            ON CONFLICT(id) DO UPDATE SET
-              startDate = excluded.startDate,
-              endDate = excluded.endDate,
-              totalDuration = excluded.totalDuration,
-              totalEarnings = excluded.totalEarnings,
-              isPaid = excluded.isPaid,
-              paidDate = excluded.paidDate,
-              timeEntryIds = excluded.timeEntryIds
-          `);
-          
-          stmt.run(
-            period.id,
-            userId,
-            period.jobId,
-            period.startDate,
-            period.endDate,
-            period.totalDuration,
-            period.totalEarnings,
-            period.isPaid ? 1 : 0,
-            period.paidDate || null,
-            JSON.stringify(period.timeEntryIds),
-            period.createdAt
-          );
-        }
-      } else if (operation === 'delete') {
-        for (const period of payPeriods) {
-          const stmt = database.prepare('DELETE FROM pay_periods WHERE id = ? AND userId = ?');
-          stmt.run(period.id, userId);
-        }
+      if (operation === 'delete') {
+        const { valid, rejected } = validateSyncItems(payPeriods, deletedItemSchema);
+        const { allowed, forbidden } = partitionOwnedRows('pay_periods', valid, userId);
+        const applied = database.transaction(() => database.softDeleteRows('pay_periods', userId, allowed, syncedAt));
+        return summarizeResults([...rejected, ...forbidden, ...applied]);
       }
 
-      console.log(`Successfully synced ${payPeriods.length} pay periods`);
-      return { success: true, count: payPeriods.length };
+      const { valid, rejected } = validateSyncItems(payPeriods, payPeriodSchema);
+      const { allowed: ownedRows, forbidden } = partitionOwnedRows('pay_periods', valid, userId);
+      const { allowed, rejected: jobRejections } = partitionOwnedJobReferences(ownedRows, userId);
+
+      // Last writer wins: an older copy never overwrites a newer edit or delete
+      const stmt = database.prepare(`
+        INSERT INTO pay_periods (id, userId, jobId, startDate, endDate, totalDuration, totalEarnings, isPaid, paidDate, unlockedAt, adjustments, timeEntryIds, milestoneIds, createdAt, updatedAt, deletedAt, syncedAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          startDate = excluded.startDate,
+          endDate = excluded.endDate,
+          totalDuration = excluded.totalDuration,
+          totalEarnings = excluded.totalEarnings,
+          isPaid = excluded.isPaid,
+          paidDate = excluded.paidDate,
+          unlockedAt = excluded.unlockedAt,
+          adjustments = excluded.adjustments,
+          timeEntryIds = excluded.timeEntryIds,
+          milestoneIds = excluded.milestoneIds,
+          updatedAt = excluded.updatedAt,
+          deletedAt = NULL,
+          syncedAt = excluded.syncedAt
+        WHERE pay_periods.userId = excluded.userId
+          AND excluded.updatedAt >= COALESCE(pay_periods.updatedAt, 0)
+      `);
+
+      // The whole batch is applied or, on any database error, none of it
+      const applied = database.transaction(() => allowed.map((period): SyncItemResult => {
+        const info = stmt.run(
+          period.id,
+          userId,
+          period.jobId,
+          period.startDate,
+          period.endDate,
+          period.totalDuration,
+          period.totalEarnings,
+          period.isPaid ? 1 : 0,
+          period.paidDate || null,
+          period.unlockedAt ?? null,
+          period.adjustments?.length ? JSON.stringify(period.adjustments) : null,
+          JSON.stringify(period.timeEntryIds),
+          period.milestoneIds?.length ? JSON.stringify(period.milestoneIds) : null,
+          period.createdAt,
+          period.updatedAt ?? syncedAt,
+          syncedAt
+        );
+        return { id: period.id, status: info.changes > 0 ? 'accepted' : 'stale' };
+      }));
+
+      const response = summarizeResults([...rejected, ...forbidden, ...jobRejections, ...applied]);
+      console.log(`Synced pay periods: ${response.count} accepted, ${payPeriods.length - response.count} not applied`);
+      return response;
     } catch (error: any) {
       console.error('Error syncing pay periods:', error);
       throw new TRPCError({
@@ -83,14 +111,10 @@ export const getPayPeriodsProcedure = protectedProcedure
       const userId = ctx.userId!;
       console.log(`Fetching pay periods for user ${userId}`);
 
-      const stmt = database.prepare('SELECT * FROM pay_periods WHERE userId = ?');
+      const stmt = database.prepare('SELECT * FROM pay_periods WHERE userId = ? AND deletedAt IS NULL');
       const rows = stmt.all(userId) as any[];
 
-      const payPeriods = rows.map(row => ({
-        ...row,
-        isPaid: Boolean(row.isPaid),
-        timeEntryIds: JSON.parse(row.timeEntryIds),
-      }));
+      const payPeriods = rows.map(mapPayPeriodRow);
 
       console.log(`Found ${payPeriods.length} pay periods for user ${userId}`);
       return payPeriods;
@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import { protectedProcedure } from '../../../create-context';
+import { database } from '../../../../db';
+import { TRPCError } from '@trpc/server';
+import { partitionOwnedJobReferences, partitionOwnedRows } from '../../../authorization';
+import {
+  SyncItemResult,
+  deletedItemSchema,
+  paymentSchema,
+  summarizeResults,
+  syncItemsSchema,
+  syncOperationSchema,
+  validateSyncItems,
+} from '../schemas';
+
+export const mapPaymentRow = (row: any) => ({
+  ...row,
+  reference: row.reference ?? undefined,
+  note: row.note ?? undefined,
+  allocations: JSON.parse(row.allocations),
+});
+
+const syncPaymentsInputSchema = z.object({
+  payments: syncItemsSchema,
+  operation: syncOperationSchema,
+});
+
+export const syncPaymentsProcedure = protectedProcedure
+  .input(syncPaymentsInputSchema)
+  .mutation(async ({ input, ctx }) => {
+    try {
+      const { payments, operation } = input;
+      const userId = ctx.userId!;
+      const syncedAt = Date.now();
+
+      console.log(`Syncing ${payments.length} payments for user ${userId} (${operation})`);
+
+      if (operation === 'delete') {
+        const { valid, rejected } = validateSyncItems(payments, deletedItemSchema);
+        const { allowed, forbidden } = partitionOwnedRows('payments', valid, userId);
+        const applied = database.transaction(() => database.softDeleteRows('payments', userId, allowed, syncedAt));
+        return summarizeResults([...rejected, ...forbidden, ...applied]);
+      }
+
+      const { valid, rejected } = validateSyncItems(payments, paymentSchema);
+      const { allowed: ownedRows, forbidden } = partitionOwnedRows('payments', valid, userId);
+      const { allowed, rejected: jobRejections } = partitionOwnedJobReferences(ownedRows, userId);
+
+      // Last writer wins: an older copy never overwrites a newer edit or delete
+      const stmt = database.prepare(`
+        INSERT INTO payments (id, userId, jobId, amount, date, method, reference, note, allocations, createdAt, updatedAt, deletedAt, syncedAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          amount = excluded.amount,
+          date = excluded.date,
+          method = excluded.method,
+          reference = excluded.reference,
+          note = excluded.note,
+          allocations = excluded.allocations,
+          updatedAt = excluded.updatedAt,
+          deletedAt = NULL,
+          syncedAt = excluded.syncedAt
+        WHERE payments.userId = excluded.userId
+          AND excluded.updatedAt >= COALESCE(payments.updatedAt, 0)
+      `);
+
+      // The whole batch is applied or, on any database error, none of it
+      const applied = database.transaction(() => allowed.map((payment): SyncItemResult => {
+        const info = stmt.run(
+          payment.id,
+          userId,
+          payment.jobId,
+          payment.amount,
+          payment.date,
+          payment.method,
+          payment.reference || null,
+          payment.note || null,
+          JSON.stringify(payment.allocations),
+          payment.createdAt,
+          payment.updatedAt ?? syncedAt,
+          syncedAt
+        );
+        return { id: payment.id, status: info.changes > 0 ? 'accepted' : 'stale' };
+      }));
+
+      const response = summarizeResults([...rejected, ...forbidden, ...jobRejections, ...applied]);
+      console.log(`Synced payments: ${response.count} accepted, ${payments.length - response.count} not applied`);
+      return response;
+    } catch (error: any) {
+      console.error('Error syncing payments:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: error.message || 'Failed to sync payments',
+      });
+    }
+  });
+
+export const getPaymentsProcedure = protectedProcedure
+  .query(async ({ ctx }) => {
+    try {
+      const userId = ctx.userId!;
+      console.log(`Fetching payments for user ${userId}`);
+
+      const stmt = database.prepare('SELECT * FROM payments WHERE userId = ? AND deletedAt IS NULL');
+      const rows = stmt.all(userId) as any[];
+
+      const payments = rows.map(mapPaymentRow);
+
+      console.log(`Found ${payments.length} payments for user ${userId}`);
+      return payments;
+    } catch (error: any) {
+      console.error('Error fetching payments:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: error.message || 'Failed to fetch payments',
+      });
+    }
+  });
@@ -2,22 +2,30 @@ import { z } from 'zod';
 import { protectedProcedure } from '../../../create-context';
 import { database } from '../../../../db';
 import { TRPCError } from '@trpc/server';
+import { partitionOwnedJobReferences, partitionOwnedRows, partitionPaidPeriodWrites } from '../../../authorization';
+import {
+  SyncItemResult,
+  deletedItemSchema,
+  summarizeResults,
+  syncItemsSchema,
+  syncOperationSchema,
+  timeEntrySchema,
+  validateSyncItems,
+} from '../schemas';
 
-const timeEntrySchema = z.object({
-  id: z.string(),
-  jobId: z.string(),
-  startTime: z.number(),
-  endTime: z.number().nullable(),
-  note: z.string().optional(),
-  breaks: z.array(z.any()).optional(),
-  isOnBreak: z.boolean().optional(),
-  paidInPeriodId: z.string().optional(),
-  createdAt: z.number(),
+export const mapTimeEntryRow = (row: any) => ({
+  ...row,
+  breaks: row.breaks ? JSON.parse(row.breaks) : [],
+  dismissedAutoBreakIds: row.dismissedAutoBreakIds ? JSON.parse(row.dismissedAutoBreakIds) : undefined,
+  timeZone: row.timeZone ?? undefined,
+  billable: row.billable !== 0,
+  rateOverride: row.rateOverride ?? undefined,
+  isOnBreak: Boolean(row.isOnBreak),
 });
 
 const syncTimeEntriesInputSchema = z.object({
-  timeEntries: z.array(timeEntrySchema),
-  operation: z.enum(['upsert', 'delete']),
+  timeEntries: syncItemsSchema,
+  operation: syncOperationSchema,
 });
 
 export const syncTimeEntriesProcedure = protectedProcedure
@@ -26,45 +34,71 @@ export const syncTimeEntriesProcedure = protectedProcedure
     try {
       const { timeEntries, operation } = input;
       const userId = ctx.userId!;
+      const syncedAt = Date.now();
 
       console.log(`Syncing ${timeEntries.length} time entries for user ${userId} (${operation})`);
 
-      if (operation === 'upsert') {
-        for (const entry of timeEntries) {
-          const stmt = database.prepare(`
-            INSERT INTO time_entries (id, userId, jobId, startTime, endTime, note, breaks, isOnBreak, paidInPeriodId, createdAt)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-            ON CONFLICT(id) DO UPDATE SET
-              startTime = excluded.startTime,
-              endTime = excluded.endTime,
-              note = excluded.note,
-              breaks = excluded.breaks,
-              isOnBreak = excluded.isOnBreak,
-              paidInPeriodId = excluded.paidInPeriodId
-          `);
-          
-          stmt.run(
-            entry.id,
-            userId,
-            entry.jobId,
-            entry.startTime,
-            entry.endTime,
-            entry.note || null,
-            entry.breaks ? JSON.stringify(entry.breaks) : null,
-            entry.isOnBreak ? 1 : 0,
-            entry.paidInPeriodId || null,
-            entry.createdAt
-          );
-        }
-      } else if (operation === 'delete') {
-        for (const entry of timeEntries) {
-          const stmt = database.prepare('DELETE FROM time_entries WHERE id = ? AND userId = ?');
-          stmt.run(entry.id, userId);
-        }
+      if (operation === 'delete') {
+        const { valid, rejected } = validateSyncItems(timeEntries, deletedItemSchema);
+        const { allowed: ownedRows, forbidden } = partitionOwnedRows('time_entries', valid, userId);
+        const { allowed, rejected: lockedRejections } = partitionPaidPeriodWrites(ownedRows, userId, () => null);
+        const applied = database.transaction(() => database.softDeleteRows('time_entries', userId, allowed, syncedAt));
+        return summarizeResults([...rejected, ...forbidden, ...lockedRejections, ...applied]);
       }
 
-      console.log(`Successfully synced ${timeEntries.length} time entries`);
-      return { success: true, count: timeEntries.length };
+      const { valid, rejected } = validateSyncItems(timeEntries, timeEntrySchema);
+      const { allowed: ownedRows, forbidden } = partitionOwnedRows('time_entries', valid, userId);
+      const { allowed: referencedRows, rejected: jobRejections } = partitionOwnedJobReferences(ownedRows, userId);
+      const { allowed, rejected: lockedRejections } = partitionPaidPeriodWrites(referencedRows, userId, entry => entry);
+
+      // Last writer wins: an older copy never overwrites a newer edit or delete
+      const stmt = database.prepare(`
+        INSERT INTO time_entries (id, userId, jobId, startTime, endTime, note, breaks, dismissedAutoBreakIds, isOnBreak, timeZone, billable, rateOverride, paidInPeriodId, createdAt, updatedAt, deletedAt, syncedAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          startTime = excluded.startTime,
+          endTime = excluded.endTime,
+          note = excluded.note,
+          breaks = excluded.breaks,
+          dismissedAutoBreakIds = excluded.dismissedAutoBreakIds,
+          isOnBreak = excluded.isOnBreak,
+          timeZone = excluded.timeZone,
+          billable = excluded.billable,
+          rateOverride = excluded.rateOverride,
+          paidInPeriodId = excluded.paidInPeriodId,
+          updatedAt = excluded.updatedAt,
+          deletedAt = NULL,
+          syncedAt = excluded.syncedAt
+        WHERE time_entries.userId = excluded.userId
+          AND excluded.updatedAt >= COALESCE(time_entries.updatedAt, 0)
+      `);
+
+      // The whole batch is applied or, on any database error, none of it
+      const applied = database.transaction(() => allowed.map((entry): SyncItemResult => {
+        const info = stmt.run(
+          entry.id,
+          userId,
+          entry.jobId,
+          entry.startTime,
+          entry.endTime,
+          entry.note || null,
+          entry.breaks ? JSON.stringify(entry.breaks) : null,
+          entry.dismissedAutoBreakIds?.length ? JSON.stringify(entry.dismissedAutoBreakIds) : null,
+          entry.isOnBreak ? 1 : 0,
+          entry.timeZone || null,
+          entry.billable === false ? 0 : 1,
+          entry.rateOverride ?? null,
+          entry.paidInPeriodId || null,
+          entry.createdAt,
+          entry.updatedAt ?? syncedAt,
+          syncedAt
+        );
+        return { id: entry.id, status: info.changes > 0 ? 'accepted' : 'stale' };
+      }));
+
+      const response = summarizeResults([...rejected, ...forbidden, ...jobRejections, ...lockedRejections, ...applied]);
+      console.log(`Synced time entries: ${response.count} accepted, ${timeEntries.length - response.count} not applied`);
+      return response;
     } catch (error: any) {
       console.error('Error syncing time entries:', error);
       throw new TRPCError({
@@ -80,14 +114,10 @@ export const getTimeEntriesProcedure = protectedProcedure
       const userId = ctx.userId!;
       console.log(`Fetching time entries for user ${userId}`);
 
-      const stmt = database.prepare('SELECT * FROM time_entries WHERE userId = ?');
+      const stmt = database.prepare('SELECT * FROM time_entries WHERE userId = ? AND deletedAt IS NULL');
       const rows = stmt.all(userId) as any[];
 
-      const timeEntries = rows.map(row => ({
-        ...row,
-        breaks: row.breaks ? JSON.parse(row.breaks) : [],
-        isOnBreak: Boolean(row.isOnBreak),
-      }));
+      const timeEntries = rows.map(mapTimeEntryRow);
 
       console.log(`Found ${timeEntries.length} time entries for user ${userId}`);
       return timeEntries;
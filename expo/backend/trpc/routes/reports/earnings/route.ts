@@ -0,0 +1,229 @@
+import { z } from 'zod';
+import { protectedProcedure } from '../../../create-context';
+import { database } from '../../../../db';
+import { TRPCError } from '@trpc/server';
+import { timeZone } from '../../data/schemas';
+import { getStartOfWeek } from '@/utils/time';
+import { formatDateInput, resolveTimeZone } from '@/utils/timezone';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+const earningsReportInputSchema = z.object({
+  startDate: z.number(),
+  endDate: z.number(),
+  groupBy: z.enum(['day', 'week', 'month', 'job', 'client']),
+  jobId: z.string().optional(),
+  // IANA zone for days, weeks and months of entries whose job has no billing timezone
+  // and that weren't recorded with one
+  timeZone: timeZone.default('UTC'),
+  weekStartDay: z.number().int().min(0).max(6).default(0),
+}).refine(input => input.endDate > input.startDate, {
+  message: 'endDate must be after startDate',
+});
+
+type ReportRow = {
+  groupKey: string;
+  label: string;
+  entryCount: number;
+  durationMs: number;
+  paidDurationMs: number;
+  earnings: number;
+  paidEarnings: number;
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Date buckets follow DST in each entry's zone, which a fixed offset can't, so the
+// calendar math is done by the same helpers the app uses for pay periods
+database.function('zoned_date', (timestamp: number, zone: string) => {
+  return formatDateInput(timestamp, zone);
+});
+database.function('zoned_week_start', (timestamp: number, zone: string, weekStartDay: number) => {
+  return formatDateInput(getStartOfWeek(timestamp, weekStartDay, zone).getTime(), zone);
+});
+database.function('resolve_time_zone', (jobZone: string | null, entryZone: string | null, fallback: string) => {
+  return resolveTimeZone(jobZone, entryZone, fallback);
+});
+
+// Completed entries in the range with their worked milliseconds (breaks removed).
+// Each entry is dated in its job's billing timezone, else the zone it was recorded in.
+// Non-billable entries, and all time on fixed-price and milestone jobs (which earn from
+// their fee, as in utils/billing.ts), count towards hours at a rate of zero. Otherwise the
+// rate is the entry's override or the job rate in force when it started (see utils/rates.ts).
+const ENTRIES_CTE = `
+  WITH entries AS (
+    SELECT
+      te.id,
+      te.jobId,
+      j.name AS jobName,
+      j.clientId AS clientId,
+      COALESCE(c.name, j.client) AS client,
+      CASE
+        WHEN te.billable = 0 THEN 0
+        WHEN j.billingModel IN ('fixed', 'milestone') THEN 0
+        ELSE COALESCE(
+          te.rateOverride,
+          (
+            SELECT json_extract(r.value, '$.rate')
+            FROM json_each(j.rateHistory) r
+            WHERE json_extract(r.value, '$.effectiveFrom') <= te.startTime
+            ORDER BY json_extract(r.value, '$.effectiveFrom') DESC
+            LIMIT 1
+          ),
+          (
+            SELECT json_extract(r.value, '$.rate')
+            FROM json_each(j.rateHistory) r
+            ORDER BY json_extract(r.value, '$.effectiveFrom')
+            LIMIT 1
+          ),
+          j.hourlyRate
+        )
+      END AS hourlyRate,
+      te.paidInPeriodId IS NOT NULL AS isPaid,
+      te.startTime AS startTime,
+      resolve_time_zone(json_extract(j.settings, '$.billingTimeZone'), te.timeZone, @timeZone) AS timeZone,
+      MAX(0, (te.endTime - te.startTime) - COALESCE((
+        SELECT SUM(json_extract(b.value, '$.endTime') - json_extract(b.value, '$.startTime'))
+        FROM json_each(te.breaks) b
+        WHERE json_extract(b.value, '$.endTime') IS NOT NULL
+      ), 0)) AS durationMs
+    FROM time_entries te
+    JOIN jobs j ON j.id = te.jobId AND j.userId = te.userId AND j.deletedAt IS NULL
+    LEFT JOIN clients c ON c.id = j.clientId AND c.userId = te.userId AND c.deletedAt IS NULL
+    WHERE te.userId = @userId
+      AND te.deletedAt IS NULL
+      AND te.endTime IS NOT NULL
+      AND te.startTime >= @startDate
+      AND te.startTime < @endDate
+      AND (@jobId IS NULL OR te.jobId = @jobId)
+  )
+`;
+
+// Label defaults to the key for date buckets
+const GROUP_EXPRESSIONS: Record<z.infer<typeof earningsReportInputSchema>['groupBy'], { key: string; label?: string }> = {
+  day: {
+    key: `zoned_date(startTime, timeZone)`,
+  },
+  week: {
+    key: `zoned_week_start(startTime, timeZone, @weekStartDay)`,
+  },
+  month: {
+    key: `substr(zoned_date(startTime, timeZone), 1, 7)`,
+  },
+  job: {
+    key: 'jobId',
+    label: 'MAX(jobName)',
+  },
+  // Linked jobs group by client record; older jobs only have the client's name
+  client: {
+    key: 'COALESCE(clientId, LOWER(client))',
+    label: 'MAX(client)',
+  },
+};
+
+// Hours and earnings aggregated in SQL so clients don't need to download every entry.
+// Earnings use each job's base hourly rate; overtime and rounding are applied on the
+// device, so paid totals from pay periods are returned alongside for reconciliation.
+export const earningsReportProcedure = protectedProcedure
+  .input(earningsReportInputSchema)
+  .query(async ({ input, ctx }) => {
+    try {
+      const userId = ctx.userId!;
+      const rangeParams = {
+        userId,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        jobId: input.jobId ?? null,
+      };
+      const entryParams = {
+        ...rangeParams,
+        timeZone: input.timeZone,
+        // Only the week grouping references @weekStartDay
+        ...(input.groupBy === 'week' && { weekStartDay: input.weekStartDay }),
+      };
+
+      console.log(`Building ${input.groupBy} earnings report for user ${userId}`);
+
+      const group = GROUP_EXPRESSIONS[input.groupBy];
+      const stmt = database.prepare(`
+        ${ENTRIES_CTE}
+        SELECT
+          ${group.key} AS groupKey,
+          ${group.label ?? group.key} AS label,
+          COUNT(*) AS entryCount,
+          COALESCE(SUM(durationMs), 0) AS durationMs,
+          COALESCE(SUM(CASE WHEN isPaid THEN durationMs ELSE 0 END), 0) AS paidDurationMs,
+          COALESCE(SUM(durationMs * hourlyRate), 0) / ${MS_PER_HOUR}.0 AS earnings,
+          COALESCE(SUM(CASE WHEN isPaid THEN durationMs * hourlyRate ELSE 0 END), 0) / ${MS_PER_HOUR}.0 AS paidEarnings
+        FROM entries
+        GROUP BY groupKey
+        ORDER BY ${input.groupBy === 'job' || input.groupBy === 'client' ? 'earnings DESC' : 'groupKey ASC'}
+      `);
+      const rows = stmt.all(entryParams) as ReportRow[];
+
+      const groups = rows.map(row => ({
+        key: row.groupKey,
+        label: row.label,
+        entryCount: row.entryCount,
+        hours: round(row.durationMs / MS_PER_HOUR),
+        paidHours: round(row.paidDurationMs / MS_PER_HOUR),
+        unpaidHours: round((row.durationMs - row.paidDurationMs) / MS_PER_HOUR),
+        earnings: round(row.earnings),
+        paidEarnings: round(row.paidEarnings),
+        unpaidEarnings: round(row.earnings - row.paidEarnings),
+      }));
+
+      const totals = groups.reduce((sum, row) => ({
+        entryCount: sum.entryCount + row.entryCount,
+        hours: round(sum.hours + row.hours),
+        paidHours: round(sum.paidHours + row.paidHours),
+        unpaidHours: round(sum.unpaidHours + row.unpaidHours),
+        earnings: round(sum.earnings + row.earnings),
+        paidEarnings: round(sum.paidEarnings + row.paidEarnings),
+        unpaidEarnings: round(sum.unpaidEarnings + row.unpaidEarnings),
+      }), { entryCount: 0, hours: 0, paidHours: 0, unpaidHours: 0, earnings: 0, paidEarnings: 0, unpaidEarnings: 0 });
+
+      // Partial payments count toward a period before it's marked paid
+      const periodStmt = database.prepare(`
+        WITH allocated AS (
+          SELECT
+            json_extract(allocation.value, '$.payPeriodId') AS payPeriodId,
+            SUM(json_extract(allocation.value, '$.amount')) AS amount
+          FROM payments, json_each(payments.allocations) AS allocation
+          WHERE payments.userId = @userId AND payments.deletedAt IS NULL
+          GROUP BY payPeriodId
+        )
+        SELECT
+          COUNT(*) AS periodCount,
+          COALESCE(SUM(CASE WHEN p.isPaid = 1 THEN MAX(p.totalEarnings, COALESCE(a.amount, 0)) ELSE COALESCE(a.amount, 0) END), 0) AS paidEarnings,
+          COALESCE(SUM(CASE WHEN p.isPaid = 1 THEN 0 ELSE MAX(p.totalEarnings - COALESCE(a.amount, 0), 0) END), 0) AS unpaidEarnings
+        FROM pay_periods p
+        LEFT JOIN allocated a ON a.payPeriodId = p.id
+        WHERE p.userId = @userId
+          AND p.deletedAt IS NULL
+          AND p.endDate >= @startDate
+          AND p.startDate < @endDate
+          AND (@jobId IS NULL OR p.jobId = @jobId)
+      `);
+      const periods = periodStmt.get(rangeParams) as { periodCount: number; paidEarnings: number; unpaidEarnings: number };
+
+      return {
+        groupBy: input.groupBy,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        groups,
+        totals,
+        payPeriods: {
+          count: periods.periodCount,
+          paidEarnings: round(periods.paidEarnings),
+          unpaidEarnings: round(periods.unpaidEarnings),
+        },
+      };
+    } catch (error: any) {
+      console.error('Error building earnings report:', error);
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: error.message || 'Failed to build earnings report',
+      });
+    }
+  });
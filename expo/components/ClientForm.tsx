@@ -0,0 +1,340 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { UserPlus } from 'lucide-react-native';
+import OptionSelector from '@/components/OptionSelector';
+import ContactSelector, { Contact } from '@/components/ContactSelector';
+import { useBusinessStore } from '@/store/businessStore';
+import { useTheme } from '@/contexts/ThemeContext';
+import { CURRENCIES, getCurrencyByCode } from '@/constants/currencies';
+import { Client } from '@/types';
+
+export type ClientFormValues = Omit<Client, 'id' | 'createdAt' | 'updatedAt' | 'deletedAt'>;
+
+type ClientFormProps = {
+  initialValues?: Partial<ClientFormValues>;
+  onSubmit: (values: ClientFormValues) => void;
+  submitButtonText: string;
+};
+
+// Empty string means the business currency from Tax & Currency settings
+const BUSINESS_CURRENCY = '';
+
+const paymentTermsOptions = [
+  { label: 'Due on receipt', value: 0 },
+  { label: 'Net 7', value: 7 },
+  { label: 'Net 14', value: 14 },
+  { label: 'Net 15', value: 15 },
+  { label: 'Net 30', value: 30 },
+  { label: 'Net 45', value: 45 },
+  { label: 'Net 60', value: 60 },
+  { label: 'Net 90', value: 90 },
+];
+
+export default function ClientForm({ initialValues = {}, onSubmit, submitButtonText }: ClientFormProps) {
+  const router = useRouter();
+  const { taxSettings } = useBusinessStore();
+  const { colors } = useTheme();
+
+  const [name, setName] = useState(initialValues.name || '');
+  const [email, setEmail] = useState(initialValues.email || '');
+  const [address, setAddress] = useState(initialValues.address || '');
+  const [defaultRate, setDefaultRate] = useState(initialValues.defaultRate ? initialValues.defaultRate.toString() : '');
+  const [paymentTermsDays, setPaymentTermsDays] = useState(initialValues.paymentTermsDays ?? 30);
+  const [currency, setCurrency] = useState(initialValues.currency || BUSINESS_CURRENCY);
+  const [showContactSelector, setShowContactSelector] = useState(false);
+
+  const currencyOptions = [
+    { label: `Business default (${taxSettings.currency})`, value: BUSINESS_CURRENCY },
+    ...CURRENCIES.map(option => ({
+      label: `${option.name} (${option.symbol})`,
+      value: option.code,
+    })),
+  ];
+  const currencySymbol = getCurrencyByCode(currency || taxSettings.currency)?.symbol ?? taxSettings.currencySymbol;
+
+  const handleSelectContact = (contact: Contact) => {
+    setName(contact.name);
+    if (contact.email) setEmail(contact.email);
+    if (contact.address) setAddress(contact.address);
+  };
+
+  const handleSubmit = () => {
+    if (!name.trim()) {
+      Alert.alert("Error", "Client name is required");
+      return;
+    }
+
+    if (email.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      Alert.alert("Error", "Please enter a valid email address");
+      return;
+    }
+
+    const rate = defaultRate.trim() ? parseFloat(defaultRate) : undefined;
+    if (rate !== undefined && (isNaN(rate) || rate < 0)) {
+      Alert.alert("Error", "Please enter a valid default rate");
+      return;
+    }
+
+    onSubmit({
+      name: name.trim(),
+      email: email.trim() || undefined,
+      address: address.trim() || undefined,
+      defaultRate: rate || undefined,
+      paymentTermsDays,
+      currency: currency || undefined,
+    });
+  };
+
+  const styles = createStyles(colors);
+
+  return (
+    <>
+      <ScrollView style={styles.container}>
+        <View style={styles.formContainer}>
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Contact</Text>
+              <TouchableOpacity style={styles.importButton} onPress={() => setShowContactSelector(true)}>
+                <UserPlus size={16} color={colors.primary} />
+                <Text style={styles.importButtonText}>From Contacts</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Name</Text>
+              <TextInput
+                style={styles.input}
+                value={name}
+                onChangeText={setName}
+                placeholder="e.g. Acme Corp"
+                placeholderTextColor={colors.placeholder}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Billing Email</Text>
+              <TextInput
+                style={styles.input}
+                value={email}
+                onChangeText={setEmail}
+                placeholder="billing@client.com"
+                placeholderTextColor={colors.placeholder}
+                keyboardType="email-address"
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Address</Text>
+              <TextInput
+                style={[styles.input, styles.multilineInput]}
+                value={address}
+                onChangeText={setAddress}
+                placeholder="Street, city, postcode"
+                placeholderTextColor={colors.placeholder}
+                multiline
+              />
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Billing</Text>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Default Hourly Rate</Text>
+              <View style={styles.inputWithIcon}>
+                <Text style={styles.currencySymbol}>{currencySymbol}</Text>
+                <TextInput
+                  style={styles.inputWithIconText}
+                  value={defaultRate}
+                  onChangeText={setDefaultRate}
+                  keyboardType="decimal-pad"
+                  placeholder="0.00"
+                  placeholderTextColor={colors.placeholder}
+                />
+              </View>
+              <Text style={styles.helpText}>
+                Suggested when you create a job for this client.
+              </Text>
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Payment Terms</Text>
+              <OptionSelector
+                options={paymentTermsOptions}
+                selectedValue={paymentTermsDays}
+                onSelect={(value) => setPaymentTermsDays(Number(value))}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Currency</Text>
+              <OptionSelector
+                options={currencyOptions}
+                selectedValue={currency}
+                onSelect={(value) => setCurrency(value.toString())}
+              />
+            </View>
+          </View>
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={() => router.back()}
+            >
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[styles.button, styles.submitButton]}
+              onPress={handleSubmit}
+            >
+              <Text style={styles.buttonText}>{submitButtonText}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </ScrollView>
+
+      <ContactSelector
+        visible={showContactSelector}
+        onClose={() => setShowContactSelector(false)}
+        onSelectContact={handleSelectContact}
+      />
+    </>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.surface,
+  },
+  formContainer: {
+    padding: 20,
+  },
+  section: {
+    backgroundColor: colors.background,
+    borderRadius: 20,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 3 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 16,
+    letterSpacing: -0.3,
+  },
+  importButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: colors.primaryLight,
+    marginBottom: 16,
+  },
+  importButtonText: {
+    color: colors.primary,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 8,
+    letterSpacing: -0.2,
+  },
+  input: {
+    backgroundColor: colors.inputBg,
+    borderRadius: 14,
+    padding: 16,
+    fontSize: 16,
+    color: colors.text,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  multilineInput: {
+    minHeight: 88,
+    textAlignVertical: 'top',
+  },
+  inputWithIcon: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.inputBg,
+    borderRadius: 14,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  currencySymbol: {
+    fontSize: 20,
+    color: colors.subtext,
+    marginRight: 8,
+    fontWeight: '500',
+  },
+  inputWithIconText: {
+    flex: 1,
+    padding: 16,
+    fontSize: 16,
+    color: colors.text,
+  },
+  helpText: {
+    fontSize: 12,
+    color: colors.subtext,
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+    paddingHorizontal: 16,
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#374151',
+  },
+  submitButton: {
+    backgroundColor: colors.primary,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    fontSize: 16,
+    letterSpacing: -0.2,
+  },
+});
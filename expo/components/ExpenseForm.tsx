@@ -0,0 +1,453 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  Image,
+  Alert,
+} from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { Camera, ImageIcon, X } from 'lucide-react-native';
+import OptionSelector from '@/components/OptionSelector';
+import { useBusinessStore } from '@/store/businessStore';
+import { useTheme } from '@/contexts/ThemeContext';
+import { formatCurrency } from '@/utils/helpers';
+import { formatDateInput, parseDateInput } from '@/utils/timezone';
+import { roundMoney } from '@/utils/invoice';
+import { EXPENSE_CATEGORIES, getMileageAmount, getMileageSettings } from '@/utils/expenses';
+import { Expense, ExpenseCategory, ExpenseKind, Job } from '@/types';
+
+export type ExpenseFormValues = Pick<
+  Expense,
+  'kind' | 'amount' | 'category' | 'date' | 'description' | 'billable' | 'distance' | 'distanceUnit' | 'mileageRate'
+>;
+
+type ExpenseFormProps = {
+  job: Job;
+  timeZone: string; // Expense dates are entered in the job's billing timezone
+  isSubmitting?: boolean;
+  // receiptUri is a local image still to be uploaded
+  onSubmit: (values: ExpenseFormValues, receiptUri: string | null) => void;
+  onCancel: () => void;
+};
+
+export default function ExpenseForm({ job, timeZone, isSubmitting = false, onSubmit, onCancel }: ExpenseFormProps) {
+  const { taxSettings } = useBusinessStore();
+  const { colors } = useTheme();
+  const mileage = getMileageSettings(job);
+
+  const [kind, setKind] = useState<ExpenseKind>('expense');
+  const [amount, setAmount] = useState('');
+  const [distance, setDistance] = useState('');
+  const [category, setCategory] = useState<ExpenseCategory>('materials');
+  const [date, setDate] = useState(formatDateInput(Date.now(), timeZone));
+  const [description, setDescription] = useState('');
+  const [billable, setBillable] = useState(true);
+  const [receiptUri, setReceiptUri] = useState<string | null>(null);
+
+  const money = (value: number) => formatCurrency(value, taxSettings.currency, taxSettings.currencySymbol);
+
+  const parsedDistance = parseFloat(distance);
+  const mileageAmount = isNaN(parsedDistance) ? 0 : getMileageAmount(parsedDistance, mileage.rate);
+
+  const pickReceipt = async (source: 'camera' | 'library') => {
+    try {
+      const permission = source === 'camera'
+        ? await ImagePicker.requestCameraPermissionsAsync()
+        : await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert(
+          source === 'camera' ? 'Camera Permission Required' : 'Photo Library Permission Required',
+          'Please enable access in your device settings to attach a receipt.'
+        );
+        return;
+      }
+
+      const options: ImagePicker.ImagePickerOptions = {
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        quality: 0.7,
+        exif: false,
+      };
+      const result = source === 'camera'
+        ? await ImagePicker.launchCameraAsync(options)
+        : await ImagePicker.launchImageLibraryAsync(options);
+
+      if (!result.canceled && result.assets && result.assets[0]) {
+        setReceiptUri(result.assets[0].uri);
+      }
+    } catch (error) {
+      console.error('Error picking receipt:', error);
+      Alert.alert('Error', 'Failed to open the camera or photo library. Please try again.');
+    }
+  };
+
+  const handleSubmit = () => {
+    const expenseDate = parseDateInput(date, timeZone);
+    if (expenseDate === null) {
+      Alert.alert("Error", "Please enter the expense date as YYYY-MM-DD");
+      return;
+    }
+
+    if (kind === 'mileage') {
+      if (isNaN(parsedDistance) || parsedDistance <= 0) {
+        Alert.alert("Error", "Please enter the distance travelled");
+        return;
+      }
+      onSubmit({
+        kind,
+        amount: mileageAmount,
+        category: 'travel',
+        date: expenseDate,
+        description: description.trim() || undefined,
+        billable,
+        distance: parsedDistance,
+        distanceUnit: mileage.unit,
+        mileageRate: mileage.rate,
+      }, null);
+      return;
+    }
+
+    const parsedAmount = parseFloat(amount);
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      Alert.alert("Error", "Please enter the amount spent");
+      return;
+    }
+    onSubmit({
+      kind,
+      amount: roundMoney(parsedAmount),
+      category,
+      date: expenseDate,
+      description: description.trim() || undefined,
+      billable,
+    }, receiptUri);
+  };
+
+  const styles = createStyles(colors);
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.formContainer}>
+        <View style={styles.section}>
+          <View style={styles.segmented}>
+            {(['expense', 'mileage'] as ExpenseKind[]).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.segment, kind === option && styles.segmentActive]}
+                onPress={() => setKind(option)}
+              >
+                <Text style={[styles.segmentText, kind === option && styles.segmentTextActive]}>
+                  {option === 'expense' ? 'Expense' : 'Mileage'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {kind === 'mileage' ? (
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Distance ({mileage.unit})</Text>
+              <TextInput
+                style={styles.input}
+                value={distance}
+                onChangeText={setDistance}
+                keyboardType="decimal-pad"
+                placeholder="0"
+                placeholderTextColor={colors.placeholder}
+              />
+              <Text style={styles.helpText}>
+                {mileage.rate > 0
+                  ? `${money(mileage.rate)} per ${mileage.unit} · ${money(mileageAmount)}`
+                  : 'Set a mileage rate in the job settings to price mileage.'}
+              </Text>
+            </View>
+          ) : (
+            <>
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Amount</Text>
+                <View style={styles.inputWithIcon}>
+                  <Text style={styles.currencySymbol}>{taxSettings.currencySymbol}</Text>
+                  <TextInput
+                    style={styles.inputWithIconText}
+                    value={amount}
+                    onChangeText={setAmount}
+                    keyboardType="decimal-pad"
+                    placeholder="0.00"
+                    placeholderTextColor={colors.placeholder}
+                  />
+                </View>
+              </View>
+
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Category</Text>
+                <OptionSelector
+                  options={EXPENSE_CATEGORIES.map(option => ({ label: option.label, value: option.value }))}
+                  selectedValue={category}
+                  onSelect={(value) => setCategory(value as ExpenseCategory)}
+                />
+              </View>
+            </>
+          )}
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Date</Text>
+            <TextInput
+              style={styles.input}
+              value={date}
+              onChangeText={setDate}
+              keyboardType="numbers-and-punctuation"
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={colors.placeholder}
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Description</Text>
+            <TextInput
+              style={styles.input}
+              value={description}
+              onChangeText={setDescription}
+              placeholder={kind === 'mileage' ? 'e.g. Site visit' : 'e.g. Paint and brushes'}
+              placeholderTextColor={colors.placeholder}
+            />
+          </View>
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingText}>
+              <Text style={styles.label}>Billable</Text>
+              <Text style={styles.settingValue}>
+                {billable ? 'Can be added to an invoice for the client' : 'Kept as your own cost'}
+              </Text>
+            </View>
+            <Switch
+              value={billable}
+              onValueChange={setBillable}
+              trackColor={{ false: colors.border, true: colors.primary }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+        </View>
+
+        {kind === 'expense' && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Receipt</Text>
+            {receiptUri ? (
+              <View style={styles.receiptPreview}>
+                <Image source={{ uri: receiptUri }} style={styles.receiptImage} resizeMode="cover" />
+                <TouchableOpacity style={styles.removeReceiptButton} onPress={() => setReceiptUri(null)}>
+                  <X size={16} color="#FFFFFF" />
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <View style={styles.receiptButtons}>
+                <TouchableOpacity style={styles.receiptButton} onPress={() => pickReceipt('camera')}>
+                  <Camera size={18} color={colors.primary} />
+                  <Text style={styles.receiptButtonText}>Take Photo</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.receiptButton} onPress={() => pickReceipt('library')}>
+                  <ImageIcon size={18} color={colors.primary} />
+                  <Text style={styles.receiptButtonText}>Choose Photo</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        )}
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onCancel} disabled={isSubmitting}>
+            <Text style={styles.buttonText}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.button, styles.submitButton, isSubmitting && styles.disabledButton]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+          >
+            <Text style={styles.buttonText}>{isSubmitting ? 'Saving...' : 'Add Expense'}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.surface,
+  },
+  formContainer: {
+    padding: 20,
+  },
+  section: {
+    backgroundColor: colors.background,
+    borderRadius: 20,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 3 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 16,
+    letterSpacing: -0.3,
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 20,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  segmentActive: {
+    backgroundColor: colors.background,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  segmentText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.subtext,
+  },
+  segmentTextActive: {
+    color: colors.text,
+    fontWeight: '600',
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 8,
+    letterSpacing: -0.2,
+  },
+  input: {
+    backgroundColor: colors.inputBg,
+    borderRadius: 14,
+    padding: 16,
+    fontSize: 16,
+    color: colors.text,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  inputWithIcon: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.inputBg,
+    borderRadius: 14,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  currencySymbol: {
+    fontSize: 20,
+    color: colors.subtext,
+    marginRight: 8,
+    fontWeight: '500',
+  },
+  inputWithIconText: {
+    flex: 1,
+    padding: 16,
+    fontSize: 16,
+    color: colors.text,
+  },
+  helpText: {
+    fontSize: 12,
+    color: colors.subtext,
+    marginTop: 8,
+    fontStyle: 'italic',
+  },
+  settingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  settingText: {
+    flex: 1,
+  },
+  settingValue: {
+    fontSize: 14,
+    color: colors.subtext,
+  },
+  receiptButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  receiptButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 14,
+    backgroundColor: colors.primaryLight,
+  },
+  receiptButtonText: {
+    color: colors.primary,
+    fontWeight: '600',
+    fontSize: 15,
+  },
+  receiptPreview: {
+    borderRadius: 14,
+    overflow: 'hidden',
+  },
+  receiptImage: {
+    width: '100%',
+    height: 200,
+  },
+  removeReceiptButton: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    padding: 6,
+    borderRadius: 14,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+    paddingHorizontal: 16,
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#374151',
+  },
+  submitButton: {
+    backgroundColor: colors.primary,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    fontSize: 16,
+    letterSpacing: -0.2,
+  },
+});
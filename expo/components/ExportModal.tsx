@@ -0,0 +1,295 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  Platform,
+  SafeAreaView,
+} from 'react-native';
+import { X, Download } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useJobsStore } from '@/store/jobsStore';
+import { shareTextFile } from '@/lib/share-file';
+import {
+  ExportFilter,
+  ExportFormat,
+  buildExportRows,
+  buildJsonExport,
+  getExportFileName,
+  rowsToCsv,
+} from '@/utils/export';
+
+type RangeOption = 'week' | 'month' | 'last30' | 'year' | 'all';
+
+type ExportModalProps = {
+  visible: boolean;
+  onClose: () => void;
+  jobId?: string; // Locks the export to a single job
+};
+
+const RANGE_OPTIONS: { value: RangeOption; label: string }[] = [
+  { value: 'week', label: 'Last 7 days' },
+  { value: 'last30', label: 'Last 30 days' },
+  { value: 'month', label: 'This month' },
+  { value: 'year', label: 'This year' },
+  { value: 'all', label: 'All time' },
+];
+
+const getRangeBounds = (range: RangeOption): Pick<ExportFilter, 'startDate' | 'endDate'> => {
+  const now = new Date();
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+
+  switch (range) {
+    case 'week':
+      start.setDate(start.getDate() - 6);
+      break;
+    case 'last30':
+      start.setDate(start.getDate() - 29);
+      break;
+    case 'month':
+      start.setDate(1);
+      break;
+    case 'year':
+      start.setMonth(0, 1);
+      break;
+    case 'all':
+      return { startDate: null, endDate: null };
+  }
+
+  return { startDate: start.getTime(), endDate: now.getTime() };
+};
+
+export default function ExportModal({ visible, onClose, jobId }: ExportModalProps) {
+  const { colors } = useTheme();
+  const { jobs, timeEntries, payPeriods } = useJobsStore();
+  const [range, setRange] = useState<RangeOption>('month');
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(jobId ?? null);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const effectiveJobId = jobId ?? selectedJobId;
+
+  const filter = React.useMemo<ExportFilter>(() => ({
+    ...getRangeBounds(range),
+    jobId: effectiveJobId,
+  }), [range, effectiveJobId]);
+
+  const rows = React.useMemo(() => {
+    return buildExportRows(jobs, timeEntries, filter);
+  }, [jobs, timeEntries, filter]);
+
+  const handleExport = async () => {
+    if (isExporting) return;
+    if (rows.length === 0) {
+      Alert.alert('Nothing to Export', 'There are no completed time entries in the selected range.');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const jobName = effectiveJobId ? jobs.find(job => job.id === effectiveJobId)?.name : undefined;
+      const fileName = getExportFileName(format, filter, jobName);
+      const content = format === 'csv' ? rowsToCsv(rows) : buildJsonExport(jobs, payPeriods, rows, filter);
+      await shareTextFile(fileName, content, format === 'csv' ? 'text/csv' : 'application/json');
+      onClose();
+    } catch (error: any) {
+      console.error('Error exporting time entries:', error);
+      Alert.alert('Export Failed', error?.message || 'Failed to export time entries.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const styles = createStyles(colors);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Export Time Entries</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <Text style={styles.label}>Date Range</Text>
+            <View style={styles.optionRow}>
+              {RANGE_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.option, range === option.value && styles.optionActive]}
+                  onPress={() => setRange(option.value)}
+                >
+                  <Text style={[styles.optionText, range === option.value && styles.optionTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {!jobId && (
+              <>
+                <Text style={styles.label}>Job</Text>
+                <View style={styles.optionRow}>
+                  <TouchableOpacity
+                    style={[styles.option, selectedJobId === null && styles.optionActive]}
+                    onPress={() => setSelectedJobId(null)}
+                  >
+                    <Text style={[styles.optionText, selectedJobId === null && styles.optionTextActive]}>All Jobs</Text>
+                  </TouchableOpacity>
+                  {jobs.map(job => (
+                    <TouchableOpacity
+                      key={job.id}
+                      style={[styles.option, selectedJobId === job.id && styles.optionActive]}
+                      onPress={() => setSelectedJobId(job.id)}
+                    >
+                      <Text style={[styles.optionText, selectedJobId === job.id && styles.optionTextActive]}>
+                        {job.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.label}>Format</Text>
+            <View style={styles.optionRow}>
+              {(['csv', 'json'] as ExportFormat[]).map(value => (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.option, format === value && styles.optionActive]}
+                  onPress={() => setFormat(value)}
+                >
+                  <Text style={[styles.optionText, format === value && styles.optionTextActive]}>
+                    {value.toUpperCase()}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.summaryText}>
+              {rows.length} time {rows.length === 1 ? 'entry' : 'entries'} will be exported
+            </Text>
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.exportButton, (isExporting || rows.length === 0) && styles.exportButtonDisabled]}
+            onPress={handleExport}
+            disabled={isExporting}
+          >
+            <Download size={20} color="#FFFFFF" />
+            <Text style={styles.exportButtonText}>{isExporting ? 'Exporting...' : 'Export & Share'}</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  modalContent: {
+    backgroundColor: colors.background,
+    borderTopLeftRadius: 28,
+    borderTopRightRadius: 28,
+    padding: 28,
+    paddingBottom: Platform.OS === 'ios' ? 44 : 28,
+    maxHeight: '85%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -6 },
+    shadowOpacity: 0.15,
+    shadowRadius: 16,
+    elevation: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: colors.text,
+    letterSpacing: -0.4,
+  },
+  closeButton: {
+    padding: 10,
+    borderRadius: 14,
+    backgroundColor: colors.inputBg,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.subtext,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 12,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 24,
+  },
+  option: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  optionActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  optionTextActive: {
+    color: '#FFFFFF',
+  },
+  summaryText: {
+    fontSize: 14,
+    color: colors.subtext,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: colors.primary,
+    borderRadius: 18,
+    paddingVertical: 18,
+  },
+  exportButtonDisabled: {
+    backgroundColor: '#94A3B8',
+  },
+  exportButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    fontSize: 16,
+    letterSpacing: -0.2,
+  },
+});
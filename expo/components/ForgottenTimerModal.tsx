@@ -0,0 +1,210 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  Alert,
+  AppState,
+  Platform,
+  SafeAreaView,
+} from 'react-native';
+import { TimerOff } from 'lucide-react-native';
+import TimePickerModal from '@/components/TimePickerModal';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useJobsStore } from '@/store/jobsStore';
+import { ForgottenTimer } from '@/utils/forgotten-timers';
+import { formatDate, formatDuration, formatTime } from '@/utils/time';
+
+// Asks about timers that have been running too long whenever the app comes to the
+// foreground or a sync finishes. Jobs with the automatic cap are clocked out silently.
+export default function ForgottenTimerModal() {
+  const { colors } = useTheme();
+  const { checkForgottenTimers, ignoreForgottenTimer, clockOut, lastSyncTimestamp } = useJobsStore();
+  const [timers, setTimers] = useState<ForgottenTimer[]>([]);
+  const [showEndTimePicker, setShowEndTimePicker] = useState(false);
+
+  const refresh = useCallback(() => {
+    setTimers(checkForgottenTimers());
+  }, [checkForgottenTimers]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, lastSyncTimestamp]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextAppState => {
+      if (nextAppState === 'active') {
+        refresh();
+      }
+    });
+    return () => subscription.remove();
+  }, [refresh]);
+
+  const current = timers[0];
+
+  const dismissCurrent = () => {
+    setShowEndTimePicker(false);
+    setTimers(remaining => remaining.slice(1));
+  };
+
+  const handleClockOut = (endTime: number) => {
+    if (!current) return;
+    clockOut(current.entry.id, endTime);
+    dismissCurrent();
+  };
+
+  const handlePickedEndTime = (endTime: number) => {
+    if (!current) return;
+    if (endTime <= current.entry.startTime) {
+      Alert.alert('Invalid End Time', 'The end time must be after the entry started.');
+      return;
+    }
+    if (endTime > Date.now()) {
+      Alert.alert('Invalid End Time', 'The end time cannot be in the future.');
+      return;
+    }
+    handleClockOut(endTime);
+  };
+
+  const handleStillWorking = () => {
+    if (!current) return;
+    ignoreForgottenTimer(current.entry.id);
+    dismissCurrent();
+  };
+
+  if (!current) return null;
+
+  const jobName = current.job?.name || 'this job';
+  const limitText = current.reason === 'workday-end'
+    ? `passed the end of your workday at ${formatTime(current.capTime)}`
+    : `passed your longest shift at ${formatTime(current.capTime)}`;
+  const styles = createStyles(colors);
+
+  return (
+    <>
+      <Modal
+        visible={!showEndTimePicker}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={handleStillWorking}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalContent}>
+            <View style={styles.header}>
+              <TimerOff size={24} color={colors.warning} />
+              <Text style={styles.title}>Still working on {jobName}?</Text>
+            </View>
+
+            <Text style={styles.message}>
+              Your timer started {formatDate(current.entry.startTime)} at {formatTime(current.entry.startTime)} and has been
+              running for {formatDuration(Date.now() - current.entry.startTime)}. It {limitText}.
+            </Text>
+
+            <TouchableOpacity style={styles.primaryButton} onPress={() => handleClockOut(current.suggestedEndTime)}>
+              <Text style={styles.primaryButtonText}>
+                Clock out at {formatDate(current.suggestedEndTime)} {formatTime(current.suggestedEndTime)}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => setShowEndTimePicker(true)}>
+              <Text style={styles.secondaryButtonText}>Choose End Time</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.linkButton} onPress={handleStillWorking}>
+              <Text style={styles.linkButtonText}>I'm Still Working</Text>
+            </TouchableOpacity>
+          </View>
+        </SafeAreaView>
+      </Modal>
+
+      {showEndTimePicker && (
+        <TimePickerModal
+          key={current.entry.id}
+          visible={showEndTimePicker}
+          initialTime={current.suggestedEndTime}
+          onConfirm={handlePickedEndTime}
+          onClose={() => setShowEndTimePicker(false)}
+          title="When did you stop?"
+        />
+      )}
+    </>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  modalContent: {
+    backgroundColor: colors.background,
+    borderTopLeftRadius: 28,
+    borderTopRightRadius: 28,
+    padding: 28,
+    paddingBottom: Platform.OS === 'ios' ? 44 : 28,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -6 },
+    shadowOpacity: 0.15,
+    shadowRadius: 16,
+    elevation: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  title: {
+    flex: 1,
+    fontSize: 22,
+    fontWeight: '700',
+    color: colors.text,
+    letterSpacing: -0.4,
+  },
+  message: {
+    fontSize: 15,
+    color: colors.subtext,
+    lineHeight: 22,
+    marginBottom: 24,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 18,
+    paddingVertical: 18,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    fontSize: 16,
+    letterSpacing: -0.2,
+  },
+  secondaryButton: {
+    backgroundColor: colors.primaryLight,
+    borderRadius: 18,
+    paddingVertical: 18,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.primary + '25',
+    marginBottom: 12,
+  },
+  secondaryButtonText: {
+    color: colors.primary,
+    fontWeight: '700',
+    fontSize: 16,
+    letterSpacing: -0.2,
+  },
+  linkButton: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  linkButtonText: {
+    color: colors.subtext,
+    fontWeight: '600',
+    fontSize: 15,
+  },
+});
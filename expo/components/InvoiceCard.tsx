@@ -2,20 +2,48 @@ import React from 'react';
 import { StyleSheet, View, Text, TouchableOpacity } from 'react-native';
 import { FileText } from 'lucide-react-native';
 import Colors from '@/constants/colors';
+import { Invoice, InvoiceStatus } from '@/types';
+import { formatCurrency } from '@/utils/helpers';
+import { formatDate } from '@/utils/time';
+import { getInvoiceDisplayStatus } from '@/utils/invoice';
+import { useBusinessStore } from '@/store/businessStore';
 
 interface InvoiceCardProps {
+  invoice: Invoice;
   onPress: () => void;
 }
 
-export default function InvoiceCard({ onPress }: InvoiceCardProps) {
+const STATUS_COLORS: Record<InvoiceStatus, string> = {
+  draft: Colors.light.inactive,
+  sent: Colors.light.primary,
+  paid: Colors.light.success,
+  overdue: Colors.light.danger,
+};
+
+export default function InvoiceCard({ invoice, onPress }: InvoiceCardProps) {
+  const { taxSettings } = useBusinessStore();
+  const status = getInvoiceDisplayStatus(invoice);
+  const statusColor = STATUS_COLORS[status];
+
   return (
     <TouchableOpacity style={styles.container} onPress={onPress}>
       <View style={styles.iconContainer}>
         <FileText size={24} color={Colors.light.primary} />
       </View>
       <View style={styles.content}>
-        <Text style={styles.title}>Coming Soon</Text>
-        <Text style={styles.subtitle}>Invoice functionality will be available in a future update.</Text>
+        <View style={styles.row}>
+          <Text style={styles.title}>{invoice.invoiceNumber}</Text>
+          <Text style={styles.amount}>
+            {formatCurrency(invoice.total, invoice.currency || taxSettings.currency, taxSettings.currencySymbol)}
+          </Text>
+        </View>
+        <Text style={styles.subtitle} numberOfLines={1}>{invoice.clientName}</Text>
+        <View style={styles.row}>
+          <Text style={styles.subtitle}>Due {formatDate(invoice.dueDate)}</Text>
+          <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
+            <Text style={[styles.statusText, { color: statusColor }]}>{status}</Text>
+          </View>
+        </View>
       </View>
     </TouchableOpacity>
   );
@@ -46,14 +74,35 @@ const styles = StyleSheet.create({
   content: {
     flex: 1,
   },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   title: {
     fontSize: 16,
     fontWeight: '600',
     color: Colors.light.text,
     marginBottom: 4,
   },
+  amount: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.light.text,
+  },
   subtitle: {
     fontSize: 14,
     color: Colors.light.subtext,
+    marginBottom: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'capitalize',
   },
-});
\ No newline at end of file
+});
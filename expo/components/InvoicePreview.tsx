@@ -1,42 +1,248 @@
 import React from 'react';
 import { StyleSheet, View, Text } from 'react-native';
 import Colors from '@/constants/colors';
+import { Invoice } from '@/types';
+import { formatCurrency } from '@/utils/helpers';
+import { formatDateFull } from '@/utils/time';
+import { useBusinessStore } from '@/store/businessStore';
+
+type InvoicePreviewProps = {
+  invoice: Invoice;
+};
+
+export default function InvoicePreview({ invoice }: InvoicePreviewProps) {
+  const { taxSettings } = useBusinessStore();
+  const business = invoice.business;
+  const currency = invoice.currency || taxSettings.currency;
+
+  const money = (amount: number) => formatCurrency(amount, currency, taxSettings.currencySymbol);
 
-export default function InvoicePreview() {
   return (
     <View style={styles.container}>
-      <View style={styles.comingSoonContainer}>
-        <Text style={styles.comingSoonTitle}>Coming Soon</Text>
-        <Text style={styles.comingSoonText}>
-          Invoice functionality will be available in a future update.
-        </Text>
+      <View style={styles.header}>
+        <View style={styles.businessInfo}>
+          <Text style={styles.businessName}>{business?.businessName || business?.ownerName || 'Your Business'}</Text>
+          {business?.address ? <Text style={styles.mutedText}>{business.address}</Text> : null}
+          {business?.email ? <Text style={styles.mutedText}>{business.email}</Text> : null}
+          {business?.phone ? <Text style={styles.mutedText}>{business.phone}</Text> : null}
+          {business?.taxId ? <Text style={styles.mutedText}>Tax ID: {business.taxId}</Text> : null}
+        </View>
+        <View style={styles.invoiceMeta}>
+          <Text style={styles.invoiceTitle}>INVOICE</Text>
+          <Text style={styles.invoiceNumber}>{invoice.invoiceNumber}</Text>
+        </View>
+      </View>
+
+      <View style={styles.partiesRow}>
+        <View style={styles.party}>
+          <Text style={styles.label}>Bill To</Text>
+          <Text style={styles.clientName}>{invoice.clientName}</Text>
+          {invoice.clientEmail ? <Text style={styles.mutedText}>{invoice.clientEmail}</Text> : null}
+          {invoice.clientAddress ? <Text style={styles.mutedText}>{invoice.clientAddress}</Text> : null}
+        </View>
+        <View style={styles.dates}>
+          <Text style={styles.label}>Issued</Text>
+          <Text style={styles.dateText}>{formatDateFull(invoice.issueDate)}</Text>
+          <Text style={[styles.label, styles.dueLabel]}>Due</Text>
+          <Text style={styles.dateText}>{formatDateFull(invoice.dueDate)}</Text>
+        </View>
+      </View>
+
+      <View style={styles.table}>
+        <View style={[styles.tableRow, styles.tableHeader]}>
+          <Text style={[styles.headerCell, styles.descriptionCell]}>Description</Text>
+          <Text style={[styles.headerCell, styles.numberCell]}>Hours</Text>
+          <Text style={[styles.headerCell, styles.numberCell]}>Rate</Text>
+          <Text style={[styles.headerCell, styles.numberCell]}>Amount</Text>
+        </View>
+        {invoice.items.map(item => (
+          <View key={item.id} style={styles.tableRow}>
+            <Text style={[styles.cell, styles.descriptionCell]}>{item.description}</Text>
+            <Text style={[styles.cell, styles.numberCell]}>{item.quantity.toFixed(2)}</Text>
+            <Text style={[styles.cell, styles.numberCell]} numberOfLines={1} adjustsFontSizeToFit>{money(item.rate)}</Text>
+            <Text style={[styles.cell, styles.numberCell]} numberOfLines={1} adjustsFontSizeToFit>{money(item.amount)}</Text>
+          </View>
+        ))}
       </View>
+
+      <View style={styles.totals}>
+        <View style={styles.totalRow}>
+          <Text style={styles.totalLabel}>Subtotal</Text>
+          <Text style={styles.totalValue}>{money(invoice.subtotal)}</Text>
+        </View>
+        {invoice.taxRate > 0 && (
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Tax ({invoice.taxRate}%)</Text>
+            <Text style={styles.totalValue}>{money(invoice.taxAmount)}</Text>
+          </View>
+        )}
+        <View style={[styles.totalRow, styles.grandTotalRow]}>
+          <Text style={styles.grandTotalLabel}>Total</Text>
+          <Text style={styles.grandTotalValue}>{money(invoice.total)}</Text>
+        </View>
+      </View>
+
+      {invoice.notes ? (
+        <View style={styles.notes}>
+          <Text style={styles.label}>Notes</Text>
+          <Text style={styles.notesText}>{invoice.notes}</Text>
+        </View>
+      ) : null}
     </View>
   );
 }
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
-    backgroundColor: '#F7F9FC',
+    backgroundColor: '#FFFFFF',
     borderRadius: 12,
-    overflow: 'hidden',
-    justifyContent: 'center',
-    alignItems: 'center',
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 24,
   },
-  comingSoonContainer: {
-    padding: 24,
-    alignItems: 'center',
+  businessInfo: {
+    flex: 1,
+    marginRight: 12,
   },
-  comingSoonTitle: {
-    fontSize: 24,
+  businessName: {
+    fontSize: 18,
     fontWeight: '700',
+    color: Colors.light.text,
+    marginBottom: 4,
+  },
+  mutedText: {
+    fontSize: 13,
+    color: Colors.light.subtext,
+    marginBottom: 2,
+  },
+  invoiceMeta: {
+    alignItems: 'flex-end',
+  },
+  invoiceTitle: {
+    fontSize: 20,
+    fontWeight: '800',
     color: Colors.light.primary,
-    marginBottom: 12,
+    letterSpacing: 1,
+  },
+  invoiceNumber: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.light.text,
+    marginTop: 4,
+  },
+  partiesRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 24,
   },
-  comingSoonText: {
+  party: {
+    flex: 1,
+    marginRight: 12,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.light.subtext,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 4,
+  },
+  dueLabel: {
+    marginTop: 8,
+  },
+  clientName: {
     fontSize: 16,
+    fontWeight: '600',
+    color: Colors.light.text,
+    marginBottom: 2,
+  },
+  dates: {
+    alignItems: 'flex-end',
+  },
+  dateText: {
+    fontSize: 13,
+    color: Colors.light.text,
+  },
+  table: {
+    borderTopWidth: 1,
+    borderTopColor: Colors.light.border,
+  },
+  tableHeader: {
+    backgroundColor: Colors.light.surface,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    paddingVertical: 10,
+    paddingHorizontal: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.light.border,
+  },
+  headerCell: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: Colors.light.subtext,
+  },
+  cell: {
+    fontSize: 13,
+    color: Colors.light.text,
+  },
+  descriptionCell: {
+    flex: 3,
+    paddingRight: 8,
+  },
+  numberCell: {
+    flex: 1.2,
+    textAlign: 'right',
+  },
+  totals: {
+    marginTop: 16,
+    alignSelf: 'flex-end',
+    minWidth: '60%',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  totalLabel: {
+    fontSize: 14,
     color: Colors.light.subtext,
-    textAlign: 'center',
   },
-});
\ No newline at end of file
+  totalValue: {
+    fontSize: 14,
+    color: Colors.light.text,
+    fontWeight: '500',
+  },
+  grandTotalRow: {
+    borderTopWidth: 1,
+    borderTopColor: Colors.light.border,
+    marginTop: 4,
+    paddingTop: 8,
+  },
+  grandTotalLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.light.text,
+  },
+  grandTotalValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: Colors.light.primary,
+  },
+  notes: {
+    marginTop: 24,
+  },
+  notesText: {
+    fontSize: 14,
+    color: Colors.light.text,
+    lineHeight: 20,
+  },
+});
@@ -7,10 +7,11 @@ import {
   Alert
 } from 'react-native';
 import { useRouter } from 'expo-router';
-import { Clock, CheckCircle, Play, Square, MapPin, Tag, MoreVertical } from 'lucide-react-native';
+import { Clock, CheckCircle, Play, Square, MapPin, Tag, MoreVertical, Gauge } from 'lucide-react-native';
 import { JobWithDuration } from '@/types';
 import { formatDuration } from '@/utils/time';
 import { formatCurrency } from '@/utils/helpers';
+import { getEffectiveHourlyRate, isHourlyJob } from '@/utils/billing';
 import { useBusinessStore } from '@/store/businessStore';
 import { useTheme } from '@/contexts/ThemeContext';
 
@@ -33,9 +34,10 @@ export default function JobCard({
   const { taxSettings } = useBusinessStore();
   const { colors } = useTheme();
   
-  const { name, client, hourlyRate, color, totalDuration, isActive, id, settings } = job;
+  const { name, client, color, totalDuration, totalEarnings, isActive, id, settings } = job;
   
-  const earnings = (totalDuration / (1000 * 60 * 60)) * hourlyRate;
+  // Fixed-price and milestone jobs show what their tracked time is actually earning
+  const effectiveRate = isHourlyJob(job) ? null : getEffectiveHourlyRate(job, totalEarnings, totalDuration);
   const hasPaidEarnings = paidEarnings > 0;
   
   // Extract tags and location from settings with proper type checking
@@ -170,9 +172,17 @@ export default function JobCard({
           </View>
           <View style={styles.statItem}>
             <Text style={styles.statText} numberOfLines={1} adjustsFontSizeToFit minimumFontScale={0.8}>
-              {formatCurrency(earnings || 0, taxSettings.currency, taxSettings.currencySymbol)}
+              {formatCurrency(totalEarnings || 0, taxSettings.currency, taxSettings.currencySymbol)}
             </Text>
           </View>
+          {effectiveRate !== null && (
+            <View style={styles.statItem}>
+              <Gauge size={16} color={colors.subtext} />
+              <Text style={styles.statText} numberOfLines={1} adjustsFontSizeToFit minimumFontScale={0.8}>
+                {formatCurrency(effectiveRate, taxSettings.currency, taxSettings.currencySymbol)}/hr
+              </Text>
+            </View>
+          )}
           {hasPaidEarnings && (
             <View style={styles.statItem}>
               <CheckCircle size={16} color={colors.success} />
@@ -10,20 +10,38 @@ import {
   Switch
 } from 'react-native';
 import { useRouter } from 'expo-router';
-import { Calendar, DollarSign, ChevronRight, MapPin, Tag, Clock, Bell, Calculator, Percent } from 'lucide-react-native';
+import { Calendar, DollarSign, ChevronRight, MapPin, Tag, Clock, Bell, Calculator, Percent, TimerOff, Car, Plus, X, Wallet } from 'lucide-react-native';
 import ColorPicker from '@/components/ColorPicker';
 import OptionSelector from '@/components/OptionSelector';
 import PresetBreaksModal from '@/components/PresetBreaksModal';
 import { useBusinessStore } from '@/store/businessStore';
+import { useClientsStore } from '@/store/clientsStore';
 import { useTheme } from '@/contexts/ThemeContext';
-import { getRandomColor } from '@/utils/helpers';
-import { PayPeriodType, RoundTimeType, OvertimeType, JobSettings, PresetBreak, TimeRoundingSettings, RoundingDirection, RoundingInterval } from '@/types';
+import { formatCurrency, getRandomColor } from '@/utils/helpers';
+import {
+  formatDateInput,
+  getCalendarDate,
+  getDeviceTimeZone,
+  getWeekday,
+  isValidTimeZone,
+  parseDateInput,
+  resolveTimeZone,
+} from '@/utils/timezone';
+import { getRateHistory } from '@/utils/rates';
+import { DISTANCE_UNITS } from '@/utils/expenses';
+import { BILLING_MODELS } from '@/utils/billing';
+import { BUDGET_PERIODS, BUDGET_ROLLOVERS, BUDGET_UNITS, DEFAULT_BUDGET_ALERTS } from '@/utils/budget';
+import { PayPeriodType, RoundTimeType, OvertimeType, JobSettings, PresetBreak, TimeRoundingSettings, RoundingDirection, RoundingInterval, RateChange, DistanceUnit, BillingModel, Job, Milestone, BudgetUnit, BudgetPeriod, BudgetRollover, JobBudget } from '@/types';
 
 type JobFormProps = {
   initialValues?: {
     name?: string;
     client?: string;
     hourlyRate?: number;
+    rateHistory?: RateChange[];
+    billingModel?: BillingModel;
+    fixedPrice?: number;
+    milestones?: Milestone[];
     color?: string;
     settings?: JobSettings;
   };
@@ -32,14 +50,30 @@ type JobFormProps = {
     client: string, 
     hourlyRate: number, 
     color: string,
-    settings: JobSettings
+    settings: JobSettings,
+    clientId: string,
+    billing: JobBilling,
+    // Only set when an existing job's rate was changed
+    rateEffectiveFrom?: number
   ) => void;
   submitButtonText: string;
 };
 
+export type JobBilling = Pick<Job, 'billingModel' | 'fixedPrice' | 'milestones'>;
+
+// Amounts and dates are kept as typed until the form is submitted
+type MilestoneInput = {
+  id: string;
+  name: string;
+  amount: string;
+  dueDate: string;
+  completedAt?: number | null;
+};
+
 export default function JobForm({ initialValues = {}, onSubmit, submitButtonText }: JobFormProps) {
   const router = useRouter();
   const { taxSettings } = useBusinessStore();
+  const { clients, findOrCreateClient } = useClientsStore();
   const { colors } = useTheme();
   
   // Safely handle initial values with proper defaults
@@ -59,7 +93,6 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
       presetBreaks: [],
       dailyOvertime: 'none' as OvertimeType,
       weeklyOvertime: 'none' as OvertimeType,
-      estimatedTaxRate: 0,
       deductions: 0,
     }
   };
@@ -67,6 +100,17 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
   const [name, setName] = useState(safeInitialValues.name);
   const [client, setClient] = useState(safeInitialValues.client);
   const [hourlyRate, setHourlyRate] = useState((safeInitialValues.hourlyRate || 0).toString());
+  const [billingModel, setBillingModel] = useState<BillingModel>(initialValues.billingModel ?? 'hourly');
+  const [fixedPrice, setFixedPrice] = useState(initialValues.fixedPrice ? initialValues.fixedPrice.toString() : '');
+  const [milestones, setMilestones] = useState<MilestoneInput[]>(() => (initialValues.milestones ?? []).map(milestone => ({
+    id: milestone.id,
+    name: milestone.name,
+    amount: milestone.amount.toString(),
+    dueDate: milestone.dueDate !== undefined
+      ? formatDateInput(milestone.dueDate, resolveTimeZone(initialValues.settings?.billingTimeZone))
+      : '',
+    completedAt: milestone.completedAt,
+  })));
   const [color, setColor] = useState(safeInitialValues.color);
   
   // Time Rounding Settings
@@ -92,6 +136,9 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
   const [clockOutReminders, setClockOutReminders] = useState(safeInitialValues.settings?.clockOutReminders || false);
   const [dailyReminderThreshold, setDailyReminderThreshold] = useState((safeInitialValues.settings?.dailyReminderThreshold || 0).toString());
   const [weeklyReminderThreshold, setWeeklyReminderThreshold] = useState((safeInitialValues.settings?.weeklyReminderThreshold || 0).toString());
+  const [maxShiftHours, setMaxShiftHours] = useState(safeInitialValues.settings?.maxShiftHours ? safeInitialValues.settings.maxShiftHours.toString() : '');
+  const [workdayEnd, setWorkdayEnd] = useState(safeInitialValues.settings?.workdayEnd || '');
+  const [autoCapForgottenTimers, setAutoCapForgottenTimers] = useState(safeInitialValues.settings?.autoCapForgottenTimers || false);
   const [automaticBreaks, setAutomaticBreaks] = useState(safeInitialValues.settings?.automaticBreaks || false);
   const [presetBreaks, setPresetBreaks] = useState<PresetBreak[]>(safeInitialValues.settings?.presetBreaks || []);
   
@@ -109,26 +156,43 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
   
   const [payPeriodType, setPayPeriodType] = useState<PayPeriodType>(safeInitialValues.settings?.payPeriodType || 'weekly');
   const [payPeriodStartDay, setPayPeriodStartDay] = useState(safeInitialValues.settings?.payPeriodStartDay || 0);
-  const [estimatedTaxRate, setEstimatedTaxRate] = useState((safeInitialValues.settings?.estimatedTaxRate || 0).toString());
+  const [billingTimeZone, setBillingTimeZone] = useState(safeInitialValues.settings?.billingTimeZone || '');
+  const [payPeriodAnchor, setPayPeriodAnchor] = useState(formatDateInput(
+    safeInitialValues.settings?.payPeriodAnchorDate,
+    resolveTimeZone(safeInitialValues.settings?.billingTimeZone)
+  ));
+  const [rateEffectiveFrom, setRateEffectiveFrom] = useState(formatDateInput(
+    Date.now(),
+    resolveTimeZone(safeInitialValues.settings?.billingTimeZone)
+  ));
+  // Empty means the job uses the business default rate; 0 is an explicit 0%
+  const [estimatedTaxRate, setEstimatedTaxRate] = useState(safeInitialValues.settings?.estimatedTaxRate?.toString() ?? '');
   const [deductions, setDeductions] = useState((safeInitialValues.settings?.deductions || 0).toString());
+  const [mileageRate, setMileageRate] = useState((safeInitialValues.settings?.mileageRate || 0).toString());
+  const [distanceUnit, setDistanceUnit] = useState<DistanceUnit>(safeInitialValues.settings?.distanceUnit ?? 'km');
+  
+  // Budget settings
+  const initialBudget = safeInitialValues.settings?.budget;
+  const [budgetEnabled, setBudgetEnabled] = useState(!!initialBudget);
+  const [budgetUnit, setBudgetUnit] = useState<BudgetUnit>(initialBudget?.unit ?? 'hours');
+  const [budgetPeriod, setBudgetPeriod] = useState<BudgetPeriod>(initialBudget?.period ?? 'monthly');
+  const [budgetAmount, setBudgetAmount] = useState(initialBudget ? initialBudget.amount.toString() : '');
+  const [budgetRollover, setBudgetRollover] = useState<BudgetRollover>(initialBudget?.rollover ?? 'none');
+  const [budgetRolloverCap, setBudgetRolloverCap] = useState(initialBudget?.rolloverCap ? initialBudget.rolloverCap.toString() : '');
+  const [budgetAlerts, setBudgetAlerts] = useState((initialBudget?.alertThresholds ?? DEFAULT_BUDGET_ALERTS).join(', '));
+  const [budgetStartDate, setBudgetStartDate] = useState(formatDateInput(
+    initialBudget?.startDate,
+    resolveTimeZone(safeInitialValues.settings?.billingTimeZone)
+  ));
   
   // Modal states
   const [showPresetBreaksModal, setShowPresetBreaksModal] = useState(false);
   
-  // Handlers for mutually exclusive overtime toggles
-  const handleDailyOvertimeChange = React.useCallback((value: boolean) => {
-    setDailyOvertimeEnabled(value);
-    if (value && weeklyOvertimeEnabled) {
-      setWeeklyOvertimeEnabled(false);
-    }
-  }, [weeklyOvertimeEnabled]);
-  
-  const handleWeeklyOvertimeChange = React.useCallback((value: boolean) => {
-    setWeeklyOvertimeEnabled(value);
-    if (value && dailyOvertimeEnabled) {
-      setDailyOvertimeEnabled(false);
-    }
-  }, [dailyOvertimeEnabled]);
+  // Editing an existing job's rate schedules a change instead of repricing past work
+  const isRateChanged = billingModel === 'hourly' && !!initialValues.hourlyRate && parseFloat(hourlyRate) !== initialValues.hourlyRate;
+  const rateHistory = initialValues.hourlyRate
+    ? getRateHistory({ hourlyRate: initialValues.hourlyRate, rateHistory: initialValues.rateHistory })
+    : [];
   
   const handleSubmit = React.useCallback(() => {
     if (!name.trim()) {
@@ -141,12 +205,19 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
       return;
     }
     
-    const rate = parseFloat(hourlyRate);
-    if (isNaN(rate) || rate <= 0) {
+    // Fixed-price and milestone jobs keep any rate they had so switching back restores it
+    const rate = parseFloat(hourlyRate) || 0;
+    if (billingModel === 'hourly' && rate <= 0) {
       Alert.alert("Error", "Please enter a valid hourly rate");
       return;
     }
     
+    const price = parseFloat(fixedPrice);
+    if (billingModel === 'fixed' && (isNaN(price) || price <= 0)) {
+      Alert.alert("Error", "Please enter a valid fixed price");
+      return;
+    }
+    
     // Validate buffer time
     const bufferTimeNum = parseFloat(bufferTime);
     if (timeRoundingEnabled && (isNaN(bufferTimeNum) || bufferTimeNum < 0 || bufferTimeNum > 30)) {
@@ -154,6 +225,76 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
       return;
     }
     
+    const maxShiftHoursNum = maxShiftHours.trim() ? parseFloat(maxShiftHours) : undefined;
+    if (maxShiftHoursNum !== undefined && (isNaN(maxShiftHoursNum) || maxShiftHoursNum <= 0 || maxShiftHoursNum > 72)) {
+      Alert.alert("Error", "Maximum shift length must be between 0 and 72 hours");
+      return;
+    }
+    
+    if (workdayEnd.trim() && !/^([01]\d|2[0-3]):[0-5]\d$/.test(workdayEnd.trim())) {
+      Alert.alert("Error", "Workday end must be a time like 17:30");
+      return;
+    }
+    
+    if (billingTimeZone.trim() && !isValidTimeZone(billingTimeZone.trim())) {
+      Alert.alert("Error", "Billing timezone must be a zone name like America/New_York");
+      return;
+    }
+    const periodTimeZone = resolveTimeZone(billingTimeZone.trim());
+    
+    let anchorDate: number | undefined;
+    if (payPeriodType === 'biweekly' && payPeriodAnchor.trim()) {
+      const parsedAnchor = parseDateInput(payPeriodAnchor, periodTimeZone);
+      if (parsedAnchor === null) {
+        Alert.alert("Error", "Enter the first day of any pay period as YYYY-MM-DD");
+        return;
+      }
+      anchorDate = parsedAnchor;
+    }
+    
+    const parsedMilestones: Milestone[] = [];
+    if (billingModel === 'milestone') {
+      if (milestones.length === 0) {
+        Alert.alert("Error", "Add at least one milestone");
+        return;
+      }
+      for (const milestone of milestones) {
+        const amount = parseFloat(milestone.amount);
+        if (!milestone.name.trim() || isNaN(amount) || amount < 0) {
+          Alert.alert("Error", "Every milestone needs a name and an amount");
+          return;
+        }
+        const dueDate = milestone.dueDate.trim() ? parseDateInput(milestone.dueDate, periodTimeZone) : undefined;
+        if (dueDate === null) {
+          Alert.alert("Error", `Enter the due date for "${milestone.name.trim()}" as YYYY-MM-DD`);
+          return;
+        }
+        parsedMilestones.push({
+          id: milestone.id,
+          name: milestone.name.trim(),
+          amount,
+          dueDate,
+          completedAt: milestone.completedAt,
+        });
+      }
+    }
+    
+    const billing: JobBilling = {
+      billingModel,
+      fixedPrice: billingModel === 'fixed' ? price : undefined,
+      milestones: billingModel === 'milestone' ? parsedMilestones : undefined,
+    };
+    
+    let rateChangeDate: number | undefined;
+    if (isRateChanged) {
+      const parsedRateDate = parseDateInput(rateEffectiveFrom, periodTimeZone);
+      if (parsedRateDate === null) {
+        Alert.alert("Error", "Enter the date the new rate applies from as YYYY-MM-DD");
+        return;
+      }
+      rateChangeDate = parsedRateDate;
+    }
+    
     // Parse and validate settings
     const timeRoundingSettings: TimeRoundingSettings = {
       enabled: timeRoundingEnabled,
@@ -162,6 +303,35 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
       bufferTime: timeRoundingEnabled ? bufferTimeNum : 0
     };
     
+    let budget: JobBudget | undefined;
+    if (budgetEnabled) {
+      const amount = parseFloat(budgetAmount);
+      if (isNaN(amount) || amount <= 0) {
+        Alert.alert("Error", "Please enter a budget amount greater than zero");
+        return;
+      }
+      const alertThresholds = budgetAlerts.split(',').map(value => value.trim()).filter(Boolean).map(Number);
+      if (alertThresholds.some(threshold => isNaN(threshold) || threshold <= 0 || threshold > 1000)) {
+        Alert.alert("Error", "Enter budget alerts as percentages separated by commas, e.g. 75, 90, 100");
+        return;
+      }
+      const startDate = budgetStartDate.trim() ? parseDateInput(budgetStartDate, periodTimeZone) : undefined;
+      if (startDate === null) {
+        Alert.alert("Error", "Enter the budget start date as YYYY-MM-DD");
+        return;
+      }
+      const rollover = budgetPeriod === 'monthly' ? budgetRollover : undefined;
+      budget = {
+        unit: budgetUnit,
+        amount,
+        period: budgetPeriod,
+        rollover,
+        rolloverCap: rollover && rollover !== 'none' ? parseFloat(budgetRolloverCap) || undefined : undefined,
+        alertThresholds,
+        startDate,
+      };
+    }
+    
     const settings: JobSettings = {
       roundTime, // Keep for backward compatibility
       timeRounding: timeRoundingSettings,
@@ -170,6 +340,9 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
       clockOutReminders,
       dailyReminderThreshold: clockOutReminders && dailyReminderThreshold ? parseFloat(dailyReminderThreshold) : undefined,
       weeklyReminderThreshold: clockOutReminders && weeklyReminderThreshold ? parseFloat(weeklyReminderThreshold) : undefined,
+      maxShiftHours: maxShiftHoursNum,
+      workdayEnd: workdayEnd.trim() || undefined,
+      autoCapForgottenTimers,
       automaticBreaks,
       presetBreaks: automaticBreaks ? presetBreaks : [],
       dailyOvertime: dailyOvertimeEnabled ? 'daily' : 'none',
@@ -179,20 +352,59 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
       dailyOvertimeRate: dailyOvertimeEnabled ? parseFloat(dailyOvertimeRate) || 1.5 : undefined,
       weeklyOvertimeRate: weeklyOvertimeEnabled ? parseFloat(weeklyOvertimeRate) || 1.5 : undefined,
       payPeriodType,
-      payPeriodStartDay,
-      estimatedTaxRate: parseFloat(estimatedTaxRate) || 0,
+      // An anchored biweekly schedule starts on the anchor's weekday
+      payPeriodStartDay: anchorDate !== undefined
+        ? getWeekday(getCalendarDate(anchorDate, periodTimeZone))
+        : payPeriodStartDay,
+      payPeriodAnchorDate: anchorDate,
+      billingTimeZone: billingTimeZone.trim() || undefined,
+      estimatedTaxRate: estimatedTaxRate.trim() && !isNaN(parseFloat(estimatedTaxRate)) ? parseFloat(estimatedTaxRate) : undefined,
       deductions: parseFloat(deductions) || 0,
+      mileageRate: parseFloat(mileageRate) || 0,
+      distanceUnit,
+      budget,
     };
     
-    onSubmit(name, client, rate, color, settings);
+    onSubmit(name, client, rate, color, settings, findOrCreateClient(client), billing, rateChangeDate);
   }, [
     name, client, hourlyRate, color, timeRoundingEnabled, roundingDirection, roundingInterval, 
     bufferTime, roundTime, tags, location, clockOutReminders, dailyReminderThreshold, 
-    weeklyReminderThreshold, automaticBreaks, presetBreaks, dailyOvertimeEnabled, weeklyOvertimeEnabled, 
+    weeklyReminderThreshold, maxShiftHours, workdayEnd, autoCapForgottenTimers, automaticBreaks, presetBreaks, dailyOvertimeEnabled, weeklyOvertimeEnabled, 
     dailyOvertimeThreshold, weeklyOvertimeThreshold, dailyOvertimeRate, weeklyOvertimeRate, 
-    payPeriodType, payPeriodStartDay, estimatedTaxRate, deductions, onSubmit
+    payPeriodType, payPeriodStartDay, payPeriodAnchor, billingTimeZone, estimatedTaxRate, deductions, mileageRate, distanceUnit, findOrCreateClient, onSubmit,
+    isRateChanged, rateEffectiveFrom, billingModel, fixedPrice, milestones, budgetEnabled, budgetUnit,
+    budgetPeriod, budgetAmount, budgetRollover, budgetRolloverCap, budgetAlerts, budgetStartDate
   ]);
   
+  const handleAddMilestone = () => {
+    setMilestones(current => [
+      ...current,
+      { id: `milestone_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, name: '', amount: '', dueDate: '' },
+    ]);
+  };
+  
+  const handleChangeMilestone = (id: string, updates: Partial<MilestoneInput>) => {
+    setMilestones(current => current.map(milestone => milestone.id === id ? { ...milestone, ...updates } : milestone));
+  };
+  
+  const handleRemoveMilestone = (id: string) => {
+    setMilestones(current => current.filter(milestone => milestone.id !== id));
+  };
+  
+  const sortedClients = React.useMemo(() => {
+    return [...clients].sort((a, b) => a.name.localeCompare(b.name));
+  }, [clients]);
+  
+  // Picking a saved client fills in its rate when none has been entered yet
+  const handleSelectClient = (clientId: string) => {
+    const selected = clients.find(c => c.id === clientId);
+    if (!selected) return;
+    setClient(selected.name);
+    if (selected.defaultRate && !(parseFloat(hourlyRate) > 0)) {
+      setHourlyRate(selected.defaultRate.toString());
+    }
+  };
+  
   const handleCancel = React.useCallback(() => {
     router.back();
   }, [router]);
@@ -220,9 +432,18 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
   const payPeriodOptions = [
     { label: 'Weekly', value: 'weekly' },
     { label: 'Biweekly', value: 'biweekly' },
+    { label: 'Semi-monthly', value: 'semimonthly' },
     { label: 'Monthly', value: 'monthly' },
   ];
   
+  // Monthly start days are days of the month, the others are weekdays
+  const handlePayPeriodTypeChange = (value: PayPeriodType) => {
+    if ((value === 'monthly') !== (payPeriodType === 'monthly')) {
+      setPayPeriodStartDay(value === 'monthly' ? 1 : 0);
+    }
+    setPayPeriodType(value);
+  };
+  
   const getStartDayOptions = () => {
     if (payPeriodType === 'monthly') {
       // For monthly, days 1-28
@@ -315,22 +536,156 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
                 placeholder="e.g. Acme Corp"
                 placeholderTextColor={colors.placeholder}
               />
+              {sortedClients.length > 0 && (
+                <View style={styles.chipRow}>
+                  {sortedClients.map(item => {
+                    const isSelected = item.name.toLowerCase() === client.trim().toLowerCase();
+                    return (
+                      <TouchableOpacity
+                        key={item.id}
+                        style={[styles.chip, isSelected && styles.chipActive]}
+                        onPress={() => handleSelectClient(item.id)}
+                      >
+                        <Text style={[styles.chipText, isSelected && styles.chipTextActive]}>{item.name}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
+              <Text style={styles.helpText}>
+                A new name is saved as a client you can add billing details to later.
+              </Text>
             </View>
             
             <View style={styles.formGroup}>
-              <Text style={styles.label}>Hourly Rate</Text>
-              <View style={styles.inputWithIcon}>
-                <Text style={styles.currencySymbol}>{taxSettings.currencySymbol}</Text>
+              <Text style={styles.label}>Billing</Text>
+              <OptionSelector
+                options={BILLING_MODELS.map(option => ({ label: option.label, value: option.value }))}
+                selectedValue={billingModel}
+                onSelect={(value) => setBillingModel(value as BillingModel)}
+              />
+              {billingModel !== 'hourly' && (
+                <Text style={styles.helpText}>
+                  Time is still tracked to show your effective hourly rate, but earns nothing by the hour.
+                </Text>
+              )}
+            </View>
+            
+            {billingModel === 'fixed' && (
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Fixed Price</Text>
+                <View style={styles.inputWithIcon}>
+                  <Text style={styles.currencySymbol}>{taxSettings.currencySymbol}</Text>
+                  <TextInput
+                    style={styles.inputWithIconText}
+                    value={fixedPrice}
+                    onChangeText={setFixedPrice}
+                    keyboardType="decimal-pad"
+                    placeholder="0.00"
+                    placeholderTextColor={colors.placeholder}
+                  />
+                </View>
+                <Text style={styles.helpText}>
+                  The fee is earned when you mark the job complete.
+                </Text>
+              </View>
+            )}
+            
+            {billingModel === 'milestone' && (
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Milestones</Text>
+                {milestones.map(milestone => (
+                  <View key={milestone.id} style={styles.milestoneRow}>
+                    <View style={styles.milestoneFields}>
+                      <TextInput
+                        style={styles.input}
+                        value={milestone.name}
+                        onChangeText={(value) => handleChangeMilestone(milestone.id, { name: value })}
+                        placeholder="e.g. Design sign-off"
+                        placeholderTextColor={colors.placeholder}
+                      />
+                      <View style={styles.milestoneInline}>
+                        <View style={[styles.inputWithIcon, styles.milestoneInlineField]}>
+                          <Text style={styles.currencySymbol}>{taxSettings.currencySymbol}</Text>
+                          <TextInput
+                            style={styles.inputWithIconText}
+                            value={milestone.amount}
+                            onChangeText={(value) => handleChangeMilestone(milestone.id, { amount: value })}
+                            keyboardType="decimal-pad"
+                            placeholder="0.00"
+                            placeholderTextColor={colors.placeholder}
+                          />
+                        </View>
+                        <TextInput
+                          style={[styles.input, styles.milestoneInlineField]}
+                          value={milestone.dueDate}
+                          onChangeText={(value) => handleChangeMilestone(milestone.id, { dueDate: value })}
+                          keyboardType="numbers-and-punctuation"
+                          placeholder="Due YYYY-MM-DD"
+                          placeholderTextColor={colors.placeholder}
+                        />
+                      </View>
+                    </View>
+                    <TouchableOpacity style={styles.milestoneRemove} onPress={() => handleRemoveMilestone(milestone.id)}>
+                      <X size={18} color={colors.danger} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+                <TouchableOpacity style={styles.addMilestoneButton} onPress={handleAddMilestone}>
+                  <Plus size={18} color={colors.primary} />
+                  <Text style={styles.addMilestoneText}>Add Milestone</Text>
+                </TouchableOpacity>
+                <Text style={styles.helpText}>
+                  Each milestone is earned when you mark it complete on the job screen.
+                </Text>
+              </View>
+            )}
+            
+            {billingModel === 'hourly' && (
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Hourly Rate</Text>
+                <View style={styles.inputWithIcon}>
+                  <Text style={styles.currencySymbol}>{taxSettings.currencySymbol}</Text>
+                  <TextInput
+                    style={styles.inputWithIconText}
+                    value={hourlyRate}
+                    onChangeText={setHourlyRate}
+                    keyboardType="decimal-pad"
+                    placeholder="0.00"
+                    placeholderTextColor={colors.placeholder}
+                  />
+                </View>
+                {rateHistory.length > 1 && (
+                  <View style={styles.rateHistory}>
+                    {rateHistory.map(change => (
+                      <Text key={change.effectiveFrom} style={styles.rateHistoryText}>
+                        {formatCurrency(change.rate, taxSettings.currency, taxSettings.currencySymbol)}/hr
+                        {change.effectiveFrom > 0
+                          ? ` from ${formatDateInput(change.effectiveFrom, resolveTimeZone(billingTimeZone.trim()))}`
+                          : ' originally'}
+                      </Text>
+                    ))}
+                  </View>
+                )}
+              </View>
+            )}
+            
+            {isRateChanged && (
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>New rate applies from</Text>
                 <TextInput
-                  style={styles.inputWithIconText}
-                  value={hourlyRate}
-                  onChangeText={setHourlyRate}
-                  keyboardType="decimal-pad"
-                  placeholder="0.00"
+                  style={styles.input}
+                  value={rateEffectiveFrom}
+                  onChangeText={setRateEffectiveFrom}
+                  keyboardType="numbers-and-punctuation"
+                  placeholder="YYYY-MM-DD"
                   placeholderTextColor={colors.placeholder}
                 />
+                <Text style={styles.helpText}>
+                  Entries that start earlier keep the rate they had. Paid pay periods are never repriced.
+                </Text>
               </View>
-            </View>
+            )}
             
             <View style={styles.formGroup}>
               <Text style={styles.label}>Color</Text>
@@ -470,6 +825,59 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
               </View>
             )}
             
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <TimerOff size={20} color={colors.subtext} />
+                <View style={styles.settingText}>
+                  <Text style={styles.settingLabel}>Clock out forgotten timers automatically</Text>
+                  <Text style={styles.settingValue}>
+                    {autoCapForgottenTimers ? 'On' : 'Ask me'}
+                  </Text>
+                </View>
+              </View>
+              <Switch
+                value={autoCapForgottenTimers}
+                onValueChange={setAutoCapForgottenTimers}
+                trackColor={{ false: colors.border, true: colors.primary }}
+                thumbColor={autoCapForgottenTimers ? '#FFFFFF' : '#FFFFFF'}
+              />
+            </View>
+            
+            <View style={styles.reminderSettings}>
+              <View style={styles.reminderRow}>
+                <Text style={styles.reminderLabel}>Longest shift</Text>
+                <View style={styles.reminderInputContainer}>
+                  <TextInput
+                    style={styles.reminderInput}
+                    value={maxShiftHours}
+                    onChangeText={setMaxShiftHours}
+                    keyboardType="decimal-pad"
+                    placeholder="None"
+                    placeholderTextColor={colors.placeholder}
+                  />
+                  <Text style={styles.reminderUnit}>hours</Text>
+                </View>
+              </View>
+              
+              <View style={styles.reminderRow}>
+                <Text style={styles.reminderLabel}>Workday ends</Text>
+                <View style={styles.reminderInputContainer}>
+                  <TextInput
+                    style={styles.reminderInput}
+                    value={workdayEnd}
+                    onChangeText={setWorkdayEnd}
+                    keyboardType="numbers-and-punctuation"
+                    placeholder="17:30"
+                    placeholderTextColor={colors.placeholder}
+                  />
+                </View>
+              </View>
+              
+              <Text style={styles.reminderDescription}>
+                A timer still running after the longest shift or past the end of the workday (in the billing timezone) is treated as forgotten. Leave both empty to never flag this job's timers. You'll be asked when you actually stopped, or it will be clocked out at the limit automatically.
+              </Text>
+            </View>
+            
             <View style={styles.settingRow}>
               <View style={styles.settingInfo}>
                 <Clock size={20} color={colors.subtext} />
@@ -579,7 +987,7 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
               </View>
               <Switch
                 value={dailyOvertimeEnabled}
-                onValueChange={handleDailyOvertimeChange}
+                onValueChange={setDailyOvertimeEnabled}
                 trackColor={{ false: colors.border, true: colors.primary }}
                 thumbColor={dailyOvertimeEnabled ? '#FFFFFF' : '#FFFFFF'}
               />
@@ -633,7 +1041,7 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
               </View>
               <Switch
                 value={weeklyOvertimeEnabled}
-                onValueChange={handleWeeklyOvertimeChange}
+                onValueChange={setWeeklyOvertimeEnabled}
                 trackColor={{ false: colors.border, true: colors.primary }}
                 thumbColor={weeklyOvertimeEnabled ? '#FFFFFF' : '#FFFFFF'}
               />
@@ -684,19 +1092,60 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
               <OptionSelector
                 options={payPeriodOptions}
                 selectedValue={payPeriodType}
-                onSelect={(value) => setPayPeriodType(value as PayPeriodType)}
+                onSelect={(value) => handlePayPeriodTypeChange(value as PayPeriodType)}
               />
             </View>
             
-            <View style={styles.formGroup}>
-              <Text style={styles.label}>
-                {payPeriodType === 'monthly' ? 'Period ends' : 'Period ends'}
+            {payPeriodType === 'semimonthly' ? (
+              <Text style={styles.helpText}>
+                Periods run from the 1st to the 15th and from the 16th to the end of each month.
               </Text>
-              <OptionSelector
-                options={getStartDayOptions()}
-                selectedValue={payPeriodStartDay}
-                onSelect={(value) => setPayPeriodStartDay(Number(value))}
+            ) : (
+              !(payPeriodType === 'biweekly' && payPeriodAnchor.trim()) && (
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>
+                    {payPeriodType === 'monthly' ? 'Period ends' : 'Period ends'}
+                  </Text>
+                  <OptionSelector
+                    options={getStartDayOptions()}
+                    selectedValue={payPeriodStartDay}
+                    onSelect={(value) => setPayPeriodStartDay(Number(value))}
+                  />
+                </View>
+              )
+            )}
+            
+            {payPeriodType === 'biweekly' && (
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>First day of a pay period</Text>
+                <TextInput
+                  style={styles.input}
+                  value={payPeriodAnchor}
+                  onChangeText={setPayPeriodAnchor}
+                  keyboardType="numbers-and-punctuation"
+                  placeholder="YYYY-MM-DD"
+                  placeholderTextColor={colors.placeholder}
+                />
+                <Text style={styles.helpText}>
+                  Any past or future period start from the client's payroll calendar, so every period lines up with theirs.
+                </Text>
+              </View>
+            )}
+            
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Billing timezone</Text>
+              <TextInput
+                style={styles.input}
+                value={billingTimeZone}
+                onChangeText={setBillingTimeZone}
+                autoCapitalize="none"
+                autoCorrect={false}
+                placeholder={getDeviceTimeZone()}
+                placeholderTextColor={colors.placeholder}
               />
+              <Text style={styles.helpText}>
+                Days, weeks, pay periods and overtime are counted in this zone. Leave blank to use the device's timezone.
+              </Text>
             </View>
           </View>
           
@@ -714,7 +1163,7 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
                 value={estimatedTaxRate}
                 onChangeText={setEstimatedTaxRate}
                 keyboardType="decimal-pad"
-                placeholder="0"
+                placeholder={`${taxSettings.defaultTaxRate} (default)`}
                 placeholderTextColor={colors.placeholder}
               />
             </View>
@@ -739,6 +1188,170 @@ export default function JobForm({ initialValues = {}, onSubmit, submitButtonText
                 Deductions are applied to net earnings calculations after each pay period has ended.
               </Text>
             </View>
+            
+            <View style={styles.formGroup}>
+              <View style={styles.settingInfo}>
+                <Car size={20} color={colors.subtext} />
+                <Text style={styles.settingLabel}>Mileage rate (per {distanceUnit})</Text>
+              </View>
+              <View style={styles.inputWithIcon}>
+                <Text style={styles.currencySymbol}>{taxSettings.currencySymbol}</Text>
+                <TextInput
+                  style={styles.inputWithIconText}
+                  value={mileageRate}
+                  onChangeText={setMileageRate}
+                  keyboardType="decimal-pad"
+                  placeholder="0.00"
+                  placeholderTextColor={colors.placeholder}
+                />
+              </View>
+            </View>
+            
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Distance unit</Text>
+              <OptionSelector
+                options={DISTANCE_UNITS.map(option => ({ label: option.label, value: option.value }))}
+                selectedValue={distanceUnit}
+                onSelect={(value) => setDistanceUnit(value as DistanceUnit)}
+              />
+              <Text style={styles.helpText}>
+                Mileage logged for this job is priced at this rate. Changing it doesn't reprice mileage already logged.
+              </Text>
+            </View>
+          </View>
+          
+          {/* Budget Settings */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Budget</Text>
+            
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Wallet size={20} color={colors.subtext} />
+                <View style={styles.settingText}>
+                  <Text style={styles.settingLabel}>Retainer or budget</Text>
+                  <Text style={styles.settingValue}>
+                    {budgetEnabled ? 'On' : 'Off'}
+                  </Text>
+                </View>
+              </View>
+              <Switch
+                value={budgetEnabled}
+                onValueChange={setBudgetEnabled}
+                trackColor={{ false: colors.border, true: colors.primary }}
+                thumbColor={budgetEnabled ? '#FFFFFF' : '#FFFFFF'}
+              />
+            </View>
+            
+            {budgetEnabled && (
+              <>
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Budget in</Text>
+                  <OptionSelector
+                    options={BUDGET_UNITS.map(option => ({ label: option.label, value: option.value }))}
+                    selectedValue={budgetUnit}
+                    onSelect={(value) => setBudgetUnit(value as BudgetUnit)}
+                  />
+                </View>
+                
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Budget covers</Text>
+                  <OptionSelector
+                    options={BUDGET_PERIODS.map(option => ({ label: option.label, value: option.value }))}
+                    selectedValue={budgetPeriod}
+                    onSelect={(value) => setBudgetPeriod(value as BudgetPeriod)}
+                  />
+                </View>
+                
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>
+                    {budgetUnit === 'hours' ? 'Hours' : 'Amount'}{budgetPeriod === 'monthly' ? ' per month' : ''}
+                  </Text>
+                  {budgetUnit === 'hours' ? (
+                    <TextInput
+                      style={styles.input}
+                      value={budgetAmount}
+                      onChangeText={setBudgetAmount}
+                      keyboardType="decimal-pad"
+                      placeholder="0"
+                      placeholderTextColor={colors.placeholder}
+                    />
+                  ) : (
+                    <View style={styles.inputWithIcon}>
+                      <Text style={styles.currencySymbol}>{taxSettings.currencySymbol}</Text>
+                      <TextInput
+                        style={styles.inputWithIconText}
+                        value={budgetAmount}
+                        onChangeText={setBudgetAmount}
+                        keyboardType="decimal-pad"
+                        placeholder="0.00"
+                        placeholderTextColor={colors.placeholder}
+                      />
+                    </View>
+                  )}
+                  <Text style={styles.helpText}>
+                    Only billable time counts towards the budget.
+                  </Text>
+                </View>
+                
+                {budgetPeriod === 'monthly' && (
+                  <View style={styles.formGroup}>
+                    <Text style={styles.label}>At the end of each month</Text>
+                    <OptionSelector
+                      options={BUDGET_ROLLOVERS.map(option => ({ label: option.label, value: option.value }))}
+                      selectedValue={budgetRollover}
+                      onSelect={(value) => setBudgetRollover(value as BudgetRollover)}
+                    />
+                  </View>
+                )}
+                
+                {budgetPeriod === 'monthly' && budgetRollover !== 'none' && (
+                  <View style={styles.formGroup}>
+                    <Text style={styles.label}>Most that can roll over</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={budgetRolloverCap}
+                      onChangeText={setBudgetRolloverCap}
+                      keyboardType="decimal-pad"
+                      placeholder="No limit"
+                      placeholderTextColor={colors.placeholder}
+                    />
+                    <Text style={styles.helpText}>
+                      In {budgetUnit === 'hours' ? 'hours' : taxSettings.currencySymbol}. Leave blank for no limit.
+                    </Text>
+                  </View>
+                )}
+                
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Alert at (% used)</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={budgetAlerts}
+                    onChangeText={setBudgetAlerts}
+                    keyboardType="numbers-and-punctuation"
+                    placeholder="75, 90, 100"
+                    placeholderTextColor={colors.placeholder}
+                  />
+                  <Text style={styles.helpText}>
+                    You're notified when clocking in or out takes usage past each of these.
+                  </Text>
+                </View>
+                
+                <View style={styles.formGroup}>
+                  <Text style={styles.label}>Counts from</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={budgetStartDate}
+                    onChangeText={setBudgetStartDate}
+                    keyboardType="numbers-and-punctuation"
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor={colors.placeholder}
+                  />
+                  <Text style={styles.helpText}>
+                    Leave blank to count from when the job was created.
+                  </Text>
+                </View>
+              </>
+            )}
           </View>
           
           <View style={styles.buttonContainer}>
@@ -882,6 +1495,71 @@ const createStyles = (colors: any) => StyleSheet.create({
     marginTop: 4,
     fontStyle: 'italic',
   },
+  rateHistory: {
+    marginTop: 8,
+    gap: 2,
+  },
+  rateHistoryText: {
+    fontSize: 13,
+    color: colors.subtext,
+  },
+  milestoneRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  milestoneFields: {
+    flex: 1,
+    gap: 8,
+  },
+  milestoneInline: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  milestoneInlineField: {
+    flex: 1,
+  },
+  milestoneRemove: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  addMilestoneButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+  },
+  addMilestoneText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.primary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text,
+    fontWeight: '500',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
   roundingSettings: {
     marginTop: 16,
     paddingTop: 16,
@@ -1,20 +1,36 @@
 import React from 'react';
 import { StyleSheet, Text, View, TouchableOpacity } from 'react-native';
-import { Check, Clock, DollarSign, Calendar } from 'lucide-react-native';
+import { Check, Clock, DollarSign, Calendar, Lock, LockOpen } from 'lucide-react-native';
 import { PayPeriod } from '@/types';
 import { formatDuration, formatPayPeriodRange } from '@/utils/time';
 import { formatCurrency } from '@/utils/helpers';
+import { getAdjustmentTotals, isPayPeriodLocked } from '@/utils/period-locks';
 import { useBusinessStore } from '@/store/businessStore';
 import Colors from '@/constants/colors';
 
 type PayPeriodCardProps = {
   period: PayPeriod;
   onTogglePaid: () => void;
+  onToggleLock?: () => void;
+  // From recorded payments; periods with part of their earnings paid show what's left
+  paidAmount?: number;
+  balance?: number;
+  timeZone?: string; // The job's billing timezone, which the period was built in
 };
 
-export default function PayPeriodCard({ period, onTogglePaid }: PayPeriodCardProps) {
+const formatSigned = (value: number, format: (amount: number) => string) => {
+  return `${value < 0 ? '-' : '+'}${format(Math.abs(value))}`;
+};
+
+export default function PayPeriodCard({ period, onTogglePaid, onToggleLock, paidAmount = 0, balance, timeZone }: PayPeriodCardProps) {
   const { taxSettings } = useBusinessStore();
   const { startDate, endDate, totalDuration, totalEarnings, isPaid, paidDate } = period;
+  const locked = isPayPeriodLocked(period);
+  const adjustmentCount = period.adjustments?.length ?? 0;
+  const milestoneCount = period.milestoneIds?.length ?? 0;
+  const adjustmentTotals = getAdjustmentTotals(period);
+  const isPartlyPaid = !isPaid && paidAmount > 0;
+  const money = (amount: number) => formatCurrency(amount, taxSettings.currency, taxSettings.currencySymbol);
   
   const handleTogglePaid = React.useCallback(() => {
     onTogglePaid();
@@ -26,7 +42,7 @@ export default function PayPeriodCard({ period, onTogglePaid }: PayPeriodCardPro
         <View style={styles.dateContainer}>
           <Calendar size={16} color={Colors.light.subtext} />
           <Text style={styles.dateRange}>
-            {formatPayPeriodRange(startDate, endDate)}
+            {formatPayPeriodRange(startDate, endDate, timeZone)}
           </Text>
         </View>
         <View style={[
@@ -37,7 +53,7 @@ export default function PayPeriodCard({ period, onTogglePaid }: PayPeriodCardPro
             styles.statusText,
             isPaid ? styles.paidText : styles.unpaidText
           ]}>
-            {isPaid ? 'Paid' : 'Unpaid'}
+            {isPaid ? 'Paid' : isPartlyPaid ? 'Part paid' : 'Unpaid'}
           </Text>
         </View>
       </View>
@@ -53,17 +69,48 @@ export default function PayPeriodCard({ period, onTogglePaid }: PayPeriodCardPro
         <View style={styles.statItem}>
           <DollarSign size={16} color={Colors.light.subtext} />
           <Text style={styles.statValue} numberOfLines={1} adjustsFontSizeToFit minimumFontScale={0.8}>
-            {formatCurrency(totalEarnings, taxSettings.currency, taxSettings.currencySymbol)}
+            {money(totalEarnings)}
           </Text>
         </View>
       </View>
       
+      {milestoneCount > 0 && (
+        <Text style={styles.milestoneText}>
+          Includes {milestoneCount} completed {milestoneCount === 1 ? 'milestone' : 'milestones'}
+        </Text>
+      )}
+      
+      {isPartlyPaid && (
+        <Text style={styles.balanceText}>
+          {money(paidAmount)} paid · {money(balance ?? Math.max(0, totalEarnings - paidAmount))} outstanding
+        </Text>
+      )}
+      
       {isPaid && paidDate && (
         <Text style={styles.paidDate}>
           Marked as paid on {new Date(paidDate).toLocaleDateString()}
         </Text>
       )}
       
+      {isPaid && onToggleLock && (
+        <TouchableOpacity style={styles.lockRow} onPress={onToggleLock}>
+          {locked
+            ? <Lock size={14} color={Colors.light.subtext} />
+            : <LockOpen size={14} color={Colors.light.warning} />}
+          <Text style={[styles.lockText, !locked && styles.unlockedText]}>
+            {locked ? 'Locked · Tap to unlock for corrections' : 'Unlocked for corrections · Tap to lock'}
+          </Text>
+        </TouchableOpacity>
+      )}
+      
+      {adjustmentCount > 0 && (
+        <Text style={styles.adjustmentText}>
+          {adjustmentCount} {adjustmentCount === 1 ? 'change' : 'changes'} after payment:{' '}
+          {formatSigned(adjustmentTotals.duration, formatDuration)},{' '}
+          {formatSigned(adjustmentTotals.earnings, money)}
+        </Text>
+      )}
+      
       <TouchableOpacity 
         style={[
           styles.toggleButton,
@@ -145,11 +192,39 @@ const styles = StyleSheet.create({
     marginLeft: 6,
     flexShrink: 1,
   },
+  milestoneText: {
+    fontSize: 13,
+    color: Colors.light.subtext,
+    marginBottom: 12,
+  },
+  balanceText: {
+    fontSize: 13,
+    color: Colors.light.warning,
+    marginBottom: 12,
+  },
   paidDate: {
     fontSize: 12,
     color: Colors.light.subtext,
     marginBottom: 12,
   },
+  lockRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  lockText: {
+    fontSize: 12,
+    color: Colors.light.subtext,
+  },
+  unlockedText: {
+    color: Colors.light.warning,
+  },
+  adjustmentText: {
+    fontSize: 12,
+    color: Colors.light.subtext,
+    marginBottom: 12,
+  },
   toggleButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,399 @@
+import React, { useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import OptionSelector from '@/components/OptionSelector';
+import { useBusinessStore } from '@/store/businessStore';
+import { useTheme } from '@/contexts/ThemeContext';
+import { formatCurrency } from '@/utils/helpers';
+import { formatPayPeriodRange } from '@/utils/time';
+import { formatDateInput, parseDateInput } from '@/utils/timezone';
+import { roundMoney } from '@/utils/invoice';
+import { PAYMENT_METHODS, allocatePayment, getPeriodBalance } from '@/utils/payments';
+import { PayPeriod, Payment, PaymentAllocation, PaymentMethod } from '@/types';
+
+export type PaymentFormValues = Pick<Payment, 'amount' | 'date' | 'method' | 'reference' | 'note' | 'allocations'>;
+
+type PaymentFormProps = {
+  // The job's pay periods and the payments already recorded against them
+  payPeriods: PayPeriod[];
+  payments: Payment[];
+  timeZone: string; // Payment dates are entered in the job's billing timezone
+  onSubmit: (values: PaymentFormValues) => void;
+  onCancel: () => void;
+};
+
+const toInputs = (allocations: PaymentAllocation[]): Record<string, string> => {
+  return Object.fromEntries(allocations.map(allocation => [allocation.payPeriodId, allocation.amount.toFixed(2)]));
+};
+
+export default function PaymentForm({ payPeriods, payments, timeZone, onSubmit, onCancel }: PaymentFormProps) {
+  const { taxSettings } = useBusinessStore();
+  const { colors } = useTheme();
+
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(formatDateInput(Date.now(), timeZone));
+  const [method, setMethod] = useState<PaymentMethod>('bank_transfer');
+  const [reference, setReference] = useState('');
+  const [note, setNote] = useState('');
+  const [allocationInputs, setAllocationInputs] = useState<Record<string, string>>({});
+  // Allocations follow the amount until the user changes one by hand
+  const [allocationsEdited, setAllocationsEdited] = useState(false);
+
+  const money = (value: number) => formatCurrency(value, taxSettings.currency, taxSettings.currencySymbol);
+
+  const outstandingPeriods = useMemo(() => {
+    return payPeriods
+      .filter(period => getPeriodBalance(period, payments) > 0)
+      .sort((a, b) => a.startDate - b.startDate);
+  }, [payPeriods, payments]);
+
+  const parsedAmount = parseFloat(amount);
+  const allocations = outstandingPeriods
+    .map(period => ({ payPeriodId: period.id, amount: parseFloat(allocationInputs[period.id] || '0') }))
+    .filter(allocation => allocation.amount !== 0);
+  const allocatedTotal = roundMoney(allocations.reduce((total, allocation) => total + (allocation.amount || 0), 0));
+  const unallocated = isNaN(parsedAmount) ? 0 : roundMoney(parsedAmount - allocatedTotal);
+
+  const handleAmountChange = (value: string) => {
+    setAmount(value);
+    if (!allocationsEdited) {
+      const total = parseFloat(value);
+      setAllocationInputs(isNaN(total) || total <= 0 ? {} : toInputs(allocatePayment(total, outstandingPeriods, payments)));
+    }
+  };
+
+  const handleAllocationChange = (periodId: string, value: string) => {
+    setAllocationsEdited(true);
+    setAllocationInputs(current => ({ ...current, [periodId]: value }));
+  };
+
+  const handleAutoAllocate = () => {
+    setAllocationsEdited(false);
+    setAllocationInputs(isNaN(parsedAmount) || parsedAmount <= 0
+      ? {}
+      : toInputs(allocatePayment(parsedAmount, outstandingPeriods, payments)));
+  };
+
+  const handleSubmit = () => {
+    if (isNaN(parsedAmount) || parsedAmount <= 0) {
+      Alert.alert("Error", "Please enter the amount received");
+      return;
+    }
+
+    const paidDate = parseDateInput(date, timeZone);
+    if (paidDate === null) {
+      Alert.alert("Error", "Please enter the payment date as YYYY-MM-DD");
+      return;
+    }
+
+    const invalidPeriod = outstandingPeriods.find(period => {
+      const allocation = allocations.find(a => a.payPeriodId === period.id);
+      return allocation && (isNaN(allocation.amount) || allocation.amount < 0 || allocation.amount > getPeriodBalance(period, payments));
+    });
+    if (invalidPeriod) {
+      Alert.alert("Error", `The amount for ${formatPayPeriodRange(invalidPeriod.startDate, invalidPeriod.endDate, timeZone)} must be between zero and its outstanding balance`);
+      return;
+    }
+    if (unallocated < 0) {
+      Alert.alert("Error", "The amounts allocated to pay periods add up to more than the payment");
+      return;
+    }
+
+    onSubmit({
+      amount: roundMoney(parsedAmount),
+      date: paidDate,
+      method,
+      reference: reference.trim() || undefined,
+      note: note.trim() || undefined,
+      allocations: allocations.map(allocation => ({ ...allocation, amount: roundMoney(allocation.amount) })),
+    });
+  };
+
+  const styles = createStyles(colors);
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.formContainer}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Payment</Text>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Amount</Text>
+            <View style={styles.inputWithIcon}>
+              <Text style={styles.currencySymbol}>{taxSettings.currencySymbol}</Text>
+              <TextInput
+                style={styles.inputWithIconText}
+                value={amount}
+                onChangeText={handleAmountChange}
+                keyboardType="decimal-pad"
+                placeholder="0.00"
+                placeholderTextColor={colors.placeholder}
+              />
+            </View>
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Date Received</Text>
+            <TextInput
+              style={styles.input}
+              value={date}
+              onChangeText={setDate}
+              keyboardType="numbers-and-punctuation"
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={colors.placeholder}
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Method</Text>
+            <OptionSelector
+              options={PAYMENT_METHODS.map(option => ({ label: option.label, value: option.value }))}
+              selectedValue={method}
+              onSelect={(value) => setMethod(value as PaymentMethod)}
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Reference</Text>
+            <TextInput
+              style={styles.input}
+              value={reference}
+              onChangeText={setReference}
+              placeholder="e.g. transfer ID or check number"
+              placeholderTextColor={colors.placeholder}
+            />
+          </View>
+
+          <View style={styles.formGroup}>
+            <Text style={styles.label}>Note</Text>
+            <TextInput
+              style={[styles.input, styles.multilineInput]}
+              value={note}
+              onChangeText={setNote}
+              placeholder="Optional"
+              placeholderTextColor={colors.placeholder}
+              multiline
+            />
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Applied To</Text>
+            {allocationsEdited && (
+              <TouchableOpacity style={styles.autoButton} onPress={handleAutoAllocate}>
+                <Text style={styles.autoButtonText}>Oldest first</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {outstandingPeriods.length === 0 ? (
+            <Text style={styles.helpText}>
+              No pay periods have an outstanding balance. The payment will be kept as credit on the job.
+            </Text>
+          ) : (
+            outstandingPeriods.map(period => (
+              <View key={period.id} style={styles.allocationRow}>
+                <View style={styles.allocationInfo}>
+                  <Text style={styles.allocationPeriod}>{formatPayPeriodRange(period.startDate, period.endDate, timeZone)}</Text>
+                  <Text style={styles.allocationBalance}>{money(getPeriodBalance(period, payments))} outstanding</Text>
+                </View>
+                <TextInput
+                  style={styles.allocationInput}
+                  value={allocationInputs[period.id] ?? ''}
+                  onChangeText={(value) => handleAllocationChange(period.id, value)}
+                  keyboardType="decimal-pad"
+                  placeholder="0.00"
+                  placeholderTextColor={colors.placeholder}
+                />
+              </View>
+            ))
+          )}
+
+          {unallocated !== 0 && (
+            <Text style={[styles.unallocatedText, unallocated < 0 && { color: colors.danger }]}>
+              {unallocated > 0
+                ? `${money(unallocated)} not applied to a pay period; it stays as credit on the job.`
+                : `Allocations are ${money(-unallocated)} more than the payment.`}
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onCancel}>
+            <Text style={styles.buttonText}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={[styles.button, styles.submitButton]} onPress={handleSubmit}>
+            <Text style={styles.buttonText}>Record Payment</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.surface,
+  },
+  formContainer: {
+    padding: 20,
+  },
+  section: {
+    backgroundColor: colors.background,
+    borderRadius: 20,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 3 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    marginBottom: 16,
+    letterSpacing: -0.3,
+  },
+  autoButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: colors.primaryLight,
+    marginBottom: 16,
+  },
+  autoButtonText: {
+    color: colors.primary,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  formGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 8,
+    letterSpacing: -0.2,
+  },
+  input: {
+    backgroundColor: colors.inputBg,
+    borderRadius: 14,
+    padding: 16,
+    fontSize: 16,
+    color: colors.text,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  multilineInput: {
+    minHeight: 88,
+    textAlignVertical: 'top',
+  },
+  inputWithIcon: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.inputBg,
+    borderRadius: 14,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  currencySymbol: {
+    fontSize: 20,
+    color: colors.subtext,
+    marginRight: 8,
+    fontWeight: '500',
+  },
+  inputWithIconText: {
+    flex: 1,
+    padding: 16,
+    fontSize: 16,
+    color: colors.text,
+  },
+  allocationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  allocationInfo: {
+    flex: 1,
+  },
+  allocationPeriod: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  allocationBalance: {
+    fontSize: 13,
+    color: colors.subtext,
+    marginTop: 2,
+  },
+  allocationInput: {
+    width: 110,
+    backgroundColor: colors.inputBg,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    color: colors.text,
+    borderWidth: 1,
+    borderColor: colors.border,
+    textAlign: 'right',
+  },
+  unallocatedText: {
+    fontSize: 13,
+    color: colors.subtext,
+    marginTop: 4,
+  },
+  helpText: {
+    fontSize: 12,
+    color: colors.subtext,
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+    paddingHorizontal: 16,
+    gap: 12,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 16,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#374151',
+  },
+  submitButton: {
+    backgroundColor: colors.primary,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    fontSize: 16,
+    letterSpacing: -0.2,
+  },
+});
@@ -1,8 +1,9 @@
 import React from 'react';
 import { StyleSheet, Text, View, TouchableOpacity, Alert } from 'react-native';
-import { Clock, Calendar, MoreVertical, CheckCircle, Pause, Zap } from 'lucide-react-native';
+import { Clock, Calendar, MoreVertical, CheckCircle, Pause, Zap, Ban } from 'lucide-react-native';
 import { TimeEntry, Job } from '@/types';
-import { formatTime, formatDate, formatDuration, calculateEarnings, getStartOfWeek, getEndOfWeek } from '@/utils/time';
+import { formatTime, formatDate, formatDuration, calculateEarnings, getEntryWorkDuration, getEntryBillableDuration } from '@/utils/time';
+import { calculateJobEarnings, getEntryRate, getOvertimeRules, hasOvertime, isEntryBillable } from '@/utils/earnings';
 import { formatCurrency } from '@/utils/helpers';
 import { useBusinessStore } from '@/store/businessStore';
 import { useJobsStore } from '@/store/jobsStore';
@@ -38,113 +39,22 @@ export default function TimeEntryCard({ entry, job, onEdit, onDelete }: TimeEntr
     return total;
   }, 0) : 0;
   
-  // Calculate work duration excluding breaks
-  const rawDuration = endTime ? endTime - startTime : Date.now() - startTime;
-  const duration = Math.max(0, rawDuration - totalBreakDuration);
+  // Tracked work time excluding breaks, and the rounded time that gets billed
+  const workDuration = getEntryWorkDuration(entry);
+  const duration = getEntryBillableDuration(entry, job.settings);
+  const isRounded = duration !== workDuration;
   
   const isPaid = !!paidInPeriodId;
+  const isBillable = isEntryBillable(entry);
+  const rate = getEntryRate(entry, job);
   
-  // Calculate overtime breakdown
-  const calculateOvertimeBreakdown = () => {
-    if (!endTime || !job.settings) return null;
-    
-    const durationHours = duration / (1000 * 60 * 60);
-    const { 
-      dailyOvertime, 
-      dailyOvertimeThreshold = 8, 
-      dailyOvertimeRate = 1.5,
-      weeklyOvertime,
-      weeklyOvertimeThreshold = 40,
-      weeklyOvertimeRate = 1.5
-    } = job.settings;
-    
-    // Daily overtime calculation (existing logic)
-    if (dailyOvertime === 'daily' && durationHours > dailyOvertimeThreshold) {
-      const straightTimeHours = dailyOvertimeThreshold;
-      const overtimeHours = durationHours - dailyOvertimeThreshold;
-      
-      const straightTimeEarnings = straightTimeHours * job.hourlyRate;
-      const overtimeEarnings = overtimeHours * job.hourlyRate * dailyOvertimeRate;
-      const totalEarnings = straightTimeEarnings + overtimeEarnings;
-      
-      return {
-        type: 'daily',
-        totalHours: durationHours,
-        straightTimeHours,
-        overtimeHours,
-        straightTimeEarnings,
-        overtimeEarnings,
-        totalEarnings,
-        overtimeRate: dailyOvertimeRate
-      };
-    }
-    
-    // Weekly overtime calculation (new logic)
-    if (weeklyOvertime === 'weekly') {
-      // Get the week boundaries for this entry
-      const entryDate = new Date(startTime);
-      const weekStart = getStartOfWeek(entryDate, 0); // Sunday start
-      const weekEnd = getEndOfWeek(entryDate, 0);
-      
-      // Get all time entries for this job in the same week
-      const allJobEntries = getTimeEntriesForJob(job.id);
-      const weekEntries = allJobEntries.filter(e => {
-        if (!e.endTime) return false; // Only completed entries
-        const eDate = new Date(e.startTime);
-        return eDate >= weekStart && eDate <= weekEnd;
-      });
-      
-      // Calculate total hours for the week
-      let totalWeekHours = 0;
-      weekEntries.forEach(e => {
-        if (e.endTime) {
-          const eDuration = e.endTime - e.startTime;
-          const eBreakDuration = e.breaks?.reduce((total, breakItem) => {
-            if (breakItem?.endTime) {
-              return total + (breakItem.endTime - breakItem.startTime);
-            }
-            return total;
-          }, 0) || 0;
-          const eWorkDuration = Math.max(0, eDuration - eBreakDuration);
-          totalWeekHours += eWorkDuration / (1000 * 60 * 60);
-        }
-      });
-      
-      // Check if weekly overtime threshold is exceeded
-      if (totalWeekHours > weeklyOvertimeThreshold) {
-        // Calculate how much of this entry contributes to overtime
-        const straightTimeHours = Math.min(weeklyOvertimeThreshold, totalWeekHours - durationHours) + 
-                                 Math.min(durationHours, Math.max(0, weeklyOvertimeThreshold - (totalWeekHours - durationHours)));
-        const overtimeHours = Math.max(0, totalWeekHours - weeklyOvertimeThreshold);
-        
-        // For this specific entry, calculate the portion that's overtime
-        const entryOvertimeHours = Math.max(0, Math.min(durationHours, totalWeekHours - weeklyOvertimeThreshold));
-        const entryStraightTimeHours = durationHours - entryOvertimeHours;
-        
-        const entryStraightTimeEarnings = entryStraightTimeHours * job.hourlyRate;
-        const entryOvertimeEarnings = entryOvertimeHours * job.hourlyRate * weeklyOvertimeRate;
-        const entryTotalEarnings = entryStraightTimeEarnings + entryOvertimeEarnings;
-        
-        return {
-          type: 'weekly',
-          totalHours: durationHours,
-          straightTimeHours: entryStraightTimeHours,
-          overtimeHours: entryOvertimeHours,
-          straightTimeEarnings: entryStraightTimeEarnings,
-          overtimeEarnings: entryOvertimeEarnings,
-          totalEarnings: entryTotalEarnings,
-          overtimeRate: weeklyOvertimeRate,
-          weeklyTotalHours: totalWeekHours,
-          weeklyThreshold: weeklyOvertimeThreshold
-        };
-      }
-    }
-    
-    return null;
-  };
-  
-  const overtimeBreakdown = calculateOvertimeBreakdown();
-  const earnings = overtimeBreakdown ? overtimeBreakdown.totalEarnings : calculateEarnings(job.hourlyRate || 0, duration);
+  // Overtime depends on the rest of the job's day and week, so compute over all its entries
+  const rules = getOvertimeRules(job);
+  const entryEarnings = endTime
+    ? calculateJobEarnings(job, getTimeEntriesForJob(job.id)).byEntryId[entry.id]
+    : undefined;
+  const overtimeBreakdown = entryEarnings && hasOvertime(entryEarnings) ? entryEarnings : null;
+  const earnings = entryEarnings ? entryEarnings.totalEarnings : calculateEarnings(rate, duration);
   
   // Format break information if there are breaks
   const renderBreakInfo = React.useCallback(() => {
@@ -165,46 +75,63 @@ export default function TimeEntryCard({ entry, job, onEdit, onDelete }: TimeEntr
   const renderOvertimeBreakdown = () => {
     if (!overtimeBreakdown) return null;
     
-    const isWeekly = overtimeBreakdown.type === 'weekly';
+    const money = (amount: number) => formatCurrency(amount, taxSettings.currency, taxSettings.currencySymbol);
     
     return (
       <View style={[styles.overtimeBreakdown, { backgroundColor: colors.warning + '10', borderColor: colors.warning + '20' }]}>
         <View style={styles.overtimeHeader}>
           <Zap size={16} color={colors.warning} />
-          <Text style={[styles.overtimeTitle, { color: colors.warning }]}>
-            {isWeekly ? 'Weekly Overtime Breakdown' : 'Overtime Breakdown'}
-          </Text>
+          <Text style={[styles.overtimeTitle, { color: colors.warning }]}>Overtime Breakdown</Text>
         </View>
         
-        {isWeekly && (
+        {overtimeBreakdown.dailyOvertimeHours > 0 && rules.dailyThreshold !== null && (
+          <View style={styles.overtimeRow}>
+            <Text style={[styles.overtimeLabel, { color: colors.text }]}>Day Total:</Text>
+            <Text style={[styles.overtimeValue, { color: colors.text }]}>
+              {overtimeBreakdown.dayHoursToDate.toFixed(1)}h (threshold: {rules.dailyThreshold}h)
+            </Text>
+          </View>
+        )}
+        
+        {overtimeBreakdown.weeklyOvertimeHours > 0 && rules.weeklyThreshold !== null && (
           <View style={styles.overtimeRow}>
             <Text style={[styles.overtimeLabel, { color: colors.text }]}>Week Total:</Text>
             <Text style={[styles.overtimeValue, { color: colors.text }]}>
-              {overtimeBreakdown.weeklyTotalHours?.toFixed(1)}h (threshold: {overtimeBreakdown.weeklyThreshold}h)
+              {overtimeBreakdown.weekHoursToDate.toFixed(1)}h (threshold: {rules.weeklyThreshold}h)
             </Text>
           </View>
         )}
         
         <View style={styles.overtimeRow}>
           <Text style={[styles.overtimeLabel, { color: colors.text }]}>Entry Hours:</Text>
-          <Text style={[styles.overtimeValue, { color: colors.text }]}>{overtimeBreakdown.totalHours.toFixed(1)}h</Text>
+          <Text style={[styles.overtimeValue, { color: colors.text }]}>{overtimeBreakdown.hours.toFixed(1)}h</Text>
         </View>
         <View style={styles.overtimeRow}>
           <Text style={[styles.overtimeLabel, { color: colors.text }]}>Straight Time:</Text>
           <Text style={[styles.overtimeValue, { color: colors.text }]} numberOfLines={1} adjustsFontSizeToFit minimumFontScale={0.8}>
-            {overtimeBreakdown.straightTimeHours.toFixed(1)}h @ {formatCurrency(job.hourlyRate, taxSettings.currency, taxSettings.currencySymbol)}/hr = {formatCurrency(overtimeBreakdown.straightTimeEarnings, taxSettings.currency, taxSettings.currencySymbol)}
-          </Text>
-        </View>
-        <View style={styles.overtimeRow}>
-          <Text style={[styles.overtimeLabel, { color: colors.text }]}>Overtime ({overtimeBreakdown.overtimeRate}x):</Text>
-          <Text style={[styles.overtimeValue, { color: colors.text }]} numberOfLines={1} adjustsFontSizeToFit minimumFontScale={0.8}>
-            {overtimeBreakdown.overtimeHours.toFixed(1)}h @ {formatCurrency(job.hourlyRate * overtimeBreakdown.overtimeRate, taxSettings.currency, taxSettings.currencySymbol)}/hr = {formatCurrency(overtimeBreakdown.overtimeEarnings, taxSettings.currency, taxSettings.currencySymbol)}
+            {overtimeBreakdown.straightHours.toFixed(1)}h @ {money(rate)}/hr = {money(overtimeBreakdown.straightEarnings)}
           </Text>
         </View>
+        {overtimeBreakdown.dailyOvertimeHours > 0 && (
+          <View style={styles.overtimeRow}>
+            <Text style={[styles.overtimeLabel, { color: colors.text }]}>Daily OT ({rules.dailyRate}x):</Text>
+            <Text style={[styles.overtimeValue, { color: colors.text }]} numberOfLines={1} adjustsFontSizeToFit minimumFontScale={0.8}>
+              {overtimeBreakdown.dailyOvertimeHours.toFixed(1)}h @ {money(rate * rules.dailyRate)}/hr = {money(overtimeBreakdown.dailyOvertimeEarnings)}
+            </Text>
+          </View>
+        )}
+        {overtimeBreakdown.weeklyOvertimeHours > 0 && (
+          <View style={styles.overtimeRow}>
+            <Text style={[styles.overtimeLabel, { color: colors.text }]}>Weekly OT ({rules.weeklyRate}x):</Text>
+            <Text style={[styles.overtimeValue, { color: colors.text }]} numberOfLines={1} adjustsFontSizeToFit minimumFontScale={0.8}>
+              {overtimeBreakdown.weeklyOvertimeHours.toFixed(1)}h @ {money(rate * rules.weeklyRate)}/hr = {money(overtimeBreakdown.weeklyOvertimeEarnings)}
+            </Text>
+          </View>
+        )}
         <View style={[styles.overtimeRow, styles.overtimeTotalRow, { borderTopColor: colors.warning + '30' }]}>
           <Text style={[styles.overtimeTotalLabel, { color: colors.text }]}>Total Earned:</Text>
           <Text style={[styles.overtimeTotalValue, { color: colors.warning }]} numberOfLines={1} adjustsFontSizeToFit minimumFontScale={0.8}>
-            {formatCurrency(overtimeBreakdown.totalEarnings, taxSettings.currency, taxSettings.currencySymbol)}
+            {money(overtimeBreakdown.totalEarnings)}
           </Text>
         </View>
       </View>
@@ -267,6 +194,11 @@ export default function TimeEntryCard({ entry, job, onEdit, onDelete }: TimeEntr
             <Text style={styles.durationText} numberOfLines={1} adjustsFontSizeToFit minimumFontScale={0.8}>
               {formatDuration(duration)}
             </Text>
+            {isRounded && (
+              <Text style={styles.rawDurationText} numberOfLines={1}>
+                Tracked {formatDuration(workDuration)}
+              </Text>
+            )}
             <Text style={styles.earningsText} numberOfLines={1} adjustsFontSizeToFit minimumFontScale={0.8}>
               {formatCurrency(earnings, taxSettings.currency, taxSettings.currencySymbol)}
             </Text>
@@ -274,7 +206,7 @@ export default function TimeEntryCard({ entry, job, onEdit, onDelete }: TimeEntr
               <View style={[styles.overtimeIndicator, { backgroundColor: colors.warning + '20' }]}>
                 <Zap size={12} color={colors.warning} />
                 <Text style={[styles.overtimeIndicatorText, { color: colors.warning }]}>
-                  {overtimeBreakdown.type === 'weekly' ? 'WOT' : 'OT'}
+                  {overtimeBreakdown.dailyOvertimeHours > 0 ? 'OT' : 'WOT'}
                 </Text>
               </View>
             )}
@@ -290,12 +222,27 @@ export default function TimeEntryCard({ entry, job, onEdit, onDelete }: TimeEntr
         {renderOvertimeBreakdown()}
         
         <View style={styles.footer}>
-          {isPaid && (
-            <View style={[styles.paidBadge, { backgroundColor: colors.success + '15' }]}>
-              <CheckCircle size={14} color={colors.success} />
-              <Text style={[styles.paidText, { color: colors.success }]}>Paid</Text>
-            </View>
-          )}
+          <View style={styles.badges}>
+            {isPaid && (
+              <View style={[styles.paidBadge, { backgroundColor: colors.success + '15' }]}>
+                <CheckCircle size={14} color={colors.success} />
+                <Text style={[styles.paidText, { color: colors.success }]}>Paid</Text>
+              </View>
+            )}
+            {!isBillable && (
+              <View style={[styles.paidBadge, { backgroundColor: colors.subtext + '15' }]}>
+                <Ban size={14} color={colors.subtext} />
+                <Text style={[styles.paidText, { color: colors.subtext }]}>Non-billable</Text>
+              </View>
+            )}
+            {isBillable && entry.rateOverride !== undefined && (
+              <View style={[styles.paidBadge, { backgroundColor: colors.primary + '15' }]}>
+                <Text style={[styles.paidText, { color: colors.primary }]}>
+                  {formatCurrency(entry.rateOverride, taxSettings.currency, taxSettings.currencySymbol)}/hr
+                </Text>
+              </View>
+            )}
+          </View>
           
           {(onEdit || onDelete) && (
             <TouchableOpacity style={[styles.optionsButton, { backgroundColor: colors.surface }]} onPress={handleOptions}>
@@ -389,6 +336,11 @@ const createStyles = (colors: any) => StyleSheet.create({
     letterSpacing: -0.2,
     flexShrink: 1,
   },
+  rawDurationText: {
+    fontSize: 12,
+    color: colors.subtext,
+    marginTop: 2,
+  },
   earningsText: {
     fontSize: 14,
     color: colors.subtext,
@@ -471,6 +423,12 @@ const createStyles = (colors: any) => StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  badges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    flexShrink: 1,
+  },
   paidBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -7,23 +7,52 @@ import {
   TouchableOpacity,
   Alert,
   ScrollView,
+  Switch,
 } from 'react-native';
-import { Calendar, Clock, Trash2 } from 'lucide-react-native';
+import { Calendar, Clock, Trash2, Pause, RotateCcw, AlertTriangle, Coins } from 'lucide-react-native';
 import TimePickerModal from '@/components/TimePickerModal';
 import { useTheme } from '@/contexts/ThemeContext';
-import { formatTime, formatDate } from '@/utils/time';
+import { useBusinessStore } from '@/store/businessStore';
+import { BreakEntry, PayPeriod, PresetBreak } from '@/types';
+import { formatTime, formatDate, formatDuration } from '@/utils/time';
+import { isAutoBreak } from '@/utils/breaks';
+import { generateId } from '@/utils/helpers';
+import { TimeEntryOverlap, clipBreaksToRange, getFreeSegments, getTrimmedRange } from '@/utils/overlaps';
+
+type TimeEntryFormValues = {
+  startTime: number;
+  endTime: number | null;
+  note: string;
+  breaks?: BreakEntry[];
+  dismissedAutoBreakIds?: string[];
+  billable?: boolean;
+  rateOverride?: number;
+};
+
+// Trimming is applied to the form directly; split and keep are decided on save
+type OverlapResolution = 'split' | 'keep';
 
 type TimeEntryFormProps = {
-  initialValues?: {
-    startTime: number;
-    endTime: number | null;
-    note: string;
-  };
-  onSubmit: (values: { startTime: number; endTime: number | null; note: string }) => Promise<boolean>;
+  initialValues?: TimeEntryFormValues;
+  // additionalEntries holds the remaining pieces when an overlapping entry is split;
+  // allowOverlaps is set when the user chose to keep the overlap
+  onSubmit: (
+    values: TimeEntryFormValues,
+    additionalEntries?: TimeEntryFormValues[],
+    options?: { allowOverlaps: boolean }
+  ) => Promise<boolean>;
   onCancel: () => void;
   onDelete?: () => void;
   jobName: string;
+  jobRate?: number; // Shown as the rate used when there's no override
+  presetBreaks?: PresetBreak[];
   isNewEntry?: boolean;
+  findOverlaps?: (range: { startTime: number; endTime: number | null }) => TimeEntryOverlap[];
+  getJobName?: (jobId: string) => string | undefined;
+  // Paid pay periods the save would change; the first values are the entry itself and
+  // any others are new pieces from a split
+  findLockedPeriods?: (values: TimeEntryFormValues[]) => PayPeriod[];
+  onUnlockPeriods?: (periods: PayPeriod[]) => void;
 };
 
 export default function TimeEntryForm({
@@ -32,14 +61,24 @@ export default function TimeEntryForm({
   onCancel,
   onDelete,
   jobName,
+  jobRate = 0,
+  presetBreaks = [],
   isNewEntry = false,
+  findOverlaps,
+  getJobName,
+  findLockedPeriods,
+  onUnlockPeriods,
 }: TimeEntryFormProps) {
   const { colors } = useTheme();
+  const { taxSettings } = useBusinessStore();
 
-  const defaultValues = useMemo(() => ({
+  const defaultValues = useMemo<TimeEntryFormValues>(() => ({
     startTime: Date.now(),
-    endTime: null as number | null,
+    endTime: null,
     note: '',
+    breaks: [],
+    dismissedAutoBreakIds: [],
+    billable: true,
   }), []);
 
   const values = initialValues || defaultValues;
@@ -47,27 +86,64 @@ export default function TimeEntryForm({
   const [startTime, setStartTime] = useState(values.startTime);
   const [endTime, setEndTime] = useState(values.endTime);
   const [note, setNote] = useState(values.note);
+  const [breaks, setBreaks] = useState<BreakEntry[]>(values.breaks || []);
+  const [dismissedAutoBreakIds, setDismissedAutoBreakIds] = useState<string[]>(values.dismissedAutoBreakIds || []);
+  const [removedBreaks, setRemovedBreaks] = useState<BreakEntry[]>([]);
+  const [billable, setBillable] = useState(values.billable !== false);
+  const [rateOverride, setRateOverride] = useState(values.rateOverride !== undefined ? values.rateOverride.toString() : '');
   const [showStartTimePicker, setShowStartTimePicker] = useState(false);
   const [showEndTimePicker, setShowEndTimePicker] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [overlapResolution, setOverlapResolution] = useState<OverlapResolution | null>(null);
 
   useEffect(() => {
     const currentValues = initialValues || defaultValues;
     setStartTime(currentValues.startTime);
     setEndTime(currentValues.endTime);
     setNote(currentValues.note);
+    setBreaks(currentValues.breaks || []);
+    setDismissedAutoBreakIds(currentValues.dismissedAutoBreakIds || []);
+    setRemovedBreaks([]);
+    setBillable(currentValues.billable !== false);
+    setRateOverride(currentValues.rateOverride !== undefined ? currentValues.rateOverride.toString() : '');
     // Reset submitting state when values change
     setIsSubmitting(false);
   }, [initialValues, defaultValues]);
 
+  // A resolution only applies to the times it was chosen for
+  useEffect(() => {
+    setOverlapResolution(null);
+  }, [startTime, endTime]);
+
+  const overlaps = useMemo(() => {
+    if (!findOverlaps || !startTime || (endTime && endTime <= startTime)) return [];
+    return findOverlaps({ startTime, endTime });
+  }, [findOverlaps, startTime, endTime]);
+
+  const freeSegments = useMemo(() => {
+    if (!endTime || overlaps.length === 0) return [];
+    return getFreeSegments({ startTime, endTime }, overlaps);
+  }, [startTime, endTime, overlaps]);
+
+  // Blank means the job's rate; NaN flags an invalid entry
+  const parsedRateOverride = useMemo(() => {
+    if (!rateOverride.trim()) return undefined;
+    const rate = parseFloat(rateOverride);
+    return isNaN(rate) || rate < 0 ? NaN : rate;
+  }, [rateOverride]);
+
   const hasChanges = useMemo(() => {
     if (isNewEntry) return true;
     return (
       startTime !== values.startTime ||
       endTime !== values.endTime ||
-      note.trim() !== values.note.trim()
+      note.trim() !== values.note.trim() ||
+      billable !== (values.billable !== false) ||
+      parsedRateOverride !== values.rateOverride ||
+      breaks.length !== (values.breaks || []).length ||
+      breaks.some((breakItem, index) => breakItem.id !== values.breaks?.[index]?.id)
     );
-  }, [startTime, endTime, note, values, isNewEntry]);
+  }, [startTime, endTime, note, billable, parsedRateOverride, breaks, values, isNewEntry]);
 
   const isFormValid = useMemo(() => {
     if (!startTime) return false;
@@ -81,19 +157,62 @@ export default function TimeEntryForm({
       Alert.alert('Invalid Entry', 'Please check your time entry details.');
       return;
     }
+    if (parsedRateOverride !== undefined && isNaN(parsedRateOverride)) {
+      Alert.alert('Invalid Rate', 'Please enter a valid hourly rate or leave it blank to use the job rate.');
+      return;
+    }
     if (!isNewEntry && !hasChanges) {
       Alert.alert('No Changes', 'No changes were made to this time entry.');
       return;
     }
+    if (overlaps.length > 0 && !overlapResolution) {
+      Alert.alert(
+        'Overlapping Entries',
+        `This entry overlaps ${overlaps.length} other ${overlaps.length === 1 ? 'entry' : 'entries'}. Trim it, split it or keep it anyway before saving.`
+      );
+      return;
+    }
+
+    const submittedValues = {
+      startTime,
+      endTime,
+      note: note.trim(),
+      breaks,
+      dismissedAutoBreakIds,
+      billable,
+      rateOverride: parsedRateOverride,
+    };
+    const [first, ...rest] = overlapResolution === 'split' && freeSegments.length > 1
+      ? freeSegments.map(segment => ({
+        ...submittedValues,
+        ...segment,
+        breaks: clipBreaksToRange(breaks, segment),
+      }))
+      : [submittedValues];
+    // Each piece is its own entry, so its breaks need their own ids
+    const additionalEntries = rest.map(values => ({
+      ...values,
+      breaks: values.breaks.map(breakItem => ({ ...breakItem, id: generateId() })),
+      dismissedAutoBreakIds: [],
+    }));
+
+    const lockedPeriods = findLockedPeriods?.([first, ...additionalEntries]) ?? [];
+    if (lockedPeriods.length > 0) {
+      Alert.alert(
+        'Paid Pay Period',
+        'This change affects time that has already been paid. Unlock the pay period to save it as an adjustment.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          ...(onUnlockPeriods ? [{ text: 'Unlock', onPress: () => onUnlockPeriods(lockedPeriods) }] : []),
+        ]
+      );
+      return;
+    }
 
     setIsSubmitting(true);
 
     try {
-      const result = await onSubmit({
-        startTime,
-        endTime,
-        note: note.trim(),
-      });
+      const result = await onSubmit(first, additionalEntries, { allowOverlaps: overlapResolution === 'keep' });
       
       if (result === false) {
         Alert.alert('Error', 'Failed to save time entry. Please try again.');
@@ -123,6 +242,45 @@ export default function TimeEntryForm({
 
   const clearEndTime = () => setEndTime(null);
 
+  const getBreakLabel = (breakItem: BreakEntry) => {
+    if (!isAutoBreak(breakItem)) return 'Break';
+    const preset = presetBreaks.find(p => p.id === breakItem.presetBreakId);
+    return preset ? `${preset.name} (automatic)` : 'Automatic break';
+  };
+
+  // Removing an automatic break records it as dismissed so clocking out won't add it back
+  const handleRemoveBreak = (breakItem: BreakEntry) => {
+    setBreaks(current => current.filter(b => b.id !== breakItem.id));
+    setRemovedBreaks(current => [...current, breakItem]);
+    if (isAutoBreak(breakItem)) {
+      setDismissedAutoBreakIds(current => current.includes(breakItem.id) ? current : [...current, breakItem.id]);
+    }
+  };
+
+  const handleRestoreBreak = (breakItem: BreakEntry) => {
+    setRemovedBreaks(current => current.filter(b => b.id !== breakItem.id));
+    setBreaks(current => [...current, breakItem].sort((a, b) => a.startTime - b.startTime));
+    setDismissedAutoBreakIds(current => current.filter(id => id !== breakItem.id));
+  };
+
+  // Shrinks the entry to its longest stretch that doesn't overlap anything
+  const handleTrim = () => {
+    if (!endTime) return;
+    const range = getTrimmedRange({ startTime, endTime }, overlaps);
+    if (!range) {
+      Alert.alert('Cannot Trim', 'This entry is completely covered by other entries.');
+      return;
+    }
+    setStartTime(range.startTime);
+    setEndTime(range.endTime);
+    setBreaks(current => clipBreaksToRange(current, range));
+  };
+
+  const getOverlapLabel = (overlap: TimeEntryOverlap) => {
+    if (overlap.kind === 'same-job') return 'Same job';
+    return getJobName?.(overlap.entry.jobId) || 'Another job';
+  };
+
   const handleStartTimeConfirm = (timestamp: number) => {
     setStartTime(timestamp);
     setShowStartTimePicker(false);
@@ -192,6 +350,124 @@ export default function TimeEntryForm({
           )}
         </View>
 
+        {overlaps.length > 0 && (
+          <View style={[styles.section, styles.overlapSection]}>
+            <View style={styles.overlapHeader}>
+              <AlertTriangle size={20} color={colors.warning} />
+              <Text style={styles.overlapTitle}>Overlapping Entries</Text>
+            </View>
+            {overlaps.map(overlap => (
+              <View key={overlap.entry.id} style={styles.overlapRow}>
+                <Text style={styles.breakLabel}>{getOverlapLabel(overlap)}</Text>
+                <Text style={styles.breakTime}>
+                  {formatDate(overlap.startTime)} · {formatTime(overlap.startTime)} - {formatTime(overlap.endTime)} · {formatDuration(overlap.endTime - overlap.startTime)}
+                </Text>
+              </View>
+            ))}
+            <View style={styles.overlapActions}>
+              {endTime && freeSegments.length > 0 && (
+                <TouchableOpacity style={styles.overlapOption} onPress={handleTrim} disabled={isSubmitting}>
+                  <Text style={styles.overlapOptionText}>Trim</Text>
+                </TouchableOpacity>
+              )}
+              {freeSegments.length > 1 && (
+                <TouchableOpacity
+                  style={[styles.overlapOption, overlapResolution === 'split' && styles.overlapOptionActive]}
+                  onPress={() => setOverlapResolution('split')}
+                  disabled={isSubmitting}
+                >
+                  <Text style={[styles.overlapOptionText, overlapResolution === 'split' && styles.overlapOptionTextActive]}>Split</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={[styles.overlapOption, overlapResolution === 'keep' && styles.overlapOptionActive]}
+                onPress={() => setOverlapResolution('keep')}
+                disabled={isSubmitting}
+              >
+                <Text style={[styles.overlapOptionText, overlapResolution === 'keep' && styles.overlapOptionTextActive]}>Keep Anyway</Text>
+              </TouchableOpacity>
+            </View>
+            {overlapResolution === 'split' && (
+              <Text style={styles.overlapHint}>Will be saved as {freeSegments.length} separate entries around the overlaps.</Text>
+            )}
+            {overlapResolution === 'keep' && (
+              <Text style={styles.overlapHint}>Overlapping time will be counted twice.</Text>
+            )}
+          </View>
+        )}
+
+        {(breaks.length > 0 || removedBreaks.length > 0) && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Breaks</Text>
+            {breaks.map(breakItem => (
+              <View key={breakItem.id} style={styles.breakRow}>
+                <Pause size={16} color={colors.warning} />
+                <View style={styles.breakInfo}>
+                  <Text style={styles.breakLabel}>{getBreakLabel(breakItem)}</Text>
+                  <Text style={styles.breakTime}>
+                    {formatTime(breakItem.startTime)} - {breakItem.endTime ? formatTime(breakItem.endTime) : 'Now'}
+                    {breakItem.endTime ? ` · ${formatDuration(breakItem.endTime - breakItem.startTime)}` : ''}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => handleRemoveBreak(breakItem)} disabled={isSubmitting}>
+                  <Trash2 size={18} color={colors.danger} />
+                </TouchableOpacity>
+              </View>
+            ))}
+            {removedBreaks.map(breakItem => (
+              <View key={breakItem.id} style={[styles.breakRow, styles.removedBreakRow]}>
+                <Pause size={16} color={colors.subtext} />
+                <View style={styles.breakInfo}>
+                  <Text style={[styles.breakLabel, styles.removedBreakText]}>{getBreakLabel(breakItem)}</Text>
+                  <Text style={styles.breakTime}>Removed</Text>
+                </View>
+                <TouchableOpacity style={styles.restoreButton} onPress={() => handleRestoreBreak(breakItem)} disabled={isSubmitting}>
+                  <RotateCcw size={16} color={colors.primary} />
+                  <Text style={styles.clearButton}>Undo</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Billing</Text>
+          <View style={styles.settingRow}>
+            <View style={styles.settingText}>
+              <Text style={styles.settingLabel}>Billable</Text>
+              <Text style={styles.settingValue}>
+                {billable ? 'Counts towards earnings and invoices' : 'Tracked only, earns nothing'}
+              </Text>
+            </View>
+            <Switch
+              value={billable}
+              onValueChange={setBillable}
+              disabled={isSubmitting}
+              trackColor={{ false: colors.border, true: colors.primary }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+          {billable && (
+            <>
+              <Text style={styles.settingLabel}>Rate Override</Text>
+              <View style={styles.inputWithIcon}>
+                <Coins size={18} color={colors.subtext} />
+                <Text style={styles.currencySymbol}>{taxSettings.currencySymbol}</Text>
+                <TextInput
+                  style={styles.inputWithIconText}
+                  value={rateOverride}
+                  onChangeText={setRateOverride}
+                  keyboardType="decimal-pad"
+                  placeholder={jobRate.toFixed(2)}
+                  placeholderTextColor={colors.placeholder}
+                  editable={!isSubmitting}
+                />
+              </View>
+              <Text style={styles.helpText}>Leave blank to use the job's hourly rate.</Text>
+            </>
+          )}
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Notes</Text>
           <TextInput
@@ -375,6 +651,139 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontWeight: '600',
     letterSpacing: -0.2,
   },
+  breakRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    gap: 12,
+  },
+  removedBreakRow: {
+    opacity: 0.7,
+  },
+  breakInfo: {
+    flex: 1,
+  },
+  breakLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  removedBreakText: {
+    textDecorationLine: 'line-through',
+  },
+  breakTime: {
+    fontSize: 13,
+    color: colors.subtext,
+    marginTop: 2,
+  },
+  restoreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  overlapSection: {
+    borderWidth: 1,
+    borderColor: colors.warning,
+  },
+  overlapHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  overlapTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text,
+    letterSpacing: -0.3,
+  },
+  overlapRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  overlapActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 16,
+  },
+  overlapOption: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  overlapOptionActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  overlapOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  overlapOptionTextActive: {
+    color: '#FFFFFF',
+  },
+  overlapHint: {
+    fontSize: 13,
+    color: colors.subtext,
+    marginTop: 12,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  settingText: {
+    flex: 1,
+  },
+  settingLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: 4,
+    letterSpacing: -0.2,
+  },
+  settingValue: {
+    fontSize: 14,
+    color: colors.subtext,
+  },
+  inputWithIcon: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.inputBg,
+    borderRadius: 14,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginTop: 4,
+    gap: 8,
+  },
+  currencySymbol: {
+    fontSize: 18,
+    color: colors.subtext,
+    fontWeight: '500',
+  },
+  inputWithIconText: {
+    flex: 1,
+    paddingVertical: 16,
+    fontSize: 16,
+    color: colors.text,
+  },
+  helpText: {
+    fontSize: 12,
+    color: colors.subtext,
+    marginTop: 6,
+    fontStyle: 'italic',
+  },
   noteInput: {
     backgroundColor: colors.inputBg,
     borderRadius: 16,
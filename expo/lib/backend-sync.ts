@@ -1,5 +1,5 @@
 import { trpcClient } from './trpc';
-import { Job, TimeEntry, PayPeriod } from '@/types';
+import { Client, Job, TimeEntry, PayPeriod, Payment, Expense, SyncItemResult } from '@/types';
 import NetInfo from '@react-native-community/netinfo';
 
 export async function checkNetworkConnectivity(): Promise<boolean> {
@@ -12,20 +12,60 @@ export async function checkNetworkConnectivity(): Promise<boolean> {
   }
 }
 
+// Matches MAX_SYNC_BATCH_SIZE on the backend
+const SYNC_BATCH_SIZE = 500;
+
+// Sends items in backend-sized chunks and collects the per-item results
+async function syncInChunks<T>(
+  items: T[],
+  send: (chunk: T[]) => Promise<{ results: SyncItemResult[] }>
+): Promise<SyncItemResult[]> {
+  const results: SyncItemResult[] = [];
+  for (let i = 0; i < items.length; i += SYNC_BATCH_SIZE) {
+    const response = await send(items.slice(i, i + SYNC_BATCH_SIZE));
+    results.push(...response.results);
+  }
+  return results;
+}
+
+const countAccepted = (results: SyncItemResult[]) => results.filter(result => result.status === 'accepted').length;
+
+export async function batchSyncClients(
+  clients: Client[],
+  userId: string,
+  operation: 'upsert' | 'delete'
+): Promise<SyncItemResult[]> {
+  try {
+    console.log(`Batch syncing ${clients.length} clients (${operation})`);
+    
+    const results = await syncInChunks(clients, chunk => trpcClient.data.syncClients.mutate({
+      clients: chunk,
+      operation,
+    }));
+    
+    console.log(`Successfully synced ${countAccepted(results)} of ${clients.length} clients`);
+    return results;
+  } catch (error) {
+    console.error('Error batch syncing clients:', error);
+    throw error;
+  }
+}
+
 export async function batchSyncJobs(
   jobs: Job[],
   userId: string,
   operation: 'upsert' | 'delete'
-): Promise<void> {
+): Promise<SyncItemResult[]> {
   try {
     console.log(`Batch syncing ${jobs.length} jobs (${operation})`);
     
-    const result = await trpcClient.data.syncJobs.mutate({
-      jobs,
+    const results = await syncInChunks(jobs, chunk => trpcClient.data.syncJobs.mutate({
+      jobs: chunk,
       operation,
-    });
+    }));
     
-    console.log(`Successfully synced ${result.count} jobs`);
+    console.log(`Successfully synced ${countAccepted(results)} of ${jobs.length} jobs`);
+    return results;
   } catch (error) {
     console.error('Error batch syncing jobs:', error);
     throw error;
@@ -36,16 +76,17 @@ export async function batchSyncTimeEntries(
   timeEntries: TimeEntry[],
   userId: string,
   operation: 'upsert' | 'delete'
-): Promise<void> {
+): Promise<SyncItemResult[]> {
   try {
     console.log(`Batch syncing ${timeEntries.length} time entries (${operation})`);
     
-    const result = await trpcClient.data.syncTimeEntries.mutate({
-      timeEntries,
+    const results = await syncInChunks(timeEntries, chunk => trpcClient.data.syncTimeEntries.mutate({
+      timeEntries: chunk,
       operation,
-    });
+    }));
     
-    console.log(`Successfully synced ${result.count} time entries`);
+    console.log(`Successfully synced ${countAccepted(results)} of ${timeEntries.length} time entries`);
+    return results;
   } catch (error) {
     console.error('Error batch syncing time entries:', error);
     throw error;
@@ -56,66 +97,100 @@ export async function batchSyncPayPeriods(
   payPeriods: PayPeriod[],
   userId: string,
   operation: 'upsert' | 'delete'
-): Promise<void> {
+): Promise<SyncItemResult[]> {
   try {
     console.log(`Batch syncing ${payPeriods.length} pay periods (${operation})`);
     
-    const result = await trpcClient.data.syncPayPeriods.mutate({
-      payPeriods,
+    const results = await syncInChunks(payPeriods, chunk => trpcClient.data.syncPayPeriods.mutate({
+      payPeriods: chunk,
       operation,
-    });
+    }));
     
-    console.log(`Successfully synced ${result.count} pay periods`);
+    console.log(`Successfully synced ${countAccepted(results)} of ${payPeriods.length} pay periods`);
+    return results;
   } catch (error) {
     console.error('Error batch syncing pay periods:', error);
     throw error;
   }
 }
 
-export async function fetchAllUserData(userId: string): Promise<{
+export async function batchSyncPayments(
+  payments: Payment[],
+  userId: string,
+  operation: 'upsert' | 'delete'
+): Promise<SyncItemResult[]> {
+  try {
+    console.log(`Batch syncing ${payments.length} payments (${operation})`);
+    
+    const results = await syncInChunks(payments, chunk => trpcClient.data.syncPayments.mutate({
+      payments: chunk,
+      operation,
+    }));
+    
+    console.log(`Successfully synced ${countAccepted(results)} of ${payments.length} payments`);
+    return results;
+  } catch (error) {
+    console.error('Error batch syncing payments:', error);
+    throw error;
+  }
+}
+
+export async function batchSyncExpenses(
+  expenses: Expense[],
+  userId: string,
+  operation: 'upsert' | 'delete'
+): Promise<SyncItemResult[]> {
+  try {
+    console.log(`Batch syncing ${expenses.length} expenses (${operation})`);
+    
+    const results = await syncInChunks(expenses, chunk => trpcClient.data.syncExpenses.mutate({
+      expenses: chunk,
+      operation,
+    }));
+    
+    console.log(`Successfully synced ${countAccepted(results)} of ${expenses.length} expenses`);
+    return results;
+  } catch (error) {
+    console.error('Error batch syncing expenses:', error);
+    throw error;
+  }
+}
+
+export interface PulledChanges {
+  clients: Client[];
   jobs: Job[];
   timeEntries: TimeEntry[];
   payPeriods: PayPeriod[];
-  errors: string[];
-}> {
-  const errors: string[] = [];
-  let jobs: Job[] = [];
-  let timeEntries: TimeEntry[] = [];
-  let payPeriods: PayPeriod[] = [];
+  payments: Payment[];
+  expenses: Expense[];
+  serverTime: number;
+}
 
+// Fetches everything written on the backend since the given cursor, including
+// tombstones for deleted rows. Pass null for a full snapshot.
+export async function pullChanges(since: number | null): Promise<PulledChanges> {
   try {
-    console.log(`Fetching all data for user ${userId}`);
-
-    // Fetch jobs
-    try {
-      jobs = await trpcClient.data.getJobs.query();
-      console.log(`Fetched ${jobs.length} jobs`);
-    } catch (error) {
-      console.error('Error fetching jobs:', error);
-      errors.push('Failed to fetch jobs');
-    }
-
-    // Fetch time entries
-    try {
-      timeEntries = await trpcClient.data.getTimeEntries.query();
-      console.log(`Fetched ${timeEntries.length} time entries`);
-    } catch (error) {
-      console.error('Error fetching time entries:', error);
-      errors.push('Failed to fetch time entries');
-    }
-
-    // Fetch pay periods
-    try {
-      payPeriods = await trpcClient.data.getPayPeriods.query();
-      console.log(`Fetched ${payPeriods.length} pay periods`);
-    } catch (error) {
-      console.error('Error fetching pay periods:', error);
-      errors.push('Failed to fetch pay periods');
-    }
+    console.log(`Pulling changes since ${since ?? 'beginning'}`);
+    
+    const result = await trpcClient.data.pullChanges.query({ since });
+    
+    console.log(`Pulled ${result.clients.length} clients, ${result.jobs.length} jobs, ${result.timeEntries.length} time entries, ${result.payPeriods.length} pay periods, ${result.payments.length} payments, ${result.expenses.length} expenses`);
+    return result;
+  } catch (error) {
+    console.error('Error pulling changes:', error);
+    throw error;
+  }
+}
 
-    return { jobs, timeEntries, payPeriods, errors };
+// The backend's live copies of the caller's time entries, used to undo local changes
+// the backend refused
+export async function fetchTimeEntries(): Promise<TimeEntry[]> {
+  try {
+    const timeEntries = await trpcClient.data.getTimeEntries.query();
+    console.log(`Fetched ${timeEntries.length} time entries`);
+    return timeEntries;
   } catch (error) {
-    console.error('Error fetching all user data:', error);
-    return { jobs, timeEntries, payPeriods, errors: [...errors, 'Failed to fetch user data'] };
+    console.error('Error fetching time entries:', error);
+    throw error;
   }
 }
@@ -0,0 +1,77 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { createReminderScheduler, ReminderNotifier } from '@/utils/reminders';
+
+if (Platform.OS !== 'web') {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+async function ensurePermission(): Promise<boolean> {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+const localNotifier: ReminderNotifier = {
+  schedule: async (reminder) => {
+    if (!(await ensurePermission())) {
+      console.log('Notification permission not granted, skipping reminder:', reminder.id);
+      return;
+    }
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: reminder.id,
+      content: {
+        title: reminder.title,
+        body: reminder.body,
+        data: { kind: reminder.kind },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: reminder.fireAt,
+      },
+    });
+  },
+  cancel: async (reminderId) => {
+    await Notifications.cancelScheduledNotificationAsync(reminderId);
+  },
+};
+
+// Shows a notification straight away rather than at a scheduled time
+export async function showNotification(notification: { id: string; title: string; body: string; kind: string }): Promise<void> {
+  if (Platform.OS === 'web') return;
+  if (!(await ensurePermission())) {
+    console.log('Notification permission not granted, skipping notification:', notification.id);
+    return;
+  }
+
+  await Notifications.scheduleNotificationAsync({
+    identifier: notification.id,
+    content: {
+      title: notification.title,
+      body: notification.body,
+      data: { kind: notification.kind },
+    },
+    trigger: null,
+  });
+}
+
+// Local notifications are not available on web
+const noopNotifier: ReminderNotifier = {
+  schedule: async () => {},
+  cancel: async () => {},
+};
+
+export const reminderScheduler = createReminderScheduler(
+  Platform.OS === 'web' ? noopNotifier : localNotifier
+);
@@ -0,0 +1,28 @@
+import { uploadToDocuments, getDocumentUrl, deleteFromDocuments } from './supabase';
+
+const receiptFilePath = (expenseId: string) => `receipts/${expenseId}.jpg`;
+
+// Uploads a picked receipt photo and returns its path in the documents bucket
+export async function uploadReceipt(expenseId: string, imageUri: string): Promise<string> {
+  const response = await fetch(imageUri);
+  const bytes = new Uint8Array(await response.arrayBuffer());
+
+  const { data, error } = await uploadToDocuments(receiptFilePath(expenseId), bytes, {
+    contentType: 'image/jpeg',
+  });
+  if (error || !data) {
+    throw new Error(error?.message || 'Failed to upload receipt');
+  }
+  return data.path;
+}
+
+export function getReceiptUrl(receiptPath: string): string {
+  return getDocumentUrl(receiptPath).data.publicUrl;
+}
+
+export async function deleteReceipt(expenseId: string): Promise<void> {
+  const { error } = await deleteFromDocuments(receiptFilePath(expenseId));
+  if (error) {
+    throw new Error(error.message);
+  }
+}
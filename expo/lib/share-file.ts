@@ -0,0 +1,35 @@
+import { Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+// Writes text content to a temporary file and opens the system share sheet.
+// On web the file is downloaded instead.
+export async function shareTextFile(fileName: string, content: string, mimeType: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const file = new File(Paths.cache, fileName);
+  if (file.exists) {
+    file.delete();
+  }
+  file.create();
+  file.write(content);
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType,
+    dialogTitle: fileName,
+    UTI: mimeType === 'text/csv' ? 'public.comma-separated-values-text' : 'public.json',
+  });
+}
@@ -0,0 +1,235 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Client, SyncQueueItem, SyncItemResult } from '@/types';
+import { batchSyncClients } from '@/lib/backend-sync';
+import { mergeByUpdatedAt } from '@/utils/sync-merge';
+
+// Clients sync ahead of jobs: the jobs store drains this queue at the start of each
+// of its own sync runs and hands pulled clients back through mergeRemoteClients.
+interface ClientsState {
+  clients: Client[];
+  syncQueue: SyncQueueItem[];
+  rejectedSyncItems: SyncQueueItem[]; // Changes the backend refused, shown in the sync status
+
+  addClient: (client: Omit<Client, 'id' | 'createdAt'>) => string;
+  updateClient: (id: string, updates: Partial<Omit<Client, 'id' | 'createdAt'>>) => void;
+  deleteClient: (id: string) => void;
+  getClient: (id: string) => Client | undefined;
+  findClientByName: (name: string) => Client | undefined;
+  findOrCreateClient: (name: string) => string;
+
+  addToSyncQueue: (item: Omit<SyncQueueItem, 'id' | 'timestamp' | 'retryCount'>) => void;
+  processSyncQueue: (userId: string) => Promise<void>;
+  retryRejectedSyncItems: () => void;
+  dismissRejectedSyncItems: () => void;
+  mergeRemoteClients: (remoteClients: Client[]) => void;
+  clearAllData: () => void;
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+export const useClientsStore = create<ClientsState>()(
+  persist(
+    (set, get) => ({
+      clients: [],
+      syncQueue: [],
+      rejectedSyncItems: [],
+
+      addClient: (clientData) => {
+        if (!clientData.name || !clientData.name.trim()) {
+          throw new Error('Client name is required');
+        }
+
+        const now = Date.now();
+        const client: Client = {
+          ...clientData,
+          id: `client_${now}_${Math.random().toString(36).substr(2, 9)}`,
+          name: clientData.name.trim(),
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        set(state => ({ clients: [...state.clients, client] }));
+
+        get().addToSyncQueue({
+          entityType: 'client',
+          entityId: client.id,
+          operation: 'create',
+          data: client,
+        });
+
+        return client.id;
+      },
+
+      updateClient: (id, updates) => {
+        if (updates.name !== undefined && !updates.name.trim()) {
+          throw new Error('Client name cannot be empty');
+        }
+
+        set(state => ({
+          clients: state.clients.map(client =>
+            client.id === id
+              ? {
+                  ...client,
+                  ...updates,
+                  ...(updates.name && { name: updates.name.trim() }),
+                  updatedAt: Date.now(),
+                }
+              : client
+          )
+        }));
+
+        const updatedClient = get().clients.find(client => client.id === id);
+        if (updatedClient) {
+          get().addToSyncQueue({
+            entityType: 'client',
+            entityId: id,
+            operation: 'update',
+            data: updatedClient,
+          });
+        }
+      },
+
+      deleteClient: (id) => {
+        set(state => ({ clients: state.clients.filter(client => client.id !== id) }));
+
+        get().addToSyncQueue({
+          entityType: 'client',
+          entityId: id,
+          operation: 'delete',
+          data: { id, updatedAt: Date.now() },
+        });
+      },
+
+      getClient: (id) => {
+        return get().clients.find(client => client.id === id);
+      },
+
+      findClientByName: (name) => {
+        const key = normalizeName(name);
+        return key ? get().clients.find(client => normalizeName(client.name) === key) : undefined;
+      },
+
+      // Jobs always link to a client record; typing a new name creates one
+      findOrCreateClient: (name) => {
+        const existing = get().findClientByName(name);
+        return existing ? existing.id : get().addClient({ name });
+      },
+
+      addToSyncQueue: (item) => {
+        const queueItem: SyncQueueItem = {
+          ...item,
+          id: `sync_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          timestamp: Date.now(),
+          retryCount: 0,
+        };
+
+        set(state => ({
+          syncQueue: [
+            ...state.syncQueue.filter(existingItem => existingItem.entityId !== item.entityId),
+            queueItem,
+          ],
+          // A newer change supersedes one the backend refused
+          rejectedSyncItems: state.rejectedSyncItems.filter(rejected => rejected.entityId !== item.entityId),
+        }));
+      },
+
+      processSyncQueue: async (userId) => {
+        const queue = get().syncQueue;
+        if (queue.length === 0) {
+          return;
+        }
+
+        const processedItemIds = new Set(queue.map(item => item.id));
+        const resultsById = new Map<string, SyncItemResult>();
+        let syncError: unknown = null;
+
+        try {
+          const toUpsert = queue.filter(item => item.operation !== 'delete').map(item => item.data as Client);
+          const toDelete = queue.filter(item => item.operation === 'delete').map(item => item.data as Client);
+
+          if (toUpsert.length > 0) {
+            (await batchSyncClients(toUpsert, userId, 'upsert')).forEach(result => resultsById.set(result.id, result));
+          }
+          if (toDelete.length > 0) {
+            (await batchSyncClients(toDelete, userId, 'delete')).forEach(result => resultsById.set(result.id, result));
+          }
+        } catch (error) {
+          console.error('Error processing client sync queue:', error);
+          syncError = error;
+        }
+
+        // Accepted, stale and rejected items are all settled; only unsent ones are retried.
+        // Rejected ones are kept aside so the sync status can show them.
+        const rejectedItems: SyncQueueItem[] = [];
+        set(current => ({
+          syncQueue: current.syncQueue.flatMap((item): SyncQueueItem[] => {
+            if (!processedItemIds.has(item.id)) {
+              return [item];
+            }
+
+            const result = resultsById.get(item.entityId);
+            if (!result) {
+              const retryCount = item.retryCount + 1;
+              return syncError && retryCount < 3 ? [{ ...item, retryCount }] : [];
+            }
+            if (result.status === 'rejected') {
+              console.warn(`Sync rejected client:${item.entityId} (${result.code}): ${result.reason}`);
+              rejectedItems.push({ ...item, lastError: result.reason, rejectionCode: result.code });
+            }
+            return [];
+          }),
+        }));
+
+        if (rejectedItems.length > 0) {
+          const rejectedIds = new Set(rejectedItems.map(item => item.entityId));
+          set(current => ({
+            rejectedSyncItems: [
+              ...current.rejectedSyncItems.filter(item => !rejectedIds.has(item.entityId)),
+              ...rejectedItems,
+            ],
+          }));
+        }
+      },
+
+      retryRejectedSyncItems: () => {
+        const { rejectedSyncItems } = get();
+        set({ rejectedSyncItems: [] });
+        rejectedSyncItems.forEach(({ entityType, entityId, operation, data }) => {
+          get().addToSyncQueue({ entityType, entityId, operation, data });
+        });
+      },
+
+      dismissRejectedSyncItems: () => {
+        set({ rejectedSyncItems: [] });
+      },
+
+      mergeRemoteClients: (remoteClients) => {
+        if (remoteClients.length === 0) {
+          return;
+        }
+
+        const pendingDeletes = new Map<string, number>();
+        get().syncQueue
+          .filter(item => item.operation === 'delete')
+          .forEach(item => pendingDeletes.set(item.entityId, item.data?.updatedAt ?? item.timestamp));
+
+        set(state => ({ clients: mergeByUpdatedAt(state.clients, remoteClients, pendingDeletes) }));
+      },
+
+      clearAllData: () => {
+        set({ clients: [], syncQueue: [], rejectedSyncItems: [] });
+      },
+    }),
+    {
+      name: 'clients-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Don't persist the sync queue, matching the jobs store
+      partialize: (state) => ({
+        clients: state.clients,
+        rejectedSyncItems: state.rejectedSyncItems,
+      }),
+    }
+  )
+);
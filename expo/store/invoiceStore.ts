@@ -1,14 +1,41 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Invoice } from '@/types';
+import { Expense, Invoice, InvoiceStatus, Job, PayPeriod, TimeEntry } from '@/types';
+import { useBusinessStore } from '@/store/businessStore';
+import {
+  buildInvoiceItems,
+  calculateInvoiceTotals,
+  formatInvoiceNumber,
+  getInvoicedExpenseIds,
+  getInvoicedPayPeriodIds,
+  getInvoicedTimeEntryIds,
+} from '@/utils/invoice';
+
+export interface CreateInvoiceInput {
+  jobs: Job[];
+  timeEntries: TimeEntry[];
+  payPeriods: PayPeriod[];
+  expenses?: Expense[]; // Billable expenses to add as line items
+  clientEmail?: string;
+  clientAddress?: string;
+  dueInDays?: number;
+  notes?: string;
+}
 
 interface InvoiceState {
   invoices: Invoice[];
   nextInvoiceNumber: number;
-  
-  // Add proper function implementation
+
+  createInvoice: (input: CreateInvoiceInput) => string;
+  updateInvoice: (id: string, updates: Partial<Invoice>) => void;
+  updateInvoiceStatus: (id: string, status: InvoiceStatus) => void;
+  deleteInvoice: (id: string) => void;
+  getInvoice: (id: string) => Invoice | undefined;
   getInvoicesForJob: (jobId: string) => Invoice[];
+  getInvoicedTimeEntryIds: () => Set<string>;
+  getInvoicedPayPeriodIds: () => Set<string>;
+  getInvoicedExpenseIds: () => Set<string>;
   resetAllData: () => void;
 }
 
@@ -17,13 +44,135 @@ export const useInvoiceStore = create<InvoiceState>()(
     (set, get) => ({
       invoices: [],
       nextInvoiceNumber: 1,
-      
-      // Implement the function to return invoices for a specific job
+
+      createInvoice: (input) => {
+        const { jobs, timeEntries, payPeriods } = input;
+        const expenses = input.expenses ?? [];
+
+        if (!jobs || jobs.length === 0) {
+          throw new Error('Select at least one job to invoice');
+        }
+        if (timeEntries.length === 0 && payPeriods.length === 0 && expenses.length === 0) {
+          throw new Error('Select at least one time entry, pay period or expense');
+        }
+
+        const clientNames = new Set(jobs.map(job => job.client.trim().toLowerCase()));
+        if (clientNames.size > 1) {
+          throw new Error('All jobs on an invoice must belong to the same client');
+        }
+
+        // Checked here as well as in the screen, since periods can also arrive through sync
+        const invoicedPeriodIds = get().getInvoicedPayPeriodIds();
+        if (payPeriods.some(period => invoicedPeriodIds.has(period.id))) {
+          throw new Error('Some of the selected pay periods have already been invoiced');
+        }
+
+        // Entries covered by a selected pay period are billed through that period
+        const periodEntryIds = new Set(payPeriods.flatMap(period => period.timeEntryIds));
+        const looseEntries = timeEntries.filter(entry => !periodEntryIds.has(entry.id));
+
+        const alreadyInvoiced = get().getInvoicedTimeEntryIds();
+        const duplicate = [...looseEntries.map(entry => entry.id), ...periodEntryIds]
+          .find(entryId => alreadyInvoiced.has(entryId));
+        if (duplicate) {
+          throw new Error('Some of the selected time entries have already been invoiced');
+        }
+
+        const jobIds = new Set(jobs.map(job => job.id));
+        if (expenses.some(expense => !expense.billable || !jobIds.has(expense.jobId))) {
+          throw new Error('Only billable expenses for the selected jobs can be invoiced');
+        }
+        const invoicedExpenseIds = get().getInvoicedExpenseIds();
+        if (expenses.some(expense => invoicedExpenseIds.has(expense.id))) {
+          throw new Error('Some of the selected expenses have already been invoiced');
+        }
+
+        const { businessInfo, taxSettings } = useBusinessStore.getState();
+        const items = buildInvoiceItems(jobs, looseEntries, payPeriods, expenses);
+        const taxRate = taxSettings.defaultTaxRate || 0;
+        const totals = calculateInvoiceTotals(items, taxRate);
+
+        const now = Date.now();
+        const dueInDays = input.dueInDays ?? 30;
+        const sequence = get().nextInvoiceNumber;
+
+        const invoice: Invoice = {
+          id: `invoice_${now}_${Math.random().toString(36).substr(2, 9)}`,
+          invoiceNumber: formatInvoiceNumber(sequence),
+          jobIds: jobs.map(job => job.id),
+          payPeriodIds: payPeriods.map(period => period.id),
+          business: businessInfo ?? undefined,
+          currency: taxSettings.currency,
+          clientName: jobs[0].client.trim(),
+          clientEmail: input.clientEmail?.trim() || '',
+          clientAddress: input.clientAddress?.trim() || '',
+          issueDate: now,
+          dueDate: now + dueInDays * 24 * 60 * 60 * 1000,
+          items,
+          subtotal: totals.subtotal,
+          taxRate,
+          taxAmount: totals.taxAmount,
+          total: totals.total,
+          status: 'draft',
+          notes: input.notes?.trim() || undefined,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        set(state => ({
+          invoices: [...state.invoices, invoice],
+          nextInvoiceNumber: sequence + 1,
+        }));
+
+        return invoice.id;
+      },
+
+      updateInvoice: (id, updates) => {
+        set(state => ({
+          invoices: state.invoices.map(invoice => {
+            if (invoice.id !== id) return invoice;
+
+            const merged = { ...invoice, ...updates };
+            // Keep totals consistent whenever line items or the tax rate change
+            if (updates.items || updates.taxRate !== undefined) {
+              Object.assign(merged, calculateInvoiceTotals(merged.items, merged.taxRate));
+            }
+            return { ...merged, updatedAt: Date.now() };
+          })
+        }));
+      },
+
+      updateInvoiceStatus: (id, status) => {
+        get().updateInvoice(id, { status });
+      },
+
+      deleteInvoice: (id) => {
+        set(state => ({
+          invoices: state.invoices.filter(invoice => invoice.id !== id)
+        }));
+      },
+
+      getInvoice: (id) => {
+        return get().invoices.find(invoice => invoice.id === id);
+      },
+
       getInvoicesForJob: (jobId: string) => {
         const { invoices } = get();
-        return invoices.filter(invoice => invoice.jobId === jobId);
+        return invoices.filter(invoice => (invoice.jobIds || []).includes(jobId));
+      },
+
+      getInvoicedTimeEntryIds: () => {
+        return getInvoicedTimeEntryIds(get().invoices);
+      },
+
+      getInvoicedPayPeriodIds: () => {
+        return getInvoicedPayPeriodIds(get().invoices);
+      },
+
+      getInvoicedExpenseIds: () => {
+        return getInvoicedExpenseIds(get().invoices);
       },
-      
+
       resetAllData: () => {
         set({
           invoices: [],
@@ -36,4 +185,4 @@ export const useInvoiceStore = create<InvoiceState>()(
       storage: createJSONStorage(() => AsyncStorage),
     }
   )
-);
\ No newline at end of file
+);
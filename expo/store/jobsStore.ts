@@ -1,23 +1,55 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Job, TimeEntry, PayPeriod, SyncQueueItem, NetworkInfo, JobWithDuration, UserAccount } from '@/types';
+import { Job, TimeEntry, PayPeriod, Payment, PaymentAllocation, Expense, SyncQueueItem, SyncEntityType, SyncItemResult, SyncStatus, NetworkInfo, JobWithDuration, UserAccount } from '@/types';
 import { 
   batchSyncJobs, 
   batchSyncTimeEntries, 
   batchSyncPayPeriods, 
-  fetchAllUserData,
+  batchSyncPayments,
+  batchSyncExpenses,
+  pullChanges,
+  fetchTimeEntries,
   checkNetworkConnectivity 
 } from '@/lib/backend-sync';
-import { getPayPeriodDates } from '@/utils/time';
+import { applyAutomaticBreaks } from '@/utils/breaks';
+import { calculateJobEarnings } from '@/utils/earnings';
+import { applyRateChange } from '@/utils/rates';
+import {
+  EntryPayFields,
+  PAY_PERIOD_LOCKED_MESSAGE,
+  buildPayPeriodAdjustments,
+  findPaidPeriodsForChange,
+  isPayPeriodLocked,
+} from '@/utils/period-locks';
+import { allocatePayment, getAllocatedToPeriod, getPaidAmount, getPeriodBalance } from '@/utils/payments';
+import { roundMoney } from '@/utils/invoice';
+import { getMileageAmount, getMileageSettings } from '@/utils/expenses';
+import { getJobMilestones, isHourlyJob } from '@/utils/billing';
+import { reminderScheduler, showNotification } from '@/lib/notifications';
+import { BudgetAlertRecord, getBudgetStatus, planBudgetNotifications } from '@/utils/budget';
+import { ImportEntryInput, getImportJobKey } from '@/utils/csv-import';
+import { formatCurrency, getRandomColor } from '@/utils/helpers';
+import { OverlapCandidate, TimeEntryOverlap, TimeEntryOverlapError, findOverlappingEntries } from '@/utils/overlaps';
+import { ForgottenTimer, findForgottenTimers } from '@/utils/forgotten-timers';
+import { rebuildJobPayPeriods } from '@/utils/pay-periods';
+import { getDeviceTimeZone } from '@/utils/timezone';
+import { mergeByUpdatedAt } from '@/utils/sync-merge';
+import { useClientsStore } from '@/store/clientsStore';
 
 interface JobsState {
   jobs: Job[];
   timeEntries: TimeEntry[];
   payPeriods: PayPeriod[];
+  payments: Payment[];
+  expenses: Expense[];
   activeTimeEntry: TimeEntry | null;
   syncQueue: SyncQueueItem[];
+  rejectedSyncItems: SyncQueueItem[]; // Changes the backend refused, shown in the sync status
   lastSyncTimestamp: number | null;
+  lastPullTimestamp: number | null; // Server cursor for incremental pulls
+  ignoredForgottenTimerIds: string[]; // Long-running entries the user confirmed are still going
+  budgetAlerts: Record<string, BudgetAlertRecord>; // Budget alerts already sent, by job
   networkInfo: NetworkInfo;
   backgroundSyncInterval: ReturnType<typeof setTimeout> | null;
   isLoading: boolean;
@@ -26,41 +58,72 @@ interface JobsState {
   // Job actions
   addJob: (job: Omit<Job, 'id' | 'createdAt'>) => string;
   updateJob: (id: string, updates: Partial<Job>) => void;
+  // Completes or reopens a milestone; on a fixed-price job the fee's milestone completes the job
+  setMilestoneCompleted: (jobId: string, milestoneId: string, completed: boolean) => void;
   deleteJob: (id: string) => void;
   getJob: (id: string) => Job | undefined;
   getJobById: (id: string) => Job | undefined;
   getJobsWithStats: () => JobWithDuration[];
   getActiveJobs: () => JobWithDuration[];
+  updateJobsForClient: (clientId: string, clientName: string | null) => void;
   
   // Time entry actions
   startTimeEntry: (jobId: string, note?: string) => void;
   stopTimeEntry: () => void;
-  addTimeEntry: (entry: Omit<TimeEntry, 'id' | 'createdAt'>) => string;
-  updateTimeEntry: (id: string, updates: Partial<TimeEntry>) => void;
+  // Both throw a TimeEntryOverlapError listing the conflicts unless allowOverlaps is set
+  addTimeEntry: (entry: Omit<TimeEntry, 'id' | 'createdAt'>, options?: { batch?: boolean; allowOverlaps?: boolean }) => string;
+  // Entries in paid pay periods are skipped and counted in entriesSkipped
+  importTimeEntries: (entries: ImportEntryInput[], defaultHourlyRate: number) => { entriesCreated: number; jobsCreated: number; entriesSkipped: number };
+  updateTimeEntry: (id: string, updates: Partial<TimeEntry>, options?: { allowOverlaps?: boolean }) => void;
   deleteTimeEntry: (id: string) => void;
   getTimeEntry: (id: string) => TimeEntry | undefined;
   getTimeEntriesForJob: (jobId: string) => TimeEntry[];
   getActiveTimeEntry: (jobId: string) => TimeEntry | undefined;
+  findOverlaps: (candidate: OverlapCandidate) => TimeEntryOverlap[];
   
   // Clock actions
   clockIn: (jobId: string, note?: string, customStartTime?: number) => void;
   clockOut: (entryId: string, customEndTime?: number) => void;
+  checkForgottenTimers: (now?: number) => ForgottenTimer[];
+  ignoreForgottenTimer: (entryId: string) => void;
+  // Notifies about budget thresholds passed and unused budget from the month just closed
+  checkBudgetAlerts: (jobId: string, now?: number) => void;
   
   // Break actions
   startBreak: (entryId: string, customStartTime?: number) => void;
   endBreak: (entryId: string) => void;
+  refreshRemindersForEntry: (entryId: string) => void;
   
   // Pay period actions
   addPayPeriod: (period: Omit<PayPeriod, 'id' | 'createdAt'>) => void;
   updatePayPeriod: (id: string, updates: Partial<PayPeriod>) => void;
   deletePayPeriod: (id: string) => void;
   getPayPeriod: (id: string) => PayPeriod | undefined;
-  markPayPeriodAsPaid: (id: string) => void;
+  markPayPeriodAsPaid: (id: string, paidDate?: number) => void;
   markPayPeriodAsUnpaid: (id: string) => void;
+  unlockPayPeriod: (id: string) => void;
+  lockPayPeriod: (id: string) => void;
+  // Locked periods a change would touch; before is null for new entries, after for deletions
+  getLockedPayPeriods: (before: EntryPayFields | null, after: EntryPayFields | null) => PayPeriod[];
+  recordPayPeriodAdjustments: (change: { before: TimeEntry | null; after: TimeEntry | null; entriesBefore: TimeEntry[]; createdAt: number }) => void;
   recalculatePayPeriodsForJob: (jobId: string) => void;
   getJobWithPayPeriods: (jobId: string) => Job & { payPeriods: PayPeriod[]; paidEarnings: number; paidDuration: number } | undefined;
   getPaidEarningsForJob: (jobId: string) => number;
   
+  // Payment actions
+  // Without allocations the amount is applied to the job's oldest outstanding periods
+  recordPayment: (payment: Omit<Payment, 'id' | 'createdAt' | 'allocations'> & { allocations?: PaymentAllocation[] }) => string;
+  deletePayment: (id: string) => void;
+  getPaymentsForJob: (jobId: string) => Payment[];
+  getPayPeriodBalance: (periodId: string) => number;
+  
+  // Expense actions
+  // Mileage amounts are always distance × rate, using the job's rate when none is given
+  addExpense: (expense: Omit<Expense, 'id' | 'createdAt'>) => string;
+  updateExpense: (id: string, updates: Partial<Expense>) => void;
+  deleteExpense: (id: string) => void;
+  getExpensesForJob: (jobId: string) => Expense[];
+  
   // Stats actions
   getTotalEarnings: () => number;
   getTotalHours: () => number;
@@ -69,8 +132,14 @@ interface JobsState {
   addToSyncQueue: (item: Omit<SyncQueueItem, 'id' | 'timestamp' | 'retryCount'>) => void;
   processSyncQueue: (userId: string) => Promise<void>;
   syncWithBackend: (userId: string) => Promise<void>;
+  // Replaces local copies of the entries with the backend's, dropping ones it doesn't have
+  restoreServerTimeEntries: (entryIds: string[]) => Promise<void>;
   clearSyncQueue: () => void;
   cleanupSyncQueue: () => void;
+  getSyncStatus: () => SyncStatus;
+  // Queues rejected changes again, e.g. after fixing the job they depend on
+  retryRejectedSyncItems: () => void;
+  dismissRejectedSyncItems: () => void;
   setNetworkInfo: (info: NetworkInfo) => void;
   
   // Background sync
@@ -101,15 +170,69 @@ interface JobsState {
   setCurrentUser: (user: UserAccount | null) => void;
 }
 
+// Hourly jobs need a rate; fixed-price and milestone jobs need something to earn
+const validateBilling = (job: Pick<Job, 'id' | 'billingModel' | 'hourlyRate' | 'fixedPrice' | 'completedAt' | 'milestones'>) => {
+  if (isHourlyJob(job)) {
+    if (!job.hourlyRate || job.hourlyRate <= 0) {
+      throw new Error('Valid hourly rate is required');
+    }
+    return;
+  }
+  if (job.hourlyRate < 0) {
+    throw new Error('Hourly rate cannot be negative');
+  }
+  if (job.billingModel === 'fixed' && (!job.fixedPrice || job.fixedPrice <= 0)) {
+    throw new Error('Valid fixed price is required');
+  }
+  if (job.billingModel === 'milestone') {
+    const milestones = job.milestones ?? [];
+    if (milestones.length === 0) {
+      throw new Error('Add at least one milestone');
+    }
+    if (milestones.some(milestone => !milestone.name.trim() || !(milestone.amount >= 0))) {
+      throw new Error('Every milestone needs a name and an amount');
+    }
+  }
+};
+
+// Checks an expense and works out mileage amounts from the distance and rate
+const priceExpense = (job: Job, expense: Expense): Expense => {
+  if (expense.kind !== 'mileage') {
+    if (!(expense.amount >= 0)) {
+      throw new Error('Expense amount cannot be negative');
+    }
+    return { ...expense, amount: roundMoney(expense.amount), distance: undefined, distanceUnit: undefined, mileageRate: undefined };
+  }
+
+  if (!expense.distance || !(expense.distance > 0)) {
+    throw new Error('Mileage needs a distance greater than zero');
+  }
+  const mileage = getMileageSettings(job);
+  const mileageRate = expense.mileageRate ?? mileage.rate;
+  return {
+    ...expense,
+    category: 'travel',
+    distanceUnit: expense.distanceUnit ?? mileage.unit,
+    mileageRate,
+    amount: getMileageAmount(expense.distance, mileageRate),
+  };
+};
+
 export const useJobsStore = create<JobsState>()(
   persist(
     (set, get) => ({
       jobs: [],
       timeEntries: [],
       payPeriods: [],
+      payments: [],
+      expenses: [],
       activeTimeEntry: null,
       syncQueue: [],
+      rejectedSyncItems: [],
       lastSyncTimestamp: null,
+      lastPullTimestamp: null,
+      ignoredForgottenTimerIds: [],
+      budgetAlerts: {},
       networkInfo: { isConnected: false, type: null },
       backgroundSyncInterval: null,
       isLoading: false,
@@ -123,16 +246,16 @@ export const useJobsStore = create<JobsState>()(
         if (!jobData.client || !jobData.client.trim()) {
           throw new Error('Client name is required');
         }
-        if (!jobData.hourlyRate || jobData.hourlyRate <= 0) {
-          throw new Error('Valid hourly rate is required');
-        }
+        validateBilling({ ...jobData, id: '' });
         
+        const now = Date.now();
         const job: Job = {
           ...jobData,
-          id: `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          id: `job_${now}_${Math.random().toString(36).substr(2, 9)}`,
           name: jobData.name.trim(),
           client: jobData.client.trim(),
-          createdAt: Date.now(),
+          createdAt: now,
+          updatedAt: now,
         };
         
         set(state => ({ jobs: [...state.jobs, job] }));
@@ -164,15 +287,27 @@ export const useJobsStore = create<JobsState>()(
         if (updates.client !== undefined && (!updates.client || !updates.client.trim())) {
           throw new Error('Client name cannot be empty');
         }
-        if (updates.hourlyRate !== undefined && (!updates.hourlyRate || updates.hourlyRate <= 0)) {
-          throw new Error('Valid hourly rate is required');
+        
+        // A bare rate change applies from now on; earlier entries keep the rate they had
+        const existingJob = get().jobs.find(job => job.id === id);
+        const touchesBilling = updates.hourlyRate !== undefined || updates.billingModel !== undefined ||
+          updates.fixedPrice !== undefined || updates.milestones !== undefined;
+        if (existingJob && touchesBilling) {
+          validateBilling({ ...existingJob, ...updates });
         }
+        const rateHistory = updates.rateHistory ?? (
+          existingJob && updates.hourlyRate !== undefined && updates.hourlyRate !== existingJob.hourlyRate
+            ? applyRateChange(existingJob, updates.hourlyRate, Date.now())
+            : undefined
+        );
         
         // Trim string fields if they exist
         const cleanUpdates = {
           ...updates,
+          ...(rateHistory && { rateHistory }),
           ...(updates.name && { name: updates.name.trim() }),
           ...(updates.client && { client: updates.client.trim() }),
+          updatedAt: Date.now(),
         };
         
         set(state => ({
@@ -197,30 +332,74 @@ export const useJobsStore = create<JobsState>()(
               console.log('Immediate job update failed, will retry later:', error);
             });
           }
+          
+          // Rate, rounding or billing changes affect stored pay period totals
+          const billingChanged = updates.billingModel !== undefined || updates.fixedPrice !== undefined ||
+            updates.completedAt !== undefined || updates.milestones !== undefined;
+          if (updates.settings !== undefined || updates.hourlyRate !== undefined || rateHistory !== undefined || billingChanged) {
+            get().recalculatePayPeriodsForJob(id);
+          }
+          
+          if (updates.settings !== undefined) {
+            get().timeEntries
+              .filter(entry => entry.jobId === id && entry.endTime === null)
+              .forEach(entry => get().refreshRemindersForEntry(entry.id));
+          }
         }
       },
       
+      setMilestoneCompleted: (jobId, milestoneId, completed) => {
+        const job = get().jobs.find(j => j.id === jobId);
+        const milestone = job ? getJobMilestones(job).find(m => m.id === milestoneId) : undefined;
+        if (!job || !milestone) return;
+        
+        // Reopening would take money out of a period that has already been paid
+        if (!completed && milestone.completedAt != null) {
+          const paidPeriod = get().payPeriods.find(period =>
+            period.jobId === jobId && period.milestoneIds?.includes(milestoneId) && isPayPeriodLocked(period)
+          );
+          if (paidPeriod) {
+            throw new Error('This milestone is in a paid pay period. Unlock the period to reopen it.');
+          }
+        }
+        
+        const completedAt = completed ? Date.now() : null;
+        if (job.billingModel === 'fixed') {
+          get().updateJob(jobId, { completedAt });
+        } else {
+          get().updateJob(jobId, {
+            milestones: (job.milestones ?? []).map(m => m.id === milestoneId ? { ...m, completedAt } : m),
+          });
+        }
+      },
+
       deleteJob: (id) => {
         const job = get().jobs.find(j => j.id === id);
         if (!job) return;
         
-        // Delete related time entries and pay periods
+        // Delete related time entries, pay periods, payments and expenses
         const relatedEntries = get().timeEntries.filter(entry => entry.jobId === id);
         const relatedPeriods = get().payPeriods.filter(period => period.jobId === id);
+        const relatedPayments = get().payments.filter(payment => payment.jobId === id);
+        const relatedExpenses = get().expenses.filter(expense => expense.jobId === id);
         
         set(state => ({
           jobs: state.jobs.filter(job => job.id !== id),
           timeEntries: state.timeEntries.filter(entry => entry.jobId !== id),
           payPeriods: state.payPeriods.filter(period => period.jobId !== id),
+          payments: state.payments.filter(payment => payment.jobId !== id),
+          expenses: state.expenses.filter(expense => expense.jobId !== id),
           activeTimeEntry: state.activeTimeEntry?.jobId === id ? null : state.activeTimeEntry,
+          budgetAlerts: Object.fromEntries(Object.entries(state.budgetAlerts).filter(([jobId]) => jobId !== id)),
         }));
         
-        // Add to sync queue
+        // Add to sync queue; the deletion time wins over older remote edits
+        const deletedAt = Date.now();
         get().addToSyncQueue({
           entityType: 'job',
           entityId: id,
           operation: 'delete',
-          data: job,
+          data: { ...job, updatedAt: deletedAt },
         });
         
         // Add related deletions to sync queue
@@ -229,7 +408,7 @@ export const useJobsStore = create<JobsState>()(
             entityType: 'timeEntry',
             entityId: entry.id,
             operation: 'delete',
-            data: entry,
+            data: { ...entry, updatedAt: deletedAt },
           });
         });
         
@@ -238,7 +417,25 @@ export const useJobsStore = create<JobsState>()(
             entityType: 'payPeriod',
             entityId: period.id,
             operation: 'delete',
-            data: period,
+            data: { ...period, updatedAt: deletedAt },
+          });
+        });
+        
+        relatedPayments.forEach(payment => {
+          get().addToSyncQueue({
+            entityType: 'payment',
+            entityId: payment.id,
+            operation: 'delete',
+            data: { ...payment, updatedAt: deletedAt },
+          });
+        });
+        
+        relatedExpenses.forEach(expense => {
+          get().addToSyncQueue({
+            entityType: 'expense',
+            entityId: expense.id,
+            operation: 'delete',
+            data: { ...expense, updatedAt: deletedAt },
           });
         });
       },
@@ -283,6 +480,7 @@ export const useJobsStore = create<JobsState>()(
           return {
             ...job,
             totalDuration,
+            totalEarnings: calculateJobEarnings(job, entries).totalEarnings,
             isActive: !!activeEntry,
             activeEntryId: activeEntry?.id,
           } as JobWithDuration;
@@ -328,12 +526,26 @@ export const useJobsStore = create<JobsState>()(
           return {
             ...job,
             totalDuration,
+            totalEarnings: calculateJobEarnings(job, entries).totalEarnings,
             isActive: true,
             activeEntryId: activeEntry?.id,
           } as JobWithDuration;
         });
       },
-      
+
+      // Keeps linked jobs' client names current; null unlinks them from a deleted client
+      updateJobsForClient: (clientId, clientName) => {
+        get().jobs
+          .filter(job => job.clientId === clientId)
+          .forEach(job => {
+            if (clientName === null) {
+              get().updateJob(job.id, { clientId: undefined });
+            } else if (job.client !== clientName) {
+              get().updateJob(job.id, { client: clientName });
+            }
+          });
+      },
+
       startTimeEntry: (jobId, note = '') => {
         const existingActive = get().activeTimeEntry;
         if (existingActive) {
@@ -341,15 +553,18 @@ export const useJobsStore = create<JobsState>()(
           get().stopTimeEntry();
         }
         
+        const now = Date.now();
         const timeEntry: TimeEntry = {
-          id: `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          id: `entry_${now}_${Math.random().toString(36).substr(2, 9)}`,
           jobId,
-          startTime: Date.now(),
+          startTime: now,
           endTime: null,
           note,
           breaks: [],
           isOnBreak: false,
-          createdAt: Date.now(),
+          timeZone: getDeviceTimeZone(),
+          createdAt: now,
+          updatedAt: now,
         };
         
         set(state => ({
@@ -365,6 +580,8 @@ export const useJobsStore = create<JobsState>()(
           data: timeEntry,
         });
         
+        get().refreshRemindersForEntry(timeEntry.id);
+        
         // Try immediate save to backend
         const currentUser = get().getCurrentUser();
         if (currentUser?.uid) {
@@ -383,6 +600,7 @@ export const useJobsStore = create<JobsState>()(
           ...active,
           endTime,
           isOnBreak: false,
+          updatedAt: endTime,
         };
         
         set(state => ({
@@ -403,6 +621,8 @@ export const useJobsStore = create<JobsState>()(
         // Recalculate pay periods for this job after stopping entry
         get().recalculatePayPeriodsForJob(updatedEntry.jobId);
         
+        get().refreshRemindersForEntry(active.id);
+        
         // Try immediate save to backend
         const currentUser = get().getCurrentUser();
         if (currentUser?.uid) {
@@ -412,7 +632,7 @@ export const useJobsStore = create<JobsState>()(
         }
       },
       
-      addTimeEntry: (entryData) => {
+      addTimeEntry: (entryData, options) => {
         try {
           console.log('Creating new time entry:', entryData);
           
@@ -429,15 +649,29 @@ export const useJobsStore = create<JobsState>()(
           if (!job) {
             throw new Error('Cannot create time entry for non-existent job');
           }
+          if (get().getLockedPayPeriods(null, entryData).length > 0) {
+            throw new Error(PAY_PERIOD_LOCKED_MESSAGE);
+          }
+          if (!options?.allowOverlaps) {
+            const overlaps = get().findOverlaps(entryData);
+            if (overlaps.length > 0) {
+              throw new TimeEntryOverlapError(overlaps);
+            }
+          }
           
+          const now = Date.now();
+          const previousEntries = get().timeEntries;
           const timeEntry: TimeEntry = {
             ...entryData,
-            id: `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            id: `entry_${now}_${Math.random().toString(36).substr(2, 9)}`,
             jobId: entryData.jobId.trim(),
             note: entryData.note || '',
             breaks: entryData.breaks || [],
             isOnBreak: entryData.isOnBreak || false,
-            createdAt: Date.now(),
+            // Manual entries are assumed to be recorded where the work happened
+            timeZone: entryData.timeZone || getDeviceTimeZone(),
+            createdAt: now,
+            updatedAt: now,
           };
           
           console.log('Generated time entry:', timeEntry);
@@ -445,6 +679,7 @@ export const useJobsStore = create<JobsState>()(
           // Add to local state first
           set(state => ({ timeEntries: [...state.timeEntries, timeEntry] }));
           console.log('Time entry added to local state');
+          get().recordPayPeriodAdjustments({ before: null, after: timeEntry, entriesBefore: previousEntries, createdAt: now });
           
           // Add to sync queue for backup
           get().addToSyncQueue({
@@ -455,6 +690,11 @@ export const useJobsStore = create<JobsState>()(
           });
           console.log('Time entry added to sync queue');
 
+          // Batch callers recalculate and sync once at the end instead of per entry
+          if (options?.batch) {
+            return timeEntry.id;
+          }
+
           // Recalculate pay periods for this job so manual entries appear immediately
           get().recalculatePayPeriodsForJob(timeEntry.jobId);
           
@@ -478,18 +718,101 @@ export const useJobsStore = create<JobsState>()(
         }
       },
       
-      updateTimeEntry: (id, updates) => {
+      importTimeEntries: (entries, defaultHourlyRate) => {
+        const jobIdsByKey = new Map<string, string>();
+        const affectedJobIds = new Set<string>();
+        let jobsCreated = 0;
+        let entriesCreated = 0;
+        let entriesSkipped = 0;
+
+        entries.forEach(entry => {
+          // Time in a paid pay period is skipped rather than changing what was paid. Overlaps
+          // are kept, since they're what the other tracker recorded.
+          if (entry.jobId && get().getLockedPayPeriods(null, { ...entry, jobId: entry.jobId }).length > 0) {
+            entriesSkipped++;
+            return;
+          }
+          
+          let jobId = entry.jobId;
+          if (!jobId) {
+            const key = getImportJobKey(entry.jobName, entry.clientName);
+            jobId = jobIdsByKey.get(key) ?? null;
+            if (!jobId) {
+              jobId = get().addJob({
+                name: entry.jobName,
+                client: entry.clientName,
+                clientId: useClientsStore.getState().findOrCreateClient(entry.clientName),
+                hourlyRate: defaultHourlyRate,
+                color: getRandomColor(),
+              });
+              jobIdsByKey.set(key, jobId);
+              jobsCreated++;
+            }
+          }
+
+          get().addTimeEntry({
+            jobId,
+            startTime: entry.startTime,
+            endTime: entry.endTime,
+            note: entry.note,
+            breaks: [],
+            isOnBreak: false,
+          }, { batch: true, allowOverlaps: true });
+          entriesCreated++;
+          affectedJobIds.add(jobId);
+        });
+
+        affectedJobIds.forEach(jobId => get().recalculatePayPeriodsForJob(jobId));
+
+        const currentUser = get().getCurrentUser();
+        if (currentUser?.uid) {
+          get().processSyncQueue(currentUser.uid).catch(error => {
+            console.log('Sync after import failed, will retry later:', error);
+          });
+        }
+
+        return { entriesCreated, jobsCreated, entriesSkipped };
+      },
+      
+      updateTimeEntry: (id, updates, options) => {
+        const previousEntries = get().timeEntries;
+        const existingEntry = previousEntries.find(entry => entry.id === id);
+        const stampedUpdates = { ...updates, updatedAt: Date.now() };
+        if (existingEntry && get().getLockedPayPeriods(existingEntry, { ...existingEntry, ...stampedUpdates }).length > 0) {
+          throw new Error(PAY_PERIOD_LOCKED_MESSAGE);
+        }
+        // Only moving the entry can create an overlap; edits to notes or breaks never do
+        if (existingEntry && !options?.allowOverlaps) {
+          const updated = { ...existingEntry, ...stampedUpdates };
+          const moved = updated.jobId !== existingEntry.jobId ||
+            updated.startTime !== existingEntry.startTime ||
+            updated.endTime !== existingEntry.endTime;
+          const overlaps = moved ? get().findOverlaps(updated) : [];
+          if (overlaps.length > 0) {
+            throw new TimeEntryOverlapError(overlaps);
+          }
+        }
+        
         set(state => ({
           timeEntries: state.timeEntries.map(entry =>
-            entry.id === id ? { ...entry, ...updates } : entry
+            entry.id === id ? { ...entry, ...stampedUpdates } : entry
           ),
           activeTimeEntry: state.activeTimeEntry?.id === id 
-            ? { ...state.activeTimeEntry, ...updates }
+            ? { ...state.activeTimeEntry, ...stampedUpdates }
             : state.activeTimeEntry,
         }));
         
         const updatedEntry = get().timeEntries.find(entry => entry.id === id);
         if (updatedEntry) {
+          if (existingEntry) {
+            get().recordPayPeriodAdjustments({
+              before: existingEntry,
+              after: updatedEntry,
+              entriesBefore: previousEntries,
+              createdAt: stampedUpdates.updatedAt,
+            });
+          }
+          
           get().addToSyncQueue({
             entityType: 'timeEntry',
             entityId: id,
@@ -500,6 +823,8 @@ export const useJobsStore = create<JobsState>()(
           // Recalculate pay periods for this job to keep periods in sync
           get().recalculatePayPeriodsForJob(updatedEntry.jobId);
           
+          get().refreshRemindersForEntry(id);
+          
           // Try immediate save to backend
           const currentUser = get().getCurrentUser();
           if (currentUser?.uid) {
@@ -511,24 +836,34 @@ export const useJobsStore = create<JobsState>()(
       },
       
       deleteTimeEntry: (id) => {
-        const entry = get().timeEntries.find(e => e.id === id);
+        const previousEntries = get().timeEntries;
+        const entry = previousEntries.find(e => e.id === id);
         if (!entry) return;
+        if (get().getLockedPayPeriods(entry, null).length > 0) {
+          throw new Error(PAY_PERIOD_LOCKED_MESSAGE);
+        }
         
+        const deletedAt = Date.now();
         set(state => ({
           timeEntries: state.timeEntries.filter(entry => entry.id !== id),
           activeTimeEntry: state.activeTimeEntry?.id === id ? null : state.activeTimeEntry,
         }));
+        get().recordPayPeriodAdjustments({ before: entry, after: null, entriesBefore: previousEntries, createdAt: deletedAt });
         
         // Add to sync queue
         get().addToSyncQueue({
           entityType: 'timeEntry',
           entityId: id,
           operation: 'delete',
-          data: entry,
+          data: { ...entry, updatedAt: deletedAt },
         });
 
         // Recalculate pay periods after deletion
         get().recalculatePayPeriodsForJob(entry.jobId);
+        
+        reminderScheduler.cancelForEntry(id).catch(error => {
+          console.log('Failed to cancel reminders:', error);
+        });
       },
       
       getTimeEntry: (id) => {
@@ -547,6 +882,11 @@ export const useJobsStore = create<JobsState>()(
         );
       },
       
+      // Checks against every job's entries, since overlapping work on two jobs is double billing too
+      findOverlaps: (candidate) => {
+        return findOverlappingEntries(candidate, get().timeEntries);
+      },
+      
       clockIn: (jobId, note = '', customStartTime?: number) => {
         const existingActive = get().activeTimeEntry;
         if (existingActive) {
@@ -554,15 +894,25 @@ export const useJobsStore = create<JobsState>()(
           get().clockOut(existingActive.id);
         }
         
-        const timeEntry: TimeEntry = {
-          id: `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        const now = Date.now();
+        const newEntry: TimeEntry = {
+          id: `entry_${now}_${Math.random().toString(36).substr(2, 9)}`,
           jobId,
-          startTime: customStartTime || Date.now(),
+          startTime: customStartTime || now,
           endTime: null,
           note,
           breaks: [],
           isOnBreak: false,
-          createdAt: Date.now(),
+          timeZone: getDeviceTimeZone(),
+          createdAt: now,
+          updatedAt: now,
+        };
+        
+        // A backdated clock-in may already cover preset breaks
+        const job = get().jobs.find(j => j.id === jobId);
+        const timeEntry: TimeEntry = {
+          ...newEntry,
+          breaks: applyAutomaticBreaks(newEntry, job?.settings, now),
         };
         
         set(state => ({
@@ -578,6 +928,9 @@ export const useJobsStore = create<JobsState>()(
           data: timeEntry,
         });
         
+        get().refreshRemindersForEntry(timeEntry.id);
+        get().checkBudgetAlerts(jobId);
+        
         // Try immediate save to backend
         const currentUser = get().getCurrentUser();
         if (currentUser?.uid) {
@@ -592,10 +945,17 @@ export const useJobsStore = create<JobsState>()(
         if (!entry) return;
         
         const endTime = customEndTime || Date.now();
+        const job = get().jobs.find(j => j.id === entry.jobId);
+        // A backdated clock-out ends any open break with it and drops breaks after it
+        const breaks = applyAutomaticBreaks(entry, job?.settings, endTime)
+          .filter(breakItem => breakItem.startTime < endTime)
+          .map(breakItem => (breakItem.endTime === null || breakItem.endTime > endTime ? { ...breakItem, endTime } : breakItem));
         const updatedEntry: TimeEntry = {
           ...entry,
           endTime,
+          breaks,
           isOnBreak: false,
+          updatedAt: Date.now(),
         };
         
         set(state => ({
@@ -603,6 +963,7 @@ export const useJobsStore = create<JobsState>()(
             e.id === entryId ? updatedEntry : e
           ),
           activeTimeEntry: state.activeTimeEntry?.id === entryId ? null : state.activeTimeEntry,
+          ignoredForgottenTimerIds: state.ignoredForgottenTimerIds.filter(id => id !== entryId),
         }));
         
         // Add to sync queue
@@ -616,6 +977,9 @@ export const useJobsStore = create<JobsState>()(
         // Recalculate pay periods for this job after clock out
         get().recalculatePayPeriodsForJob(updatedEntry.jobId);
         
+        get().refreshRemindersForEntry(entryId);
+        get().checkBudgetAlerts(updatedEntry.jobId);
+        
         // Try immediate save to backend
         const currentUser = get().getCurrentUser();
         if (currentUser?.uid) {
@@ -625,6 +989,49 @@ export const useJobsStore = create<JobsState>()(
         }
       },
       
+      // Clocks out entries whose job opted into the automatic cap and returns
+      // the other forgotten timers so the user can pick the real end time
+      checkForgottenTimers: (now = Date.now()) => {
+        const state = get();
+        const forgotten = findForgottenTimers(state.timeEntries, state.jobs, now);
+        
+        forgotten
+          .filter(timer => timer.job?.settings?.autoCapForgottenTimers)
+          .forEach(timer => {
+            console.log(`Automatically clocking out forgotten timer ${timer.entry.id} (${timer.reason})`);
+            get().clockOut(timer.entry.id, timer.suggestedEndTime);
+          });
+        
+        const ignored = new Set(get().ignoredForgottenTimerIds);
+        return forgotten.filter(timer => !timer.job?.settings?.autoCapForgottenTimers && !ignored.has(timer.entry.id));
+      },
+      
+      ignoreForgottenTimer: (entryId) => {
+        set(state => ({
+          ignoredForgottenTimerIds: state.ignoredForgottenTimerIds.includes(entryId)
+            ? state.ignoredForgottenTimerIds
+            : [...state.ignoredForgottenTimerIds, entryId],
+        }));
+      },
+      
+      checkBudgetAlerts: (jobId, now = Date.now()) => {
+        const state = get();
+        const job = state.jobs.find(j => j.id === jobId);
+        if (!job) return;
+        
+        const status = getBudgetStatus(job, state.timeEntries.filter(entry => entry.jobId === jobId), now);
+        if (!status) return;
+        
+        const { notifications, record } = planBudgetNotifications(job, status, state.budgetAlerts[jobId], amount => formatCurrency(amount));
+        set(state => ({ budgetAlerts: { ...state.budgetAlerts, [jobId]: record } }));
+        
+        notifications.forEach(notification => {
+          showNotification({ ...notification, kind: 'budget' }).catch(error => {
+            console.log('Failed to show budget alert:', error);
+          });
+        });
+      },
+      
       startBreak: (entryId, customStartTime?: number) => {
         const entry = get().timeEntries.find(e => e.id === entryId);
         if (!entry || entry.isOnBreak) return;
@@ -641,6 +1048,7 @@ export const useJobsStore = create<JobsState>()(
           ...entry,
           isOnBreak: true,
           breaks: [...breaks, newBreak],
+          updatedAt: Date.now(),
         };
         
         set(state => ({
@@ -658,6 +1066,8 @@ export const useJobsStore = create<JobsState>()(
           data: updatedEntry,
         });
         
+        get().refreshRemindersForEntry(entryId);
+        
         // Try immediate save to backend
         const currentUser = get().getCurrentUser();
         if (currentUser?.uid) {
@@ -683,6 +1093,7 @@ export const useJobsStore = create<JobsState>()(
           ...entry,
           isOnBreak: false,
           breaks: updatedBreaks,
+          updatedAt: breakEnd,
         };
         
         set(state => ({
@@ -700,6 +1111,8 @@ export const useJobsStore = create<JobsState>()(
           data: updatedEntry,
         });
         
+        get().refreshRemindersForEntry(entryId);
+        
         // Try immediate save to backend
         const currentUser = get().getCurrentUser();
         if (currentUser?.uid) {
@@ -709,11 +1122,31 @@ export const useJobsStore = create<JobsState>()(
         }
       },
       
+      refreshRemindersForEntry: (entryId) => {
+        const state = get();
+        const entry = state.timeEntries.find(e => e.id === entryId);
+        const job = entry ? state.jobs.find(j => j.id === entry.jobId) : undefined;
+        
+        // Only a running, non-break entry has reminders; anything else clears them
+        if (!entry || !job || entry.endTime !== null || entry.isOnBreak) {
+          reminderScheduler.cancelForEntry(entryId).catch(error => {
+            console.log('Failed to cancel reminders:', error);
+          });
+          return;
+        }
+        
+        reminderScheduler.scheduleForEntry(entry, job, state.timeEntries).catch(error => {
+          console.log('Failed to schedule reminders:', error);
+        });
+      },
+      
       addPayPeriod: (periodData) => {
+        const now = Date.now();
         const payPeriod: PayPeriod = {
           ...periodData,
-          id: `period_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          createdAt: Date.now(),
+          id: `period_${now}_${Math.random().toString(36).substr(2, 9)}`,
+          createdAt: now,
+          updatedAt: now,
         };
         
         set(state => ({ payPeriods: [...state.payPeriods, payPeriod] }));
@@ -738,7 +1171,7 @@ export const useJobsStore = create<JobsState>()(
       updatePayPeriod: (id, updates) => {
         set(state => ({
           payPeriods: state.payPeriods.map(period =>
-            period.id === id ? { ...period, ...updates } : period
+            period.id === id ? { ...period, ...updates, updatedAt: Date.now() } : period
           )
         }));
         
@@ -774,7 +1207,7 @@ export const useJobsStore = create<JobsState>()(
           entityType: 'payPeriod',
           entityId: id,
           operation: 'delete',
-          data: period,
+          data: { ...period, updatedAt: Date.now() },
         });
       },
       
@@ -782,20 +1215,21 @@ export const useJobsStore = create<JobsState>()(
         return get().payPeriods.find(period => period.id === id);
       },
       
-      markPayPeriodAsPaid: (id) => {
+      markPayPeriodAsPaid: (id, paidDate) => {
         const period = get().payPeriods.find(p => p.id === id);
         if (!period) return;
 
         get().updatePayPeriod(id, { 
           isPaid: true, 
-          paidDate: Date.now() 
+          paidDate: paidDate ?? Date.now(),
+          unlockedAt: undefined,
         });
 
         // Update associated time entries to reflect paid status
         set(state => ({
           timeEntries: state.timeEntries.map(te => 
             te.jobId === period.jobId && period.timeEntryIds.includes(te.id)
-              ? { ...te, paidInPeriodId: id }
+              ? { ...te, paidInPeriodId: id, updatedAt: Date.now() }
               : te
           )
         }));
@@ -820,14 +1254,15 @@ export const useJobsStore = create<JobsState>()(
 
         get().updatePayPeriod(id, { 
           isPaid: false, 
-          paidDate: undefined 
+          paidDate: undefined,
+          unlockedAt: undefined,
         });
 
         // Clear paid flags on associated entries
         set(state => ({
           timeEntries: state.timeEntries.map(te => 
             te.jobId === period.jobId && period.timeEntryIds.includes(te.id)
-              ? { ...te, paidInPeriodId: undefined }
+              ? { ...te, paidInPeriodId: undefined, updatedAt: Date.now() }
               : te
           )
         }));
@@ -846,15 +1281,41 @@ export const useJobsStore = create<JobsState>()(
         });
       },
       
+      // Opens a paid period for corrections; each change is recorded as an adjustment
+      unlockPayPeriod: (id) => {
+        const period = get().payPeriods.find(p => p.id === id);
+        if (!period?.isPaid) return;
+        get().updatePayPeriod(id, { unlockedAt: Date.now() });
+      },
+      
+      lockPayPeriod: (id) => {
+        const period = get().payPeriods.find(p => p.id === id);
+        if (!period?.unlockedAt) return;
+        get().updatePayPeriod(id, { unlockedAt: undefined });
+      },
+      
+      getLockedPayPeriods: (before, after) => {
+        return findPaidPeriodsForChange(get().payPeriods, before, after).filter(isPayPeriodLocked);
+      },
+      
+      recordPayPeriodAdjustments: (change) => {
+        const state = get();
+        buildPayPeriodAdjustments(state.jobs, state.payPeriods, { ...change, entriesAfter: state.timeEntries })
+          .forEach(({ periodId, adjustment }) => {
+            const period = get().payPeriods.find(p => p.id === periodId);
+            if (period) {
+              get().updatePayPeriod(periodId, { adjustments: [...(period.adjustments ?? []), adjustment] });
+            }
+          });
+      },
+      
       getJobWithPayPeriods: (jobId) => {
         const state = get();
         const job = state.jobs.find(j => j.id === jobId);
         if (!job) return undefined;
         
         const payPeriods = state.payPeriods.filter(p => p.jobId === jobId);
-        const paidEarnings = payPeriods
-          .filter(p => p.isPaid)
-          .reduce((total, p) => total + p.totalEarnings, 0);
+        const paidEarnings = getPaidAmount(payPeriods, state.payments.filter(p => p.jobId === jobId));
         const paidDuration = payPeriods
           .filter(p => p.isPaid)
           .reduce((total, p) => total + p.totalDuration, 0);
@@ -873,180 +1334,14 @@ export const useJobsStore = create<JobsState>()(
           const job = state.jobs.find(j => j.id === jobId);
           if (!job) return;
 
-          const payType = job.settings?.payPeriodType ?? 'weekly';
-          const startDay = job.settings?.payPeriodStartDay ?? 0;
-
-          const existingForJob = state.payPeriods.filter(p => p.jobId === jobId);
-          const existingMap = new Map<string, PayPeriod>();
-          existingForJob.forEach(p => {
-            const key = `${p.startDate}_${p.endDate}`;
-            existingMap.set(key, p);
-          });
-
-          const entries = state.timeEntries.filter(e => e.jobId === jobId && e.endTime !== null);
-
-          type TempPeriod = {
-            key: string;
-            startDate: number;
-            endDate: number;
-            timeEntryIds: string[];
-            totalDuration: number;
-            totalEarnings: number;
-          };
-
-          const periodMap = new Map<string, TempPeriod>();
-
-          entries.forEach(entry => {
-            if (!entry || entry.endTime === null) return;
-            const { start, end } = getPayPeriodDates(entry.startTime, payType, startDay);
-            const startMs = start.getTime();
-            const endMs = end.getTime();
-            const key = `${startMs}_${endMs}`;
-
-            let totalBreak = 0;
-            (entry.breaks || []).forEach(b => {
-              if (b?.endTime) totalBreak += (b.endTime - b.startTime);
-            });
-            const duration = Math.max(0, (entry.endTime - entry.startTime) - totalBreak);
-            
-            // Calculate earnings with overtime support
-            let earnings = 0;
-            if (job.settings) {
-              const durationHours = duration / (1000 * 60 * 60);
-              const { 
-                dailyOvertime, 
-                dailyOvertimeThreshold = 8, 
-                dailyOvertimeRate = 1.5,
-                weeklyOvertime,
-                weeklyOvertimeThreshold = 40,
-                weeklyOvertimeRate = 1.5
-              } = job.settings;
-              
-              // Daily overtime calculation
-              if (dailyOvertime === 'daily' && durationHours > dailyOvertimeThreshold) {
-                const straightTimeHours = dailyOvertimeThreshold;
-                const overtimeHours = durationHours - dailyOvertimeThreshold;
-                
-                const straightTimeEarnings = straightTimeHours * job.hourlyRate;
-                const overtimeEarnings = overtimeHours * job.hourlyRate * dailyOvertimeRate;
-                earnings = straightTimeEarnings + overtimeEarnings;
-              }
-              // Weekly overtime calculation
-              else if (weeklyOvertime === 'weekly') {
-                // Get all entries for this job in the same week as this entry
-                const entryDate = new Date(entry.startTime);
-                const weekStart = new Date(entryDate);
-                weekStart.setDate(entryDate.getDate() - entryDate.getDay()); // Start of week (Sunday)
-                weekStart.setHours(0, 0, 0, 0);
-                const weekEnd = new Date(weekStart);
-                weekEnd.setDate(weekStart.getDate() + 6);
-                weekEnd.setHours(23, 59, 59, 999);
-                
-                // Get all completed time entries for this job in the same week
-                const weekEntries = entries.filter(e => {
-                  if (!e.endTime) return false; // Only completed entries
-                  const eDate = new Date(e.startTime);
-                  return eDate >= weekStart && eDate <= weekEnd;
-                });
-                
-                // Calculate total hours for the week
-                let totalWeekHours = 0;
-                weekEntries.forEach(e => {
-                  if (e.endTime) {
-                    const eDuration = e.endTime - e.startTime;
-                    const eBreakDuration = (e.breaks || []).reduce((total, breakItem) => {
-                      if (breakItem?.endTime) {
-                        return total + (breakItem.endTime - breakItem.startTime);
-                      }
-                      return total;
-                    }, 0);
-                    const eWorkDuration = Math.max(0, eDuration - eBreakDuration);
-                    totalWeekHours += eWorkDuration / (1000 * 60 * 60);
-                  }
-                });
-                
-                // Check if weekly overtime threshold is exceeded
-                if (totalWeekHours > weeklyOvertimeThreshold) {
-                  // Calculate how much of this entry contributes to overtime
-                  const entryOvertimeHours = Math.max(0, Math.min(durationHours, totalWeekHours - weeklyOvertimeThreshold));
-                  const entryStraightTimeHours = durationHours - entryOvertimeHours;
-                  
-                  const entryStraightTimeEarnings = entryStraightTimeHours * job.hourlyRate;
-                  const entryOvertimeEarnings = entryOvertimeHours * job.hourlyRate * weeklyOvertimeRate;
-                  earnings = entryStraightTimeEarnings + entryOvertimeEarnings;
-                } else {
-                  // No overtime for this entry
-                  earnings = durationHours * job.hourlyRate;
-                }
-              }
-              // No overtime
-              else {
-                earnings = (duration / (1000 * 60 * 60)) * job.hourlyRate;
-              }
-            } else {
-              // No job settings, use basic calculation
-              earnings = (duration / (1000 * 60 * 60)) * job.hourlyRate;
-            }
-
-            if (!periodMap.has(key)) {
-              periodMap.set(key, {
-                key,
-                startDate: startMs,
-                endDate: endMs,
-                timeEntryIds: [entry.id],
-                totalDuration: duration,
-                totalEarnings: earnings,
-              });
-            } else {
-              const agg = periodMap.get(key)!;
-              agg.timeEntryIds.push(entry.id);
-              agg.totalDuration += duration;
-              agg.totalEarnings += earnings;
-            }
-          });
-
-          const newPeriods: PayPeriod[] = Array.from(periodMap.values()).map(tp => {
-            const exist = existingMap.get(`${tp.startDate}_${tp.endDate}`);
-            return {
-              id: exist?.id || `period_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-              jobId,
-              startDate: tp.startDate,
-              endDate: tp.endDate,
-              totalDuration: tp.totalDuration,
-              totalEarnings: tp.totalEarnings,
-              isPaid: exist?.isPaid ?? false,
-              paidDate: exist?.paidDate,
-              timeEntryIds: tp.timeEntryIds,
-              createdAt: exist?.createdAt ?? Date.now(),
-            } as PayPeriod;
-          }).sort((a, b) => b.startDate - a.startDate);
-
-          const entryToPeriod: Record<string, PayPeriod> = {};
-          newPeriods.forEach(p => {
-            p.timeEntryIds.forEach(eid => { entryToPeriod[eid] = p; });
-          });
-
-          const updatedTimeEntries = state.timeEntries.map(te => {
-            if (te.jobId !== jobId || te.endTime === null) return te;
-            const p = entryToPeriod[te.id];
-            const newPaid = p?.isPaid ? p.id : undefined;
-            if (te.paidInPeriodId !== newPaid) {
-              return { ...te, paidInPeriodId: newPaid };
-            }
-            return te;
-          });
-
+          const recalculatedAt = Date.now();
+          const { periods, timeEntries, toCreate, toUpdate, toDelete } =
+            rebuildJobPayPeriods(job, state.timeEntries, state.payPeriods, state.payments, recalculatedAt);
           const otherPeriods = state.payPeriods.filter(p => p.jobId !== jobId);
 
-          const toCreate = newPeriods.filter(p => !existingForJob.find(ep => ep.id === p.id));
-          const toUpdate = newPeriods.filter(p => existingForJob.find(ep => ep.id === p.id && (
-            ep.totalDuration !== p.totalDuration || ep.totalEarnings !== p.totalEarnings ||
-            ep.timeEntryIds.length !== p.timeEntryIds.length
-          )));
-
           set({
-            payPeriods: [...otherPeriods, ...newPeriods],
-            timeEntries: updatedTimeEntries,
+            payPeriods: [...otherPeriods, ...periods],
+            timeEntries,
           });
 
           toCreate.forEach(p => {
@@ -1065,6 +1360,14 @@ export const useJobsStore = create<JobsState>()(
               data: p,
             });
           });
+          toDelete.forEach(p => {
+            get().addToSyncQueue({
+              entityType: 'payPeriod',
+              entityId: p.id,
+              operation: 'delete',
+              data: { ...p, updatedAt: recalculatedAt },
+            });
+          });
         } catch (error) {
           console.error('Error recalculating pay periods:', error);
         }
@@ -1072,120 +1375,182 @@ export const useJobsStore = create<JobsState>()(
       
       getPaidEarningsForJob: (jobId) => {
         const state = get();
-        return state.payPeriods
-          .filter(p => p.jobId === jobId && p.isPaid)
-          .reduce((total, p) => total + p.totalEarnings, 0);
+        return getPaidAmount(
+          state.payPeriods.filter(p => p.jobId === jobId),
+          state.payments.filter(p => p.jobId === jobId)
+        );
       },
       
-      getTotalEarnings: () => {
+      recordPayment: (paymentData) => {
         const state = get();
-        let totalEarnings = 0;
+        if (!state.jobs.some(job => job.id === paymentData.jobId)) {
+          throw new Error('Cannot record a payment for a non-existent job');
+        }
+        if (!(paymentData.amount > 0)) {
+          throw new Error('Payment amount must be greater than zero');
+        }
         
-        state.jobs.forEach(job => {
-          const entries = state.timeEntries.filter(entry => entry.jobId === job.id);
-          entries.forEach(entry => {
-            let entryDuration = 0;
-            
-            if (entry.endTime) {
-              entryDuration = entry.endTime - entry.startTime;
-            } else if (entry.endTime === null) {
-              entryDuration = Date.now() - entry.startTime;
-            }
-            
-            const breakDuration = (entry.breaks || []).reduce((breakTotal, breakItem) => {
-              if (breakItem && breakItem.endTime) {
-                return breakTotal + (breakItem.endTime - breakItem.startTime);
-              } else if (breakItem && breakItem.endTime === null && entry.isOnBreak) {
-                return breakTotal + (Date.now() - breakItem.startTime);
-              }
-              return breakTotal;
-            }, 0);
-            
-            const workDuration = Math.max(0, entryDuration - breakDuration);
-            
-            // Calculate earnings with overtime support (same logic as pay period calculation)
-            if (entry.endTime && job.settings) {
-              const durationHours = workDuration / (1000 * 60 * 60);
-              const { 
-                dailyOvertime, 
-                dailyOvertimeThreshold = 8, 
-                dailyOvertimeRate = 1.5,
-                weeklyOvertime,
-                weeklyOvertimeThreshold = 40,
-                weeklyOvertimeRate = 1.5
-              } = job.settings;
-              
-              // Daily overtime calculation
-              if (dailyOvertime === 'daily' && durationHours > dailyOvertimeThreshold) {
-                const straightTimeHours = dailyOvertimeThreshold;
-                const overtimeHours = durationHours - dailyOvertimeThreshold;
-                
-                const straightTimeEarnings = straightTimeHours * job.hourlyRate;
-                const overtimeEarnings = overtimeHours * job.hourlyRate * dailyOvertimeRate;
-                totalEarnings += straightTimeEarnings + overtimeEarnings;
-              }
-              // Weekly overtime calculation
-              else if (weeklyOvertime === 'weekly') {
-                // Get all entries for this job in the same week as this entry
-                const entryDate = new Date(entry.startTime);
-                const weekStart = new Date(entryDate);
-                weekStart.setDate(entryDate.getDate() - entryDate.getDay()); // Start of week (Sunday)
-                weekStart.setHours(0, 0, 0, 0);
-                const weekEnd = new Date(weekStart);
-                weekEnd.setDate(weekStart.getDate() + 6);
-                weekEnd.setHours(23, 59, 59, 999);
-                
-                // Get all completed time entries for this job in the same week
-                const weekEntries = entries.filter(e => {
-                  if (!e.endTime) return false; // Only completed entries
-                  const eDate = new Date(e.startTime);
-                  return eDate >= weekStart && eDate <= weekEnd;
-                });
-                
-                // Calculate total hours for the week
-                let totalWeekHours = 0;
-                weekEntries.forEach(e => {
-                  if (e.endTime) {
-                    const eDuration = e.endTime - e.startTime;
-                    const eBreakDuration = (e.breaks || []).reduce((total, breakItem) => {
-                      if (breakItem?.endTime) {
-                        return total + (breakItem.endTime - breakItem.startTime);
-                      }
-                      return total;
-                    }, 0);
-                    const eWorkDuration = Math.max(0, eDuration - eBreakDuration);
-                    totalWeekHours += eWorkDuration / (1000 * 60 * 60);
-                  }
-                });
-                
-                // Check if weekly overtime threshold is exceeded
-                if (totalWeekHours > weeklyOvertimeThreshold) {
-                  // Calculate how much of this entry contributes to overtime
-                  const entryOvertimeHours = Math.max(0, Math.min(durationHours, totalWeekHours - weeklyOvertimeThreshold));
-                  const entryStraightTimeHours = durationHours - entryOvertimeHours;
-                  
-                  const entryStraightTimeEarnings = entryStraightTimeHours * job.hourlyRate;
-                  const entryOvertimeEarnings = entryOvertimeHours * job.hourlyRate * weeklyOvertimeRate;
-                  totalEarnings += entryStraightTimeEarnings + entryOvertimeEarnings;
-                } else {
-                  // No overtime for this entry
-                  totalEarnings += durationHours * job.hourlyRate;
-                }
-              }
-              // No overtime
-              else {
-                const durationHours = workDuration / (1000 * 60 * 60);
-                totalEarnings += durationHours * job.hourlyRate;
-              }
-            } else {
-              // For active entries or jobs without settings, use basic calculation
-              const durationHours = workDuration / (1000 * 60 * 60);
-              totalEarnings += durationHours * job.hourlyRate;
-            }
-          });
+        const jobPeriods = state.payPeriods.filter(p => p.jobId === paymentData.jobId);
+        const jobPayments = state.payments.filter(p => p.jobId === paymentData.jobId);
+        const allocations = (paymentData.allocations ?? allocatePayment(paymentData.amount, jobPeriods, jobPayments))
+          .filter(allocation => allocation.amount > 0);
+        
+        allocations.forEach(allocation => {
+          const period = jobPeriods.find(p => p.id === allocation.payPeriodId);
+          if (!period) {
+            throw new Error('Payments can only be allocated to pay periods of the same job');
+          }
+          if (allocation.amount > getPeriodBalance(period, jobPayments)) {
+            throw new Error('An allocation is more than the pay period\'s outstanding balance');
+          }
+        });
+        if (roundMoney(allocations.reduce((total, a) => total + a.amount, 0)) > roundMoney(paymentData.amount)) {
+          throw new Error('Allocations add up to more than the payment');
+        }
+        
+        const now = Date.now();
+        const payment: Payment = {
+          ...paymentData,
+          id: `payment_${now}_${Math.random().toString(36).substr(2, 9)}`,
+          amount: roundMoney(paymentData.amount),
+          allocations,
+          createdAt: now,
+          updatedAt: now,
+        };
+        
+        set(state => ({ payments: [...state.payments, payment] }));
+        
+        get().addToSyncQueue({
+          entityType: 'payment',
+          entityId: payment.id,
+          operation: 'create',
+          data: payment,
+        });
+        
+        // Periods the payment clears are marked paid as of the payment date
+        allocations.forEach(allocation => {
+          const period = get().payPeriods.find(p => p.id === allocation.payPeriodId);
+          if (period && getPeriodBalance(period, get().payments) === 0) {
+            get().markPayPeriodAsPaid(period.id, payment.date);
+          }
         });
         
-        return totalEarnings;
+        return payment.id;
+      },
+      
+      deletePayment: (id) => {
+        const payment = get().payments.find(p => p.id === id);
+        if (!payment) return;
+        
+        const paymentsBefore = get().payments;
+        set(state => ({ payments: state.payments.filter(p => p.id !== id) }));
+        
+        get().addToSyncQueue({
+          entityType: 'payment',
+          entityId: id,
+          operation: 'delete',
+          data: { ...payment, updatedAt: Date.now() },
+        });
+        
+        // Periods that were settled by payments open again once they're no longer covered
+        payment.allocations.forEach(allocation => {
+          const period = get().payPeriods.find(p => p.id === allocation.payPeriodId);
+          if (
+            period?.isPaid &&
+            getAllocatedToPeriod(period.id, paymentsBefore) >= period.totalEarnings &&
+            getAllocatedToPeriod(period.id, get().payments) < period.totalEarnings
+          ) {
+            get().markPayPeriodAsUnpaid(period.id);
+          }
+        });
+      },
+      
+      getPaymentsForJob: (jobId) => {
+        return get().payments
+          .filter(payment => payment.jobId === jobId)
+          .sort((a, b) => b.date - a.date);
+      },
+      
+      getPayPeriodBalance: (periodId) => {
+        const state = get();
+        const period = state.payPeriods.find(p => p.id === periodId);
+        if (!period) return 0;
+        return getPeriodBalance(period, state.payments.filter(p => p.jobId === period.jobId));
+      },
+      
+      addExpense: (expenseData) => {
+        const job = get().jobs.find(j => j.id === expenseData.jobId);
+        if (!job) {
+          throw new Error('Cannot add an expense for a non-existent job');
+        }
+        
+        const now = Date.now();
+        const expense = priceExpense(job, {
+          ...expenseData,
+          id: `expense_${now}_${Math.random().toString(36).substr(2, 9)}`,
+          createdAt: now,
+          updatedAt: now,
+        });
+        
+        set(state => ({ expenses: [...state.expenses, expense] }));
+        
+        get().addToSyncQueue({
+          entityType: 'expense',
+          entityId: expense.id,
+          operation: 'create',
+          data: expense,
+        });
+        
+        return expense.id;
+      },
+      
+      updateExpense: (id, updates) => {
+        const existing = get().expenses.find(e => e.id === id);
+        if (!existing) return;
+        const job = get().jobs.find(j => j.id === (updates.jobId ?? existing.jobId));
+        if (!job) {
+          throw new Error('Cannot move an expense to a non-existent job');
+        }
+        
+        const expense = priceExpense(job, { ...existing, ...updates, updatedAt: Date.now() });
+        set(state => ({
+          expenses: state.expenses.map(e => e.id === id ? expense : e)
+        }));
+        
+        get().addToSyncQueue({
+          entityType: 'expense',
+          entityId: id,
+          operation: 'update',
+          data: expense,
+        });
+      },
+      
+      deleteExpense: (id) => {
+        const expense = get().expenses.find(e => e.id === id);
+        if (!expense) return;
+        
+        set(state => ({ expenses: state.expenses.filter(e => e.id !== id) }));
+        
+        get().addToSyncQueue({
+          entityType: 'expense',
+          entityId: id,
+          operation: 'delete',
+          data: { ...expense, updatedAt: Date.now() },
+        });
+      },
+      
+      getExpensesForJob: (jobId) => {
+        return get().expenses
+          .filter(expense => expense.jobId === jobId)
+          .sort((a, b) => b.date - a.date);
+      },
+      
+      getTotalEarnings: () => {
+        const state = get();
+        return state.jobs.reduce((total, job) => {
+          const entries = state.timeEntries.filter(entry => entry.jobId === job.id);
+          return total + calculateJobEarnings(job, entries).totalEarnings;
+        }, 0);
       },
       
       getTotalHours: () => {
@@ -1232,14 +1597,19 @@ export const useJobsStore = create<JobsState>()(
           );
           
           return {
-            syncQueue: [...filteredQueue, queueItem]
+            syncQueue: [...filteredQueue, queueItem],
+            // A newer change supersedes one the backend refused
+            rejectedSyncItems: state.rejectedSyncItems.filter(
+              rejected => !(rejected.entityType === item.entityType && rejected.entityId === item.entityId)
+            ),
           };
         });
       },
       
       processSyncQueue: async (userId: string) => {
         const state = get();
-        if (state.syncQueue.length === 0) {
+        const clientsStore = useClientsStore.getState();
+        if (state.syncQueue.length === 0 && clientsStore.syncQueue.length === 0) {
           return;
         }
         
@@ -1250,6 +1620,21 @@ export const useJobsStore = create<JobsState>()(
           return;
         }
         
+        // Clients go first so jobs can link to them
+        await clientsStore.processSyncQueue(userId);
+        if (state.syncQueue.length === 0) {
+          return;
+        }
+        
+        // Only the items queued before this run are settled below; anything added
+        // while requests are in flight is left for the next run
+        const processedItemIds = new Set(state.syncQueue.map(item => item.id));
+        const resultsByEntity = new Map<string, SyncItemResult>();
+        const recordResults = (entityType: SyncEntityType, results: SyncItemResult[]) => {
+          results.forEach(result => resultsByEntity.set(`${entityType}:${result.id}`, result));
+        };
+        let syncError: unknown = null;
+        
         try {
           console.log(`Processing sync queue with ${state.syncQueue.length} items`);
           
@@ -1269,10 +1654,12 @@ export const useJobsStore = create<JobsState>()(
           const jobItems = deduplicateItems(state.syncQueue.filter(item => item.entityType === 'job'));
           const timeEntryItems = deduplicateItems(state.syncQueue.filter(item => item.entityType === 'timeEntry'));
           const payPeriodItems = deduplicateItems(state.syncQueue.filter(item => item.entityType === 'payPeriod'));
+          const paymentItems = deduplicateItems(state.syncQueue.filter(item => item.entityType === 'payment'));
+          const expenseItems = deduplicateItems(state.syncQueue.filter(item => item.entityType === 'expense'));
           
-          console.log(`Deduplicated: ${jobItems.length} jobs, ${timeEntryItems.length} time entries, ${payPeriodItems.length} pay periods`);
+          console.log(`Deduplicated: ${jobItems.length} jobs, ${timeEntryItems.length} time entries, ${payPeriodItems.length} pay periods, ${paymentItems.length} payments, ${expenseItems.length} expenses`);
           
-          // Process jobs
+          // Process jobs first so entries and pay periods can reference them
           if (jobItems.length > 0) {
             const jobsToUpsert = jobItems
               .filter(item => item.operation === 'create' || item.operation === 'update')
@@ -1283,11 +1670,30 @@ export const useJobsStore = create<JobsState>()(
             
             if (jobsToUpsert.length > 0) {
               console.log(`Upserting ${jobsToUpsert.length} jobs`);
-              await batchSyncJobs(jobsToUpsert, userId, 'upsert');
+              recordResults('job', await batchSyncJobs(jobsToUpsert, userId, 'upsert'));
             }
             if (jobsToDelete.length > 0) {
               console.log(`Deleting ${jobsToDelete.length} jobs`);
-              await batchSyncJobs(jobsToDelete, userId, 'delete');
+              recordResults('job', await batchSyncJobs(jobsToDelete, userId, 'delete'));
+            }
+          }
+          
+          // Pay periods go before entries so the server sees unlocks and adjustments first
+          if (payPeriodItems.length > 0) {
+            const periodsToUpsert = payPeriodItems
+              .filter(item => item.operation === 'create' || item.operation === 'update')
+              .map(item => item.data as PayPeriod);
+            const periodsToDelete = payPeriodItems
+              .filter(item => item.operation === 'delete')
+              .map(item => item.data as PayPeriod);
+            
+            if (periodsToUpsert.length > 0) {
+              console.log(`Upserting ${periodsToUpsert.length} pay periods`);
+              recordResults('payPeriod', await batchSyncPayPeriods(periodsToUpsert, userId, 'upsert'));
+            }
+            if (periodsToDelete.length > 0) {
+              console.log(`Deleting ${periodsToDelete.length} pay periods`);
+              recordResults('payPeriod', await batchSyncPayPeriods(periodsToDelete, userId, 'delete'));
             }
           }
           
@@ -1302,52 +1708,194 @@ export const useJobsStore = create<JobsState>()(
             
             if (entriesToUpsert.length > 0) {
               console.log(`Upserting ${entriesToUpsert.length} time entries`);
-              await batchSyncTimeEntries(entriesToUpsert, userId, 'upsert');
+              recordResults('timeEntry', await batchSyncTimeEntries(entriesToUpsert, userId, 'upsert'));
             }
             if (entriesToDelete.length > 0) {
               console.log(`Deleting ${entriesToDelete.length} time entries`);
-              await batchSyncTimeEntries(entriesToDelete, userId, 'delete');
+              recordResults('timeEntry', await batchSyncTimeEntries(entriesToDelete, userId, 'delete'));
             }
           }
           
-          // Process pay periods
-          if (payPeriodItems.length > 0) {
-            const periodsToUpsert = payPeriodItems
+          // Process payments last since their allocations point at pay periods
+          if (paymentItems.length > 0) {
+            const paymentsToUpsert = paymentItems
               .filter(item => item.operation === 'create' || item.operation === 'update')
-              .map(item => item.data as PayPeriod);
-            const periodsToDelete = payPeriodItems
+              .map(item => item.data as Payment);
+            const paymentsToDelete = paymentItems
               .filter(item => item.operation === 'delete')
-              .map(item => item.data as PayPeriod);
+              .map(item => item.data as Payment);
             
-            if (periodsToUpsert.length > 0) {
-              console.log(`Upserting ${periodsToUpsert.length} pay periods`);
-              await batchSyncPayPeriods(periodsToUpsert, userId, 'upsert');
+            if (paymentsToUpsert.length > 0) {
+              console.log(`Upserting ${paymentsToUpsert.length} payments`);
+              recordResults('payment', await batchSyncPayments(paymentsToUpsert, userId, 'upsert'));
             }
-            if (periodsToDelete.length > 0) {
-              console.log(`Deleting ${periodsToDelete.length} pay periods`);
-              await batchSyncPayPeriods(periodsToDelete, userId, 'delete');
+            if (paymentsToDelete.length > 0) {
+              console.log(`Deleting ${paymentsToDelete.length} payments`);
+              recordResults('payment', await batchSyncPayments(paymentsToDelete, userId, 'delete'));
             }
           }
           
-          // Clear processed items from queue
-          set({ 
-            syncQueue: [],
-            lastSyncTimestamp: Date.now()
-          });
-          
-          console.log('Sync queue processed successfully');
-          
+          if (expenseItems.length > 0) {
+            const expensesToUpsert = expenseItems
+              .filter(item => item.operation === 'create' || item.operation === 'update')
+              .map(item => item.data as Expense);
+            const expensesToDelete = expenseItems
+              .filter(item => item.operation === 'delete')
+              .map(item => item.data as Expense);
+            
+            if (expensesToUpsert.length > 0) {
+              console.log(`Upserting ${expensesToUpsert.length} expenses`);
+              recordResults('expense', await batchSyncExpenses(expensesToUpsert, userId, 'upsert'));
+            }
+            if (expensesToDelete.length > 0) {
+              console.log(`Deleting ${expensesToDelete.length} expenses`);
+              recordResults('expense', await batchSyncExpenses(expensesToDelete, userId, 'delete'));
+            }
+          }
         } catch (error) {
           console.error('Error processing sync queue:', error);
-          
-          // Increment retry count for failed items
-          set(state => ({
-            syncQueue: state.syncQueue.map(item => ({
-              ...item,
-              retryCount: item.retryCount + 1
-            })).filter(item => item.retryCount < 3) // Remove items that have failed 3 times
+          syncError = error;
+        }
+        
+        // Settle each processed item from its own result so one bad record
+        // doesn't block or discard the rest of the queue. Refused items are kept
+        // so the sync status can show them instead of silently losing the change.
+        const jobsToRequeue = new Set<string>();
+        const rejectedItems: SyncQueueItem[] = [];
+        set(current => ({
+          syncQueue: current.syncQueue.flatMap((item): SyncQueueItem[] => {
+            if (!processedItemIds.has(item.id)) {
+              return [item];
+            }
+            
+            const result = resultsByEntity.get(`${item.entityType}:${item.entityId}`);
+            if (!result) {
+              // Not sent because the run failed part way; retry up to 3 times
+              if (syncError) {
+                const retryCount = item.retryCount + 1;
+                return retryCount < 3 ? [{ ...item, retryCount }] : [];
+              }
+              return [];
+            }
+            
+            if (result.status === 'stale') {
+              console.log(`Server has a newer ${item.entityType}:${item.entityId}, dropping local change`);
+              return [];
+            }
+            if (result.status === 'accepted') {
+              return [];
+            }
+            
+            // The entry's job never reached the server; upload it and retry the entry
+            if (result.code === 'UNKNOWN_JOB') {
+              const retryCount = item.retryCount + 1;
+              if (retryCount < 3 && item.data?.jobId) {
+                jobsToRequeue.add(item.data.jobId);
+                return [{ ...item, retryCount, lastError: result.reason }];
+              }
+            }
+            
+            console.warn(`Sync rejected ${item.entityType}:${item.entityId} (${result.code}): ${result.reason}`);
+            rejectedItems.push({ ...item, lastError: result.reason, rejectionCode: result.code });
+            return [];
+          }),
+          ...(!syncError && { lastSyncTimestamp: Date.now() }),
+        }));
+        
+        if (rejectedItems.length > 0) {
+          const rejectedKeys = new Set(rejectedItems.map(item => `${item.entityType}:${item.entityId}`));
+          set(current => ({
+            rejectedSyncItems: [
+              ...current.rejectedSyncItems.filter(item => !rejectedKeys.has(`${item.entityType}:${item.entityId}`)),
+              ...rejectedItems,
+            ],
           }));
         }
+        
+        // Entries refused because their period is paid would otherwise differ from the
+        // backend forever, so the backend's copy replaces the local change
+        const lockedEntryIds = rejectedItems
+          .filter(item => item.entityType === 'timeEntry' && item.rejectionCode === 'PERIOD_LOCKED')
+          .map(item => item.entityId);
+        if (lockedEntryIds.length > 0) {
+          try {
+            await get().restoreServerTimeEntries(lockedEntryIds);
+          } catch (error) {
+            console.error('Error restoring locked time entries:', error);
+          }
+        }
+        
+        jobsToRequeue.forEach(jobId => {
+          const job = get().jobs.find(j => j.id === jobId);
+          if (job) {
+            get().addToSyncQueue({
+              entityType: 'job',
+              entityId: job.id,
+              operation: 'update',
+              data: job,
+            });
+          }
+        });
+        
+        if (!syncError) {
+          console.log('Sync queue processed successfully');
+        }
+      },
+      
+      restoreServerTimeEntries: async (entryIds: string[]) => {
+        const ids = new Set(entryIds);
+        const serverEntries = (await fetchTimeEntries()).filter(entry => ids.has(entry.id));
+        const serverEntriesById = new Map(serverEntries.map(entry => [entry.id, entry]));
+        const affectedJobIds = new Set<string>(serverEntries.map(entry => entry.jobId));
+        
+        set(state => {
+          const localIds = new Set(state.timeEntries.map(entry => entry.id));
+          const timeEntries = state.timeEntries.flatMap(entry => {
+            if (!ids.has(entry.id)) return [entry];
+            affectedJobIds.add(entry.jobId);
+            const serverEntry = serverEntriesById.get(entry.id);
+            return serverEntry ? [serverEntry] : [];
+          });
+          // Entries deleted locally come back
+          serverEntries.forEach(entry => {
+            if (!localIds.has(entry.id)) timeEntries.push(entry);
+          });
+          return { timeEntries };
+        });
+        
+        affectedJobIds.forEach(jobId => get().recalculatePayPeriodsForJob(jobId));
+        console.log(`Restored ${serverEntries.length} of ${ids.size} time entries from the backend`);
+      },
+      
+      getSyncStatus: () => {
+        const state = get();
+        const clientsStore = useClientsStore.getState();
+        const rejected = [...clientsStore.rejectedSyncItems, ...state.rejectedSyncItems];
+        return {
+          isOnline: state.networkInfo.isConnected,
+          isSyncing: state.isLoading,
+          lastSyncTime: state.lastSyncTimestamp,
+          pendingOperations: state.syncQueue.length + clientsStore.syncQueue.length,
+          rejectedOperations: rejected.length,
+          lastError: rejected[rejected.length - 1]?.lastError,
+        };
+      },
+      
+      retryRejectedSyncItems: () => {
+        const { rejectedSyncItems } = get();
+        set({ rejectedSyncItems: [] });
+        // Entries in paid periods were already replaced by the backend's copy
+        rejectedSyncItems
+          .filter(item => item.rejectionCode !== 'PERIOD_LOCKED')
+          .forEach(({ entityType, entityId, operation, data }) => {
+            get().addToSyncQueue({ entityType, entityId, operation, data });
+          });
+        useClientsStore.getState().retryRejectedSyncItems();
+      },
+      
+      dismissRejectedSyncItems: () => {
+        set({ rejectedSyncItems: [] });
+        useClientsStore.getState().dismissRejectedSyncItems();
       },
       
       syncWithBackend: async (userId: string) => {
@@ -1357,63 +1905,54 @@ export const useJobsStore = create<JobsState>()(
           // First process any pending local changes (upload to server)
           await get().processSyncQueue(userId);
           
-          // Then fetch latest data from backend
-          const result = await fetchAllUserData(userId);
+          // Then fetch only what changed on the backend since the last pull
+          const changes = await pullChanges(get().lastPullTimestamp);
           
-          if (result.errors.length > 0) {
-            console.warn('Some data failed to sync:', result.errors);
-          }
+          // Local deletes that haven't reached the backend yet must not be resurrected
+          const pendingDeletes = new Map<string, number>();
+          get().syncQueue
+            .filter(item => item.operation === 'delete')
+            .forEach(item => pendingDeletes.set(item.entityId, item.data?.updatedAt ?? item.timestamp));
           
-          // Intelligent merge strategy instead of replacing all data
+          // Last writer wins on updatedAt for every entity type
           const currentState = get();
+          const mergedJobs = mergeByUpdatedAt(currentState.jobs, changes.jobs, pendingDeletes);
+          const mergedTimeEntries = mergeByUpdatedAt(currentState.timeEntries, changes.timeEntries, pendingDeletes);
+          const mergedPayPeriods = mergeByUpdatedAt(currentState.payPeriods, changes.payPeriods, pendingDeletes);
+          const mergedPayments = mergeByUpdatedAt(currentState.payments, changes.payments, pendingDeletes);
+          const mergedExpenses = mergeByUpdatedAt(currentState.expenses, changes.expenses, pendingDeletes);
           
-          // For jobs: merge by preferring local changes for recently modified items
-          const mergedJobs = mergeDataIntelligently(
-            currentState.jobs,
-            result.jobs,
-            'id',
-            'createdAt'
-          );
-          
-          // For time entries: preserve active entries and recent changes
-          const mergedTimeEntries = mergeDataIntelligently(
-            currentState.timeEntries,
-            result.timeEntries,
-            'id',
-            'startTime',
-            (local, remote) => {
-              // Always prefer local active entries (no endTime)
-              if (!local.endTime) return local;
-              // For completed entries, prefer the one with later creation time
-              return local.createdAt > remote.createdAt ? local : remote;
-            }
-          );
-          
-          // For pay periods: merge normally
-          const mergedPayPeriods = mergeDataIntelligently(
-            currentState.payPeriods,
-            result.payPeriods,
-            'id',
-            'createdAt'
-          );
+          const activeId = currentState.activeTimeEntry?.id;
+          const activeTimeEntry = activeId
+            ? mergedTimeEntries.find(entry => entry.id === activeId && entry.endTime === null) ?? null
+            : null;
           
           // Update local state with merged data
+          useClientsStore.getState().mergeRemoteClients(changes.clients);
           set({
             jobs: mergedJobs,
             timeEntries: mergedTimeEntries,
             payPeriods: mergedPayPeriods,
+            payments: mergedPayments,
+            expenses: mergedExpenses,
+            activeTimeEntry,
             lastSyncTimestamp: Date.now(),
+            lastPullTimestamp: changes.serverTime,
             isLoading: false,
           });
 
-          // Recalculate pay periods for all jobs to ensure manual entries are included
-          mergedJobs.forEach(j => {
-            if (j?.id) {
-              get().recalculatePayPeriodsForJob(j.id);
+          // Recalculate pay periods for jobs touched by the pull so manual entries are included
+          const affectedJobIds = new Set<string>([
+            ...changes.jobs.map(job => job.id),
+            ...changes.timeEntries.map(entry => entry.jobId),
+          ]);
+          affectedJobIds.forEach(jobId => {
+            if (mergedJobs.some(job => job.id === jobId)) {
+              get().recalculatePayPeriodsForJob(jobId);
             }
           });
           
-          console.log('Intelligent sync with backend completed');
+          console.log('Incremental sync with backend completed');
           
         } catch (error) {
           console.error('Error syncing with backend:', error);
@@ -1552,15 +2091,22 @@ export const useJobsStore = create<JobsState>()(
       clearAllData: () => {
         // Stop any active time entry
         get().stopTimeEntry();
+        useClientsStore.getState().clearAllData();
         
         // Clear all data
         set({
           jobs: [],
           timeEntries: [],
           payPeriods: [],
+          payments: [],
+          expenses: [],
           activeTimeEntry: null,
           syncQueue: [],
+          rejectedSyncItems: [],
           lastSyncTimestamp: null,
+          lastPullTimestamp: null,
+          ignoredForgottenTimerIds: [],
+          budgetAlerts: {},
         });
       },
       
@@ -1569,22 +2115,10 @@ export const useJobsStore = create<JobsState>()(
         const entries = state.timeEntries.filter(entry => entry.jobId === jobId);
         const job = state.jobs.find(j => j.id === jobId);
         
-        const totalHours = entries.reduce((total, entry) => {
-          if (!entry.endTime) return total;
-          
-          const duration = entry.endTime - entry.startTime;
-          const breaks = entry.breaks || [];
-          const breakDuration = breaks.reduce((breakTotal, breakItem) => {
-            if (breakItem && breakItem.endTime) {
-              return breakTotal + (breakItem.endTime - breakItem.startTime);
-            }
-            return breakTotal;
-          }, 0);
-          
-          return total + (duration - breakDuration);
-        }, 0) / (1000 * 60 * 60); // Convert to hours
-        
-        const totalEarnings = job ? totalHours * job.hourlyRate : 0;
+        const completedEntries = entries.filter(entry => entry.endTime !== null);
+        const earnings = job ? calculateJobEarnings(job, completedEntries) : null;
+        const totalHours = earnings?.totalHours ?? 0;
+        const totalEarnings = earnings?.totalEarnings ?? 0;
         
         return {
           totalHours,
@@ -1630,50 +2164,17 @@ export const useJobsStore = create<JobsState>()(
         jobs: state.jobs,
         timeEntries: state.timeEntries,
         payPeriods: state.payPeriods,
+        payments: state.payments,
+        expenses: state.expenses,
         activeTimeEntry: state.activeTimeEntry,
+        rejectedSyncItems: state.rejectedSyncItems,
         lastSyncTimestamp: state.lastSyncTimestamp,
+        lastPullTimestamp: state.lastPullTimestamp,
+        ignoredForgottenTimerIds: state.ignoredForgottenTimerIds,
+        budgetAlerts: state.budgetAlerts,
         _currentUser: state._currentUser,
         // Don't persist syncQueue, networkInfo, backgroundSyncInterval, or isLoading
       }),
     }
   )
 );
-
-// Helper function for intelligent data merging
-function mergeDataIntelligently<T extends { id: string; createdAt: number }>(
-  localData: T[],
-  remoteData: T[],
-  idField: keyof T,
-  timestampField: keyof T,
-  conflictResolver?: (local: T, remote: T) => T
-): T[] {
-  const merged = new Map<string, T>();
-  
-  // Add all local items first
-  localData.forEach(item => {
-    merged.set(item[idField] as string, item);
-  });
-  
-  // Merge remote items
-  remoteData.forEach(remoteItem => {
-    const id = remoteItem[idField] as string;
-    const localItem = merged.get(id);
-    
-    if (!localItem) {
-      // New item from remote, add it
-      merged.set(id, remoteItem);
-    } else {
-      // Conflict resolution
-      if (conflictResolver) {
-        merged.set(id, conflictResolver(localItem, remoteItem));
-      } else {
-        // Default: prefer the item with later timestamp
-        const localTimestamp = localItem[timestampField] as number;
-        const remoteTimestamp = remoteItem[timestampField] as number;
-        merged.set(id, localTimestamp > remoteTimestamp ? localItem : remoteItem);
-      }
-    }
-  });
-  
-  return Array.from(merged.values());
-}
\ No newline at end of file
@@ -1,17 +1,58 @@
 export interface Job {
   id: string;
   name: string;
-  client: string;
-  hourlyRate: number;
+  client: string; // Display name; kept in step with the linked client's name
+  clientId?: string;
+  hourlyRate: number; // Latest rate; see rateHistory for what applied when
+  rateHistory?: RateChange[];
+  billingModel?: BillingModel; // Defaults to hourly
+  fixedPrice?: number; // Fee for fixed-price jobs
+  completedAt?: number | null; // Fixed-price jobs earn their fee when completed
+  milestones?: Milestone[];
   color: string;
   settings?: JobSettings;
   createdAt: number;
+  updatedAt?: number; // Last local edit, used for last-writer-wins sync
+  deletedAt?: number | null; // Set on tombstones pulled from the backend
+}
+
+// A rate that applies to entries starting on or after effectiveFrom
+export interface RateChange {
+  rate: number;
+  effectiveFrom: number;
+}
+
+// Hourly jobs earn from tracked time. Fixed-price and milestone jobs earn when the job
+// or a milestone is completed, and their time is tracked for effective hourly rates.
+export type BillingModel = 'hourly' | 'fixed' | 'milestone';
+
+export interface Milestone {
+  id: string;
+  name: string;
+  amount: number;
+  dueDate?: number;
+  completedAt?: number | null;
+}
+
+export interface Client {
+  id: string;
+  name: string;
+  email?: string;
+  address?: string;
+  defaultRate?: number; // Hourly rate suggested for new jobs
+  paymentTermsDays?: number; // Days after the invoice date that payment is due
+  currency?: string; // ISO code; falls back to the business currency
+  createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number | null;
 }
 
 export interface JobSettings {
   // Pay period settings
   payPeriodType?: PayPeriodType;
   payPeriodStartDay?: number;
+  payPeriodAnchorDate?: number; // Start of any real biweekly period, so periods match the client's payroll
+  billingTimeZone?: string; // IANA zone for period and overtime boundaries; defaults to the device's
   
   // Time rounding settings (legacy)
   roundTime?: RoundTimeType;
@@ -28,6 +69,11 @@ export interface JobSettings {
   dailyReminderThreshold?: number;
   weeklyReminderThreshold?: number;
   
+  // Forgotten timers
+  maxShiftHours?: number; // Running entries longer than this are flagged
+  workdayEnd?: string; // HH:MM; running entries past this time are flagged
+  autoCapForgottenTimers?: boolean; // Clock out at the limit instead of asking
+  
   // Breaks
   automaticBreaks?: boolean;
   presetBreaks?: PresetBreak[];
@@ -43,6 +89,11 @@ export interface JobSettings {
   // Financial settings
   estimatedTaxRate?: number;
   deductions?: number;
+  mileageRate?: number; // Per distanceUnit; mileage expenses keep the rate they were logged at
+  distanceUnit?: DistanceUnit;
+  
+  // Retainers and hour blocks
+  budget?: JobBudget;
 }
 
 export interface TimeRoundingSettings {
@@ -52,12 +103,27 @@ export interface TimeRoundingSettings {
   bufferTime: number;
 }
 
-export type PayPeriodType = 'weekly' | 'biweekly' | 'monthly';
+export type PayPeriodType = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly';
 export type RoundTimeType = 'none' | '15min' | '30min' | '1hour';
 export type OvertimeType = 'none' | 'daily' | 'weekly';
 export type RoundingDirection = 'up' | 'down';
 export type RoundingInterval = '15min' | '30min' | '1hour';
 
+export type BudgetUnit = 'hours' | 'money';
+export type BudgetPeriod = 'monthly' | 'total';
+// What carries into the next month: nothing, only what's left over, or overruns too
+export type BudgetRollover = 'none' | 'unused' | 'all';
+
+export interface JobBudget {
+  unit: BudgetUnit;
+  amount: number; // Hours or money per month, or for the whole job
+  period: BudgetPeriod;
+  rollover?: BudgetRollover; // Monthly budgets only
+  rolloverCap?: number; // Most that can carry into a month, in the budget's unit
+  alertThresholds?: number[]; // Percentages of the allowance to alert at
+  startDate?: number; // Usage counts from here; defaults to when the job was created
+}
+
 export interface PresetBreak {
   id: string;
   name: string;
@@ -71,6 +137,7 @@ export interface BreakEntry {
   id: string;
   startTime: number;
   endTime: number | null;
+  presetBreakId?: string; // Set when the break was added automatically from a preset
 }
 
 export interface TimeEntry {
@@ -80,8 +147,14 @@ export interface TimeEntry {
   endTime: number | null;
   note: string;
   breaks?: BreakEntry[];
+  dismissedAutoBreakIds?: string[]; // Automatic breaks the user removed; never re-added
   isOnBreak: boolean;
+  timeZone?: string; // IANA zone the entry was recorded in
+  billable?: boolean; // Defaults to true; non-billable time is tracked but earns nothing
+  rateOverride?: number; // Hourly rate for this entry instead of the job's
   createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number | null;
   paidInPeriodId?: string;
 }
 
@@ -94,12 +167,80 @@ export interface PayPeriod {
   totalEarnings: number;
   isPaid: boolean;
   paidDate?: number;
+  unlockedAt?: number; // Paid periods are locked against edits unless unlocked for a correction
+  adjustments?: PayPeriodAdjustment[];
   timeEntryIds: string[];
+  milestoneIds?: string[]; // Milestones (or a fixed fee) completed in the period
   createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number | null;
+}
+
+export type PayPeriodAdjustmentKind = 'added' | 'edited' | 'deleted';
+
+// A change to a paid period's entries, on top of the amount that was paid
+export interface PayPeriodAdjustment {
+  id: string;
+  timeEntryId: string;
+  kind: PayPeriodAdjustmentKind;
+  durationDelta: number;
+  earningsDelta: number;
+  createdAt: number; // Matches the entry's updatedAt for the change
+}
+
+export type PaymentMethod = 'bank_transfer' | 'cash' | 'check' | 'card' | 'other';
+
+// The part of a payment applied to one pay period
+export interface PaymentAllocation {
+  payPeriodId: string;
+  amount: number;
+}
+
+// Money received for a job. One payment can cover part of a period or several periods;
+// any amount not allocated is kept as credit on the job.
+export interface Payment {
+  id: string;
+  jobId: string;
+  amount: number;
+  date: number;
+  method: PaymentMethod;
+  reference?: string;
+  note?: string;
+  allocations: PaymentAllocation[];
+  createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number | null;
+}
+
+export type ExpenseKind = 'expense' | 'mileage';
+
+export type ExpenseCategory = 'materials' | 'equipment' | 'travel' | 'meals' | 'software' | 'other';
+
+export type DistanceUnit = 'km' | 'mi';
+
+// A cost incurred for a job. Mileage expenses record the distance driven and are
+// priced at the job's mileage rate.
+export interface Expense {
+  id: string;
+  jobId: string;
+  kind: ExpenseKind;
+  amount: number;
+  category: ExpenseCategory;
+  date: number;
+  description?: string;
+  billable: boolean; // Billable expenses can be added to an invoice
+  receiptPath?: string; // Path in the documents storage bucket
+  distance?: number;
+  distanceUnit?: DistanceUnit;
+  mileageRate?: number;
+  createdAt: number;
+  updatedAt?: number;
+  deletedAt?: number | null;
 }
 
 export interface JobWithDuration extends Job {
   totalDuration: number;
+  totalEarnings: number;
   isActive: boolean;
   activeEntryId?: string;
 }
@@ -130,9 +271,10 @@ export interface PaymentOptions {
 }
 
 export interface TaxSettings {
-  defaultTaxRate: number;
+  defaultTaxRate: number; // Added to invoices, and set aside for jobs without their own estimated rate
   currency: string;
   currencySymbol: string;
+  taxQuarterStarts?: string[]; // MM-DD each estimated-tax quarter starts, in order through the tax year
 }
 
 export interface UserAccount {
@@ -156,6 +298,10 @@ export interface AuthState {
 export interface Invoice {
   id: string;
   invoiceNumber: string;
+  jobIds: string[];
+  payPeriodIds?: string[];
+  business?: BusinessInfo;
+  currency?: string;
   clientName: string;
   clientEmail: string;
   clientAddress: string;
@@ -166,12 +312,14 @@ export interface Invoice {
   taxRate: number;
   taxAmount: number;
   total: number;
-  status: 'draft' | 'sent' | 'paid' | 'overdue';
+  status: InvoiceStatus;
   notes?: string;
   createdAt: number;
   updatedAt: number;
 }
 
+export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue';
+
 export interface InvoiceItem {
   id: string;
   description: string;
@@ -180,6 +328,8 @@ export interface InvoiceItem {
   amount: number;
   jobId?: string;
   timeEntryIds?: string[];
+  payPeriodId?: string;
+  expenseId?: string;
 }
 
 export interface Contact {
@@ -211,7 +361,7 @@ export interface SupportRequest {
 
 // Sync Queue Types
 export type SyncOperation = 'create' | 'update' | 'delete';
-export type SyncEntityType = 'job' | 'timeEntry' | 'payPeriod' | 'businessInfo';
+export type SyncEntityType = 'client' | 'job' | 'timeEntry' | 'payPeriod' | 'payment' | 'expense' | 'businessInfo';
 
 export interface SyncQueueItem {
   id: string;
@@ -222,6 +372,18 @@ export interface SyncQueueItem {
   timestamp: number;
   retryCount: number;
   lastError?: string;
+  rejectionCode?: SyncRejectionCode; // Set once the backend has refused the change
+}
+
+// Per-item outcome reported by the backend sync endpoints
+export type SyncItemStatus = 'accepted' | 'stale' | 'rejected';
+export type SyncRejectionCode = 'INVALID' | 'FORBIDDEN' | 'UNKNOWN_JOB' | 'PERIOD_LOCKED';
+
+export interface SyncItemResult {
+  id: string;
+  status: SyncItemStatus; // stale: the server already has a newer version
+  code?: SyncRejectionCode;
+  reason?: string;
 }
 
 export interface SyncStatus {
@@ -229,6 +391,7 @@ export interface SyncStatus {
   isSyncing: boolean;
   lastSyncTime: number | null;
   pendingOperations: number;
+  rejectedOperations: number; // Changes the backend refused; kept until retried or discarded
   lastError?: string;
 }
 
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { PresetBreak, TimeEntry } from '@/types';
+import { applyAutomaticBreaks, getPresetBreakOccurrences } from '@/utils/breaks';
+
+const at = (iso: string) => Date.parse(iso);
+
+const lunch: PresetBreak = {
+  id: 'lunch',
+  name: 'Lunch',
+  startTime: '12:00',
+  endTime: '12:30',
+  days: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+  duration: 30,
+};
+
+const entry = (startIso: string, timeZone?: string): TimeEntry => ({
+  id: 'entry-1',
+  jobId: 'job-1',
+  startTime: at(startIso),
+  endTime: null,
+  note: '',
+  isOnBreak: false,
+  timeZone,
+  createdAt: at(startIso),
+});
+
+describe('getPresetBreakOccurrences', () => {
+  it('places the break at the wall-clock time of the zone', () => {
+    const occurrences = getPresetBreakOccurrences(lunch, at('2024-07-01T12:00:00Z'), at('2024-07-01T22:00:00Z'), 'America/New_York');
+    expect(occurrences.map(b => [b.startTime, b.endTime])).toEqual([[at('2024-07-01T16:00:00Z'), at('2024-07-01T16:30:00Z')]]);
+  });
+
+  it('uses the zone\'s weekday, not UTC\'s', () => {
+    // 12:00 on Saturday 6 July in Auckland is still Friday in UTC
+    const occurrences = getPresetBreakOccurrences(lunch, at('2024-07-05T20:00:00Z'), at('2024-07-06T04:00:00Z'), 'Pacific/Auckland');
+    expect(occurrences).toEqual([]);
+  });
+
+  it('runs presets that cross midnight into the next day across a DST change', () => {
+    const night: PresetBreak = { ...lunch, id: 'night', startTime: '23:30', endTime: '00:30', days: ['Saturday'] };
+    const occurrences = getPresetBreakOccurrences(night, at('2024-11-02T20:00:00Z'), at('2024-11-03T12:00:00Z'), 'America/New_York');
+    expect(occurrences.map(b => [b.startTime, b.endTime])).toEqual([[at('2024-11-03T03:30:00Z'), at('2024-11-03T04:30:00Z')]]);
+  });
+});
+
+describe('applyAutomaticBreaks', () => {
+  const settings = { automaticBreaks: true, presetBreaks: [lunch] };
+
+  it('times breaks in the job\'s billing timezone', () => {
+    const breaks = applyAutomaticBreaks(entry('2024-07-01T13:00:00Z', 'Europe/London'), { ...settings, billingTimeZone: 'America/New_York' }, at('2024-07-01T21:00:00Z'));
+    expect(breaks.map(b => b.startTime)).toEqual([at('2024-07-01T16:00:00Z')]);
+  });
+
+  it('falls back to the zone the entry was recorded in', () => {
+    const breaks = applyAutomaticBreaks(entry('2024-07-01T08:00:00Z', 'Europe/London'), settings, at('2024-07-01T16:00:00Z'));
+    expect(breaks.map(b => b.startTime)).toEqual([at('2024-07-01T11:00:00Z')]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { Job, PayPeriod } from '@/types';
+import {
+  buildImportPreview,
+  detectColumnMapping,
+  getImportableEntries,
+  readImportHeaders,
+} from '@/utils/csv-import';
+
+const job: Job = {
+  id: 'job-1',
+  name: 'Website',
+  client: 'Acme',
+  hourlyRate: 50,
+  color: '#000000',
+  createdAt: 0,
+};
+
+const paidPeriod: PayPeriod = {
+  id: 'period-1',
+  jobId: 'job-1',
+  startDate: Date.parse('2024-03-01T00:00:00Z'),
+  endDate: Date.parse('2024-03-31T23:59:59Z'),
+  totalDuration: 0,
+  totalEarnings: 0,
+  isPaid: true,
+  timeEntryIds: [],
+  createdAt: 0,
+};
+
+describe('column mapping', () => {
+  const csv = 'Worked on,Customer,Job,Length\n2024-04-02 09:00,Acme,Website,1.5\n';
+
+  it('fails on headers it does not recognise', () => {
+    expect(() => buildImportPreview(csv, [job], [])).toThrow('Could not find a start date column');
+  });
+
+  it('reads the file with a mapping chosen by the user', () => {
+    const headers = readImportHeaders(csv);
+    const mapping = { ...detectColumnMapping(headers), startDate: 0, duration: 3 };
+    const preview = buildImportPreview(csv, [job], [], { mapping });
+
+    expect(preview.rows).toEqual([
+      expect.objectContaining({ jobId: 'job-1', status: 'new', endTime: preview.rows[0].startTime! + 1.5 * 60 * 60 * 1000 }),
+    ]);
+  });
+});
+
+describe('paid pay periods', () => {
+  const csv = 'Project,Client,Start date,Duration\nWebsite,Acme,2024-03-12 09:00,1\nWebsite,Acme,2024-04-12 09:00,1\n';
+
+  it('marks rows in a paid period as locked and leaves them out of the import', () => {
+    const preview = buildImportPreview(csv, [job], [], { payPeriods: [paidPeriod] });
+
+    expect(preview.rows.map(row => row.status)).toEqual(['locked', 'new']);
+    expect(getImportableEntries(preview)).toHaveLength(1);
+  });
+
+  it('imports them once the period is unlocked for a correction', () => {
+    const preview = buildImportPreview(csv, [job], [], { payPeriods: [{ ...paidPeriod, unlockedAt: 1 }] });
+
+    expect(preview.rows.map(row => row.status)).toEqual(['new', 'new']);
+  });
+});
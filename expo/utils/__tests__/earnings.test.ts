@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { Job, JobSettings, TimeEntry } from '@/types';
+import { calculateJobEarnings, getOvertimeRules } from '@/utils/earnings';
+
+const HOUR = 60 * 60 * 1000;
+
+const makeJob = (settings: JobSettings): Job => ({
+  id: 'job-1',
+  name: 'Consulting',
+  client: 'Acme',
+  hourlyRate: 100,
+  color: '#000000',
+  settings: { billingTimeZone: 'UTC', weeklyOvertime: 'weekly', weeklyOvertimeThreshold: 40, ...settings },
+  createdAt: 0,
+});
+
+const makeEntry = (id: string, iso: string, hours: number): TimeEntry => {
+  const startTime = Date.parse(iso);
+  return { id, jobId: 'job-1', startTime, endTime: startTime + hours * HOUR, note: '', isOnBreak: false, createdAt: startTime };
+};
+
+describe('weekly overtime weeks', () => {
+  it('uses the pay period weekday for weekly and biweekly jobs', () => {
+    expect(getOvertimeRules(makeJob({ payPeriodType: 'weekly', payPeriodStartDay: 3 })).weekStartDay).toBe(3);
+    expect(getOvertimeRules(makeJob({ payPeriodType: 'biweekly', payPeriodStartDay: 1 })).weekStartDay).toBe(1);
+  });
+
+  it('starts on Sunday when the start day is a day of the month', () => {
+    expect(getOvertimeRules(makeJob({ payPeriodType: 'monthly', payPeriodStartDay: 15 })).weekStartDay).toBe(0);
+    expect(getOvertimeRules(makeJob({ payPeriodType: 'semimonthly', payPeriodStartDay: 5 })).weekStartDay).toBe(0);
+  });
+
+  it('buckets a monthly job\'s weekly overtime into Sunday weeks', () => {
+    const job = makeJob({ payPeriodType: 'monthly', payPeriodStartDay: 15 });
+    const entries = [
+      makeEntry('mon', '2024-03-04T09:00:00Z', 10),
+      makeEntry('tue', '2024-03-05T09:00:00Z', 10),
+      makeEntry('wed', '2024-03-06T09:00:00Z', 10),
+      makeEntry('thu', '2024-03-07T09:00:00Z', 10),
+      makeEntry('sat', '2024-03-09T09:00:00Z', 5),
+      makeEntry('sun', '2024-03-10T09:00:00Z', 5),
+    ];
+    const earnings = calculateJobEarnings(job, entries, Date.parse('2024-03-11T00:00:00Z'));
+
+    expect(earnings.byEntryId.sat.weekStart).toBe(Date.parse('2024-03-03T00:00:00Z'));
+    expect(earnings.byEntryId.sat.weeklyOvertimeHours).toBe(5);
+    expect(earnings.byEntryId.sun.weekStart).toBe(Date.parse('2024-03-10T00:00:00Z'));
+    expect(earnings.byEntryId.sun.weeklyOvertimeHours).toBe(0);
+    expect(earnings.overtimeHours).toBe(5);
+  });
+});
+
+describe('non-billable time', () => {
+  it('adds to total hours but not to straight hours', () => {
+    const job = makeJob({ payPeriodType: 'weekly' });
+    const entries = [
+      makeEntry('billed', '2024-03-04T09:00:00Z', 6),
+      { ...makeEntry('internal', '2024-03-05T09:00:00Z', 2), billable: false },
+    ];
+    const earnings = calculateJobEarnings(job, entries, Date.parse('2024-03-11T00:00:00Z'));
+
+    expect(earnings.byEntryId.internal.straightHours).toBe(0);
+    expect(earnings.totalHours).toBe(8);
+    expect(earnings.straightHours + earnings.overtimeHours).toBe(earnings.billableDuration / HOUR);
+    expect(earnings.straightHours).toBe(6);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { ExportRow, rowsToCsv } from '@/utils/export';
+
+const row = (overrides: Partial<ExportRow>): ExportRow => ({
+  entryId: 'entry-1',
+  jobId: 'job-1',
+  job: 'Website',
+  client: 'Acme',
+  start: Date.parse('2024-03-12T09:00:00Z'),
+  end: Date.parse('2024-03-12T10:00:00Z'),
+  breakMinutes: 0,
+  workedHours: 1,
+  billable: true,
+  rate: 50,
+  earnings: 50,
+  paid: false,
+  payPeriodId: null,
+  note: '',
+  ...overrides,
+});
+
+const cellsOf = (csv: string) => csv.split('\r\n')[1];
+
+describe('rowsToCsv', () => {
+  it('neutralises text that a spreadsheet would run as a formula', () => {
+    const csv = rowsToCsv([row({ job: '=HYPERLINK("http://evil")', client: '@SUM(A1)', note: '+1 call' })]);
+    const line = cellsOf(csv);
+
+    expect(line.startsWith(`"'=HYPERLINK(""http://evil"")",'@SUM(A1),`)).toBe(true);
+    expect(line.endsWith(`,'+1 call`)).toBe(true);
+  });
+
+  it('prefixes a leading minus on text but not on numbers', () => {
+    const line = cellsOf(rowsToCsv([row({ note: '-follow up', earnings: -12.5 })]));
+
+    expect(line).toContain(',-12.50,');
+    expect(line.endsWith(`,'-follow up`)).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { Job, TimeEntry } from '@/types';
+import { findForgottenTimers, getRunningEntryCap, getWorkdayEndAfter } from '@/utils/forgotten-timers';
+
+const HOUR = 60 * 60 * 1000;
+const at = (iso: string) => Date.parse(iso);
+
+const runningEntry = (startTime: number, timeZone?: string): TimeEntry => ({
+  id: 'entry-1',
+  jobId: 'job-1',
+  startTime,
+  endTime: null,
+  note: '',
+  isOnBreak: false,
+  timeZone,
+  createdAt: startTime,
+});
+
+const jobWith = (settings: Job['settings']): Job => ({
+  id: 'job-1',
+  name: 'Shop',
+  client: 'Acme',
+  hourlyRate: 20,
+  color: '#000000',
+  settings,
+  createdAt: 0,
+});
+
+describe('configured limits', () => {
+  it('never flags a job without a longest shift or workday end', () => {
+    const entry = runningEntry(at('2024-03-01T08:00:00Z'));
+    expect(getRunningEntryCap(entry, undefined)).toBeNull();
+    expect(findForgottenTimers([entry], [jobWith({})], at('2024-03-10T08:00:00Z'))).toEqual([]);
+  });
+
+  it('flags a timer once it passes the longest shift', () => {
+    const entry = runningEntry(at('2024-03-01T08:00:00Z'));
+    const [timer] = findForgottenTimers([entry], [jobWith({ maxShiftHours: 10 })], at('2024-03-01T19:00:00Z'));
+    expect(timer).toMatchObject({ reason: 'max-duration', capTime: at('2024-03-01T18:00:00Z') });
+  });
+});
+
+describe('workday end', () => {
+  it('reads the time in the job\'s billing timezone', () => {
+    const entry = runningEntry(at('2024-07-01T13:00:00Z'), 'Europe/London');
+    const cap = getRunningEntryCap(entry, { workdayEnd: '17:30', billingTimeZone: 'America/New_York' });
+    expect(cap).toEqual({ reason: 'workday-end', capTime: at('2024-07-01T21:30:00Z') });
+  });
+
+  it('falls back to the zone the entry was recorded in', () => {
+    const entry = runningEntry(at('2024-07-01T08:00:00Z'), 'Europe/London');
+    expect(getRunningEntryCap(entry, { workdayEnd: '17:30' })?.capTime).toBe(at('2024-07-01T16:30:00Z'));
+  });
+
+  it('runs a night shift to the next day\'s workday end across a DST change', () => {
+    // Starts 22:00 EST on Saturday 9 March; 06:00 on Sunday is already EDT
+    const start = at('2024-03-10T03:00:00Z');
+    expect(getWorkdayEndAfter(start, '06:00', 'America/New_York')).toBe(at('2024-03-10T10:00:00Z'));
+    expect(getWorkdayEndAfter(start, '06:00', 'America/New_York')! - start).toBe(7 * HOUR);
+  });
+
+  it('uses the earlier of the two limits', () => {
+    const entry = runningEntry(at('2024-07-01T08:00:00Z'));
+    const cap = getRunningEntryCap(entry, { maxShiftHours: 4, workdayEnd: '17:00', billingTimeZone: 'UTC' });
+    expect(cap).toEqual({ reason: 'max-duration', capTime: at('2024-07-01T12:00:00Z') });
+  });
+});
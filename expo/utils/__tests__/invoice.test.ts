@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { Invoice } from '@/types';
+import { getInvoicedPayPeriodIds } from '@/utils/invoice';
+
+const invoice = (overrides: Partial<Invoice>): Invoice => ({
+  id: 'invoice-1',
+  invoiceNumber: 'INV-0001',
+  jobIds: ['job-1'],
+  clientName: 'Acme',
+  clientEmail: '',
+  clientAddress: '',
+  issueDate: 0,
+  dueDate: 0,
+  items: [],
+  subtotal: 0,
+  taxRate: 0,
+  taxAmount: 0,
+  total: 0,
+  status: 'draft',
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe('getInvoicedPayPeriodIds', () => {
+  it('collects periods listed on invoices and on their line items', () => {
+    const ids = getInvoicedPayPeriodIds([
+      invoice({ payPeriodIds: ['period-1'] }),
+      // Listed only on a line item
+      invoice({ id: 'invoice-2', items: [{ id: 'item-1', description: 'Week', quantity: 1, rate: 1, amount: 1, payPeriodId: 'period-2' }] }),
+    ]);
+    expect([...ids].sort()).toEqual(['period-1', 'period-2']);
+  });
+});
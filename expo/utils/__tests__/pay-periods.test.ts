@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { Job, PayPeriod, Payment, TimeEntry } from '@/types';
+import { rebuildJobPayPeriods } from '@/utils/pay-periods';
+
+const NOW = Date.parse('2024-04-01T00:00:00Z');
+const at = (iso: string) => Date.parse(iso);
+
+const weeklyJob: Job = {
+  id: 'job-1',
+  name: 'Support',
+  client: 'Acme',
+  hourlyRate: 40,
+  color: '#000000',
+  settings: { payPeriodType: 'weekly', payPeriodStartDay: 0, billingTimeZone: 'UTC' },
+  createdAt: 0,
+};
+
+const entry = (id: string, day: string): TimeEntry => ({
+  id,
+  jobId: 'job-1',
+  startTime: at(`${day}T09:00:00Z`),
+  endTime: at(`${day}T17:00:00Z`),
+  note: '',
+  isOnBreak: false,
+  createdAt: 0,
+});
+
+const entries = [entry('mon', '2024-03-04'), entry('wed', '2024-03-06'), entry('tue', '2024-03-12')];
+
+// Builds the weekly periods and marks the week of 3 March as paid
+const paidWeeklyPeriods = (): { periods: PayPeriod[]; timeEntries: TimeEntry[] } => {
+  const { periods } = rebuildJobPayPeriods(weeklyJob, entries, [], [], NOW);
+  const paid = periods.map(p => p.startDate === at('2024-03-03T00:00:00Z') ? { ...p, isPaid: true, paidDate: NOW } : p);
+  return rebuildJobPayPeriods(weeklyJob, entries, paid, [], NOW);
+};
+
+describe('rebuildJobPayPeriods', () => {
+  it('keeps a paid weekly period when the job switches to semi-monthly', () => {
+    const before = paidWeeklyPeriods();
+    const paidPeriod = before.periods.find(p => p.isPaid)!;
+    expect(before.timeEntries.filter(e => e.paidInPeriodId === paidPeriod.id).map(e => e.id)).toEqual(['mon', 'wed']);
+
+    const semimonthlyJob = { ...weeklyJob, settings: { ...weeklyJob.settings, payPeriodType: 'semimonthly' as const } };
+    const after = rebuildJobPayPeriods(semimonthlyJob, before.timeEntries, before.periods, [], NOW + 1000);
+
+    expect(after.periods.find(p => p.id === paidPeriod.id)).toMatchObject({
+      isPaid: true,
+      totalEarnings: paidPeriod.totalEarnings,
+      timeEntryIds: ['mon', 'wed'],
+    });
+    expect(after.toDelete.map(p => p.id)).not.toContain(paidPeriod.id);
+    expect(after.timeEntries.filter(e => e.paidInPeriodId === paidPeriod.id).map(e => e.id)).toEqual(['mon', 'wed']);
+
+    // The unpaid week is replaced by the first half of March, without the paid entries
+    const firstHalf = after.periods.find(p => p.startDate === at('2024-03-01T00:00:00Z'))!;
+    expect(firstHalf).toMatchObject({ isPaid: false, timeEntryIds: ['tue'] });
+    expect(after.toDelete.map(p => p.startDate)).toEqual([at('2024-03-10T00:00:00Z')]);
+  });
+
+  it('keeps a paid period after its last entry is removed', () => {
+    const before = paidWeeklyPeriods();
+    const paidPeriod = before.periods.find(p => p.isPaid)!;
+    const remaining = before.timeEntries.filter(e => e.id === 'tue');
+
+    const after = rebuildJobPayPeriods(weeklyJob, remaining, before.periods, [], NOW + 1000);
+
+    expect(after.periods.find(p => p.id === paidPeriod.id)).toMatchObject({ isPaid: true, timeEntryIds: [] });
+    expect(after.toDelete).toEqual([]);
+  });
+
+  it('never deletes a period that a payment is allocated to', () => {
+    const { periods, timeEntries } = rebuildJobPayPeriods(weeklyJob, entries, [], [], NOW);
+    const partlyPaid = periods.find(p => p.startDate === at('2024-03-10T00:00:00Z'))!;
+    const payment: Payment = {
+      id: 'payment-1',
+      jobId: 'job-1',
+      amount: 100,
+      date: NOW,
+      method: 'bank_transfer',
+      allocations: [{ payPeriodId: partlyPaid.id, amount: 100 }],
+      createdAt: NOW,
+    };
+
+    const semimonthlyJob = { ...weeklyJob, settings: { ...weeklyJob.settings, payPeriodType: 'semimonthly' as const } };
+    const after = rebuildJobPayPeriods(semimonthlyJob, timeEntries, periods, [payment], NOW + 1000);
+
+    expect(after.periods.find(p => p.id === partlyPaid.id)).toMatchObject({ isPaid: false, timeEntryIds: ['tue'] });
+    expect(after.toDelete.map(p => p.id)).not.toContain(partlyPaid.id);
+    expect(after.toDelete.map(p => p.startDate)).toEqual([at('2024-03-03T00:00:00Z')]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { Job, JobSettings, TimeEntry } from '@/types';
+import { PlannedReminder, createReminderScheduler, getReminderId, planReminders } from '@/utils/reminders';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2024-03-13T12:00:00Z'); // Wednesday
+
+const makeJob = (settings: JobSettings): Job => ({
+  id: 'job-1',
+  name: 'Consulting',
+  client: 'Acme',
+  hourlyRate: 100,
+  color: '#000000',
+  settings: { clockOutReminders: true, billingTimeZone: 'UTC', ...settings },
+  createdAt: 0,
+});
+
+const makeEntry = (id: string, startTime: number, endTime: number | null, overrides: Partial<TimeEntry> = {}): TimeEntry => ({
+  id,
+  jobId: 'job-1',
+  startTime,
+  endTime,
+  note: '',
+  isOnBreak: false,
+  createdAt: startTime,
+  ...overrides,
+});
+
+const running = makeEntry('running', NOW - 2 * HOUR, null);
+
+describe('planReminders', () => {
+  it('fires the daily reminder when the shift reaches the threshold', () => {
+    const [reminder] = planReminders(running, makeJob({ dailyReminderThreshold: 8 }), [running], NOW);
+    expect(reminder.id).toBe(getReminderId('running', 'daily'));
+    expect(reminder.fireAt).toBe(NOW + 6 * HOUR);
+  });
+
+  it('plans nothing when reminders are off, on break or the entry has ended', () => {
+    const job = makeJob({ dailyReminderThreshold: 8 });
+    expect(planReminders(running, makeJob({ clockOutReminders: false, dailyReminderThreshold: 8 }), [], NOW)).toEqual([]);
+    expect(planReminders({ ...running, isOnBreak: true }, job, [], NOW)).toEqual([]);
+    expect(planReminders({ ...running, endTime: NOW }, job, [], NOW)).toEqual([]);
+  });
+
+  it('skips thresholds that have already passed', () => {
+    expect(planReminders(running, makeJob({ dailyReminderThreshold: 1 }), [running], NOW)).toEqual([]);
+  });
+
+  it('counts the week\'s completed entries towards the weekly threshold', () => {
+    const monday = makeEntry('monday', Date.parse('2024-03-11T09:00:00Z'), Date.parse('2024-03-11T19:00:00Z'));
+    const lastWeek = makeEntry('last-week', Date.parse('2024-03-08T09:00:00Z'), Date.parse('2024-03-08T19:00:00Z'));
+    const job = makeJob({ payPeriodType: 'weekly', payPeriodStartDay: 1, weeklyReminderThreshold: 20 });
+
+    const [reminder] = planReminders(running, job, [lastWeek, monday, running], NOW);
+    expect(reminder.kind).toBe('weekly');
+    expect(reminder.fireAt).toBe(NOW + 8 * HOUR);
+  });
+
+  it('uses Sunday weeks for monthly jobs', () => {
+    // Start day 15 is a day of the month; read as a weekday it would start the week on Monday
+    const sunday = makeEntry('sunday', Date.parse('2024-03-10T09:00:00Z'), Date.parse('2024-03-10T19:00:00Z'));
+    const job = makeJob({ payPeriodType: 'monthly', payPeriodStartDay: 15, weeklyReminderThreshold: 20 });
+
+    const [reminder] = planReminders(running, job, [sunday, running], NOW);
+    expect(reminder.fireAt).toBe(NOW + 8 * HOUR);
+  });
+});
+
+describe('createReminderScheduler', () => {
+  const createFakeNotifier = () => {
+    const scheduled = new Map<string, PlannedReminder>();
+    const cancelled: string[] = [];
+    return {
+      scheduled,
+      cancelled,
+      notifier: {
+        schedule: async (reminder: PlannedReminder) => { scheduled.set(reminder.id, reminder); },
+        cancel: async (reminderId: string) => { cancelled.push(reminderId); scheduled.delete(reminderId); },
+      },
+    };
+  };
+
+  it('replaces earlier reminders when rescheduling', async () => {
+    const fake = createFakeNotifier();
+    const scheduler = createReminderScheduler(fake.notifier);
+    const job = makeJob({ dailyReminderThreshold: 8, weeklyReminderThreshold: 40 });
+
+    await scheduler.scheduleForEntry(running, job, [running], NOW);
+    expect(Array.from(fake.scheduled.keys()).sort()).toEqual([
+      getReminderId('running', 'daily'),
+      getReminderId('running', 'weekly'),
+    ]);
+
+    const planned = await scheduler.scheduleForEntry(running, makeJob({ dailyReminderThreshold: 8 }), [running], NOW + HOUR);
+    expect(planned).toHaveLength(1);
+    expect(Array.from(fake.scheduled.keys())).toEqual([getReminderId('running', 'daily')]);
+    expect(fake.scheduled.get(getReminderId('running', 'daily'))!.fireAt).toBe(NOW + 6 * HOUR);
+  });
+
+  it('cancels both reminders for an entry', async () => {
+    const fake = createFakeNotifier();
+    const scheduler = createReminderScheduler(fake.notifier);
+
+    await scheduler.scheduleForEntry(running, makeJob({ dailyReminderThreshold: 8, weeklyReminderThreshold: 40 }), [running], NOW);
+    await scheduler.cancelForEntry('running');
+    expect(fake.scheduled.size).toBe(0);
+    expect(fake.cancelled).toContain(getReminderId('running', 'weekly'));
+  });
+});
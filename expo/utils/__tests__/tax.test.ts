@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { Job, TaxSettings } from '@/types';
+import { getJobTaxRate } from '@/utils/tax';
+
+const taxSettings: TaxSettings = { defaultTaxRate: 25, currency: 'USD', currencySymbol: '$' };
+
+const jobWithRate = (estimatedTaxRate?: number): Job => ({
+  id: 'job-1',
+  name: 'Design',
+  client: 'Acme',
+  hourlyRate: 80,
+  color: '#000000',
+  settings: { estimatedTaxRate },
+  createdAt: 0,
+});
+
+describe('getJobTaxRate', () => {
+  it('uses the business default when the job has no rate', () => {
+    expect(getJobTaxRate(jobWithRate(), taxSettings)).toBe(25);
+  });
+
+  it('keeps an explicit 0% on the job', () => {
+    expect(getJobTaxRate(jobWithRate(0), taxSettings)).toBe(0);
+    expect(getJobTaxRate(jobWithRate(12), taxSettings)).toBe(12);
+  });
+});
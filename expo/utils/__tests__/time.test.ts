@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatPayPeriodRange,
+  getEndOfWeek,
+  getPayPeriodDates,
+  getStartOfWeek,
+  normalizeWeekday,
+} from '@/utils/time';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const at = (iso: string) => Date.parse(iso);
+
+const periodOf = (iso: string, type: string, startDay: number, timeZone: string, anchorDate?: number) => {
+  const { start, end } = getPayPeriodDates(at(iso), type, startDay, anchorDate, timeZone);
+  return { start: start.toISOString(), end: end.toISOString() };
+};
+
+// The period after the given one must start the millisecond after it ends
+const nextPeriodStart = (iso: string, type: string, startDay: number, timeZone: string, anchorDate?: number) => {
+  const { end } = getPayPeriodDates(at(iso), type, startDay, anchorDate, timeZone);
+  return getPayPeriodDates(end.getTime() + 1, type, startDay, anchorDate, timeZone).start.getTime() - end.getTime();
+};
+
+describe('weekly periods', () => {
+  const zone = 'America/New_York';
+
+  it('is a day short across spring-forward', () => {
+    expect(periodOf('2024-03-12T15:00:00Z', 'weekly', 0, zone)).toEqual({
+      start: '2024-03-10T05:00:00.000Z',
+      end: '2024-03-17T03:59:59.999Z',
+    });
+    const { start, end } = getPayPeriodDates(at('2024-03-12T15:00:00Z'), 'weekly', 0, undefined, zone);
+    expect(end.getTime() + 1 - start.getTime()).toBe(7 * DAY - HOUR);
+  });
+
+  it('is an hour long across fall-back', () => {
+    expect(periodOf('2024-11-03T05:30:00Z', 'weekly', 0, zone)).toEqual({
+      start: '2024-11-03T04:00:00.000Z',
+      end: '2024-11-10T04:59:59.999Z',
+    });
+  });
+
+  it('puts an entry just before local midnight in the right week', () => {
+    // 23:30 on Saturday 9 March in New York is already Sunday in UTC
+    expect(getStartOfWeek(at('2024-03-10T04:30:00Z'), 0, zone).toISOString()).toBe('2024-03-03T05:00:00.000Z');
+    expect(getStartOfWeek(at('2024-03-10T04:30:00Z'), 0, 'UTC').toISOString()).toBe('2024-03-10T00:00:00.000Z');
+  });
+
+  it('leaves no gap between consecutive weeks over DST changes', () => {
+    expect(nextPeriodStart('2024-03-06T12:00:00Z', 'weekly', 0, zone)).toBe(1);
+    expect(nextPeriodStart('2024-10-30T12:00:00Z', 'weekly', 3, zone)).toBe(1);
+  });
+
+  it('starts on a skipped midnight at the first valid instant', () => {
+    expect(periodOf('2024-09-10T12:00:00Z', 'weekly', 0, 'America/Santiago')).toEqual({
+      start: '2024-09-08T04:00:00.000Z',
+      end: '2024-09-15T02:59:59.999Z',
+    });
+    expect(getEndOfWeek(at('2024-09-05T12:00:00Z'), 0, 'America/Santiago').toISOString()).toBe('2024-09-08T03:59:59.999Z');
+  });
+});
+
+describe('week start days', () => {
+  it('wraps out-of-range weekdays', () => {
+    expect(normalizeWeekday(0)).toBe(0);
+    expect(normalizeWeekday(6)).toBe(6);
+    expect(normalizeWeekday(15)).toBe(1);
+    expect(normalizeWeekday(-1)).toBe(6);
+    expect(normalizeWeekday(NaN)).toBe(0);
+  });
+
+  it('never starts a week after the date it contains', () => {
+    const sunday = at('2024-03-10T12:00:00Z');
+    expect(getStartOfWeek(sunday, 15, 'UTC').toISOString()).toBe('2024-03-04T00:00:00.000Z');
+    for (let startDay = -7; startDay <= 28; startDay++) {
+      const start = getStartOfWeek(sunday, startDay, 'UTC').getTime();
+      expect(start).toBeLessThanOrEqual(sunday);
+      expect(sunday - start).toBeLessThan(7 * DAY);
+    }
+  });
+});
+
+describe('semi-monthly periods', () => {
+  it('splits the month on the 16th in the zone', () => {
+    expect(periodOf('2024-03-05T12:00:00Z', 'semimonthly', 0, 'America/New_York')).toEqual({
+      start: '2024-03-01T05:00:00.000Z',
+      end: '2024-03-16T03:59:59.999Z',
+    });
+  });
+
+  it('ends at local midnight after a spring-forward', () => {
+    expect(periodOf('2024-03-20T12:00:00Z', 'semimonthly', 0, 'Europe/London')).toEqual({
+      start: '2024-03-16T00:00:00.000Z',
+      end: '2024-03-31T22:59:59.999Z',
+    });
+  });
+
+  it('covers a fall-back without gaps', () => {
+    expect(periodOf('2024-10-28T12:00:00Z', 'semimonthly', 0, 'Europe/London')).toEqual({
+      start: '2024-10-15T23:00:00.000Z',
+      end: '2024-10-31T23:59:59.999Z',
+    });
+    expect(nextPeriodStart('2024-10-28T12:00:00Z', 'semimonthly', 0, 'Europe/London')).toBe(1);
+  });
+});
+
+describe('monthly periods', () => {
+  const zone = 'America/New_York';
+
+  it('runs over a whole calendar month across fall-back', () => {
+    expect(periodOf('2024-11-03T05:30:00Z', 'monthly', 1, zone)).toEqual({
+      start: '2024-11-01T04:00:00.000Z',
+      end: '2024-12-01T04:59:59.999Z',
+    });
+  });
+
+  it('starts on the configured day of the month', () => {
+    expect(periodOf('2024-03-10T12:00:00Z', 'monthly', 15, zone)).toEqual({
+      start: '2024-02-15T05:00:00.000Z',
+      end: '2024-03-15T03:59:59.999Z',
+    });
+    expect(nextPeriodStart('2024-03-10T12:00:00Z', 'monthly', 15, zone)).toBe(1);
+  });
+
+  it('starts on the last day of shorter months', () => {
+    expect(periodOf('2023-03-05T12:00:00Z', 'monthly', 28, 'UTC')).toEqual({
+      start: '2023-02-28T00:00:00.000Z',
+      end: '2023-03-27T23:59:59.999Z',
+    });
+  });
+});
+
+describe('anchored biweekly periods', () => {
+  const zone = 'America/New_York';
+  const anchor = at('2024-03-04T05:00:00Z'); // Monday 4 March, local midnight
+
+  it('repeats every 14 days from the anchor across spring-forward', () => {
+    expect(periodOf('2024-03-10T12:00:00Z', 'biweekly', 0, zone, anchor)).toEqual({
+      start: '2024-03-04T05:00:00.000Z',
+      end: '2024-03-18T03:59:59.999Z',
+    });
+    expect(periodOf('2024-03-20T12:00:00Z', 'biweekly', 0, zone, anchor)).toEqual({
+      start: '2024-03-18T04:00:00.000Z',
+      end: '2024-04-01T03:59:59.999Z',
+    });
+  });
+
+  it('extends backwards from the anchor', () => {
+    expect(periodOf('2024-02-25T12:00:00Z', 'biweekly', 0, zone, anchor)).toEqual({
+      start: '2024-02-19T05:00:00.000Z',
+      end: '2024-03-04T04:59:59.999Z',
+    });
+  });
+
+  it('stays on the anchor weekday across fall-back', () => {
+    expect(periodOf('2024-11-05T12:00:00Z', 'biweekly', 0, zone, anchor)).toEqual({
+      start: '2024-10-28T04:00:00.000Z',
+      end: '2024-11-11T04:59:59.999Z',
+    });
+    expect(nextPeriodStart('2024-11-05T12:00:00Z', 'biweekly', 0, zone, anchor)).toBe(1);
+  });
+
+  it('alternates from the start day without an anchor', () => {
+    const { start } = getPayPeriodDates(at('2024-03-10T12:00:00Z'), 'biweekly', 1, undefined, 'UTC');
+    expect(start.getUTCDay()).toBe(1);
+  });
+});
+
+describe('period labels', () => {
+  // Compared with the same calendar dates in UTC, so the checks don't depend on the locale
+  const label = (iso: string, type: string, startDay: number, timeZone: string) => {
+    const { start, end } = getPayPeriodDates(at(iso), type, startDay, undefined, timeZone);
+    return formatPayPeriodRange(start.getTime(), end.getTime(), timeZone);
+  };
+
+  it('shows the dates in the job\'s timezone rather than the device\'s', () => {
+    // Monday 4 March starts at 15:00 UTC on the 3rd in Tokyo
+    expect(label('2024-03-06T12:00:00Z', 'weekly', 1, 'Asia/Tokyo'))
+      .toBe(formatPayPeriodRange(at('2024-03-04T00:00:00Z'), at('2024-03-10T23:59:59.999Z'), 'UTC'));
+  });
+
+  it('names a whole month in the job\'s timezone', () => {
+    expect(label('2024-11-15T12:00:00Z', 'monthly', 1, 'America/New_York'))
+      .toBe(formatPayPeriodRange(at('2024-11-01T00:00:00Z'), at('2024-11-30T23:59:59.999Z'), 'UTC'));
+    expect(label('2024-11-15T12:00:00Z', 'monthly', 1, 'America/New_York')).not.toContain('–');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addCalendarDays,
+  formatDateInput,
+  getCalendarDate,
+  getDayNumber,
+  getStartOfCalendarDate,
+  getStartOfZonedDay,
+  getTimeZoneOffset,
+  getZonedDateTime,
+  isValidTimeZone,
+  parseDateInput,
+  resolveTimeZone,
+  zonedTimeToTimestamp,
+} from '@/utils/timezone';
+
+const HOUR = 60 * 60 * 1000;
+const at = (iso: string) => Date.parse(iso);
+
+describe('time zone names', () => {
+  it('accepts IANA zones and rejects anything else', () => {
+    expect(isValidTimeZone('America/New_York')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+    expect(isValidTimeZone(undefined)).toBe(false);
+  });
+
+  it('resolves to the first valid candidate', () => {
+    expect(resolveTimeZone(undefined, 'Not/AZone', 'Europe/London', 'UTC')).toBe('Europe/London');
+  });
+});
+
+describe('offsets', () => {
+  it('follows the zone across spring-forward and fall-back', () => {
+    expect(getTimeZoneOffset(at('2024-03-10T06:59:59Z'), 'America/New_York')).toBe(-5 * HOUR);
+    expect(getTimeZoneOffset(at('2024-03-10T07:00:00Z'), 'America/New_York')).toBe(-4 * HOUR);
+    expect(getTimeZoneOffset(at('2024-11-03T05:59:59Z'), 'America/New_York')).toBe(-4 * HOUR);
+    expect(getTimeZoneOffset(at('2024-11-03T06:00:00Z'), 'America/New_York')).toBe(-5 * HOUR);
+  });
+
+  it('reads wall-clock parts in the zone, not the device', () => {
+    expect(getZonedDateTime(at('2024-03-31T00:30:00Z'), 'Europe/London')).toEqual({
+      year: 2024, month: 3, day: 31, hour: 0, minute: 30, second: 0, weekday: 0,
+    });
+    expect(getZonedDateTime(at('2024-03-31T01:30:00Z'), 'Europe/London')).toEqual({
+      year: 2024, month: 3, day: 31, hour: 2, minute: 30, second: 0, weekday: 0,
+    });
+  });
+});
+
+describe('zonedTimeToTimestamp', () => {
+  it('converts ordinary wall-clock times', () => {
+    expect(zonedTimeToTimestamp({ year: 2024, month: 7, day: 1 }, 'America/New_York', 9, 15)).toBe(at('2024-07-01T13:15:00Z'));
+    expect(zonedTimeToTimestamp({ year: 2024, month: 1, day: 1 }, 'America/New_York', 9, 15)).toBe(at('2024-01-01T14:15:00Z'));
+  });
+
+  it('moves a time skipped by spring-forward to just after the jump', () => {
+    // 02:30 does not exist on 10 March 2024 in New York; 02:30 EST is 03:30 EDT
+    expect(zonedTimeToTimestamp({ year: 2024, month: 3, day: 10 }, 'America/New_York', 2, 30)).toBe(at('2024-03-10T07:30:00Z'));
+  });
+
+  it('takes the first occurrence of a time repeated by fall-back', () => {
+    expect(zonedTimeToTimestamp({ year: 2024, month: 11, day: 3 }, 'America/New_York', 1, 30)).toBe(at('2024-11-03T05:30:00Z'));
+  });
+
+  it('starts a day whose midnight is skipped at the first valid instant', () => {
+    // Santiago moved from 00:00 -04 straight to 01:00 -03 on 8 September 2024
+    const start = getStartOfCalendarDate({ year: 2024, month: 9, day: 8 }, 'America/Santiago');
+    expect(start).toBe(at('2024-09-08T04:00:00Z'));
+    expect(getCalendarDate(start, 'America/Santiago')).toEqual({ year: 2024, month: 9, day: 8 });
+    expect(getCalendarDate(start - 1, 'America/Santiago')).toEqual({ year: 2024, month: 9, day: 7 });
+  });
+});
+
+describe('calendar days', () => {
+  it('has 23 and 25 hour days on DST changes', () => {
+    const zone = 'America/New_York';
+    const springStart = getStartOfZonedDay(at('2024-03-10T15:00:00Z'), zone);
+    const springNext = getStartOfCalendarDate({ year: 2024, month: 3, day: 11 }, zone);
+    expect(springNext - springStart).toBe(23 * HOUR);
+
+    const fallStart = getStartOfZonedDay(at('2024-11-03T15:00:00Z'), zone);
+    const fallNext = getStartOfCalendarDate({ year: 2024, month: 11, day: 4 }, zone);
+    expect(fallNext - fallStart).toBe(25 * HOUR);
+  });
+
+  it('counts whole days across DST changes', () => {
+    const before = getCalendarDate(at('2024-03-09T17:00:00Z'), 'America/New_York');
+    const after = getCalendarDate(at('2024-03-11T16:00:00Z'), 'America/New_York');
+    expect(getDayNumber(after) - getDayNumber(before)).toBe(2);
+    expect(addCalendarDays({ year: 2024, month: 2, day: 28 }, 2)).toEqual({ year: 2024, month: 3, day: 1 });
+  });
+
+  it('puts an instant on the calendar date of the given zone', () => {
+    const instant = at('2024-06-01T02:00:00Z');
+    expect(getCalendarDate(instant, 'UTC')).toEqual({ year: 2024, month: 6, day: 1 });
+    expect(getCalendarDate(instant, 'America/Los_Angeles')).toEqual({ year: 2024, month: 5, day: 31 });
+  });
+});
+
+describe('date inputs', () => {
+  it('round-trips dates as midnight in the zone', () => {
+    const parsed = parseDateInput('2024-11-03', 'America/New_York');
+    expect(parsed).toBe(at('2024-11-03T04:00:00Z'));
+    expect(formatDateInput(parsed!, 'America/New_York')).toBe('2024-11-03');
+  });
+
+  it('rejects malformed and impossible dates', () => {
+    expect(parseDateInput('2024-02-30', 'UTC')).toBeNull();
+    expect(parseDateInput('2024-13-01', 'UTC')).toBeNull();
+    expect(parseDateInput('3/10/2024', 'UTC')).toBeNull();
+    expect(formatDateInput(undefined, 'UTC')).toBe('');
+  });
+});
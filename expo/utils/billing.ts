@@ -0,0 +1,67 @@
+import { BillingModel, Job, Milestone } from '@/types';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+type BillingFields = Pick<Job, 'id' | 'billingModel' | 'fixedPrice' | 'completedAt' | 'milestones'>;
+
+export const BILLING_MODELS: { value: BillingModel; label: string }[] = [
+  { value: 'hourly', label: 'Hourly' },
+  { value: 'fixed', label: 'Fixed price' },
+  { value: 'milestone', label: 'Milestones' },
+];
+
+export const getBillingModel = (job: Pick<Job, 'billingModel'>): BillingModel => job.billingModel ?? 'hourly';
+
+export const getBillingModelLabel = (job: Pick<Job, 'billingModel'>): string => {
+  const model = getBillingModel(job);
+  return BILLING_MODELS.find(option => option.value === model)?.label ?? model;
+};
+
+export const isHourlyJob = (job: Pick<Job, 'billingModel'>): boolean => getBillingModel(job) === 'hourly';
+
+// A fixed-price job is handled as a single milestone for the whole fee, completed with the job
+export const getJobMilestones = (job: BillingFields): Milestone[] => {
+  switch (getBillingModel(job)) {
+    case 'fixed':
+      return [{
+        id: `${job.id}_fee`,
+        name: 'Fixed fee',
+        amount: job.fixedPrice || 0,
+        completedAt: job.completedAt ?? null,
+      }];
+    case 'milestone':
+      return job.milestones ?? [];
+    default:
+      return [];
+  }
+};
+
+export const isMilestoneCompleted = (milestone: Milestone, now: number = Date.now()): boolean => {
+  return milestone.completedAt != null && milestone.completedAt <= now;
+};
+
+export const isMilestoneOverdue = (milestone: Milestone, now: number = Date.now()): boolean => {
+  return !isMilestoneCompleted(milestone, now) && milestone.dueDate !== undefined && milestone.dueDate < now;
+};
+
+export const getEarnedMilestones = (job: BillingFields, now: number = Date.now()): Milestone[] => {
+  return getJobMilestones(job).filter(milestone => isMilestoneCompleted(milestone, now));
+};
+
+export const getMilestoneEarnings = (job: BillingFields, now: number = Date.now()): number => {
+  return getEarnedMilestones(job, now).reduce((total, milestone) => total + milestone.amount, 0);
+};
+
+// The whole fee for fixed-price and milestone jobs; hourly jobs have no set value
+export const getContractValue = (job: BillingFields): number | null => {
+  if (isHourlyJob(job)) return null;
+  return getJobMilestones(job).reduce((total, milestone) => total + milestone.amount, 0);
+};
+
+// Fixed-price work is measured against the whole contract, so its rate falls as more
+// time goes in. Returns null until some time has been tracked.
+export const getEffectiveHourlyRate = (job: BillingFields, totalEarnings: number, totalDuration: number): number | null => {
+  if (totalDuration <= 0) return null;
+  const value = getContractValue(job) ?? totalEarnings;
+  return value / (totalDuration / MS_PER_HOUR);
+};
@@ -0,0 +1,96 @@
+import { BreakEntry, JobSettings, PresetBreak, TimeEntry } from '@/types';
+import {
+  addCalendarDays,
+  getCalendarDate,
+  getDayNumber,
+  getWeekday,
+  resolveTimeZone,
+  zonedTimeToTimestamp,
+} from '@/utils/timezone';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const parseClockTime = (value: string): number | null => {
+  const [hours, minutes] = (value || '').split(':').map(Number);
+  if (isNaN(hours) || isNaN(minutes)) return null;
+  return hours * 60 + minutes;
+};
+
+// Automatic breaks get a stable id per preset occurrence so they can be
+// recomputed and dismissed without creating duplicates
+export const getAutoBreakId = (presetBreakId: string, occurrenceStart: number): string => {
+  return `auto_${presetBreakId}_${occurrenceStart}`;
+};
+
+export const isAutoBreak = (breakItem: BreakEntry): boolean => {
+  return !!breakItem.presetBreakId;
+};
+
+// Concrete occurrences of a preset break that overlap [rangeStart, rangeEnd], clipped to that
+// range. Days and clock times are read on the wall clock of the given zone.
+export const getPresetBreakOccurrences = (
+  preset: PresetBreak,
+  rangeStart: number,
+  rangeEnd: number,
+  timeZone: string
+): BreakEntry[] => {
+  const startMinutes = parseClockTime(preset.startTime);
+  const endMinutes = parseClockTime(preset.endTime);
+  if (startMinutes === null || endMinutes === null || !preset.days?.length) return [];
+  if (rangeEnd <= rangeStart) return [];
+
+  const occurrences: BreakEntry[] = [];
+  // Start a day early so presets that cross midnight are picked up
+  const lastDayNumber = getDayNumber(getCalendarDate(rangeEnd, timeZone));
+  let day = addCalendarDays(getCalendarDate(rangeStart, timeZone), -1);
+
+  while (getDayNumber(day) <= lastDayNumber) {
+    if (preset.days.includes(DAY_NAMES[getWeekday(day)])) {
+      const occurrenceStart = zonedTimeToTimestamp(day, timeZone, Math.floor(startMinutes / 60), startMinutes % 60);
+      const endDay = endMinutes <= startMinutes ? addCalendarDays(day, 1) : day;
+      const occurrenceEnd = zonedTimeToTimestamp(endDay, timeZone, Math.floor(endMinutes / 60), endMinutes % 60);
+
+      const start = Math.max(occurrenceStart, rangeStart);
+      const end = Math.min(occurrenceEnd, rangeEnd);
+      if (end > start) {
+        occurrences.push({
+          id: getAutoBreakId(preset.id, occurrenceStart),
+          startTime: start,
+          endTime: end,
+          presetBreakId: preset.id,
+        });
+      }
+    }
+    day = addCalendarDays(day, 1);
+  }
+
+  return occurrences;
+};
+
+// Returns the entry's breaks with automatic preset breaks for [entry.startTime, sessionEnd] merged in,
+// timed in the job's billing timezone, else the zone the entry was recorded in.
+// Existing automatic breaks are recomputed, dismissed ones are skipped, and presets that
+// overlap a manually recorded break are left out so time is never deducted twice.
+export const applyAutomaticBreaks = (
+  entry: TimeEntry,
+  settings: JobSettings | undefined,
+  sessionEnd: number
+): BreakEntry[] => {
+  const existing = entry.breaks || [];
+  if (!settings?.automaticBreaks || !settings.presetBreaks?.length) return existing;
+
+  const manualBreaks = existing.filter(breakItem => !isAutoBreak(breakItem));
+  const dismissed = new Set(entry.dismissedAutoBreakIds || []);
+  const timeZone = resolveTimeZone(settings.billingTimeZone, entry.timeZone);
+
+  const overlapsManual = (breakItem: BreakEntry) => manualBreaks.some(manual => {
+    const manualEnd = manual.endTime ?? sessionEnd;
+    return breakItem.startTime < manualEnd && (breakItem.endTime ?? sessionEnd) > manual.startTime;
+  });
+
+  const automatic = settings.presetBreaks
+    .flatMap(preset => getPresetBreakOccurrences(preset, entry.startTime, sessionEnd, timeZone))
+    .filter(breakItem => !dismissed.has(breakItem.id) && !overlapsManual(breakItem));
+
+  return [...manualBreaks, ...automatic].sort((a, b) => a.startTime - b.startTime);
+};
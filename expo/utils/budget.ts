@@ -0,0 +1,213 @@
+import { BudgetPeriod, BudgetRollover, BudgetUnit, Job, JobBudget, TimeEntry } from '@/types';
+import { calculateJobEarnings } from '@/utils/earnings';
+import { formatDuration, getEndOfMonth, getStartOfMonth } from '@/utils/time';
+import { getStartOfZonedDay, resolveTimeZone } from '@/utils/timezone';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+export const DEFAULT_BUDGET_ALERTS = [75, 90, 100];
+
+export const BUDGET_UNITS: { value: BudgetUnit; label: string }[] = [
+  { value: 'hours', label: 'Hours' },
+  { value: 'money', label: 'Money' },
+];
+
+export const BUDGET_PERIODS: { value: BudgetPeriod; label: string }[] = [
+  { value: 'monthly', label: 'Per month' },
+  { value: 'total', label: 'Whole job' },
+];
+
+export const BUDGET_ROLLOVERS: { value: BudgetRollover; label: string }[] = [
+  { value: 'none', label: 'No rollover' },
+  { value: 'unused', label: 'Roll over unused' },
+  { value: 'all', label: 'Roll over unused and overruns' },
+];
+
+// One month of a monthly budget, or the whole of a total one (end is null)
+export interface BudgetWindow {
+  start: number;
+  end: number | null;
+  carriedIn: number;
+  allowance: number; // The budget amount plus whatever carried in
+  used: number;
+  remaining: number; // Negative once the allowance is overrun
+  carriedOut: number;
+}
+
+export interface BurnDownPoint {
+  date: number; // Start of the day
+  remaining: number; // Left at the end of that day
+}
+
+export interface BudgetStatus {
+  budget: JobBudget;
+  current: BudgetWindow;
+  history: BudgetWindow[]; // Closed months, oldest first
+  percentUsed: number;
+  burnDown: BurnDownPoint[]; // Starts with the full allowance, then one point per day with usage
+}
+
+// Tracks which alerts have gone out for a job's current budget window
+export interface BudgetAlertRecord {
+  windowStart: number;
+  thresholds: number[];
+  reportedWindowStart?: number; // Last closed month whose unused budget was reported
+}
+
+export interface BudgetNotification {
+  id: string;
+  title: string;
+  body: string;
+}
+
+export const getBudgetAlertThresholds = (budget: JobBudget): number[] => {
+  const thresholds = budget.alertThresholds ?? DEFAULT_BUDGET_ALERTS;
+  return [...new Set(thresholds.filter(threshold => threshold > 0))].sort((a, b) => a - b);
+};
+
+export const formatBudgetAmount = (unit: BudgetUnit, amount: number, formatMoney: (amount: number) => string): string => {
+  return unit === 'hours' ? formatDuration(Math.round(amount * MS_PER_HOUR)) : formatMoney(amount);
+};
+
+// Billable usage per day in the budget's unit; money uses the job's earnings so overtime counts
+const getDailyUsage = (job: Job, timeEntries: TimeEntry[], unit: BudgetUnit, now: number): Map<number, number> => {
+  const usage = new Map<number, number>();
+  calculateJobEarnings(job, timeEntries, now).entries.forEach(breakdown => {
+    if (!breakdown.billable) return;
+    const amount = unit === 'hours' ? breakdown.hours : breakdown.totalEarnings;
+    usage.set(breakdown.dayStart, (usage.get(breakdown.dayStart) || 0) + amount);
+  });
+  return usage;
+};
+
+const getCarryOver = (budget: JobBudget, remaining: number): number => {
+  const rollover = budget.rollover ?? 'none';
+  if (rollover === 'none' || (rollover === 'unused' && remaining <= 0)) return 0;
+  return budget.rolloverCap !== undefined && budget.rolloverCap > 0
+    ? Math.min(remaining, budget.rolloverCap)
+    : remaining;
+};
+
+const sumUsage = (usage: Map<number, number>, start: number, end: number | null): number => {
+  let total = 0;
+  usage.forEach((amount, day) => {
+    if (day >= start && (end === null || day <= end)) total += amount;
+  });
+  return total;
+};
+
+// Works out the job's budget windows up to now. Monthly budgets follow calendar months in
+// the job's billing timezone, carrying leftovers forward according to the rollover rule.
+// Returns null when the job has no budget.
+export const getBudgetStatus = (job: Job, timeEntries: TimeEntry[], now: number = Date.now()): BudgetStatus | null => {
+  const budget = job.settings?.budget;
+  if (!budget || !(budget.amount > 0)) return null;
+
+  const timeZone = resolveTimeZone(job.settings?.billingTimeZone);
+  const usage = getDailyUsage(job, timeEntries, budget.unit, now);
+  const startDate = budget.startDate ?? job.createdAt;
+  const firstDay = getStartOfZonedDay(startDate, timeZone);
+  const windows: BudgetWindow[] = [];
+
+  if (budget.period === 'total') {
+    const start = firstDay;
+    const used = sumUsage(usage, start, null);
+    windows.push({
+      start,
+      end: null,
+      carriedIn: 0,
+      allowance: budget.amount,
+      used,
+      remaining: budget.amount - used,
+      carriedOut: 0,
+    });
+  } else {
+    let start = getStartOfMonth(Math.min(startDate, now), 1, timeZone).getTime();
+    let carriedIn = 0;
+    while (true) {
+      const end = getEndOfMonth(start, 1, timeZone).getTime();
+      // A budget starting mid-month ignores the time before it
+      const used = sumUsage(usage, Math.max(start, firstDay), end);
+      const allowance = budget.amount + carriedIn;
+      const remaining = allowance - used;
+      const carriedOut = getCarryOver(budget, remaining);
+      windows.push({ start, end, carriedIn, allowance, used, remaining, carriedOut });
+      if (end >= now) break;
+      start = end + 1;
+      carriedIn = carriedOut;
+    }
+  }
+
+  const current = windows[windows.length - 1];
+  const burnDown: BurnDownPoint[] = [{ date: current.start, remaining: current.allowance }];
+  let remaining = current.allowance;
+  [...usage.keys()]
+    .filter(day => day >= current.start && (current.end === null || day <= current.end))
+    .sort((a, b) => a - b)
+    .forEach(day => {
+      remaining -= usage.get(day) || 0;
+      burnDown.push({ date: day, remaining });
+    });
+
+  return {
+    budget,
+    current,
+    history: windows.slice(0, -1),
+    percentUsed: current.allowance > 0
+      ? (current.used / current.allowance) * 100
+      : current.used > 0 ? 100 : 0,
+    burnDown,
+  };
+};
+
+// Decides which alerts are due for the job's current budget: thresholds passed since the
+// last alert in this window, and the unused budget of the month that most recently closed.
+export const planBudgetNotifications = (
+  job: Job,
+  status: BudgetStatus,
+  record: BudgetAlertRecord | undefined,
+  formatMoney: (amount: number) => string
+): { notifications: BudgetNotification[]; record: BudgetAlertRecord } => {
+  const { budget, current } = status;
+  const format = (amount: number) => formatBudgetAmount(budget.unit, amount, formatMoney);
+  const notifications: BudgetNotification[] = [];
+
+  const alerted = record?.windowStart === current.start ? record.thresholds : [];
+  const crossed = getBudgetAlertThresholds(budget)
+    .filter(threshold => status.percentUsed >= threshold && !alerted.includes(threshold));
+  if (crossed.length > 0) {
+    const threshold = crossed[crossed.length - 1];
+    notifications.push({
+      id: `budget_${job.id}_${current.start}_${threshold}`,
+      title: current.remaining <= 0 ? `${job.name}: budget used up` : `${job.name}: ${threshold}% of budget used`,
+      body: current.remaining < 0
+        ? `You're ${format(-current.remaining)} over the ${format(current.allowance)} budget.`
+        : `${format(current.used)} of ${format(current.allowance)} used, ${format(current.remaining)} left.`,
+    });
+  }
+
+  let reportedWindowStart = record?.reportedWindowStart;
+  const lastClosed = status.history[status.history.length - 1];
+  if (lastClosed && lastClosed.start !== reportedWindowStart) {
+    reportedWindowStart = lastClosed.start;
+    if (lastClosed.remaining > 0) {
+      const month = new Date(lastClosed.start).toLocaleDateString([], { month: 'long', year: 'numeric' });
+      notifications.push({
+        id: `budget_${job.id}_${lastClosed.start}_unused`,
+        title: `${job.name}: unused budget in ${month}`,
+        body: lastClosed.carriedOut > 0
+          ? `${format(lastClosed.remaining)} went unused; ${format(lastClosed.carriedOut)} rolled over to this month.`
+          : `${format(lastClosed.remaining)} went unused.`,
+      });
+    }
+  }
+
+  return {
+    notifications,
+    record: {
+      windowStart: current.start,
+      thresholds: [...new Set([...alerted, ...crossed])],
+      reportedWindowStart,
+    },
+  };
+};
@@ -0,0 +1,85 @@
+import { Client, Job, PayPeriod, Payment, TaxSettings, TimeEntry } from '@/types';
+import { calculateJobEarnings } from '@/utils/earnings';
+import { getPaidAmount } from '@/utils/payments';
+import { getCurrencyByCode } from '@/constants/currencies';
+
+export interface ClientJobSummary {
+  job: Job;
+  totalDuration: number;
+  totalEarnings: number;
+  paidEarnings: number;
+  unpaidEarnings: number;
+  lastWorkedAt: number | null;
+}
+
+export interface ClientSummary {
+  jobs: ClientJobSummary[];
+  totalDuration: number;
+  totalEarnings: number;
+  paidEarnings: number;
+  unpaidBalance: number;
+  lastWorkedAt: number | null;
+}
+
+// Jobs created before clients existed only carry the client's name
+export const isJobForClient = (job: Job, client: Client): boolean => {
+  if (job.clientId) return job.clientId === client.id;
+  return job.client.trim().toLowerCase() === client.name.trim().toLowerCase();
+};
+
+// The client's own currency, or the business one when it doesn't set one
+export const getClientCurrency = (
+  client: Client | undefined,
+  taxSettings: TaxSettings
+): { currency: string; currencySymbol: string } => {
+  const currency = client?.currency && getCurrencyByCode(client.currency);
+  return currency
+    ? { currency: currency.code, currencySymbol: currency.symbol }
+    : { currency: taxSettings.currency, currencySymbol: taxSettings.currencySymbol };
+};
+
+// Hours and earnings across every job for the client. Unpaid is worked time not yet
+// covered by payments or a paid pay period, the same figure the job screen shows.
+export function getClientSummary(
+  client: Client,
+  jobs: Job[],
+  timeEntries: TimeEntry[],
+  payPeriods: PayPeriod[],
+  payments: Payment[]
+): ClientSummary {
+  const jobSummaries = jobs
+    .filter(job => isJobForClient(job, client))
+    .map((job): ClientJobSummary => {
+      const entries = timeEntries.filter(entry => entry.jobId === job.id && entry.endTime !== null);
+      const earnings = calculateJobEarnings(job, entries);
+      const paidEarnings = getPaidAmount(
+        payPeriods.filter(period => period.jobId === job.id),
+        payments.filter(payment => payment.jobId === job.id)
+      );
+
+      return {
+        job,
+        totalDuration: earnings.totalDuration,
+        totalEarnings: earnings.totalEarnings,
+        paidEarnings,
+        unpaidEarnings: Math.max(0, earnings.totalEarnings - paidEarnings),
+        lastWorkedAt: entries.reduce<number | null>(
+          (latest, entry) => Math.max(latest ?? 0, entry.endTime ?? entry.startTime),
+          null
+        ),
+      };
+    })
+    .sort((a, b) => (b.lastWorkedAt ?? b.job.createdAt) - (a.lastWorkedAt ?? a.job.createdAt));
+
+  return {
+    jobs: jobSummaries,
+    totalDuration: jobSummaries.reduce((total, summary) => total + summary.totalDuration, 0),
+    totalEarnings: jobSummaries.reduce((total, summary) => total + summary.totalEarnings, 0),
+    paidEarnings: jobSummaries.reduce((total, summary) => total + summary.paidEarnings, 0),
+    unpaidBalance: jobSummaries.reduce((total, summary) => total + summary.unpaidEarnings, 0),
+    lastWorkedAt: jobSummaries.reduce<number | null>(
+      (latest, summary) => summary.lastWorkedAt === null ? latest : Math.max(latest ?? 0, summary.lastWorkedAt),
+      null
+    ),
+  };
+}
@@ -0,0 +1,391 @@
+import { Job, PayPeriod, TimeEntry } from '@/types';
+import { findPaidPeriodsForChange, isPayPeriodLocked } from '@/utils/period-locks';
+
+const MS_PER_MINUTE = 1000 * 60;
+const MS_PER_HOUR = MS_PER_MINUTE * 60;
+const MS_PER_DAY = MS_PER_HOUR * 24;
+
+// Exports that only have a date and an hours total (Harvest) are placed at this local time
+const DEFAULT_START_HOUR = 9;
+
+export const DEFAULT_IMPORT_CLIENT = 'Imported';
+
+export type ImportSource = 'toggl' | 'clockify' | 'harvest' | 'generic';
+
+export type ImportField =
+  | 'project'
+  | 'client'
+  | 'note'
+  | 'startDate'
+  | 'startTime'
+  | 'endDate'
+  | 'endTime'
+  | 'duration';
+
+export type ImportColumnMapping = Record<ImportField, number | null>;
+
+// locked: the time falls in a paid pay period, so it is not imported
+export type ImportRowStatus = 'new' | 'duplicate' | 'invalid' | 'locked';
+
+export interface ImportPreviewRow {
+  lineNumber: number;
+  jobName: string;
+  clientName: string;
+  jobId: string | null; // Existing job, or null when the import will create it
+  startTime: number | null;
+  endTime: number | null;
+  note: string;
+  status: ImportRowStatus;
+  message?: string;
+}
+
+export interface ImportPreview {
+  source: ImportSource;
+  headers: string[];
+  mapping: ImportColumnMapping;
+  rows: ImportPreviewRow[];
+  newJobNames: string[];
+}
+
+export interface ImportEntryInput {
+  jobId: string | null;
+  jobName: string;
+  clientName: string;
+  startTime: number;
+  endTime: number;
+  note: string;
+}
+
+// Header aliases in priority order, compared lowercased and trimmed
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  project: ['project', 'project name', 'job', 'job name'],
+  client: ['client', 'client name', 'customer'],
+  note: ['description', 'notes', 'note', 'task'],
+  startDate: ['start date', 'date', 'start', 'started at', 'spent date'],
+  startTime: ['start time'],
+  endDate: ['end date', 'end', 'ended at'],
+  endTime: ['end time'],
+  duration: ['duration (decimal)', 'hours', 'duration (h)', 'duration', 'time (h)'],
+};
+
+// RFC 4180 parsing: quoted fields may contain commas, newlines and doubled quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+// The trimmed header row, so columns can be mapped before the preview is built
+export const readImportHeaders = (text: string): string[] => {
+  const [headerRow] = parseCsv(text);
+  if (!headerRow) {
+    throw new Error('The file is empty');
+  }
+  return headerRow.map(header => header.trim());
+};
+
+export const detectColumnMapping = (headers: string[]): ImportColumnMapping => {
+  const normalized = headers.map(header => header.trim().toLowerCase());
+  const mapping = {} as ImportColumnMapping;
+
+  (Object.keys(FIELD_ALIASES) as ImportField[]).forEach(field => {
+    const index = FIELD_ALIASES[field]
+      .map(alias => normalized.indexOf(alias))
+      .find(position => position !== -1);
+    mapping[field] = index ?? null;
+  });
+
+  return mapping;
+};
+
+export const detectImportSource = (headers: string[]): ImportSource => {
+  const normalized = headers.map(header => header.trim().toLowerCase());
+  const has = (name: string) => normalized.includes(name);
+
+  if (has('spent date') || (has('date') && has('hours') && has('project'))) return 'harvest';
+  if (has('duration (h)') || has('duration (decimal)')) return 'clockify';
+  if (has('start date') && has('start time') && has('duration')) return 'toggl';
+  return 'generic';
+};
+
+const parseDatePart = (text: string): { year: number; month: number; day: number } | null => {
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (match) {
+    return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  }
+
+  match = text.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+  if (match) {
+    return { year: Number(match[3]), month: Number(match[2]), day: Number(match[1]) };
+  }
+
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (match) {
+    // US order unless the first part can only be a day
+    const first = Number(match[1]);
+    const second = Number(match[2]);
+    return first > 12
+      ? { year: Number(match[3]), month: second, day: first }
+      : { year: Number(match[3]), month: first, day: second };
+  }
+
+  return null;
+};
+
+const parseTimePart = (text: string): { hours: number; minutes: number; seconds: number } | null => {
+  const match = text.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]\.?m\.?)?$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const seconds = match[3] ? Number(match[3]) : 0;
+  const meridiem = match[4]?.toLowerCase().replace(/\./g, '');
+
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+  return { hours, minutes, seconds };
+};
+
+// Parses a date with an optional separate time column, or a combined "date time" /
+// ISO value. Returns a local timestamp, or null when the value can't be read.
+export const parseImportDateTime = (dateText: string, timeText?: string): number | null => {
+  const trimmed = dateText.trim();
+  if (!trimmed) return null;
+
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    const timestamp = Date.parse(trimmed);
+    return isNaN(timestamp) ? null : timestamp;
+  }
+
+  const [datePartText, ...rest] = trimmed.split(/\s+/);
+  const date = parseDatePart(datePartText);
+  if (!date) return null;
+
+  const combinedTime = rest.join(' ');
+  const time = timeText?.trim()
+    ? parseTimePart(timeText)
+    : combinedTime
+      ? parseTimePart(combinedTime)
+      : { hours: 0, minutes: 0, seconds: 0 };
+  if (!time) return null;
+
+  const result = new Date(date.year, date.month - 1, date.day, time.hours, time.minutes, time.seconds);
+  if (result.getMonth() !== date.month - 1 || result.getDate() !== date.day) return null;
+  return result.getTime();
+};
+
+// "1:30:00", "1:30" or decimal hours ("1.5", "1,5")
+export const parseImportDuration = (text: string): number | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const clock = trimmed.match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  if (clock) {
+    return (Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3] || 0)) * 1000;
+  }
+
+  const hours = Number(trimmed.replace(',', '.'));
+  return isNaN(hours) ? null : Math.round(hours * MS_PER_HOUR);
+};
+
+const normalizeName = (value: string): string => value.trim().toLowerCase();
+
+export const getImportJobKey = (jobName: string, clientName: string): string => {
+  return `${normalizeName(jobName)}|${normalizeName(clientName)}`;
+};
+
+const getMinuteKey = (jobKey: string, startTime: number): string => {
+  return `${jobKey}|${Math.floor(startTime / MS_PER_MINUTE)}`;
+};
+
+const findExistingJob = (jobs: Job[], jobName: string, clientName: string, hasClient: boolean): Job | undefined => {
+  const name = normalizeName(jobName);
+  const client = normalizeName(clientName);
+  return jobs.find(job =>
+    normalizeName(job.name) === name && (!hasClient || normalizeName(job.client) === client)
+  );
+};
+
+// Maps each CSV row to a job and time range and flags rows that are invalid, already
+// tracked or in a paid pay period. A row is a duplicate when its job already has an entry
+// starting in the same minute, or when an earlier row of the same file does.
+// Columns are detected from the headers unless a mapping is given.
+export const buildImportPreview = (
+  text: string,
+  jobs: Job[],
+  timeEntries: TimeEntry[],
+  options: { mapping?: ImportColumnMapping; payPeriods?: PayPeriod[] } = {}
+): ImportPreview => {
+  const [headerRow, ...dataRows] = parseCsv(text);
+  if (!headerRow) {
+    throw new Error('The file is empty');
+  }
+
+  const headers = headerRow.map(header => header.trim());
+  const mapping = options.mapping ?? detectColumnMapping(headers);
+  const source = detectImportSource(headers);
+  const payPeriods = options.payPeriods ?? [];
+
+  if (mapping.startDate === null) {
+    throw new Error('Could not find a start date column');
+  }
+  if (mapping.endDate === null && mapping.endTime === null && mapping.duration === null) {
+    throw new Error('Could not find an end time or duration column');
+  }
+
+  const existingStarts = new Set<string>();
+  timeEntries.forEach(entry => {
+    if (!entry) return;
+    existingStarts.add(getMinuteKey(entry.jobId, entry.startTime));
+  });
+
+  const seenStarts = new Set<string>();
+  const newJobNames = new Map<string, string>();
+
+  const cell = (cells: string[], field: ImportField): string => {
+    const index = mapping[field];
+    return index !== null ? (cells[index] ?? '').trim() : '';
+  };
+
+  const rows = dataRows.map((cells, index): ImportPreviewRow => {
+    const lineNumber = index + 2;
+    const rawClient = cell(cells, 'client');
+    const clientName = rawClient || DEFAULT_IMPORT_CLIENT;
+    const jobName = cell(cells, 'project') || rawClient || 'Imported Time';
+    const note = cell(cells, 'note');
+    const existingJob = findExistingJob(jobs, jobName, clientName, !!rawClient);
+
+    const base = {
+      lineNumber,
+      jobName: existingJob?.name ?? jobName,
+      clientName: existingJob?.client ?? clientName,
+      jobId: existingJob?.id ?? null,
+      note,
+    };
+
+    const startTimeText = cell(cells, 'startTime');
+    let startTime = parseImportDateTime(cell(cells, 'startDate'), startTimeText);
+    if (startTime === null) {
+      return { ...base, startTime: null, endTime: null, status: 'invalid', message: 'Unreadable start date' };
+    }
+
+    const hasStartClock = !!startTimeText || /[\sT]\d{1,2}:\d{2}/.test(cell(cells, 'startDate'));
+    if (!hasStartClock) {
+      startTime += DEFAULT_START_HOUR * MS_PER_HOUR;
+    }
+
+    let endTime: number | null = null;
+    const endDateText = cell(cells, 'endDate');
+    const endTimeText = cell(cells, 'endTime');
+    if (endDateText || endTimeText) {
+      const startDay = new Date(startTime);
+      const fallbackDate = `${startDay.getFullYear()}-${startDay.getMonth() + 1}-${startDay.getDate()}`;
+      endTime = parseImportDateTime(endDateText || fallbackDate, endTimeText);
+      // An end time without its own date that is earlier than the start crossed midnight
+      if (endTime !== null && !endDateText && endTime <= startTime) {
+        endTime += MS_PER_DAY;
+      }
+    }
+    if (endTime === null) {
+      const duration = parseImportDuration(cell(cells, 'duration'));
+      if (duration !== null) {
+        endTime = startTime + duration;
+      }
+    }
+
+    if (endTime === null) {
+      return { ...base, startTime, endTime: null, status: 'invalid', message: 'Missing end time or duration' };
+    }
+    if (endTime <= startTime) {
+      return { ...base, startTime, endTime, status: 'invalid', message: 'End time is before start time' };
+    }
+
+    const jobKey = base.jobId ?? getImportJobKey(jobName, clientName);
+    const minuteKey = getMinuteKey(jobKey, startTime);
+    if (existingStarts.has(minuteKey)) {
+      return { ...base, startTime, endTime, status: 'duplicate', message: 'Already tracked' };
+    }
+    if (seenStarts.has(minuteKey)) {
+      return { ...base, startTime, endTime, status: 'duplicate', message: 'Repeated in file' };
+    }
+    seenStarts.add(minuteKey);
+
+    if (base.jobId) {
+      const paidPeriods = findPaidPeriodsForChange(payPeriods, null, { jobId: base.jobId, startTime, endTime });
+      if (paidPeriods.some(isPayPeriodLocked)) {
+        return { ...base, startTime, endTime, status: 'locked', message: 'In a paid pay period' };
+      }
+    }
+
+    if (!base.jobId) {
+      newJobNames.set(getImportJobKey(jobName, clientName), jobName);
+    }
+
+    return { ...base, startTime, endTime, status: 'new' };
+  });
+
+  return {
+    source,
+    headers,
+    mapping,
+    rows,
+    newJobNames: Array.from(newJobNames.values()),
+  };
+};
+
+export const getImportableEntries = (preview: ImportPreview): ImportEntryInput[] => {
+  return preview.rows
+    .filter(row => row.status === 'new' && row.startTime !== null && row.endTime !== null)
+    .map(row => ({
+      jobId: row.jobId,
+      jobName: row.jobName,
+      clientName: row.clientName,
+      startTime: row.startTime as number,
+      endTime: row.endTime as number,
+      note: row.note,
+    }));
+};
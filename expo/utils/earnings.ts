@@ -0,0 +1,184 @@
+import { Job, TimeEntry } from '@/types';
+import { getEntryBillableDuration, getJobWeekStartDay, getStartOfWeek } from '@/utils/time';
+import { getStartOfZonedDay, resolveTimeZone } from '@/utils/timezone';
+import { getJobRateAt } from '@/utils/rates';
+import { getMilestoneEarnings, isHourlyJob } from '@/utils/billing';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+export interface EntryEarnings {
+  entryId: string;
+  dayStart: number;
+  weekStart: number;
+  duration: number; // billable milliseconds
+  hours: number;
+  billable: boolean;
+  rate: number; // hourly rate applied to this entry, 0 when not billable
+  straightHours: number;
+  dailyOvertimeHours: number;
+  weeklyOvertimeHours: number;
+  straightEarnings: number;
+  dailyOvertimeEarnings: number;
+  weeklyOvertimeEarnings: number;
+  totalEarnings: number;
+  // Running totals after this entry, useful for explaining the breakdown
+  dayHoursToDate: number;
+  weekHoursToDate: number;
+}
+
+export interface JobEarnings {
+  entries: EntryEarnings[];
+  byEntryId: Record<string, EntryEarnings>;
+  totalDuration: number;
+  totalHours: number;
+  straightHours: number;
+  overtimeHours: number;
+  billableDuration: number;
+  nonBillableDuration: number;
+  milestoneEarnings: number; // Completed milestones or fixed fee
+  totalEarnings: number;
+}
+
+export interface OvertimeRules {
+  dailyThreshold: number | null;
+  dailyRate: number;
+  weeklyThreshold: number | null;
+  weeklyRate: number;
+  weekStartDay: number;
+}
+
+export const getOvertimeRules = (job: Job): OvertimeRules => {
+  const settings = job.settings;
+  return {
+    dailyThreshold: settings?.dailyOvertime === 'daily' ? settings.dailyOvertimeThreshold ?? 8 : null,
+    dailyRate: settings?.dailyOvertimeRate ?? 1.5,
+    weeklyThreshold: settings?.weeklyOvertime === 'weekly' ? settings.weeklyOvertimeThreshold ?? 40 : null,
+    weeklyRate: settings?.weeklyOvertimeRate ?? 1.5,
+    weekStartDay: getJobWeekStartDay(settings),
+  };
+};
+
+// Entries are billable unless explicitly marked otherwise
+export const isEntryBillable = (entry: TimeEntry): boolean => entry.billable !== false;
+
+// Time on fixed-price and milestone jobs is tracked but earns nothing by the hour
+export const getEntryRate = (entry: TimeEntry, job: Job): number => {
+  if (!isEntryBillable(entry) || !isHourlyJob(job)) return 0;
+  return entry.rateOverride ?? getJobRateAt(job, entry.startTime);
+};
+
+// Computes earnings for one job's entries in chronological order.
+// Daily overtime applies to hours beyond the threshold per calendar day (entries are
+// attributed to the day they start). Weekly overtime applies to the remaining straight
+// hours beyond the weekly threshold, so an hour is never paid as both daily and weekly OT.
+// Days and weeks are taken in the job's billing timezone, or otherwise the zone each
+// entry was recorded in.
+// Pass every entry of the job, not just one pay period, so day and week totals are complete.
+// Non-billable entries earn nothing and don't count towards the overtime thresholds.
+// Completed milestones are added on top of the entries' earnings.
+export const calculateJobEarnings = (
+  job: Job,
+  timeEntries: TimeEntry[],
+  now: number = Date.now()
+): JobEarnings => {
+  const rules = getOvertimeRules(job);
+
+  const dayHours = new Map<number, number>();
+  const weekStraightHours = new Map<number, number>();
+  const weekHours = new Map<number, number>();
+
+  const result: JobEarnings = {
+    entries: [],
+    byEntryId: {},
+    totalDuration: 0,
+    totalHours: 0,
+    straightHours: 0,
+    overtimeHours: 0,
+    billableDuration: 0,
+    nonBillableDuration: 0,
+    milestoneEarnings: getMilestoneEarnings(job, now),
+    totalEarnings: 0,
+  };
+
+  [...timeEntries]
+    .filter(entry => entry && entry.jobId === job.id)
+    .sort((a, b) => a.startTime - b.startTime)
+    .forEach(entry => {
+      const duration = getEntryBillableDuration(entry, job.settings, now);
+      const hours = duration / MS_PER_HOUR;
+      const timeZone = resolveTimeZone(job.settings?.billingTimeZone, entry.timeZone);
+      const dayStart = getStartOfZonedDay(entry.startTime, timeZone);
+      const weekStart = getStartOfWeek(entry.startTime, rules.weekStartDay, timeZone).getTime();
+      const billable = isEntryBillable(entry);
+      const rate = getEntryRate(entry, job);
+
+      let regularHours = hours;
+      let dailyOvertimeHours = 0;
+      if (billable && rules.dailyThreshold !== null) {
+        const dayBefore = dayHours.get(dayStart) || 0;
+        const dayCapacity = Math.max(0, rules.dailyThreshold - dayBefore);
+        regularHours = Math.min(hours, dayCapacity);
+        dailyOvertimeHours = hours - regularHours;
+      }
+
+      // Non-billable time is tracked in hours but is neither straight time nor overtime,
+      // so straight plus overtime hours always add up to the billable hours
+      let straightHours = billable ? regularHours : 0;
+      let weeklyOvertimeHours = 0;
+      if (billable && rules.weeklyThreshold !== null) {
+        const weekBefore = weekStraightHours.get(weekStart) || 0;
+        const weekCapacity = Math.max(0, rules.weeklyThreshold - weekBefore);
+        straightHours = Math.min(regularHours, weekCapacity);
+        weeklyOvertimeHours = regularHours - straightHours;
+      }
+
+      if (billable) {
+        dayHours.set(dayStart, (dayHours.get(dayStart) || 0) + hours);
+        weekStraightHours.set(weekStart, (weekStraightHours.get(weekStart) || 0) + regularHours);
+        weekHours.set(weekStart, (weekHours.get(weekStart) || 0) + hours);
+      }
+
+      const straightEarnings = straightHours * rate;
+      const dailyOvertimeEarnings = dailyOvertimeHours * rate * rules.dailyRate;
+      const weeklyOvertimeEarnings = weeklyOvertimeHours * rate * rules.weeklyRate;
+
+      const breakdown: EntryEarnings = {
+        entryId: entry.id,
+        dayStart,
+        weekStart,
+        duration,
+        hours,
+        billable,
+        rate,
+        straightHours,
+        dailyOvertimeHours,
+        weeklyOvertimeHours,
+        straightEarnings,
+        dailyOvertimeEarnings,
+        weeklyOvertimeEarnings,
+        totalEarnings: straightEarnings + dailyOvertimeEarnings + weeklyOvertimeEarnings,
+        dayHoursToDate: dayHours.get(dayStart) || 0,
+        weekHoursToDate: weekHours.get(weekStart) || 0,
+      };
+
+      result.entries.push(breakdown);
+      result.byEntryId[entry.id] = breakdown;
+      result.totalDuration += duration;
+      result.totalHours += hours;
+      result.straightHours += straightHours;
+      result.overtimeHours += dailyOvertimeHours + weeklyOvertimeHours;
+      if (billable) {
+        result.billableDuration += duration;
+      } else {
+        result.nonBillableDuration += duration;
+      }
+      result.totalEarnings += breakdown.totalEarnings;
+    });
+
+  result.totalEarnings += result.milestoneEarnings;
+  return result;
+};
+
+export const hasOvertime = (breakdown: EntryEarnings): boolean => {
+  return breakdown.dailyOvertimeHours > 0 || breakdown.weeklyOvertimeHours > 0;
+};
@@ -0,0 +1,45 @@
+import { DistanceUnit, Expense, ExpenseCategory, Job } from '@/types';
+import { roundMoney } from '@/utils/invoice';
+
+export const EXPENSE_CATEGORIES: { value: ExpenseCategory; label: string }[] = [
+  { value: 'materials', label: 'Materials' },
+  { value: 'equipment', label: 'Equipment' },
+  { value: 'travel', label: 'Travel' },
+  { value: 'meals', label: 'Meals' },
+  { value: 'software', label: 'Software' },
+  { value: 'other', label: 'Other' },
+];
+
+export const DISTANCE_UNITS: { value: DistanceUnit; label: string }[] = [
+  { value: 'km', label: 'Kilometres' },
+  { value: 'mi', label: 'Miles' },
+];
+
+export const getExpenseCategoryLabel = (category: ExpenseCategory): string => {
+  return EXPENSE_CATEGORIES.find(option => option.value === category)?.label ?? 'Other';
+};
+
+export const getMileageSettings = (job: Pick<Job, 'settings'>): { rate: number; unit: DistanceUnit } => {
+  return {
+    rate: job.settings?.mileageRate || 0,
+    unit: job.settings?.distanceUnit ?? 'km',
+  };
+};
+
+export const getMileageAmount = (distance: number, rate: number): number => {
+  return roundMoney(distance * rate);
+};
+
+// e.g. "42 km" for mileage, or the category for other expenses
+export const getExpenseTitle = (expense: Expense): string => {
+  if (expense.kind === 'mileage') {
+    return `Mileage · ${expense.distance ?? 0} ${expense.distanceUnit ?? 'km'}`;
+  }
+  return getExpenseCategoryLabel(expense.category);
+};
+
+export const getExpensesTotal = (expenses: Expense[], billableOnly = false): number => {
+  return roundMoney(expenses
+    .filter(expense => !billableOnly || expense.billable)
+    .reduce((total, expense) => total + expense.amount, 0));
+};
@@ -0,0 +1,196 @@
+import { Job, PayPeriod, TimeEntry } from '@/types';
+import { getEntryWorkDuration } from '@/utils/time';
+import { calculateJobEarnings } from '@/utils/earnings';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface ExportFilter {
+  startDate: number | null;
+  endDate: number | null;
+  jobId: string | null;
+}
+
+export interface ExportRow {
+  entryId: string;
+  jobId: string;
+  job: string;
+  client: string;
+  start: number;
+  end: number;
+  breakMinutes: number;
+  workedHours: number;
+  billable: boolean;
+  rate: number;
+  earnings: number;
+  paid: boolean;
+  payPeriodId: string | null;
+  note: string;
+}
+
+const round = (value: number, digits: number = 2): number => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+// Local "YYYY-MM-DD HH:mm", which spreadsheets parse without timezone surprises
+export const formatExportDateTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const formatFileDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+};
+
+const isInRange = (timestamp: number, filter: ExportFilter): boolean => {
+  if (filter.startDate !== null && timestamp < filter.startDate) return false;
+  if (filter.endDate !== null && timestamp > filter.endDate) return false;
+  return true;
+};
+
+// Completed entries matching the filter, with earnings computed over each job's full history
+// so overtime is the same as everywhere else in the app
+export const buildExportRows = (
+  jobs: Job[],
+  timeEntries: TimeEntry[],
+  filter: ExportFilter
+): ExportRow[] => {
+  const rows: ExportRow[] = [];
+
+  jobs
+    .filter(job => !filter.jobId || job.id === filter.jobId)
+    .forEach(job => {
+      const jobEntries = timeEntries.filter(entry => entry.jobId === job.id && entry.endTime !== null);
+      const earnings = calculateJobEarnings(job, jobEntries);
+
+      jobEntries
+        .filter(entry => isInRange(entry.startTime, filter))
+        .forEach(entry => {
+          const breakdown = earnings.byEntryId[entry.id];
+          const end = entry.endTime as number;
+          const breakMs = Math.max(0, (end - entry.startTime) - getEntryWorkDuration(entry));
+
+          rows.push({
+            entryId: entry.id,
+            jobId: job.id,
+            job: job.name,
+            client: job.client,
+            start: entry.startTime,
+            end,
+            breakMinutes: Math.round(breakMs / (1000 * 60)),
+            workedHours: round((breakdown?.duration ?? 0) / MS_PER_HOUR),
+            billable: breakdown?.billable ?? true,
+            rate: breakdown?.rate ?? job.hourlyRate,
+            earnings: round(breakdown?.totalEarnings ?? 0),
+            paid: !!entry.paidInPeriodId,
+            payPeriodId: entry.paidInPeriodId ?? null,
+            note: entry.note || '',
+          });
+        });
+    });
+
+  return rows.sort((a, b) => a.start - b.start);
+};
+
+// Spreadsheets run cells starting with these as formulas, so text like "=HYPERLINK(...)"
+// in a note is prefixed with a quote. Plain numbers such as "-12.50" are left alone.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMERIC_VALUE = /^[+-]?\d+(\.\d+)?$/;
+
+const escapeCsvValue = (value: string | number | boolean): string => {
+  let text = String(value);
+  if (FORMULA_PREFIX.test(text) && !NUMERIC_VALUE.test(text)) {
+    text = `'${text}`;
+  }
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+export const rowsToCsv = (rows: ExportRow[]): string => {
+  const header = ['Job', 'Client', 'Start', 'End', 'Break Minutes', 'Worked Hours', 'Billable', 'Rate', 'Earnings', 'Paid', 'Note'];
+  const lines = rows.map(row => [
+    row.job,
+    row.client,
+    formatExportDateTime(row.start),
+    formatExportDateTime(row.end),
+    row.breakMinutes,
+    row.workedHours.toFixed(2),
+    row.billable ? 'Yes' : 'No',
+    row.rate.toFixed(2),
+    row.earnings.toFixed(2),
+    row.paid ? 'Paid' : 'Unpaid',
+    row.note,
+  ].map(escapeCsvValue).join(','));
+
+  return [header.join(','), ...lines].join('\r\n');
+};
+
+export const buildJsonExport = (
+  jobs: Job[],
+  payPeriods: PayPeriod[],
+  rows: ExportRow[],
+  filter: ExportFilter
+): string => {
+  const jobIds = new Set(rows.map(row => row.jobId));
+  const exportedJobs = jobs.filter(job => filter.jobId ? job.id === filter.jobId : jobIds.has(job.id));
+  const exportedPeriods = payPeriods.filter(period =>
+    exportedJobs.some(job => job.id === period.jobId) &&
+    (filter.startDate === null || period.endDate >= filter.startDate) &&
+    (filter.endDate === null || period.startDate <= filter.endDate)
+  );
+
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    range: {
+      start: filter.startDate !== null ? new Date(filter.startDate).toISOString() : null,
+      end: filter.endDate !== null ? new Date(filter.endDate).toISOString() : null,
+    },
+    jobs: exportedJobs.map(job => ({
+      id: job.id,
+      name: job.name,
+      client: job.client,
+      hourlyRate: job.hourlyRate,
+    })),
+    payPeriods: exportedPeriods.map(period => ({
+      id: period.id,
+      jobId: period.jobId,
+      start: new Date(period.startDate).toISOString(),
+      end: new Date(period.endDate).toISOString(),
+      hours: round(period.totalDuration / MS_PER_HOUR),
+      earnings: round(period.totalEarnings),
+      isPaid: period.isPaid,
+      paidDate: period.paidDate ? new Date(period.paidDate).toISOString() : null,
+    })),
+    timeEntries: rows.map(row => ({
+      id: row.entryId,
+      jobId: row.jobId,
+      job: row.job,
+      client: row.client,
+      start: new Date(row.start).toISOString(),
+      end: new Date(row.end).toISOString(),
+      breakMinutes: row.breakMinutes,
+      workedHours: row.workedHours,
+      billable: row.billable,
+      rate: row.rate,
+      earnings: row.earnings,
+      paid: row.paid,
+      payPeriodId: row.payPeriodId,
+      note: row.note,
+    })),
+  }, null, 2);
+};
+
+export const getExportFileName = (format: ExportFormat, filter: ExportFilter, jobName?: string): string => {
+  const scope = jobName ? jobName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') : 'all-jobs';
+  const range = filter.startDate !== null
+    ? `${formatFileDate(filter.startDate)}-${formatFileDate(filter.endDate ?? Date.now())}`
+    : formatFileDate(Date.now());
+  return `time-entries-${scope || 'job'}-${range}.${format}`;
+};
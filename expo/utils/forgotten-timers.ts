@@ -0,0 +1,87 @@
+import { Job, JobSettings, TimeEntry } from '@/types';
+import { addCalendarDays, getCalendarDate, resolveTimeZone, zonedTimeToTimestamp } from '@/utils/timezone';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+export type ForgottenTimerReason = 'max-duration' | 'workday-end';
+
+export interface ForgottenTimer {
+  entry: TimeEntry;
+  job: Job | undefined;
+  reason: ForgottenTimerReason;
+  capTime: number; // When the entry crossed the limit
+  suggestedEndTime: number; // Best guess at when work actually stopped
+}
+
+const parseClockTime = (value: string | undefined): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || '');
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+// First time the job's workday end is reached after the entry started, on the wall
+// clock of the given zone
+export const getWorkdayEndAfter = (
+  startTime: number,
+  workdayEnd: string | undefined,
+  timeZone: string
+): number | null => {
+  const endMinutes = parseClockTime(workdayEnd);
+  if (endMinutes === null) return null;
+
+  const startDate = getCalendarDate(startTime, timeZone);
+  const end = zonedTimeToTimestamp(startDate, timeZone, Math.floor(endMinutes / 60), endMinutes % 60);
+  // Shifts that start after the workday end (e.g. night shifts) run until the next day's
+  if (end <= startTime) {
+    return zonedTimeToTimestamp(addCalendarDays(startDate, 1), timeZone, Math.floor(endMinutes / 60), endMinutes % 60);
+  }
+  return end;
+};
+
+// The earliest limit a running entry can reach before it counts as forgotten, or null
+// when the job sets neither a longest shift nor a workday end
+export const getRunningEntryCap = (
+  entry: TimeEntry,
+  settings: JobSettings | undefined
+): { reason: ForgottenTimerReason; capTime: number } | null => {
+  const durationCap = settings?.maxShiftHours && settings.maxShiftHours > 0
+    ? entry.startTime + settings.maxShiftHours * MS_PER_HOUR
+    : null;
+  const timeZone = resolveTimeZone(settings?.billingTimeZone, entry.timeZone);
+  const workdayCap = getWorkdayEndAfter(entry.startTime, settings?.workdayEnd, timeZone);
+
+  if (workdayCap !== null && (durationCap === null || workdayCap < durationCap)) {
+    return { reason: 'workday-end', capTime: workdayCap };
+  }
+  if (durationCap !== null) {
+    return { reason: 'max-duration', capTime: durationCap };
+  }
+  return null;
+};
+
+// Running entries that have passed their cap. A break that is still open when the
+// cap is reached is taken as the moment work stopped.
+export const findForgottenTimers = (
+  timeEntries: TimeEntry[],
+  jobs: Job[],
+  now: number = Date.now()
+): ForgottenTimer[] => {
+  const timers: ForgottenTimer[] = [];
+  timeEntries
+    .filter(entry => entry && entry.endTime === null && !entry.deletedAt)
+    .forEach(entry => {
+      const job = jobs.find(j => j.id === entry.jobId);
+      const cap = getRunningEntryCap(entry, job?.settings);
+      if (!cap || cap.capTime > now) return;
+
+      const openBreak = entry.isOnBreak
+        ? (entry.breaks || []).find(breakItem => breakItem.endTime === null)
+        : undefined;
+      const suggestedEndTime = openBreak ? Math.min(openBreak.startTime, cap.capTime) : cap.capTime;
+      timers.push({ entry, job, ...cap, suggestedEndTime: Math.max(entry.startTime, suggestedEndTime) });
+    });
+  return timers;
+};
@@ -0,0 +1,145 @@
+import { Expense, Invoice, InvoiceItem, InvoiceStatus, Job, PayPeriod, TimeEntry } from '@/types';
+import { formatDate, formatPayPeriodRange, getEntryBillableDuration } from '@/utils/time';
+import { generateId } from '@/utils/helpers';
+import { getEntryRate, isEntryBillable } from '@/utils/earnings';
+import { isHourlyJob } from '@/utils/billing';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+export const roundMoney = (amount: number): number => {
+  return Math.round((amount || 0) * 100) / 100;
+};
+
+export const formatInvoiceNumber = (sequence: number): string => {
+  return `INV-${String(Math.max(1, sequence)).padStart(4, '0')}`;
+};
+
+// Time entries are billed one line each at their own rate, and non-billable
+// entries are left out; pay periods are billed as a single line at their
+// recorded earnings so overtime already baked into the period carries through
+// to the invoice. Fixed-price and milestone jobs are billed by their pay periods
+// as flat amounts, since their tracked time earns nothing on its own. Billable
+// expenses follow as one line each, with mileage shown as distance times the
+// rate it was logged at.
+export const buildInvoiceItems = (
+  jobs: Job[],
+  timeEntries: TimeEntry[],
+  payPeriods: PayPeriod[],
+  expenses: Expense[] = []
+): InvoiceItem[] => {
+  const jobMap = new Map(jobs.map(job => [job.id, job]));
+  const items: InvoiceItem[] = [];
+
+  payPeriods.forEach(period => {
+    const job = jobMap.get(period.jobId);
+    if (!job) return;
+
+    const quantity = isHourlyJob(job) ? roundMoney(period.totalDuration / MS_PER_HOUR) : 1;
+    const amount = roundMoney(period.totalEarnings);
+
+    items.push({
+      id: generateId(),
+      description: `${job.name} — ${formatPayPeriodRange(period.startDate, period.endDate, job.settings?.billingTimeZone)}`,
+      quantity,
+      rate: quantity > 0 ? roundMoney(amount / quantity) : job.hourlyRate,
+      amount,
+      jobId: job.id,
+      timeEntryIds: [...period.timeEntryIds],
+      payPeriodId: period.id,
+    });
+  });
+
+  [...timeEntries]
+    .sort((a, b) => a.startTime - b.startTime)
+    .forEach(entry => {
+      const job = jobMap.get(entry.jobId);
+      if (!job || entry.endTime === null || !isEntryBillable(entry) || !isHourlyJob(job)) return;
+
+      const rate = getEntryRate(entry, job);
+      const quantity = roundMoney(getEntryBillableDuration(entry, job.settings) / MS_PER_HOUR);
+      const note = entry.note?.trim();
+
+      items.push({
+        id: generateId(),
+        description: `${job.name} — ${formatDate(entry.startTime)}${note ? `: ${note}` : ''}`,
+        quantity,
+        rate,
+        amount: roundMoney(quantity * rate),
+        jobId: job.id,
+        timeEntryIds: [entry.id],
+      });
+    });
+
+  [...expenses]
+    .sort((a, b) => a.date - b.date)
+    .forEach(expense => {
+      const job = jobMap.get(expense.jobId);
+      if (!job || !expense.billable) return;
+
+      const isMileage = expense.kind === 'mileage' && !!expense.distance;
+      const label = isMileage ? `Mileage (${expense.distanceUnit ?? 'km'})` : 'Expense';
+      const description = expense.description?.trim();
+
+      items.push({
+        id: generateId(),
+        description: `${job.name} — ${formatDate(expense.date)}: ${description ? `${label}, ${description}` : label}`,
+        quantity: isMileage ? expense.distance! : 1,
+        rate: isMileage ? expense.mileageRate ?? roundMoney(expense.amount / expense.distance!) : roundMoney(expense.amount),
+        amount: roundMoney(expense.amount),
+        jobId: job.id,
+        expenseId: expense.id,
+      });
+    });
+
+  return items;
+};
+
+export const calculateInvoiceTotals = (items: InvoiceItem[], taxRate: number) => {
+  const subtotal = roundMoney(items.reduce((total, item) => total + (item.amount || 0), 0));
+  const taxAmount = roundMoney(subtotal * ((taxRate || 0) / 100));
+
+  return {
+    subtotal,
+    taxAmount,
+    total: roundMoney(subtotal + taxAmount),
+  };
+};
+
+export const getInvoiceDisplayStatus = (invoice: Invoice, now: number = Date.now()): InvoiceStatus => {
+  if (invoice.status === 'sent' && invoice.dueDate < now) {
+    return 'overdue';
+  }
+  return invoice.status;
+};
+
+export const getInvoicedTimeEntryIds = (invoices: Invoice[]): Set<string> => {
+  const ids = new Set<string>();
+  invoices.forEach(invoice => {
+    (invoice.items || []).forEach(item => {
+      (item.timeEntryIds || []).forEach(id => ids.add(id));
+    });
+  });
+  return ids;
+};
+
+// Periods billed on an invoice, whether listed on it or on one of its line items
+export const getInvoicedPayPeriodIds = (invoices: Invoice[]): Set<string> => {
+  const ids = new Set<string>();
+  invoices.forEach(invoice => {
+    (invoice.payPeriodIds || []).forEach(id => ids.add(id));
+    (invoice.items || []).forEach(item => {
+      if (item.payPeriodId) ids.add(item.payPeriodId);
+    });
+  });
+  return ids;
+};
+
+export const getInvoicedExpenseIds = (invoices: Invoice[]): Set<string> => {
+  const ids = new Set<string>();
+  invoices.forEach(invoice => {
+    (invoice.items || []).forEach(item => {
+      if (item.expenseId) ids.add(item.expenseId);
+    });
+  });
+  return ids;
+};
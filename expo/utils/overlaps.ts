@@ -0,0 +1,143 @@
+import { BreakEntry, TimeEntry } from '@/types';
+
+// Free pieces shorter than this are dropped when trimming or splitting
+const MIN_SEGMENT_MS = 60 * 1000;
+
+export type OverlapKind = 'same-job' | 'other-job';
+
+export type OverlapCandidate = Pick<TimeEntry, 'jobId' | 'startTime' | 'endTime'> & { id?: string };
+
+export interface TimeEntryOverlap {
+  entry: TimeEntry; // The existing entry that conflicts with the candidate
+  kind: OverlapKind;
+  startTime: number;
+  endTime: number;
+}
+
+export interface OverlapAuditItem {
+  entryId: string;
+  jobId: string;
+  otherEntryId: string;
+  otherJobId: string;
+  kind: OverlapKind;
+  startTime: number;
+  endTime: number;
+  durationMs: number;
+}
+
+export type TimeRange = { startTime: number; endTime: number };
+
+// Thrown by the store when a save would overlap other entries and overlaps weren't allowed
+export class TimeEntryOverlapError extends Error {
+  overlaps: TimeEntryOverlap[];
+
+  constructor(overlaps: TimeEntryOverlap[]) {
+    super(`This time overlaps ${overlaps.length} other ${overlaps.length === 1 ? 'entry' : 'entries'}. Trim or split it, or keep the overlap.`);
+    this.name = 'TimeEntryOverlapError';
+    this.overlaps = overlaps;
+  }
+}
+
+// Running entries count as ending now
+const getEffectiveEnd = (entry: { startTime: number; endTime: number | null }, now: number): number => {
+  return entry.endTime ?? Math.max(now, entry.startTime);
+};
+
+// Entries that share any time with the candidate. Touching end-to-start is not an overlap.
+export function findOverlappingEntries(
+  candidate: OverlapCandidate,
+  entries: TimeEntry[],
+  now: number = Date.now()
+): TimeEntryOverlap[] {
+  const candidateEnd = getEffectiveEnd(candidate, now);
+
+  return entries
+    .filter(entry => entry && entry.id !== candidate.id && !entry.deletedAt)
+    .map(entry => {
+      const startTime = Math.max(candidate.startTime, entry.startTime);
+      const endTime = Math.min(candidateEnd, getEffectiveEnd(entry, now));
+      return {
+        entry,
+        kind: (entry.jobId === candidate.jobId ? 'same-job' : 'other-job') as OverlapKind,
+        startTime,
+        endTime,
+      };
+    })
+    .filter(overlap => overlap.endTime > overlap.startTime)
+    .sort((a, b) => a.startTime - b.startTime);
+}
+
+// Every overlapping pair in a set of entries, reported once per pair
+export function findAllOverlaps(entries: TimeEntry[], now: number = Date.now()): OverlapAuditItem[] {
+  const sorted = entries
+    .filter(entry => entry && !entry.deletedAt)
+    .sort((a, b) => a.startTime - b.startTime);
+  const results: OverlapAuditItem[] = [];
+
+  sorted.forEach((entry, index) => {
+    const entryEnd = getEffectiveEnd(entry, now);
+    // Sorted by start, so later entries can only overlap while they start before this one ends
+    for (let i = index + 1; i < sorted.length && sorted[i].startTime < entryEnd; i++) {
+      const other = sorted[i];
+      const endTime = Math.min(entryEnd, getEffectiveEnd(other, now));
+      if (endTime <= other.startTime) continue;
+      results.push({
+        entryId: entry.id,
+        jobId: entry.jobId,
+        otherEntryId: other.id,
+        otherJobId: other.jobId,
+        kind: entry.jobId === other.jobId ? 'same-job' : 'other-job',
+        startTime: other.startTime,
+        endTime,
+        durationMs: endTime - other.startTime,
+      });
+    }
+  });
+
+  return results;
+}
+
+// The parts of range not covered by any of the overlaps, in order
+export function getFreeSegments(range: TimeRange, overlaps: TimeEntryOverlap[]): TimeRange[] {
+  const segments: TimeRange[] = [];
+  let cursor = range.startTime;
+
+  [...overlaps]
+    .sort((a, b) => a.startTime - b.startTime)
+    .forEach(overlap => {
+      if (overlap.startTime > cursor) {
+        segments.push({ startTime: cursor, endTime: Math.min(overlap.startTime, range.endTime) });
+      }
+      cursor = Math.max(cursor, overlap.endTime);
+    });
+
+  if (cursor < range.endTime) {
+    segments.push({ startTime: cursor, endTime: range.endTime });
+  }
+
+  return segments.filter(segment => segment.endTime - segment.startTime >= MIN_SEGMENT_MS);
+}
+
+// Trimming keeps the longest conflict-free stretch; null when nothing is left
+export function getTrimmedRange(range: TimeRange, overlaps: TimeEntryOverlap[]): TimeRange | null {
+  return getFreeSegments(range, overlaps).reduce<TimeRange | null>((longest, segment) => {
+    if (!longest || segment.endTime - segment.startTime > longest.endTime - longest.startTime) {
+      return segment;
+    }
+    return longest;
+  }, null);
+}
+
+// Breaks that fall inside range, cut to its bounds
+export function clipBreaksToRange(breaks: BreakEntry[], range: TimeRange): BreakEntry[] {
+  return breaks
+    .filter(breakItem => {
+      const breakEnd = breakItem.endTime ?? range.endTime;
+      return breakItem.startTime < range.endTime && breakEnd > range.startTime;
+    })
+    .map(breakItem => ({
+      ...breakItem,
+      startTime: Math.max(breakItem.startTime, range.startTime),
+      endTime: breakItem.endTime === null ? null : Math.min(breakItem.endTime, range.endTime),
+    }));
+}
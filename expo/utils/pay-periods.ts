@@ -0,0 +1,190 @@
+import { Job, PayPeriod, Payment, TimeEntry } from '@/types';
+import { calculateJobEarnings } from '@/utils/earnings';
+import { getEarnedMilestones } from '@/utils/billing';
+import { getPayPeriodDates } from '@/utils/time';
+import { resolveTimeZone } from '@/utils/timezone';
+
+export interface PayPeriodRebuild {
+  periods: PayPeriod[]; // The job's periods after the rebuild, newest first
+  timeEntries: TimeEntry[]; // Every entry, with paidInPeriodId brought in line for the job's
+  toCreate: PayPeriod[];
+  toUpdate: PayPeriod[];
+  toDelete: PayPeriod[];
+}
+
+// Buckets a job's finished entries and completed milestones into periods on its current
+// schedule, reusing existing periods with the same range. A kept period that no longer
+// lines up with the schedule (e.g. after switching weekly to semi-monthly) holds on to
+// the entries and milestones it was paid for; one left without entries stays as it was.
+export const rebuildJobPayPeriods = (
+  job: Job,
+  timeEntries: TimeEntry[],
+  payPeriods: PayPeriod[],
+  payments: Payment[],
+  now: number = Date.now()
+): PayPeriodRebuild => {
+  const jobId = job.id;
+  const payType = job.settings?.payPeriodType ?? 'weekly';
+  const startDay = job.settings?.payPeriodStartDay ?? 0;
+  const anchorDate = job.settings?.payPeriodAnchorDate;
+  // Periods must not overlap, so every entry is bucketed in one zone per job
+  const timeZone = resolveTimeZone(job.settings?.billingTimeZone);
+  const getRange = (timestamp: number) => {
+    const { start, end } = getPayPeriodDates(timestamp, payType, startDay, anchorDate, timeZone);
+    return { startDate: start.getTime(), endDate: end.getTime() };
+  };
+
+  const existingForJob = payPeriods.filter(p => p.jobId === jobId);
+  // Paid periods and periods that entries or payments point at record what was actually
+  // paid, so a rebuild never drops them (locally or on the server)
+  const referencedIds = new Set<string>();
+  timeEntries.forEach(e => { if (e?.paidInPeriodId) referencedIds.add(e.paidInPeriodId); });
+  payments.forEach(payment => {
+    if (payment.deletedAt) return;
+    payment.allocations.forEach(allocation => referencedIds.add(allocation.payPeriodId));
+  });
+  const isKeptPeriod = (period: PayPeriod): boolean => period.isPaid || referencedIds.has(period.id);
+  const existingMap = new Map<string, PayPeriod>();
+  existingForJob.forEach(p => {
+    existingMap.set(`${p.startDate}_${p.endDate}`, p);
+  });
+
+  const entries = timeEntries.filter(e => e && e.jobId === jobId && e.endTime !== null);
+  const jobEarnings = calculateJobEarnings(job, entries);
+
+  const offSchedulePeriods = existingForJob.filter(p => {
+    if (!isKeptPeriod(p)) return false;
+    const range = getRange(p.startDate);
+    return range.startDate !== p.startDate || range.endDate !== p.endDate;
+  });
+  const pinnedEntryIds = new Set<string>();
+  const pinnedMilestoneIds = new Set<string>();
+  offSchedulePeriods.forEach(period => {
+    entries
+      .filter(e => period.timeEntryIds.includes(e.id) && e.startTime >= period.startDate && e.startTime <= period.endDate)
+      .forEach(e => pinnedEntryIds.add(e.id));
+    (period.milestoneIds ?? []).forEach(id => pinnedMilestoneIds.add(id));
+  });
+
+  type TempPeriod = {
+    startDate: number;
+    endDate: number;
+    timeEntryIds: string[];
+    milestoneIds: string[];
+    totalDuration: number;
+    totalEarnings: number;
+  };
+
+  const periodMap = new Map<string, TempPeriod>();
+
+  entries.forEach(entry => {
+    if (pinnedEntryIds.has(entry.id)) return;
+    const { startDate, endDate } = getRange(entry.startTime);
+    const key = `${startDate}_${endDate}`;
+
+    const breakdown = jobEarnings.byEntryId[entry.id];
+    const duration = breakdown?.duration ?? 0;
+    const earnings = breakdown?.totalEarnings ?? 0;
+
+    const agg = periodMap.get(key);
+    if (agg) {
+      agg.timeEntryIds.push(entry.id);
+      agg.totalDuration += duration;
+      agg.totalEarnings += earnings;
+    } else {
+      periodMap.set(key, {
+        startDate,
+        endDate,
+        timeEntryIds: [entry.id],
+        milestoneIds: [],
+        totalDuration: duration,
+        totalEarnings: earnings,
+      });
+    }
+  });
+
+  // Completed milestones earn in the period they were completed in
+  getEarnedMilestones(job).forEach(milestone => {
+    if (pinnedMilestoneIds.has(milestone.id)) return;
+    const { startDate, endDate } = getRange(milestone.completedAt!);
+    const key = `${startDate}_${endDate}`;
+    const agg = periodMap.get(key);
+    if (agg) {
+      agg.milestoneIds.push(milestone.id);
+      agg.totalEarnings += milestone.amount;
+    } else {
+      periodMap.set(key, {
+        startDate,
+        endDate,
+        timeEntryIds: [],
+        milestoneIds: [milestone.id],
+        totalDuration: 0,
+        totalEarnings: milestone.amount,
+      });
+    }
+  });
+
+  const rebuiltPeriods: PayPeriod[] = Array.from(periodMap.values()).map(tp => {
+    const exist = existingMap.get(`${tp.startDate}_${tp.endDate}`);
+    return {
+      id: exist?.id || `period_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      jobId,
+      startDate: tp.startDate,
+      endDate: tp.endDate,
+      totalDuration: tp.totalDuration,
+      // A paid period stays at the amount that was paid, whatever the rates say now
+      totalEarnings: exist?.isPaid ? exist.totalEarnings : tp.totalEarnings,
+      isPaid: exist?.isPaid ?? false,
+      paidDate: exist?.paidDate,
+      unlockedAt: exist?.unlockedAt,
+      adjustments: exist?.adjustments,
+      timeEntryIds: tp.timeEntryIds,
+      milestoneIds: tp.milestoneIds.length > 0 ? tp.milestoneIds : undefined,
+      createdAt: exist?.createdAt ?? now,
+      updatedAt: exist?.updatedAt,
+    } as PayPeriod;
+  });
+
+  const rebuiltIds = new Set(rebuiltPeriods.map(p => p.id));
+  const keptPeriods = existingForJob
+    .filter(p => isKeptPeriod(p) && !rebuiltIds.has(p.id))
+    .map(p => {
+      const keptEntryIds = p.timeEntryIds.filter(id => pinnedEntryIds.has(id));
+      const keptMilestoneIds = (p.milestoneIds ?? []).filter(id => pinnedMilestoneIds.has(id));
+      return {
+        ...p,
+        timeEntryIds: keptEntryIds,
+        milestoneIds: keptMilestoneIds.length > 0 ? keptMilestoneIds : undefined,
+        totalDuration: keptEntryIds.reduce((sum, id) => sum + (jobEarnings.byEntryId[id]?.duration ?? 0), 0),
+      };
+    });
+
+  const periods = [...rebuiltPeriods, ...keptPeriods].sort((a, b) => b.startDate - a.startDate);
+
+  const entryToPeriod: Record<string, PayPeriod> = {};
+  periods.forEach(p => {
+    p.timeEntryIds.forEach(eid => { entryToPeriod[eid] = p; });
+  });
+
+  const updatedTimeEntries = timeEntries.map(te => {
+    if (te.jobId !== jobId || te.endTime === null) return te;
+    const p = entryToPeriod[te.id];
+    const newPaid = p?.isPaid ? p.id : undefined;
+    if (te.paidInPeriodId !== newPaid) {
+      return { ...te, paidInPeriodId: newPaid, updatedAt: now };
+    }
+    return te;
+  });
+
+  const toCreate = periods.filter(p => !existingForJob.find(ep => ep.id === p.id));
+  const toUpdate = periods.filter(p => existingForJob.find(ep => ep.id === p.id && (
+    ep.totalDuration !== p.totalDuration || ep.totalEarnings !== p.totalEarnings ||
+    ep.timeEntryIds.length !== p.timeEntryIds.length ||
+    (ep.milestoneIds?.length ?? 0) !== (p.milestoneIds?.length ?? 0)
+  )));
+  // Unreferenced unpaid periods that no longer match the schedule (e.g. after switching to semi-monthly)
+  const toDelete = existingForJob.filter(ep => !periods.some(p => p.id === ep.id));
+  [...toCreate, ...toUpdate].forEach(p => { p.updatedAt = now; });
+
+  return { periods, timeEntries: updatedTimeEntries, toCreate, toUpdate, toDelete };
+};
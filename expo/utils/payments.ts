@@ -0,0 +1,66 @@
+import { PayPeriod, Payment, PaymentAllocation, PaymentMethod } from '@/types';
+import { roundMoney } from '@/utils/invoice';
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'bank_transfer', label: 'Bank transfer' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'check', label: 'Check' },
+  { value: 'card', label: 'Card' },
+  { value: 'other', label: 'Other' },
+];
+
+export const getPaymentMethodLabel = (method: PaymentMethod): string => {
+  return PAYMENT_METHODS.find(option => option.value === method)?.label ?? 'Other';
+};
+
+export const getAllocatedToPeriod = (periodId: string, payments: Payment[]): number => {
+  return roundMoney(payments.reduce((total, payment) => total + payment.allocations
+    .filter(allocation => allocation.payPeriodId === periodId)
+    .reduce((sum, allocation) => sum + allocation.amount, 0), 0));
+};
+
+// Periods marked paid without a recorded payment count as paid in full
+export const getPeriodPaidAmount = (period: PayPeriod, payments: Payment[]): number => {
+  const allocated = getAllocatedToPeriod(period.id, payments);
+  return period.isPaid ? Math.max(period.totalEarnings, allocated) : allocated;
+};
+
+export const getPeriodBalance = (period: PayPeriod, payments: Payment[]): number => {
+  if (period.isPaid) return 0;
+  return Math.max(0, roundMoney(period.totalEarnings - getAllocatedToPeriod(period.id, payments)));
+};
+
+// Credit left on a payment after its allocations
+export const getUnallocatedAmount = (payment: Payment): number => {
+  return Math.max(0, roundMoney(payment.amount - payment.allocations.reduce((total, a) => total + a.amount, 0)));
+};
+
+// Everything received for the given periods, plus credit that isn't allocated yet
+export const getPaidAmount = (periods: PayPeriod[], payments: Payment[]): number => {
+  return roundMoney(
+    periods.reduce((total, period) => total + getPeriodPaidAmount(period, payments), 0) +
+    payments.reduce((total, payment) => total + getUnallocatedAmount(payment), 0)
+  );
+};
+
+// Spreads an amount over the periods that still have a balance, oldest first
+export const allocatePayment = (
+  amount: number,
+  periods: PayPeriod[],
+  payments: Payment[]
+): PaymentAllocation[] => {
+  let remaining = roundMoney(amount);
+  const allocations: PaymentAllocation[] = [];
+
+  [...periods]
+    .sort((a, b) => a.startDate - b.startDate)
+    .forEach(period => {
+      const balance = getPeriodBalance(period, payments);
+      if (remaining <= 0 || balance <= 0) return;
+      const allocated = Math.min(balance, remaining);
+      allocations.push({ payPeriodId: period.id, amount: allocated });
+      remaining = roundMoney(remaining - allocated);
+    });
+
+  return allocations;
+};
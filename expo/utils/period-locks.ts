@@ -0,0 +1,122 @@
+import { Job, PayPeriod, PayPeriodAdjustment, TimeEntry } from '@/types';
+import { calculateJobEarnings } from '@/utils/earnings';
+
+// The parts of an entry that decide what it pays. Backend rows store nulls where the
+// client leaves fields out, so both shapes are accepted.
+export interface EntryPayFields {
+  jobId: string;
+  startTime: number;
+  endTime: number | null;
+  breaks?: { startTime: number; endTime: number | null }[] | null;
+  billable?: boolean | null;
+  rateOverride?: number | null;
+}
+
+type PeriodRange = Pick<PayPeriod, 'id' | 'jobId' | 'startDate' | 'endDate' | 'isPaid'>;
+
+export const PAY_PERIOD_LOCKED_MESSAGE = "This time is in a paid pay period. Unlock the period to change it.";
+
+// Paid periods can't be changed until they're explicitly unlocked for a correction
+export const isPayPeriodLocked = (period: Pick<PayPeriod, 'isPaid' | 'unlockedAt'>): boolean => {
+  return period.isPaid && !period.unlockedAt;
+};
+
+// Completed entries belong to the period their start falls in, as when periods are built
+export const findPayPeriodForEntry = <T extends PeriodRange>(
+  periods: T[],
+  entry: Pick<EntryPayFields, 'jobId' | 'startTime' | 'endTime'>
+): T | undefined => {
+  if (entry.endTime === null) return undefined;
+  return periods.find(period =>
+    period.jobId === entry.jobId && entry.startTime >= period.startDate && entry.startTime <= period.endDate
+  );
+};
+
+const getBreaksKey = (breaks: EntryPayFields['breaks']): string => {
+  return JSON.stringify((breaks ?? []).map(breakItem => [breakItem.startTime, breakItem.endTime]));
+};
+
+// Notes and paid flags can change freely; everything else changes what the entry pays
+export const hasPayRelevantChanges = (before: EntryPayFields, after: EntryPayFields): boolean => {
+  return (
+    before.jobId !== after.jobId ||
+    before.startTime !== after.startTime ||
+    before.endTime !== after.endTime ||
+    getBreaksKey(before.breaks) !== getBreaksKey(after.breaks) ||
+    (before.billable !== false) !== (after.billable !== false) ||
+    (before.rateOverride ?? null) !== (after.rateOverride ?? null)
+  );
+};
+
+// Paid periods a change would touch. before is null for a new entry and after is null
+// for a deletion.
+export const findPaidPeriodsForChange = <T extends PeriodRange>(
+  periods: T[],
+  before: EntryPayFields | null,
+  after: EntryPayFields | null
+): T[] => {
+  if (before && after && !hasPayRelevantChanges(before, after)) return [];
+
+  const touched: T[] = [];
+  [before, after].forEach(entry => {
+    const period = entry ? findPayPeriodForEntry(periods, entry) : undefined;
+    if (period?.isPaid && !touched.includes(period)) {
+      touched.push(period);
+    }
+  });
+  return touched;
+};
+
+// Records what a change did to each paid period it touched, measured against the job's
+// earnings before and after so overtime is accounted for the same way as everywhere else
+export const buildPayPeriodAdjustments = (
+  jobs: Job[],
+  payPeriods: PayPeriod[],
+  change: {
+    before: TimeEntry | null;
+    after: TimeEntry | null;
+    entriesBefore: TimeEntry[];
+    entriesAfter: TimeEntry[];
+    createdAt: number;
+  }
+): { periodId: string; adjustment: PayPeriodAdjustment }[] => {
+  const { before, after, entriesBefore, entriesAfter, createdAt } = change;
+
+  const getEarnings = (entry: TimeEntry | null, entries: TimeEntry[]) => {
+    const job = entry ? jobs.find(j => j.id === entry.jobId) : undefined;
+    if (!entry || !job) return { duration: 0, earnings: 0 };
+    const breakdown = calculateJobEarnings(job, entries.filter(e => e.jobId === job.id)).byEntryId[entry.id];
+    return { duration: breakdown?.duration ?? 0, earnings: breakdown?.totalEarnings ?? 0 };
+  };
+
+  return findPaidPeriodsForChange(payPeriods, before, after).map(period => {
+    const wasInPeriod = !!before && findPayPeriodForEntry([period], before) === period;
+    const isInPeriod = !!after && findPayPeriodForEntry([period], after) === period;
+    const previous = wasInPeriod ? getEarnings(before, entriesBefore) : { duration: 0, earnings: 0 };
+    const current = isInPeriod ? getEarnings(after, entriesAfter) : { duration: 0, earnings: 0 };
+
+    const timeEntryId = (after ?? before)!.id;
+
+    return {
+      periodId: period.id,
+      adjustment: {
+        id: `adj_${period.id}_${timeEntryId}_${createdAt}`,
+        timeEntryId,
+        kind: !before ? 'added' : !after ? 'deleted' : 'edited',
+        durationDelta: current.duration - previous.duration,
+        earningsDelta: current.earnings - previous.earnings,
+        createdAt,
+      },
+    };
+  });
+};
+
+export const getAdjustmentTotals = (period: Pick<PayPeriod, 'adjustments'>) => {
+  return (period.adjustments ?? []).reduce(
+    (totals, adjustment) => ({
+      duration: totals.duration + adjustment.durationDelta,
+      earnings: totals.earnings + adjustment.earningsDelta,
+    }),
+    { duration: 0, earnings: 0 }
+  );
+};
@@ -0,0 +1,34 @@
+import { Job, RateChange } from '@/types';
+
+const byEffectiveFrom = (a: RateChange, b: RateChange) => a.effectiveFrom - b.effectiveFrom;
+
+// Jobs without a history have always been billed at their current rate
+export const getRateHistory = (job: Pick<Job, 'hourlyRate' | 'rateHistory'>): RateChange[] => {
+  if (!job.rateHistory?.length) return [{ rate: job.hourlyRate || 0, effectiveFrom: 0 }];
+  return [...job.rateHistory].sort(byEffectiveFrom);
+};
+
+// The rate in force at the given time. The earliest change also covers anything
+// before it, so older entries are never left without a rate.
+export const getJobRateAt = (job: Pick<Job, 'hourlyRate' | 'rateHistory'>, timestamp: number): number => {
+  const history = getRateHistory(job);
+  let rate = history[0].rate;
+  for (const change of history) {
+    if (change.effectiveFrom > timestamp) break;
+    rate = change.rate;
+  }
+  return rate;
+};
+
+// Sets the rate from effectiveFrom onwards. Earlier entries keep the rates they had, and
+// changes on or after that date are replaced, so the new rate is also the latest one.
+export const applyRateChange = (
+  job: Pick<Job, 'hourlyRate' | 'rateHistory'>,
+  rate: number,
+  effectiveFrom: number
+): RateChange[] => {
+  return [
+    ...getRateHistory(job).filter(change => change.effectiveFrom < effectiveFrom),
+    { rate, effectiveFrom },
+  ];
+};
@@ -0,0 +1,100 @@
+import { Job, TimeEntry } from '@/types';
+import { getEntryWorkDuration, getJobWeekStartDay, getStartOfWeek } from '@/utils/time';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+export type ReminderKind = 'daily' | 'weekly';
+
+export interface PlannedReminder {
+  id: string;
+  kind: ReminderKind;
+  fireAt: number;
+  title: string;
+  body: string;
+}
+
+// Platform side of reminders; the app uses local notifications, tests can pass a fake
+export interface ReminderNotifier {
+  schedule: (reminder: PlannedReminder) => Promise<void>;
+  cancel: (reminderId: string) => Promise<void>;
+}
+
+export interface ReminderScheduler {
+  scheduleForEntry: (entry: TimeEntry, job: Job, timeEntries: TimeEntry[], now?: number) => Promise<PlannedReminder[]>;
+  cancelForEntry: (entryId: string) => Promise<void>;
+}
+
+export const getReminderId = (entryId: string, kind: ReminderKind): string => `reminder_${entryId}_${kind}`;
+
+const formatHours = (hours: number): string => {
+  return Number.isInteger(hours) ? `${hours}` : hours.toFixed(1);
+};
+
+// Works out when the running entry crosses the job's daily and weekly reminder thresholds.
+// Returns nothing while on break, since no work time accrues until the break ends.
+export const planReminders = (
+  entry: TimeEntry,
+  job: Job,
+  timeEntries: TimeEntry[],
+  now: number = Date.now()
+): PlannedReminder[] => {
+  const settings = job.settings;
+  if (!settings?.clockOutReminders || entry.endTime !== null || entry.isOnBreak) return [];
+
+  const reminders: PlannedReminder[] = [];
+  const workedMs = getEntryWorkDuration(entry, now);
+
+  const dailyThreshold = settings.dailyReminderThreshold || 0;
+  if (dailyThreshold > 0) {
+    const remaining = dailyThreshold * MS_PER_HOUR - workedMs;
+    if (remaining > 0) {
+      reminders.push({
+        id: getReminderId(entry.id, 'daily'),
+        kind: 'daily',
+        fireAt: now + remaining,
+        title: `Still clocked in to ${job.name}?`,
+        body: `You've worked ${formatHours(dailyThreshold)} hours on this shift. Don't forget to clock out.`,
+      });
+    }
+  }
+
+  const weeklyThreshold = settings.weeklyReminderThreshold || 0;
+  if (weeklyThreshold > 0) {
+    const weekStart = getStartOfWeek(now, getJobWeekStartDay(settings), settings.billingTimeZone).getTime();
+    const weekWorkedMs = timeEntries
+      .filter(e => e.jobId === job.id && e.id !== entry.id && e.endTime !== null && e.startTime >= weekStart)
+      .reduce((total, e) => total + getEntryWorkDuration(e, now), 0);
+    const remaining = weeklyThreshold * MS_PER_HOUR - weekWorkedMs - workedMs;
+    if (remaining > 0) {
+      reminders.push({
+        id: getReminderId(entry.id, 'weekly'),
+        kind: 'weekly',
+        fireAt: now + remaining,
+        title: `${job.name}: weekly hours reached`,
+        body: `You've reached ${formatHours(weeklyThreshold)} hours this week.`,
+      });
+    }
+  }
+
+  return reminders;
+};
+
+export const createReminderScheduler = (notifier: ReminderNotifier): ReminderScheduler => {
+  const cancelForEntry = async (entryId: string) => {
+    await Promise.all([
+      notifier.cancel(getReminderId(entryId, 'daily')),
+      notifier.cancel(getReminderId(entryId, 'weekly')),
+    ]);
+  };
+
+  return {
+    scheduleForEntry: async (entry, job, timeEntries, now = Date.now()) => {
+      // Always start from a clean slate so rescheduling never leaves stale reminders behind
+      await cancelForEntry(entry.id);
+      const reminders = planReminders(entry, job, timeEntries, now);
+      await Promise.all(reminders.map(reminder => notifier.schedule(reminder)));
+      return reminders;
+    },
+    cancelForEntry,
+  };
+};
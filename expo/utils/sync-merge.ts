@@ -0,0 +1,36 @@
+// Applies pulled changes with last-writer-wins on updatedAt. Remote tombstones remove
+// the local copy unless it was edited after the delete; a local delete still waiting in
+// the sync queue beats any older remote version.
+export function mergeByUpdatedAt<T extends { id: string; createdAt: number; updatedAt?: number; deletedAt?: number | null }>(
+  localData: T[],
+  remoteData: T[],
+  pendingDeletes: Map<string, number>
+): T[] {
+  const getUpdatedAt = (item: T): number => item.updatedAt ?? item.createdAt;
+  const merged = new Map<string, T>();
+  
+  localData.forEach(item => {
+    merged.set(item.id, item);
+  });
+  
+  remoteData.forEach(remoteItem => {
+    const remoteUpdatedAt = getUpdatedAt(remoteItem);
+    const deletedLocallyAt = pendingDeletes.get(remoteItem.id);
+    if (deletedLocallyAt !== undefined && deletedLocallyAt >= remoteUpdatedAt) {
+      return;
+    }
+    
+    const localItem = merged.get(remoteItem.id);
+    if (localItem && getUpdatedAt(localItem) > remoteUpdatedAt) {
+      return;
+    }
+    
+    if (remoteItem.deletedAt) {
+      merged.delete(remoteItem.id);
+    } else {
+      merged.set(remoteItem.id, remoteItem);
+    }
+  });
+  
+  return Array.from(merged.values());
+}
@@ -0,0 +1,183 @@
+import { Job, PayPeriod, Payment, TaxSettings } from '@/types';
+import { roundMoney } from '@/utils/invoice';
+import { getAllocatedToPeriod, getUnallocatedAmount } from '@/utils/payments';
+import { getCalendarDate, getDaysInMonth, getStartOfCalendarDate } from '@/utils/timezone';
+
+export const DEFAULT_TAX_QUARTER_STARTS = ['01-01', '04-01', '07-01', '10-01'];
+
+export const TAX_QUARTER_PRESETS: { value: string; label: string; starts: string[] }[] = [
+  { value: 'calendar', label: 'Calendar quarters', starts: DEFAULT_TAX_QUARTER_STARTS },
+  // US estimated tax periods run Jan–Mar, Apr–May, Jun–Aug and Sep–Dec
+  { value: 'us', label: 'US estimated tax', starts: ['01-01', '04-01', '06-01', '09-01'] },
+];
+
+// Money received for a job, with what should be put aside for tax out of it
+export interface TaxReceipt {
+  jobId: string;
+  payPeriodId?: string; // Unset for payment credit not applied to a period
+  date: number;
+  amount: number;
+  deduction: number; // The job's deductions taken off before tax
+  rate: number; // Percent set aside
+  setAside: number;
+}
+
+export interface TaxSummary {
+  received: number;
+  deductions: number;
+  taxable: number;
+  setAside: number;
+  takeHome: number;
+}
+
+export interface TaxQuarter extends TaxSummary {
+  label: string;
+  start: number;
+  end: number;
+}
+
+export const getTaxQuarterStarts = (taxSettings: TaxSettings): string[] => {
+  return taxSettings.taxQuarterStarts?.length === 4 ? taxSettings.taxQuarterStarts : DEFAULT_TAX_QUARTER_STARTS;
+};
+
+// Reads four MM-DD dates separated by commas; returns null if any is invalid
+export const parseTaxQuarterStarts = (value: string): string[] | null => {
+  const starts = value.split(',').map(part => part.trim()).filter(Boolean);
+  if (starts.length !== 4) return null;
+  const valid = starts.every(start => {
+    const match = /^(\d{2})-(\d{2})$/.exec(start);
+    if (!match) return false;
+    const [month, day] = [Number(match[1]), Number(match[2])];
+    // 2024 is a leap year, so Feb 29 is accepted and moved to the 28th in other years
+    return month >= 1 && month <= 12 && day >= 1 && day <= getDaysInMonth(2024, month);
+  });
+  return valid ? starts : null;
+};
+
+// A job's own estimated rate, or the business default when it has none
+export const getJobTaxRate = (job: Job, taxSettings: TaxSettings): number => {
+  return job.settings?.estimatedTaxRate ?? taxSettings.defaultTaxRate ?? 0;
+};
+
+// Earnings are taxed as they're received: each payment on its date, and any part of a
+// period marked paid without a recorded payment on the day it was marked. A job's
+// deductions come off each pay period's receipts, up to what that period was paid.
+export const getTaxReceipts = (
+  jobs: Job[],
+  payPeriods: PayPeriod[],
+  payments: Payment[],
+  taxSettings: TaxSettings
+): TaxReceipt[] => {
+  const receipts: TaxReceipt[] = [];
+
+  jobs.forEach(job => {
+    const rate = getJobTaxRate(job, taxSettings);
+    const deductionPerPeriod = Math.max(0, job.settings?.deductions || 0);
+    const jobPeriods = payPeriods.filter(period => period.jobId === job.id);
+    const jobPayments = payments.filter(payment => payment.jobId === job.id);
+    const periodIds = new Set(jobPeriods.map(period => period.id));
+    const received: { payPeriodId?: string; date: number; amount: number }[] = [];
+
+    jobPayments.forEach(payment => {
+      payment.allocations.forEach(allocation => {
+        received.push({
+          payPeriodId: periodIds.has(allocation.payPeriodId) ? allocation.payPeriodId : undefined,
+          date: payment.date,
+          amount: allocation.amount,
+        });
+      });
+      const credit = getUnallocatedAmount(payment);
+      if (credit > 0) received.push({ date: payment.date, amount: credit });
+    });
+
+    jobPeriods.forEach(period => {
+      if (!period.isPaid) return;
+      const unrecorded = roundMoney(period.totalEarnings - getAllocatedToPeriod(period.id, jobPayments));
+      if (unrecorded > 0) {
+        received.push({ payPeriodId: period.id, date: period.paidDate ?? period.endDate, amount: unrecorded });
+      }
+    });
+
+    const deductionLeft = new Map<string, number>();
+    received
+      .sort((a, b) => a.date - b.date)
+      .forEach(item => {
+        let deduction = 0;
+        if (item.payPeriodId) {
+          const left = deductionLeft.get(item.payPeriodId) ?? deductionPerPeriod;
+          deduction = Math.min(left, item.amount);
+          deductionLeft.set(item.payPeriodId, left - deduction);
+        }
+        receipts.push({
+          jobId: job.id,
+          payPeriodId: item.payPeriodId,
+          date: item.date,
+          amount: item.amount,
+          deduction,
+          rate,
+          setAside: roundMoney((item.amount - deduction) * rate / 100),
+        });
+      });
+  });
+
+  return receipts.sort((a, b) => a.date - b.date);
+};
+
+export const summarizeTaxReceipts = (receipts: TaxReceipt[]): TaxSummary => {
+  const received = roundMoney(receipts.reduce((total, receipt) => total + receipt.amount, 0));
+  const deductions = roundMoney(receipts.reduce((total, receipt) => total + receipt.deduction, 0));
+  const setAside = roundMoney(receipts.reduce((total, receipt) => total + receipt.setAside, 0));
+  return {
+    received,
+    deductions,
+    taxable: roundMoney(received - deductions),
+    setAside,
+    takeHome: roundMoney(received - setAside),
+  };
+};
+
+const getQuarterStartDate = (taxYear: number, starts: string[], index: number, timeZone: string): number => {
+  // Quarters are in order through the tax year, so a start earlier than the one before it
+  // falls in the next calendar year (e.g. a fiscal year starting in April)
+  let year = taxYear;
+  for (let i = 1; i <= index; i++) {
+    if (starts[i] < starts[i - 1]) year++;
+  }
+  const [month, day] = starts[index].split('-').map(Number);
+  return getStartOfCalendarDate({ year, month, day: Math.min(day, getDaysInMonth(year, month)) }, timeZone);
+};
+
+// The tax year a date falls in, named after the calendar year it starts in
+export const getTaxYear = (timestamp: number, starts: string[], timeZone: string): number => {
+  const { year } = getCalendarDate(timestamp, timeZone);
+  return timestamp < getQuarterStartDate(year, starts, 0, timeZone) ? year - 1 : year;
+};
+
+export const getTaxQuarters = (taxYear: number, starts: string[], timeZone: string): { label: string; start: number; end: number }[] => {
+  return starts.map((_, index) => ({
+    label: `Q${index + 1}`,
+    start: getQuarterStartDate(taxYear, starts, index, timeZone),
+    end: (index < starts.length - 1
+      ? getQuarterStartDate(taxYear, starts, index + 1, timeZone)
+      : getQuarterStartDate(taxYear + 1, starts, 0, timeZone)) - 1,
+  }));
+};
+
+export const getTaxYearRange = (taxYear: number, starts: string[], timeZone: string): { start: number; end: number } => {
+  return {
+    start: getQuarterStartDate(taxYear, starts, 0, timeZone),
+    end: getQuarterStartDate(taxYear + 1, starts, 0, timeZone) - 1,
+  };
+};
+
+export const buildQuarterlyTaxReport = (
+  receipts: TaxReceipt[],
+  taxYear: number,
+  starts: string[],
+  timeZone: string
+): TaxQuarter[] => {
+  return getTaxQuarters(taxYear, starts, timeZone).map(quarter => ({
+    ...quarter,
+    ...summarizeTaxReceipts(receipts.filter(receipt => receipt.date >= quarter.start && receipt.date <= quarter.end)),
+  }));
+};
@@ -1,3 +1,15 @@
+import { JobSettings, RoundingInterval, RoundTimeType, TimeEntry } from '@/types';
+import {
+  CalendarDate,
+  addCalendarDays,
+  getCalendarDate,
+  getDayNumber,
+  getDaysInMonth,
+  getStartOfCalendarDate,
+  getWeekday,
+  resolveTimeZone,
+} from '@/utils/timezone';
+
 export const formatDuration = (milliseconds: number): string => {
   if (!milliseconds || milliseconds < 0) return "0h 0m";
   
@@ -50,26 +62,35 @@ export const formatDateFull = (timestamp: number): string => {
   });
 };
 
-export const formatPayPeriodRange = (startDate: number, endDate: number): string => {
+// Labels are formatted in the zone the period was built in (the job's billing timezone),
+// otherwise a device in another zone shows the boundaries a day off
+export const formatPayPeriodRange = (startDate: number, endDate: number, timeZone?: string): string => {
   if (!startDate || !endDate || isNaN(startDate) || isNaN(endDate)) return '';
   
-  const start = new Date(startDate);
-  const end = new Date(endDate);
+  const zone = resolveTimeZone(timeZone);
+  const start = getCalendarDate(startDate, zone);
+  const end = getCalendarDate(endDate, zone);
+  const format = (timestamp: number, options: Intl.DateTimeFormatOptions) =>
+    new Date(timestamp).toLocaleDateString([], { ...options, timeZone: zone });
   
-  if (isNaN(start.getTime()) || isNaN(end.getTime())) return '';
+  // A whole calendar month (monthly periods starting on the 1st)
+  if (start.day === 1 && addCalendarDays(end, 1).day === 1 &&
+      start.month === end.month && start.year === end.year) {
+    return format(startDate, { month: 'long', year: 'numeric' });
+  }
   
   // If same month
-  if (start.getMonth() === end.getMonth() && start.getFullYear() === end.getFullYear()) {
-    return `${start.toLocaleDateString([], { month: 'short', day: 'numeric' })}–${end.toLocaleDateString([], { day: 'numeric' })}`;
+  if (start.month === end.month && start.year === end.year) {
+    return `${format(startDate, { month: 'short', day: 'numeric' })}–${format(endDate, { day: 'numeric' })}`;
   }
   
   // If same year but different month
-  if (start.getFullYear() === end.getFullYear()) {
-    return `${start.toLocaleDateString([], { month: 'short', day: 'numeric' })}–${end.toLocaleDateString([], { month: 'short', day: 'numeric' })}`;
+  if (start.year === end.year) {
+    return `${format(startDate, { month: 'short', day: 'numeric' })}–${format(endDate, { month: 'short', day: 'numeric' })}`;
   }
   
   // Different years
-  return `${start.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}–${end.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  return `${format(startDate, { month: 'short', day: 'numeric', year: 'numeric' })}–${format(endDate, { month: 'short', day: 'numeric', year: 'numeric' })}`;
 };
 
 export const calculateEarnings = (hourlyRate: number, milliseconds: number): number => {
@@ -79,105 +100,251 @@ export const calculateEarnings = (hourlyRate: number, milliseconds: number): num
   return hourlyRate * hours;
 };
 
-export const getStartOfWeek = (date: Date | number, startDay: number = 0): Date => {
+export const getEntryWorkDuration = (entry: TimeEntry, now: number = Date.now()): number => {
+  if (!entry || !entry.startTime) return 0;
+  
+  const end = entry.endTime ?? now;
+  const breakDuration = (entry.breaks || []).reduce((total, breakItem) => {
+    if (!breakItem) return total;
+    if (breakItem.endTime) {
+      return total + (breakItem.endTime - breakItem.startTime);
+    } else if (entry.isOnBreak) {
+      return total + (now - breakItem.startTime);
+    }
+    return total;
+  }, 0);
+  
+  return Math.max(0, (end - entry.startTime) - breakDuration);
+};
+
+const ROUNDING_INTERVALS: Record<RoundingInterval, number> = {
+  '15min': 15 * 60 * 1000,
+  '30min': 30 * 60 * 1000,
+  '1hour': 60 * 60 * 1000,
+};
+
+const LEGACY_ROUNDING_INTERVALS: Record<RoundTimeType, number> = {
+  none: 0,
+  ...ROUNDING_INTERVALS,
+};
+
+// Rounds a worked duration according to the job's rounding settings.
+// Round up: time past an interval boundary only rounds up once it exceeds the buffer.
+// Round down: time within the buffer of the next boundary rounds up to it instead.
+// The legacy roundTime setting rounds to the nearest interval.
+export const roundDuration = (duration: number, settings?: JobSettings): number => {
+  if (!duration || duration <= 0) return 0;
+  
+  const rounding = settings?.timeRounding;
+  if (rounding?.enabled) {
+    const interval = ROUNDING_INTERVALS[rounding.interval];
+    if (!interval) return duration;
+    
+    const buffer = Math.min(Math.max(0, (rounding.bufferTime || 0) * 60 * 1000), interval);
+    const remainder = duration % interval;
+    if (remainder === 0) return duration;
+    
+    const lower = duration - remainder;
+    if (rounding.direction === 'up') {
+      return remainder <= buffer ? lower : lower + interval;
+    }
+    return interval - remainder <= buffer ? lower + interval : lower;
+  }
+  
+  const legacyInterval = settings?.roundTime ? LEGACY_ROUNDING_INTERVALS[settings.roundTime] : 0;
+  if (legacyInterval) {
+    return Math.round(duration / legacyInterval) * legacyInterval;
+  }
+  
+  return duration;
+};
+
+// Duration used for billing; running entries are not rounded until they are completed
+export const getEntryBillableDuration = (
+  entry: TimeEntry,
+  settings?: JobSettings,
+  now: number = Date.now()
+): number => {
+  const workDuration = getEntryWorkDuration(entry, now);
+  if (!entry || entry.endTime === null) return workDuration;
+  return roundDuration(workDuration, settings);
+};
+
+// Period boundaries are computed in timeZone (an IANA name, the device's zone when
+// omitted) and run from local midnight to the last millisecond before the next period,
+// so a period that crosses a DST change is still exactly its calendar days long.
+
+const startOf = (date: CalendarDate, timeZone: string): Date => {
+  return new Date(getStartOfCalendarDate(date, timeZone));
+};
+
+const endBefore = (nextStart: CalendarDate, timeZone: string): Date => {
+  return new Date(getStartOfCalendarDate(nextStart, timeZone) - 1);
+};
+
+// Weekdays run 0 (Sunday) to 6; anything else is wrapped into that range
+export const normalizeWeekday = (day: number): number => {
+  if (!Number.isInteger(day)) return 0;
+  return ((day % 7) + 7) % 7;
+};
+
+// The weekday a job's weeks start on, for weekly overtime and reminders. Only weekly and
+// biweekly schedules store a weekday; for the others the start day is a day of the month.
+export const getJobWeekStartDay = (settings?: JobSettings): number => {
+  const payPeriodType = settings?.payPeriodType ?? 'weekly';
+  if (payPeriodType !== 'weekly' && payPeriodType !== 'biweekly') return 0;
+  const startDay = settings?.payPeriodStartDay ?? 0;
+  return Number.isInteger(startDay) && startDay >= 0 && startDay <= 6 ? startDay : 0;
+};
+
+const getWeekStartDate = (date: CalendarDate, startDay: number): CalendarDate => {
+  const diff = (getWeekday(date) - normalizeWeekday(startDay) + 7) % 7;
+  return addCalendarDays(date, -diff);
+};
+
+export const getStartOfWeek = (date: Date | number, startDay: number = 0, timeZone?: string): Date => {
   // Handle both Date objects and timestamps
   const inputDate = typeof date === 'number' ? new Date(date) : date;
   
   if (!inputDate || isNaN(inputDate.getTime())) return new Date();
   
-  const day = inputDate.getDay();
-  const diff = (day < startDay ? 7 : 0) + day - startDay;
-  const result = new Date(inputDate);
-  result.setDate(inputDate.getDate() - diff);
-  result.setHours(0, 0, 0, 0);
-  return result;
+  const zone = resolveTimeZone(timeZone);
+  return startOf(getWeekStartDate(getCalendarDate(inputDate.getTime(), zone), startDay), zone);
 };
 
-export const getEndOfWeek = (date: Date | number, startDay: number = 0): Date => {
+export const getEndOfWeek = (date: Date | number, startDay: number = 0, timeZone?: string): Date => {
   // Handle both Date objects and timestamps
   const inputDate = typeof date === 'number' ? new Date(date) : date;
   
   if (!inputDate || isNaN(inputDate.getTime())) return new Date();
   
-  const start = getStartOfWeek(inputDate, startDay);
-  const result = new Date(start);
-  result.setDate(start.getDate() + 6);
-  result.setHours(23, 59, 59, 999);
-  return result;
+  const zone = resolveTimeZone(timeZone);
+  const start = getWeekStartDate(getCalendarDate(inputDate.getTime(), zone), startDay);
+  return endBefore(addCalendarDays(start, 7), zone);
 };
 
-export const getStartOfBiWeek = (date: Date | number, startDay: number = 0): Date => {
+// Sunday 4 January 1970; unanchored biweekly periods alternate from this week
+const BIWEEKLY_REFERENCE_DATE: CalendarDate = { year: 1970, month: 1, day: 4 };
+
+// Biweekly periods repeat every 14 days from anchorDate, the start of any real pay
+// period. Without an anchor they start on startDay in alternating weeks.
+const getBiWeekStartDate = (
+  date: CalendarDate,
+  startDay: number,
+  anchorDate: number | undefined,
+  timeZone: string
+): CalendarDate => {
+  const anchor = anchorDate !== undefined && !isNaN(anchorDate)
+    ? getCalendarDate(anchorDate, timeZone)
+    : getWeekStartDate(BIWEEKLY_REFERENCE_DATE, startDay);
+  const daysSinceAnchor = getDayNumber(date) - getDayNumber(anchor);
+  const biWeekOffset = ((daysSinceAnchor % 14) + 14) % 14;
+  return addCalendarDays(date, -biWeekOffset);
+};
+
+export const getStartOfBiWeek = (
+  date: Date | number,
+  startDay: number = 0,
+  anchorDate?: number,
+  timeZone?: string
+): Date => {
   // Handle both Date objects and timestamps
   const inputDate = typeof date === 'number' ? new Date(date) : date;
   
   if (!inputDate || isNaN(inputDate.getTime())) return new Date();
   
-  const start = getStartOfWeek(inputDate, startDay);
-  const daysSinceEpoch = Math.floor(start.getTime() / (24 * 60 * 60 * 1000));
-  const biWeekOffset = daysSinceEpoch % 14;
-  const result = new Date(start);
-  result.setDate(start.getDate() - biWeekOffset);
-  return result;
+  const zone = resolveTimeZone(timeZone);
+  return startOf(getBiWeekStartDate(getCalendarDate(inputDate.getTime(), zone), startDay, anchorDate, zone), zone);
 };
 
-export const getEndOfBiWeek = (date: Date | number, startDay: number = 0): Date => {
+export const getEndOfBiWeek = (
+  date: Date | number,
+  startDay: number = 0,
+  anchorDate?: number,
+  timeZone?: string
+): Date => {
   // Handle both Date objects and timestamps
   const inputDate = typeof date === 'number' ? new Date(date) : date;
   
   if (!inputDate || isNaN(inputDate.getTime())) return new Date();
   
-  const start = getStartOfBiWeek(inputDate, startDay);
-  const result = new Date(start);
-  result.setDate(start.getDate() + 13);
-  result.setHours(23, 59, 59, 999);
-  return result;
+  const zone = resolveTimeZone(timeZone);
+  const start = getBiWeekStartDate(getCalendarDate(inputDate.getTime(), zone), startDay, anchorDate, zone);
+  return endBefore(addCalendarDays(start, 14), zone);
 };
 
-export const getStartOfMonth = (date: Date | number, startDay: number = 1): Date => {
+// Semi-monthly periods run from the 1st to the 15th and from the 16th to the end of the month
+export const getStartOfSemiMonth = (date: Date | number, timeZone?: string): Date => {
   // Handle both Date objects and timestamps
   const inputDate = typeof date === 'number' ? new Date(date) : date;
   
   if (!inputDate || isNaN(inputDate.getTime())) return new Date();
   
-  const result = new Date(inputDate.getFullYear(), inputDate.getMonth(), startDay);
+  const zone = resolveTimeZone(timeZone);
+  const { year, month, day } = getCalendarDate(inputDate.getTime(), zone);
+  return startOf({ year, month, day: day <= 15 ? 1 : 16 }, zone);
+};
+
+export const getEndOfSemiMonth = (date: Date | number, timeZone?: string): Date => {
+  // Handle both Date objects and timestamps
+  const inputDate = typeof date === 'number' ? new Date(date) : date;
   
-  // If startDay is greater than the number of days in the month,
-  // we need to go back to the previous month
-  if (startDay > 28) {
-    const daysInMonth = new Date(inputDate.getFullYear(), inputDate.getMonth() + 1, 0).getDate();
-    if (startDay > daysInMonth) {
-      result.setDate(daysInMonth);
-    }
-  }
+  if (!inputDate || isNaN(inputDate.getTime())) return new Date();
   
-  // If the date is before the start day of the current month,
-  // we need to go back to the previous month's start day
-  if (inputDate.getDate() < startDay) {
-    result.setMonth(result.getMonth() - 1);
+  const zone = resolveTimeZone(timeZone);
+  const { year, month, day } = getCalendarDate(inputDate.getTime(), zone);
+  if (day <= 15) {
+    return endBefore({ year, month, day: 16 }, zone);
   }
+  return endBefore(month === 12 ? { year: year + 1, month: 1, day: 1 } : { year, month: month + 1, day: 1 }, zone);
+};
+
+// Monthly periods start on startDay, or the month's last day when it is shorter
+const getMonthStartDate = (year: number, month: number, startDay: number): CalendarDate => {
+  return { year, month, day: Math.min(Math.max(1, startDay), getDaysInMonth(year, month)) };
+};
+
+const shiftMonth = (year: number, month: number, delta: number): { year: number; month: number } => {
+  const index = year * 12 + (month - 1) + delta;
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+};
+
+const getMonthPeriodStartDate = (date: CalendarDate, startDay: number): CalendarDate => {
+  const current = getMonthStartDate(date.year, date.month, startDay);
+  if (date.day >= current.day) return current;
+  // Before this month's start day, so the period began last month
+  const previous = shiftMonth(date.year, date.month, -1);
+  return getMonthStartDate(previous.year, previous.month, startDay);
+};
+
+export const getStartOfMonth = (date: Date | number, startDay: number = 1, timeZone?: string): Date => {
+  // Handle both Date objects and timestamps
+  const inputDate = typeof date === 'number' ? new Date(date) : date;
+  
+  if (!inputDate || isNaN(inputDate.getTime())) return new Date();
   
-  result.setHours(0, 0, 0, 0);
-  return result;
+  const zone = resolveTimeZone(timeZone);
+  return startOf(getMonthPeriodStartDate(getCalendarDate(inputDate.getTime(), zone), startDay), zone);
 };
 
-export const getEndOfMonth = (date: Date | number, startDay: number = 1): Date => {
+export const getEndOfMonth = (date: Date | number, startDay: number = 1, timeZone?: string): Date => {
   // Handle both Date objects and timestamps
   const inputDate = typeof date === 'number' ? new Date(date) : date;
   
   if (!inputDate || isNaN(inputDate.getTime())) return new Date();
   
-  const start = getStartOfMonth(inputDate, startDay);
-  const result = new Date(start);
-  result.setMonth(result.getMonth() + 1);
-  result.setDate(result.getDate() - 1);
-  result.setHours(23, 59, 59, 999);
-  return result;
+  const zone = resolveTimeZone(timeZone);
+  const start = getMonthPeriodStartDate(getCalendarDate(inputDate.getTime(), zone), startDay);
+  const next = shiftMonth(start.year, start.month, 1);
+  return endBefore(getMonthStartDate(next.year, next.month, startDay), zone);
 };
 
 export const getPayPeriodDates = (
   date: Date | number, 
   periodType: string = 'weekly', 
-  startDay: number = 0
+  startDay: number = 0,
+  anchorDate?: number,
+  timeZone?: string
 ): { start: Date, end: Date } => {
   // Handle both Date objects and timestamps
   const inputDate = typeof date === 'number' ? new Date(date) : date;
@@ -185,31 +352,36 @@ export const getPayPeriodDates = (
   if (!inputDate || isNaN(inputDate.getTime())) {
     const now = new Date();
     return {
-      start: getStartOfWeek(now, startDay),
-      end: getEndOfWeek(now, startDay)
+      start: getStartOfWeek(now, startDay, timeZone),
+      end: getEndOfWeek(now, startDay, timeZone)
     };
   }
   
   switch (periodType) {
     case 'weekly':
       return {
-        start: getStartOfWeek(inputDate, startDay),
-        end: getEndOfWeek(inputDate, startDay)
+        start: getStartOfWeek(inputDate, startDay, timeZone),
+        end: getEndOfWeek(inputDate, startDay, timeZone)
       };
     case 'biweekly':
       return {
-        start: getStartOfBiWeek(inputDate, startDay),
-        end: getEndOfBiWeek(inputDate, startDay)
+        start: getStartOfBiWeek(inputDate, startDay, anchorDate, timeZone),
+        end: getEndOfBiWeek(inputDate, startDay, anchorDate, timeZone)
+      };
+    case 'semimonthly':
+      return {
+        start: getStartOfSemiMonth(inputDate, timeZone),
+        end: getEndOfSemiMonth(inputDate, timeZone)
       };
     case 'monthly':
       return {
-        start: getStartOfMonth(inputDate, startDay),
-        end: getEndOfMonth(inputDate, startDay)
+        start: getStartOfMonth(inputDate, startDay, timeZone),
+        end: getEndOfMonth(inputDate, startDay, timeZone)
       };
     default:
       return {
-        start: getStartOfWeek(inputDate, startDay),
-        end: getEndOfWeek(inputDate, startDay)
+        start: getStartOfWeek(inputDate, startDay, timeZone),
+        end: getEndOfWeek(inputDate, startDay, timeZone)
       };
   }
-};
\ No newline at end of file
+};
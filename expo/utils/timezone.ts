@@ -0,0 +1,160 @@
+// Calendar math in an explicit IANA timezone. Entries are stored as epoch milliseconds,
+// so day, week and period boundaries have to be worked out in the zone they belong to
+// rather than wherever the device happens to be.
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export interface ZonedDateTime extends CalendarDate {
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string | undefined | null): timeZone is string => {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+// The first valid zone in order of preference, falling back to the device's
+export const resolveTimeZone = (...candidates: (string | undefined | null)[]): string => {
+  return candidates.find(isValidTimeZone) ?? getDeviceTimeZone();
+};
+
+export const getZonedDateTime = (timestamp: number, timeZone: string): ZonedDateTime => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(new Date(timestamp)).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  // Some engines still report midnight as 24 with h23
+  const hour = parts.hour === 24 ? 0 : parts.hour;
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour,
+    minute: parts.minute,
+    second: parts.second,
+    weekday: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay(),
+  };
+};
+
+// Milliseconds to add to UTC to get the zone's wall-clock time at that instant
+export const getTimeZoneOffset = (timestamp: number, timeZone: string): number => {
+  const zoned = getZonedDateTime(timestamp, timeZone);
+  const wallClock = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+  return wallClock - Math.floor(timestamp / 1000) * 1000;
+};
+
+// The instant a wall-clock time occurs in the zone. Times skipped by a DST jump resolve
+// to the same wall-clock time in the offset before the jump, i.e. just after it.
+export const zonedTimeToTimestamp = (
+  date: CalendarDate,
+  timeZone: string,
+  hour: number = 0,
+  minute: number = 0,
+  second: number = 0,
+  millisecond: number = 0
+): number => {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, hour, minute, second, millisecond);
+  const firstOffset = getTimeZoneOffset(wallClock, timeZone);
+  const timestamp = wallClock - firstOffset;
+  const secondOffset = getTimeZoneOffset(timestamp, timeZone);
+  if (secondOffset !== firstOffset) {
+    const adjusted = wallClock - secondOffset;
+    if (getTimeZoneOffset(adjusted, timeZone) === secondOffset) return adjusted;
+  }
+  return timestamp;
+};
+
+export const getCalendarDate = (timestamp: number, timeZone: string): CalendarDate => {
+  const { year, month, day } = getZonedDateTime(timestamp, timeZone);
+  return { year, month, day };
+};
+
+// Whole days since 1970-01-01 for a calendar date; safe to subtract across DST changes
+export const getDayNumber = (date: CalendarDate): number => {
+  return Math.round(Date.UTC(date.year, date.month - 1, date.day) / MS_PER_DAY);
+};
+
+export const fromDayNumber = (dayNumber: number): CalendarDate => {
+  const date = new Date(dayNumber * MS_PER_DAY);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+export const addCalendarDays = (date: CalendarDate, days: number): CalendarDate => {
+  return fromDayNumber(getDayNumber(date) + days);
+};
+
+export const getWeekday = (date: CalendarDate): number => {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+};
+
+export const getDaysInMonth = (year: number, month: number): number => {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+// Midnight at the start of the calendar date in the zone
+export const getStartOfCalendarDate = (date: CalendarDate, timeZone: string): number => {
+  return zonedTimeToTimestamp(date, timeZone);
+};
+
+export const getStartOfZonedDay = (timestamp: number, timeZone: string): number => {
+  return getStartOfCalendarDate(getCalendarDate(timestamp, timeZone), timeZone);
+};
+
+const padDatePart = (value: number) => value.toString().padStart(2, '0');
+
+// Dates are typed as YYYY-MM-DD and read as midnight in the given zone
+export const formatDateInput = (timestamp: number | undefined, timeZone: string): string => {
+  if (!timestamp) return '';
+  const { year, month, day } = getCalendarDate(timestamp, timeZone);
+  return `${year}-${padDatePart(month)}-${padDatePart(day)}`;
+};
+
+export const parseDateInput = (value: string, timeZone: string): number | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  if (month < 1 || month > 12 || day < 1 || day > getDaysInMonth(year, month)) return null;
+  return getStartOfCalendarDate({ year, month, day }, timeZone);
+};
@@ -0,0 +1,18 @@
+import { resolve } from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': resolve(__dirname),
+    },
+  },
+  test: {
+    environment: 'node',
+    env: {
+      DATABASE_PATH: ':memory:',
+    },
+    include: ['**/__tests__/**/*.test.ts'],
+    exclude: ['node_modules/**'],
+  },
+});